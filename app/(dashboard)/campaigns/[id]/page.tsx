@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ImportModal } from "@/components/leads/import-modal";
+import { StepConditionEditor } from "@/components/sequences/step-condition-editor";
+import { describeCondition, type StepCondition } from "@/lib/utils/step-conditions";
 import {
   X,
   Star,
@@ -52,6 +54,11 @@ import {
   Target,
   Download,
   FileSpreadsheet,
+  Linkedin,
+  UserPlus,
+  Phone,
+  MessageCircle,
+  Library,
 } from "lucide-react";
 
 // Types
@@ -65,6 +72,35 @@ interface Campaign {
   emailsSent: number;
   replies: number;
   createdAt: string;
+  schedulingSettings: {
+    timezone: string;
+    sendingDays: string[];
+    sendingTimeStart: string;
+    sendingTimeEnd: string;
+    defaultIntervalDays?: number;
+    useRecipientTimezone?: boolean;
+  } | null;
+  dailyLimit: number | null;
+  tags: string[] | null;
+  senderRotation: string | null;
+  preferredDomainIds: string[] | null;
+}
+
+interface SendingDomainOption {
+  id: string;
+  fromEmail: string;
+  fromName: string;
+  isActive: boolean;
+}
+
+interface PauseHistoryEntry {
+  id: string;
+  leadName: string | null;
+  action: "paused" | "resumed";
+  reason: string | null;
+  userName: string | null;
+  touchpoints: number;
+  createdAt: string | null;
 }
 
 interface SequenceStep {
@@ -74,6 +110,29 @@ interface SequenceStep {
   delayDays: number;
   subject: string | null;
   body: string | null;
+  condition?: StepCondition | null;
+  talkingPoints?: string[] | null;
+}
+
+interface SequenceLibraryInfo {
+  id: string;
+  name: string;
+  version: number; // Version these steps were copied from
+  latestVersion: number;
+}
+
+interface RenderedStep {
+  stepNumber: number;
+  subject: string;
+  body: string;
+  missing: string[];
+}
+
+interface UnresolvedVariables {
+  leadId: string;
+  leadName: string;
+  stepNumber: number;
+  variables: string[];
 }
 
 interface Lead {
@@ -84,6 +143,9 @@ interface Lead {
   jobTitle: string;
   schoolName: string;
   status: string;
+  pausedAt?: string | null;
+  pausedUntil?: string | null;
+  referredByLeadId?: string | null;
   leadScore: number | null;
 }
 
@@ -112,6 +174,21 @@ const LEAD_STATUSES = [
   { value: "unsubscribed", label: "Unsubscribed", color: "gray" },
 ] as const;
 
+// Step channels. Everything but email becomes a manual task for an SDR (see /tasks).
+const STEP_CHANNELS = {
+  email: { label: "Email", icon: Mail, color: "bg-blue-100 text-blue-600" },
+  linkedin_connection: { label: "LinkedIn connect", icon: UserPlus, color: "bg-sky-100 text-sky-600" },
+  linkedin_message: { label: "LinkedIn message", icon: Linkedin, color: "bg-sky-100 text-sky-600" },
+  phone_call: { label: "Call", icon: Phone, color: "bg-amber-100 text-amber-600" },
+  whatsapp: { label: "WhatsApp", icon: MessageCircle, color: "bg-emerald-100 text-emerald-600" },
+  sms: { label: "SMS", icon: MessageSquare, color: "bg-violet-100 text-violet-600" },
+} as const;
+
+type StepChannel = keyof typeof STEP_CHANNELS;
+
+const getStepChannel = (channel: string) =>
+  STEP_CHANNELS[channel as StepChannel] || STEP_CHANNELS.email;
+
 // Status toggle component
 function StatusToggle({
   isActive,
@@ -268,6 +345,7 @@ export default function CampaignDetailPage() {
 
   // Sequence state
   const [steps, setSteps] = useState<SequenceStep[]>([]);
+  const [sequenceLibrary, setSequenceLibrary] = useState<SequenceLibraryInfo | null>(null);
   const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
   const [loadingSteps, setLoadingSteps] = useState(true);
 
@@ -315,6 +393,7 @@ export default function CampaignDetailPage() {
       if (response.ok) {
         const data = await response.json();
         setSteps(data.steps || []);
+        setSequenceLibrary(data.library || null);
         if (data.steps?.length > 0 && !selectedStepId) {
           setSelectedStepId(data.steps[0].id);
         }
@@ -359,17 +438,26 @@ export default function CampaignDetailPage() {
   const toggleStatus = async () => {
     if (!campaign) return;
     const newStatus = campaign.status === "active" ? "paused" : "active";
+    const reason = prompt(
+      newStatus === "paused" ? "Why are you pausing this campaign? (optional)" : "Why are you resuming this campaign? (optional)"
+    );
+    if (reason === null) return;
     setUpdatingStatus(true);
 
     try {
-      await fetch("/api/campaigns", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          id: campaign.id,
-          updates: { status: newStatus },
-        }),
-      });
+      // Pause freezes pending steps; resume pushes them back by the time paused
+      const response = await fetch(
+        `/api/campaigns/${campaign.id}/${newStatus === "paused" ? "pause" : "resume"}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reason }),
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update status");
+      }
       setCampaign({ ...campaign, status: newStatus });
     } catch (error) {
       console.error("Failed to update status:", error);
@@ -399,13 +487,13 @@ export default function CampaignDetailPage() {
   };
 
   // Add a new sequence step
-  const addStep = async (type: "email" | "wait") => {
+  const addStep = async (type: StepChannel | "wait") => {
     const newStep: Partial<SequenceStep> = {
       stepNumber: steps.length + 1,
-      channel: type === "email" ? "email" : "email", // wait is still "email" channel, just with delay
+      channel: type === "wait" ? "email" : type, // wait is still "email" channel, just with delay
       delayDays: type === "wait" ? 2 : 0,
       subject: type === "email" ? "" : null,
-      body: type === "email" ? "" : null,
+      body: type === "wait" ? null : "",
     };
 
     try {
@@ -527,7 +615,7 @@ export default function CampaignDetailPage() {
         <StatusToggle
           isActive={campaign.status === "active"}
           onChange={toggleStatus}
-          disabled={updatingStatus || campaign.status === "draft"}
+          disabled={updatingStatus || !["active", "paused"].includes(campaign.status)}
         />
 
         {/* Favorite */}
@@ -612,6 +700,7 @@ export default function CampaignDetailPage() {
             onUpdateStep={updateStep}
             loadingSteps={loadingSteps}
             onRefresh={fetchSequence}
+            library={sequenceLibrary}
           />
         )}
 
@@ -946,22 +1035,59 @@ function SequenceTab({
   onUpdateStep,
   loadingSteps,
   onRefresh,
+  library,
 }: {
   campaignId: string;
   steps: SequenceStep[];
   selectedStepId: string | null;
   setSelectedStepId: (id: string | null) => void;
   selectedStep: SequenceStep | undefined;
-  onAddStep: (type: "email" | "wait") => void;
+  onAddStep: (type: StepChannel | "wait") => void;
   onDeleteStep: (id: string) => void;
   onUpdateStep: (id: string, updates: Partial<SequenceStep>) => void;
   loadingSteps: boolean;
   onRefresh: () => void;
+  library: SequenceLibraryInfo | null;
 }) {
   const [showAddMenu, setShowAddMenu] = useState(false);
   const [generating, setGenerating] = useState(false);
+  const [savingToLibrary, setSavingToLibrary] = useState(false);
   const [generateMessage, setGenerateMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
+  const handleSaveToLibrary = async () => {
+    // Steps copied from the library can go back as its next version
+    const asNewVersion = !!library && confirm(
+      `Save these steps as version ${library.latestVersion + 1} of "${library.name}"? ` +
+        "Campaigns using earlier versions keep their steps. Cancel to save a new library sequence instead."
+    );
+
+    setSavingToLibrary(true);
+    setGenerateMessage(null);
+
+    try {
+      const response = await fetch("/api/sequence-library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ campaignId, libraryId: asNewVersion ? library?.id : undefined }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setGenerateMessage({
+          type: "success",
+          text: `Saved to library as "${data.library.name}" v${data.version.version}`,
+        });
+      } else {
+        setGenerateMessage({ type: "error", text: data.error || "Failed to save to library" });
+      }
+    } catch (error) {
+      setGenerateMessage({ type: "error", text: "Failed to save to library" });
+    } finally {
+      setSavingToLibrary(false);
+    }
+  };
+
   const handleGenerateWithAI = async () => {
     if (steps.length === 0) {
       setGenerateMessage({ type: "error", text: "Add at least one email step first" });
@@ -1032,6 +1158,19 @@ function SequenceTab({
             <div className="flex items-center justify-between mb-1">
               <h3 className="font-semibold text-gray-900">Sequence Steps</h3>
               <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleSaveToLibrary}
+                  disabled={savingToLibrary || steps.length === 0}
+                  title="Save to sequence library"
+                >
+                  {savingToLibrary ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Library className="h-4 w-4" />
+                  )}
+                </Button>
                 {!abTestEnabled && (
                   <Button
                     size="sm"
@@ -1067,6 +1206,15 @@ function SequenceTab({
             <p className="text-sm text-gray-500">
               Define the email sequence for this campaign
             </p>
+            {library && (
+              <p className="text-xs text-gray-500 mt-1">
+                <Library className="h-3 w-3 inline mr-1" />
+                From library: {library.name} v{library.version}
+                {library.latestVersion > library.version && (
+                  <span className="text-amber-600"> (v{library.latestVersion} available)</span>
+                )}
+              </p>
+            )}
             {generateMessage && (
               <div className={`mt-2 p-2 rounded text-sm ${
                 generateMessage.type === "success"
@@ -1117,13 +1265,20 @@ function SequenceTab({
                   <div className="flex items-start gap-3">
                     <div className="flex items-center gap-2">
                       <GripVertical className="h-4 w-4 text-gray-400 cursor-grab" />
-                      <div className="w-6 h-6 bg-blue-100 rounded flex items-center justify-center">
-                        <Mail className="h-3 w-3 text-blue-600" />
-                      </div>
+                      {(() => {
+                        const { icon: StepIcon, color } = getStepChannel(step.channel);
+                        return (
+                          <div className={`w-6 h-6 rounded flex items-center justify-center ${color}`}>
+                            <StepIcon className="h-3 w-3" />
+                          </div>
+                        );
+                      })()}
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between mb-1">
-                        <span className="font-medium text-gray-900">Email {step.stepNumber}</span>
+                        <span className="font-medium text-gray-900">
+                          {getStepChannel(step.channel).label} {step.stepNumber}
+                        </span>
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -1135,7 +1290,9 @@ function SequenceTab({
                         </button>
                       </div>
                       <p className="text-sm text-gray-500 truncate">
-                        {step.subject || "No subject"}
+                        {step.channel === "email"
+                          ? step.subject || "No subject"
+                          : step.body || `${step.talkingPoints?.length || 0} talking points`}
                       </p>
                       {index === 0 && (
                         <span className="text-xs text-blue-600">Send immediately</span>
@@ -1144,14 +1301,21 @@ function SequenceTab({
                   </div>
                 </div>
 
-                {/* Condition Branch Option (Lemlist-style) */}
+                {/* Condition Branch Option (Lemlist-style) - conditions live on the next step */}
                 {index < steps.length - 1 && (
                   <div className="ml-4 pl-4 border-l-2 border-dashed border-gray-200 py-2">
-                    <button className="flex items-center gap-2 text-xs text-gray-400 hover:text-blue-600 transition-colors group">
+                    <button
+                      onClick={() => setSelectedStepId(steps[index + 1].id)}
+                      className="flex items-center gap-2 text-xs text-gray-400 hover:text-blue-600 transition-colors group"
+                    >
                       <div className="w-5 h-5 rounded-full border border-dashed border-gray-300 group-hover:border-blue-400 flex items-center justify-center">
                         <Plus className="h-3 w-3" />
                       </div>
-                      <span>Add condition</span>
+                      <span>
+                        {steps[index + 1].condition?.rules.length
+                          ? describeCondition(steps[index + 1].condition)
+                          : "Add condition"}
+                      </span>
                     </button>
                   </div>
                 )}
@@ -1192,6 +1356,26 @@ function SequenceTab({
                       <Clock className="h-4 w-4 text-gray-500" />
                       Wait
                     </button>
+                    <div className="border-t my-1" />
+                    <p className="px-4 py-1 text-xs text-gray-400">Manual tasks</p>
+                    {(Object.keys(STEP_CHANNELS) as StepChannel[])
+                      .filter((channel) => channel !== "email")
+                      .map((channel) => {
+                        const { label, icon: ChannelIcon } = STEP_CHANNELS[channel];
+                        return (
+                          <button
+                            key={channel}
+                            onClick={() => {
+                              onAddStep(channel);
+                              setShowAddMenu(false);
+                            }}
+                            className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50 flex items-center gap-2"
+                          >
+                            <ChannelIcon className="h-4 w-4 text-gray-500" />
+                            {label}
+                          </button>
+                        );
+                      })}
                   </div>
                 </>
               )}
@@ -1233,7 +1417,11 @@ function StepEditor({
   const [subject, setSubject] = useState(step.subject || "");
   const [body, setBody] = useState(step.body || "");
   const [delayDays, setDelayDays] = useState(step.delayDays);
+  const [condition, setCondition] = useState<StepCondition | null>(step.condition || null);
+  const [talkingPoints, setTalkingPoints] = useState((step.talkingPoints || []).join("\n"));
   const [saving, setSaving] = useState(false);
+  const isEmail = step.channel === "email";
+  const channel = getStepChannel(step.channel);
   const [hasChanges, setHasChanges] = useState(false);
 
   // A/B Test variations
@@ -1245,23 +1433,33 @@ function StepEditor({
     setSubject(step.subject || "");
     setBody(step.body || "");
     setDelayDays(step.delayDays);
+    setCondition(step.condition || null);
+    setTalkingPoints((step.talkingPoints || []).join("\n"));
     setHasChanges(false);
     setActiveVariation("A");
     setVariationB({ subject: "", body: "" });
-  }, [step.id, step.subject, step.body, step.delayDays]);
+  }, [step.id, step.subject, step.body, step.delayDays, step.condition, step.talkingPoints]);
 
   // Track changes
   useEffect(() => {
     const changed =
       subject !== (step.subject || "") ||
       body !== (step.body || "") ||
-      delayDays !== step.delayDays;
+      delayDays !== step.delayDays ||
+      JSON.stringify(condition) !== JSON.stringify(step.condition || null) ||
+      talkingPoints !== (step.talkingPoints || []).join("\n");
     setHasChanges(changed);
-  }, [subject, body, delayDays, step]);
+  }, [subject, body, delayDays, condition, talkingPoints, step]);
 
   const handleSave = async () => {
     setSaving(true);
-    await onUpdate(step.id, { subject, body, delayDays });
+    await onUpdate(step.id, {
+      subject,
+      body,
+      delayDays,
+      condition,
+      ...(isEmail ? {} : { talkingPoints: talkingPoints.split("\n").map((p) => p.trim()).filter(Boolean) }),
+    });
     setHasChanges(false);
     setSaving(false);
   };
@@ -1284,12 +1482,14 @@ function StepEditor({
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b bg-gray-50 rounded-t-xl">
           <div className="flex items-center gap-3">
-            <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-              <Mail className="h-5 w-5 text-blue-600" />
+            <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${channel.color}`}>
+              <channel.icon className="h-5 w-5" />
             </div>
             <div>
-              <h3 className="font-semibold text-gray-900">Email {step.stepNumber}</h3>
-              <p className="text-sm text-gray-500">Edit content below</p>
+              <h3 className="font-semibold text-gray-900">{channel.label} {step.stepNumber}</h3>
+              <p className="text-sm text-gray-500">
+                {isEmail ? "Edit content below" : "Manual task - an SDR completes it from the Tasks page"}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -1385,37 +1585,52 @@ function StepEditor({
             </div>
           )}
 
+          {/* Branching */}
+          {step.stepNumber > 1 && (
+            <div className="mb-6">
+              <StepConditionEditor
+                stepNumber={step.stepNumber}
+                condition={condition}
+                onChange={setCondition}
+              />
+            </div>
+          )}
+
           {/* Subject */}
-          <div className="mb-6">
-            <div className="flex items-center justify-between mb-2">
-              <label className="block text-sm font-medium text-gray-700">Subject Line</label>
-              <div className="flex gap-1">
-                {["{{firstName}}", "{{schoolName}}"].map((p) => (
-                  <button
-                    key={p}
-                    onClick={() => insertPlaceholder(p, "subject")}
-                    className="text-xs px-2 py-1 bg-blue-50 text-blue-600 rounded hover:bg-blue-100"
-                  >
-                    + {p.replace(/\{|\}/g, "")}
-                  </button>
-                ))}
+          {isEmail && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">Subject Line</label>
+                <div className="flex gap-1">
+                  {["{{firstName}}", "{{schoolName}}"].map((p) => (
+                    <button
+                      key={p}
+                      onClick={() => insertPlaceholder(p, "subject")}
+                      className="text-xs px-2 py-1 bg-blue-50 text-blue-600 rounded hover:bg-blue-100"
+                    >
+                      + {p.replace(/\{|\}/g, "")}
+                    </button>
+                  ))}
+                </div>
               </div>
+              <Input
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                placeholder="Enter email subject line..."
+                className="text-base"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Keep under 50 characters. Current: {subject.length} chars
+              </p>
             </div>
-            <Input
-              value={subject}
-              onChange={(e) => setSubject(e.target.value)}
-              placeholder="Enter email subject line..."
-              className="text-base"
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              Keep under 50 characters. Current: {subject.length} chars
-            </p>
-          </div>
+          )}
 
           {/* Body */}
           <div>
             <div className="flex items-center justify-between mb-2">
-              <label className="block text-sm font-medium text-gray-700">Email Body</label>
+              <label className="block text-sm font-medium text-gray-700">
+                {isEmail ? "Email Body" : step.channel === "phone_call" ? "Call Opener" : "Message"}
+              </label>
               <div className="flex gap-1">
                 {["{{firstName}}", "{{lastName}}", "{{schoolName}}", "{{jobTitle}}"].map((p) => (
                   <button
@@ -1431,32 +1646,52 @@ function StepEditor({
             <textarea
               value={body}
               onChange={(e) => setBody(e.target.value)}
-              placeholder="Write your email content here..."
-              className="w-full h-80 p-4 border rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 text-base leading-relaxed"
+              placeholder={isEmail ? "Write your email content here..." : "Optional - the SDR can also write it with AI per lead"}
+              className={`w-full ${isEmail ? "h-80" : "h-40"} p-4 border rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 text-base leading-relaxed`}
             />
-            <div className="flex items-center justify-between mt-2">
-              <p className="text-xs text-gray-500">
-                Tip: Keep emails under 150 words for best response rates
+            {isEmail && (
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-xs text-gray-500">
+                  Tip: Keep emails under 150 words for best response rates
+                </p>
+                <span className={`text-xs font-medium ${isOverLimit ? "text-red-500" : "text-gray-500"}`}>
+                  {wordCount} / 150 words {isOverLimit && "(over limit)"}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {/* Talking points (manual steps) */}
+          {!isEmail && (
+            <div className="mt-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Talking Points</label>
+              <textarea
+                value={talkingPoints}
+                onChange={(e) => setTalkingPoints(e.target.value)}
+                placeholder={"One per line, e.g.\nMention their {{curriculum}} programme\nAsk how they handle assessment today"}
+                className="w-full h-32 p-4 border rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Placeholders work here too. Marking the task done or skipped moves the lead to the next step.
               </p>
-              <span className={`text-xs font-medium ${isOverLimit ? "text-red-500" : "text-gray-500"}`}>
-                {wordCount} / 150 words {isOverLimit && "(over limit)"}
-              </span>
             </div>
-          </div>
+          )}
 
           {/* Quick tips */}
-          <div className="mt-6 p-4 bg-amber-50 rounded-lg border border-amber-200">
-            <h4 className="text-sm font-medium text-amber-800 mb-2">
-              <AlertCircle className="h-4 w-4 inline mr-1" />
-              Writing Tips
-            </h4>
-            <ul className="text-xs text-amber-700 space-y-1">
-              <li>• Be specific about what you offer - avoid vague language</li>
-              <li>• Personalize using placeholders like {"{{firstName}}"} and {"{{schoolName}}"}</li>
-              <li>• One clear call-to-action per email (usually asking for a quick call)</li>
-              <li>• No buzzwords, exclamation marks, or ALL CAPS</li>
-            </ul>
-          </div>
+          {isEmail && (
+            <div className="mt-6 p-4 bg-amber-50 rounded-lg border border-amber-200">
+              <h4 className="text-sm font-medium text-amber-800 mb-2">
+                <AlertCircle className="h-4 w-4 inline mr-1" />
+                Writing Tips
+              </h4>
+              <ul className="text-xs text-amber-700 space-y-1">
+                <li>• Be specific about what you offer - avoid vague language</li>
+                <li>• Personalize using placeholders like {"{{firstName}}"} and {"{{schoolName}}"}</li>
+                <li>• One clear call-to-action per email (usually asking for a quick call)</li>
+                <li>• No buzzwords, exclamation marks, or ALL CAPS</li>
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1485,9 +1720,40 @@ function LeadsTab({
   const [searchQuery, setSearchQuery] = useState("");
   const [showImportModal, setShowImportModal] = useState(false);
   const [statusFilter, setStatusFilter] = useState("all");
+  const [pausingLeadId, setPausingLeadId] = useState<string | null>(null);
+
+  // Pause or resume one lead's sequence, with an optional reason for the history
+  const toggleLeadPause = async (lead: Lead) => {
+    const action = lead.pausedAt ? "resume" : "pause";
+    const reason = prompt(
+      action === "pause" ? `Why are you pausing ${lead.firstName}? (optional)` : `Why are you resuming ${lead.firstName}? (optional)`
+    );
+    if (reason === null) return;
+
+    setPausingLeadId(lead.id);
+    try {
+      const res = await fetch(`/api/leads/${lead.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || `Failed to ${action} lead`);
+      }
+      onRefresh();
+    } catch (error) {
+      console.error(`Failed to ${action} lead:`, error);
+    } finally {
+      setPausingLeadId(null);
+    }
+  };
   const [showStatusDropdown, setShowStatusDropdown] = useState(false);
   const [showBulkActions, setShowBulkActions] = useState(false);
 
+  // Referrers are in the same campaign, so their names come from this list
+  const leadNames = new Map(leads.map((lead) => [lead.id, `${lead.firstName} ${lead.lastName}`.trim()]));
+
   // Count leads by status
   const statusCounts = leads.reduce((acc, lead) => {
     acc[lead.status] = (acc[lead.status] || 0) + 1;
@@ -1774,6 +2040,11 @@ function LeadsTab({
                           {lead.firstName} {lead.lastName}
                         </p>
                         <p className="text-sm text-gray-500">{lead.email}</p>
+                        {lead.referredByLeadId && (
+                          <p className="text-xs text-purple-600">
+                            Referred by {leadNames.get(lead.referredByLeadId) || "another lead"}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </td>
@@ -1785,6 +2056,11 @@ function LeadsTab({
                     <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(lead.status)}`}>
                       {lead.status.replace(/_/g, " ")}
                     </span>
+                    {lead.pausedAt && (
+                      <span className="ml-1 px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-700">
+                        {lead.pausedUntil ? `paused until ${new Date(lead.pausedUntil).toLocaleDateString()}` : "paused"}
+                      </span>
+                    )}
                   </td>
                   <td className="px-4 py-3">
                     <div className="flex items-center gap-2">
@@ -1834,6 +2110,23 @@ function LeadsTab({
                       >
                         <UserX className="h-4 w-4 text-gray-400 hover:text-orange-600" />
                       </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleLeadPause(lead);
+                        }}
+                        disabled={pausingLeadId === lead.id}
+                        className="p-1.5 hover:bg-gray-100 rounded"
+                        title={lead.pausedAt ? "Resume sequence" : "Pause sequence"}
+                      >
+                        {pausingLeadId === lead.id ? (
+                          <Loader2 className="h-4 w-4 text-gray-400 animate-spin" />
+                        ) : lead.pausedAt ? (
+                          <Play className="h-4 w-4 text-gray-400 hover:text-green-600" />
+                        ) : (
+                          <Pause className="h-4 w-4 text-gray-400 hover:text-amber-600" />
+                        )}
+                      </button>
                       <button
                         className="p-1.5 hover:bg-gray-100 rounded"
                         title="More actions"
@@ -1879,6 +2172,7 @@ function LaunchTab({
 }) {
   const [activeSubTab, setActiveSubTab] = useState<"to_launch" | "launched">("to_launch");
   const [launching, setLaunching] = useState(false);
+  const [personalize, setPersonalize] = useState(false);
   const [launchMessage, setLaunchMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
   // Separate leads by status
@@ -1902,6 +2196,30 @@ function LaunchTab({
 
   const selectedLead = leads.find((l) => l.id === selectedLeadId);
 
+  // Rendered by the same template engine the sender uses
+  const [preview, setPreview] = useState<Record<number, RenderedStep>>({});
+
+  useEffect(() => {
+    if (!selectedLeadId || steps.length === 0) return;
+    let cancelled = false;
+
+    fetch(`/api/campaigns/${campaign.id}/preview?leadId=${selectedLeadId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        const byStep: Record<number, RenderedStep> = {};
+        for (const step of data.steps as RenderedStep[]) {
+          byStep[step.stepNumber] = step;
+        }
+        setPreview(byStep);
+      })
+      .catch((error) => console.error("Failed to load preview:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaign.id, selectedLeadId, steps]);
+
   const handleLaunch = async (sendNow: boolean = true) => {
     setLaunching(true);
     setLaunchMessage(null);
@@ -1912,12 +2230,19 @@ function LaunchTab({
         body: JSON.stringify({
           leadIds: leadsToLaunch.map((l) => l.id),
           sendNow, // Send first email immediately if true
+          personalize, // Write each lead's own copy with AI
         }),
       });
       const data = await response.json();
 
       if (response.ok) {
         let message = `Successfully launched ${data.launchedLeads} leads with ${data.touchpointsScheduled} scheduled touchpoints!`;
+        if (data.personalization) {
+          const { leads: written, held, failed } = data.personalization;
+          message += ` Personalised copy for ${written} lead(s).`;
+          if (held > 0) message += ` ${held} low-confidence step(s) are waiting for review.`;
+          if (failed > 0) message += ` ${failed} lead(s) will get the template copy.`;
+        }
         if (data.sendResult?.sent > 0) {
           message += ` ${data.sendResult.sent} email(s) sent.`;
         }
@@ -1926,7 +2251,15 @@ function LaunchTab({
         // Switch to launched tab after successful launch
         setActiveSubTab("launched");
       } else {
-        setLaunchMessage({ type: "error", text: data.error || "Failed to launch" });
+        let text = data.error || "Failed to launch";
+        if (Array.isArray(data.unresolved)) {
+          const lines = (data.unresolved as UnresolvedVariables[])
+            .slice(0, 5)
+            .map((u) => `${u.leadName} (step ${u.stepNumber}): ${u.variables.join(", ")}`);
+          if (data.unresolved.length > 5) lines.push(`…and ${data.unresolved.length - 5} more`);
+          text += `\n${lines.join("\n")}`;
+        }
+        setLaunchMessage({ type: "error", text });
       }
     } catch (error) {
       console.error("Failed to launch:", error);
@@ -2017,7 +2350,7 @@ function LaunchTab({
 
         {/* Launch message */}
         {launchMessage && (
-          <div className={`mx-4 mb-2 p-3 rounded-lg text-sm ${
+          <div className={`mx-4 mb-2 p-3 rounded-lg text-sm whitespace-pre-line ${
             launchMessage.type === "success"
               ? "bg-green-50 text-green-700 border border-green-200"
               : "bg-red-50 text-red-700 border border-red-200"
@@ -2028,6 +2361,15 @@ function LaunchTab({
 
         {/* Launch button */}
         <div className="p-4 border-t">
+          <label className="flex items-center gap-2 mb-3 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={personalize}
+              onChange={(e) => setPersonalize(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Personalise copy for each lead with AI
+          </label>
           <Button
             className="w-full bg-green-500 hover:bg-green-600"
             disabled={leadsToLaunch.length === 0 || steps.length === 0 || launching}
@@ -2105,18 +2447,16 @@ function LaunchTab({
 
                         <div className="bg-gray-50 rounded-lg p-4">
                           <div className="font-medium text-gray-900 mb-2">
-                            {(step.subject || "No subject")
-                              .replace("{{firstName}}", selectedLead.firstName)
-                              .replace("{{lastName}}", selectedLead.lastName)
-                              .replace("{{schoolName}}", selectedLead.schoolName)}
+                            {(preview[step.stepNumber]?.subject ?? step.subject) || "No subject"}
                           </div>
                           <div className="text-sm text-gray-600 whitespace-pre-wrap">
-                            {(step.body || "No content")
-                              .replace(/\{\{firstName\}\}/g, selectedLead.firstName)
-                              .replace(/\{\{lastName\}\}/g, selectedLead.lastName)
-                              .replace(/\{\{schoolName\}\}/g, selectedLead.schoolName)
-                              .replace(/\{\{jobTitle\}\}/g, selectedLead.jobTitle)}
+                            {(preview[step.stepNumber]?.body ?? step.body) || "No content"}
                           </div>
+                          {(preview[step.stepNumber]?.missing.length ?? 0) > 0 && (
+                            <div className="mt-3 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1">
+                              Missing for this lead: {preview[step.stepNumber].missing.join(", ")}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -2152,27 +2492,90 @@ function SettingsTab({
   const [trackClicks, setTrackClicks] = useState(true);
   const [stopOnReply, setStopOnReply] = useState(true);
   const [stopOnMeeting, setStopOnMeeting] = useState(true);
-  const [sendingWindow, setSendingWindow] = useState({ start: "09:00", end: "18:00" });
-  const [sendingDays, setSendingDays] = useState({
-    monday: true,
-    tuesday: true,
-    wednesday: true,
-    thursday: true,
-    friday: true,
-    saturday: false,
-    sunday: false,
+  const scheduling = campaign.schedulingSettings;
+  const [sendingWindow, setSendingWindow] = useState({
+    start: scheduling?.sendingTimeStart || "09:00",
+    end: scheduling?.sendingTimeEnd || "18:00",
+  });
+  const [sendingDays, setSendingDays] = useState(() => {
+    const days = scheduling?.sendingDays || ["monday", "tuesday", "wednesday", "thursday", "friday"];
+    return Object.fromEntries(
+      ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"].map((day) => [day, days.includes(day)])
+    );
   });
-  const [dailyLimit, setDailyLimit] = useState(50);
-  const [tags, setTags] = useState<string[]>([]);
+  const [dailyLimit, setDailyLimit] = useState(campaign.dailyLimit ?? 0);
+  const [tags, setTags] = useState<string[]>(campaign.tags || []);
   const [newTag, setNewTag] = useState("");
-  const [timezone, setTimezone] = useState("America/New_York");
+  const [timezone, setTimezone] = useState(scheduling?.timezone || "America/New_York");
   const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [pauseHistory, setPauseHistory] = useState<PauseHistoryEntry[]>([]);
+  const [senderRotation, setSenderRotation] = useState(campaign.senderRotation || "auto");
+  const [preferredDomainIds, setPreferredDomainIds] = useState<string[]>(campaign.preferredDomainIds || []);
+  const [domains, setDomains] = useState<SendingDomainOption[]>([]);
+
+  useEffect(() => {
+    fetch("/api/domains")
+      .then((res) => res.json())
+      .then((data) => setDomains(data.domains || []))
+      .catch((error) => console.error("Failed to fetch domains:", error));
+  }, []);
+
+  useEffect(() => {
+    fetch(`/api/campaigns/${campaign.id}/pause-history`)
+      .then((res) => res.json())
+      .then((data) => setPauseHistory(data.history || []))
+      .catch((error) => console.error("Failed to fetch pause history:", error));
+  }, [campaign.id, campaign.status]);
 
   const handleSave = async () => {
+    // No days would mean "any day" to the sender
+    if (!Object.values(sendingDays).some(Boolean)) {
+      setSaveMessage({ type: "error", text: "Pick at least one sending day" });
+      return;
+    }
+    if (senderRotation === "fixed" && preferredDomainIds.length === 0) {
+      setSaveMessage({ type: "error", text: "Pick the domain to send from" });
+      return;
+    }
+
     setSaving(true);
-    // Simulate save - in production, this would call the API
-    await new Promise((resolve) => setTimeout(resolve, 500));
-    setSaving(false);
+    setSaveMessage(null);
+    try {
+      const res = await fetch(`/api/campaigns/${campaign.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          schedulingSettings: {
+            ...scheduling,
+            timezone,
+            sendingDays: Object.entries(sendingDays).filter(([, enabled]) => enabled).map(([day]) => day),
+            sendingTimeStart: sendingWindow.start,
+            sendingTimeEnd: sendingWindow.end,
+          },
+          dailyLimit: dailyLimit > 0 ? dailyLimit : null,
+          tags,
+          senderRotation,
+          // A fixed sender only uses the first one
+          preferredDomainIds: senderRotation === "fixed" ? preferredDomainIds.slice(0, 1) : preferredDomainIds,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save settings");
+
+      onUpdate({
+        schedulingSettings: data.campaign.schedulingSettings,
+        dailyLimit: data.campaign.dailyLimit,
+        tags: data.campaign.tags,
+        senderRotation: data.campaign.senderRotation,
+        preferredDomainIds: data.campaign.preferredDomainIds,
+      });
+      setSaveMessage({ type: "success", text: "Settings saved" });
+    } catch (error) {
+      setSaveMessage({ type: "error", text: error instanceof Error ? error.message : "Failed to save settings" });
+    } finally {
+      setSaving(false);
+    }
   };
 
   const addTag = () => {
@@ -2186,6 +2589,16 @@ function SettingsTab({
     setTags(tags.filter((t) => t !== tag));
   };
 
+  const toggleDomain = (domainId: string) => {
+    if (senderRotation === "fixed") {
+      setPreferredDomainIds([domainId]);
+    } else if (preferredDomainIds.includes(domainId)) {
+      setPreferredDomainIds(preferredDomainIds.filter((id) => id !== domainId));
+    } else {
+      setPreferredDomainIds([...preferredDomainIds, domainId]);
+    }
+  };
+
   return (
     <div className="h-full overflow-auto p-6">
       <div className="max-w-3xl mx-auto space-y-6">
@@ -2363,18 +2776,72 @@ function SettingsTab({
                   value={dailyLimit}
                   onChange={(e) => setDailyLimit(parseInt(e.target.value) || 0)}
                   className="w-24"
-                  min={1}
+                  min={0}
                   max={500}
                 />
-                <span className="text-sm text-gray-500">emails per day per sender</span>
+                <span className="text-sm text-gray-500">emails per day for this campaign</span>
               </div>
               <p className="text-xs text-gray-400 mt-1">
-                Recommended: 50-100 for warmed-up domains, 10-25 for new domains
+                0 for no campaign limit. Each domain&apos;s warmup limit still applies on top.
               </p>
             </div>
           </div>
         </div>
 
+        {/* Senders */}
+        <div className="bg-white rounded-xl border p-6">
+          <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <Mail className="h-5 w-5 text-gray-400" />
+            Senders
+          </h3>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Sender rotation</label>
+              <select
+                value={senderRotation}
+                onChange={(e) => {
+                  setSenderRotation(e.target.value);
+                  if (e.target.value === "fixed") setPreferredDomainIds(preferredDomainIds.slice(0, 1));
+                }}
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              >
+                <option value="auto">Auto - the mailbox with the most capacity left</option>
+                <option value="round_robin">Round robin - spread leads evenly</option>
+                <option value="fixed">Fixed - always one mailbox</option>
+              </select>
+              <p className="text-xs text-gray-400 mt-1">
+                Picks the mailbox for each lead&apos;s first email. Follow-ups and inbox replies always come from that same mailbox.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {senderRotation === "fixed" ? "Send from" : "Send from these domains"}
+              </label>
+              {domains.length === 0 ? (
+                <p className="text-sm text-gray-500">No sending domains yet. Add one in Settings → Domains.</p>
+              ) : (
+                <div className="space-y-2">
+                  {domains.map((domain) => (
+                    <label key={domain.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg cursor-pointer">
+                      <input
+                        type={senderRotation === "fixed" ? "radio" : "checkbox"}
+                        checked={preferredDomainIds.includes(domain.id)}
+                        onChange={() => toggleDomain(domain.id)}
+                        className="rounded"
+                      />
+                      <span className="text-sm text-gray-900">{domain.fromName} &lt;{domain.fromEmail}&gt;</span>
+                      {!domain.isActive && <span className="text-xs text-gray-400">inactive</span>}
+                    </label>
+                  ))}
+                </div>
+              )}
+              {senderRotation !== "fixed" && (
+                <p className="text-xs text-gray-400 mt-1">None selected sends from any active domain.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Tags */}
         <div className="bg-white rounded-xl border p-6">
           <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -2410,8 +2877,48 @@ function SettingsTab({
           </div>
         </div>
 
+        {/* Pause History */}
+        <div className="bg-white rounded-xl border p-6">
+          <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <Pause className="h-5 w-5 text-gray-400" />
+            Pause History
+          </h3>
+          {pauseHistory.length === 0 ? (
+            <p className="text-sm text-gray-500">This campaign and its leads have never been paused.</p>
+          ) : (
+            <div className="space-y-2">
+              {pauseHistory.map((entry) => (
+                <div key={entry.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <p className="text-gray-900">
+                      <span className={entry.action === "paused" ? "text-amber-600 font-medium" : "text-green-600 font-medium"}>
+                        {entry.action === "paused" ? "Paused" : "Resumed"}
+                      </span>{" "}
+                      {entry.leadName || "campaign"}
+                      {entry.userName && <span className="text-gray-500"> by {entry.userName}</span>}
+                    </p>
+                    {entry.reason && <p className="text-gray-500 mt-0.5">&ldquo;{entry.reason}&rdquo;</p>}
+                  </div>
+                  <div className="text-right text-xs text-gray-400 shrink-0 ml-4">
+                    <p>{entry.createdAt ? new Date(entry.createdAt).toLocaleString() : ""}</p>
+                    <p>
+                      {entry.touchpoints} step{entry.touchpoints !== 1 ? "s" : ""}{" "}
+                      {entry.action === "paused" ? "frozen" : "re-flowed"}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Save Button */}
-        <div className="flex justify-end">
+        <div className="flex items-center justify-end gap-3">
+          {saveMessage && (
+            <span className={`text-sm ${saveMessage.type === "success" ? "text-green-600" : "text-red-600"}`}>
+              {saveMessage.text}
+            </span>
+          )}
           <Button onClick={handleSave} disabled={saving}>
             {saving ? (
               <>
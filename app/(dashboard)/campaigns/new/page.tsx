@@ -29,6 +29,7 @@ import {
   Globe,
   Calendar,
   Settings2,
+  Library,
 } from "lucide-react";
 
 // Channel icons mapping
@@ -57,10 +58,20 @@ interface Touchpoint {
   subject?: string;
   body?: string;
   talkingPoints?: string[];
+  replyInThread?: boolean; // Follow-up emails: send as a reply to the previous step
   contentMode: "manual" | "ai"; // Whether content is manually typed or AI-generated
   aiInstructions?: string; // Instructions for AI if contentMode is 'ai'
 }
 
+interface LibraryTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  latestVersion: number;
+  stepCount: number;
+  channels: string[];
+}
+
 type Step = "name" | "leads" | "sequence" | "review";
 
 export default function NewCampaignPage() {
@@ -99,7 +110,12 @@ export default function NewCampaignPage() {
   const [manualLeads, setManualLeads] = useState<any[]>([]);
 
   // Sequence type
-  const [sequenceType, setSequenceType] = useState<"ai" | "manual" | null>(null);
+  const [sequenceType, setSequenceType] = useState<"ai" | "manual" | "library" | null>(null);
+
+  // Library sequences
+  const [libraryTemplates, setLibraryTemplates] = useState<LibraryTemplate[]>([]);
+  const [loadingLibrary, setLoadingLibrary] = useState(false);
+  const [selectedLibraryId, setSelectedLibraryId] = useState<string | null>(null);
 
   // Manual sequence touchpoints
   const [touchpoints, setTouchpoints] = useState<Touchpoint[]>([
@@ -132,6 +148,7 @@ export default function NewCampaignPage() {
     sendingTimeStart: "09:00",
     sendingTimeEnd: "18:00",
     defaultIntervalDays: 3,
+    useRecipientTimezone: false,
   });
 
   // Common state
@@ -241,6 +258,23 @@ export default function NewCampaignPage() {
     }
   };
 
+  // Load the workspace's library sequences
+  const loadLibrary = async () => {
+    setLoadingLibrary(true);
+    try {
+      const response = await fetch("/api/sequence-library");
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load library");
+      setLibraryTemplates(data.templates || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load library");
+    } finally {
+      setLoadingLibrary(false);
+    }
+  };
+
+  const selectedLibrary = libraryTemplates.find((t) => t.id === selectedLibraryId);
+
   // Generate touchpoints based on count (for manual sequences)
   const generateTouchpoints = (count: number) => {
     const newTouchpoints: Touchpoint[] = [];
@@ -347,8 +381,9 @@ export default function NewCampaignPage() {
           name: campaignName,
           description: campaignDescription,
           source: leadMode,
-          sequenceType,
+          sequenceType: sequenceType === "library" ? "manual" : sequenceType,
           aiCriteria: sequenceType === "ai" ? aiCriteria : null,
+          schedulingSettings,
         }),
       });
 
@@ -409,7 +444,16 @@ export default function NewCampaignPage() {
       }
 
       // Step 3: Create sequence template
-      if (sequenceType === "manual" && touchpoints.length > 0) {
+      if (sequenceType === "library" && selectedLibraryId) {
+        // Copy the library's latest version - later library edits won't touch this campaign
+        const libraryResponse = await fetch(`/api/sequence-library/${selectedLibraryId}/use`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ campaignId }),
+        });
+        const libraryData = await libraryResponse.json();
+        if (!libraryResponse.ok) throw new Error(libraryData.error || "Failed to copy library sequence");
+      } else if (sequenceType === "manual" && touchpoints.length > 0) {
         await fetch("/api/sequence-templates", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -453,7 +497,7 @@ export default function NewCampaignPage() {
       case "leads":
         return leadMode !== null && (csvPreview.length > 0 || searchResults.length > 0 || manualLeads.length > 0);
       case "sequence":
-        return sequenceType !== null;
+        return sequenceType !== null && (sequenceType !== "library" || selectedLibraryId !== null);
       case "review":
         return true;
       default:
@@ -1085,6 +1129,30 @@ export default function NewCampaignPage() {
                   </div>
                 </div>
               </div>
+
+              <div
+                onClick={() => {
+                  setSequenceType("library");
+                  loadLibrary();
+                }}
+                className="bg-white rounded-xl border p-6 hover:border-green-300 hover:shadow-md transition-all cursor-pointer"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
+                    <Library className="h-6 w-6 text-green-600" />
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-1">From Library</h3>
+                    <p className="text-gray-500 text-sm">
+                      Reuse a proven sequence saved from another campaign
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">Versioned</span>
+                      <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">Variants included</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
             </div>
           )}
 
@@ -1185,6 +1253,14 @@ export default function NewCampaignPage() {
                     <option value="Australia/Sydney">Sydney (AEST)</option>
                     <option value="UTC">UTC</option>
                   </select>
+                  <label className="flex items-center gap-2 mt-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={schedulingSettings.useRecipientTimezone}
+                      onChange={(e) => setSchedulingSettings({ ...schedulingSettings, useRecipientTimezone: e.target.checked })}
+                    />
+                    Send in each recipient&apos;s local time when their timezone is known
+                  </label>
                 </div>
 
                 {/* Sending Days */}
@@ -1517,6 +1593,17 @@ export default function NewCampaignPage() {
                             </div>
                           </div>
 
+                          {index > 0 && touchpoint.channel === "email" && (
+                            <label className="flex items-center gap-2 mt-3 text-sm text-gray-600 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={!!touchpoint.replyInThread}
+                                onChange={(e) => updateAiTouchpoint(touchpoint.id, { replyInThread: e.target.checked })}
+                              />
+                              Reply in the same thread (&quot;Re:&quot; step 1 subject, same mailbox)
+                            </label>
+                          )}
+
                           {/* AI Instructions for this touchpoint */}
                           <div className="mt-3 pt-3 border-t border-purple-100">
                             <div className="flex items-start gap-2">
@@ -1553,6 +1640,63 @@ export default function NewCampaignPage() {
             </div>
           )}
 
+          {/* Library Sequence Picker */}
+          {sequenceType === "library" && (
+            <div className="bg-white rounded-xl border p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Library className="h-5 w-5 text-gray-500" />
+                  <h3 className="font-semibold text-gray-900">Sequence Library</h3>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setSequenceType(null)}>
+                  <ArrowLeft className="h-3 w-3 mr-1" />
+                  Back to options
+                </Button>
+              </div>
+
+              {loadingLibrary ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading library...
+                </div>
+              ) : libraryTemplates.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No library sequences yet. Save one from a campaign&apos;s Sequence tab to reuse it here.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {libraryTemplates.map((template) => (
+                    <div
+                      key={template.id}
+                      onClick={() => setSelectedLibraryId(template.id)}
+                      className={`p-4 border rounded-lg cursor-pointer transition-all ${
+                        selectedLibraryId === template.id
+                          ? "border-green-500 bg-green-50"
+                          : "hover:border-gray-300"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{template.name}</span>
+                        <span className="text-xs text-gray-500">v{template.latestVersion}</span>
+                      </div>
+                      {template.description && (
+                        <p className="text-sm text-gray-500 mt-1">{template.description}</p>
+                      )}
+                      <div className="flex items-center gap-2 mt-2 text-xs text-gray-500">
+                        <span>{template.stepCount} steps</span>
+                        <span>•</span>
+                        {template.channels.map((channel) => {
+                          const Icon = channelIcons[channel] || Mail;
+                          return <Icon key={channel} className="h-3 w-3" aria-label={channelLabels[channel]} />;
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Manual Sequence Builder */}
           {sequenceType === "manual" && (
             <div className="space-y-6">
@@ -1637,6 +1781,14 @@ export default function NewCampaignPage() {
                     <option value="Australia/Sydney">Sydney (AEST)</option>
                     <option value="UTC">UTC</option>
                   </select>
+                  <label className="flex items-center gap-2 mt-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={schedulingSettings.useRecipientTimezone}
+                      onChange={(e) => setSchedulingSettings({ ...schedulingSettings, useRecipientTimezone: e.target.checked })}
+                    />
+                    Send in each recipient&apos;s local time when their timezone is known
+                  </label>
                 </div>
 
                 {/* Sending Days */}
@@ -1808,11 +1960,22 @@ export default function NewCampaignPage() {
                       </div>
                     )}
 
+                    {index > 0 && touchpoint.channel === "email" && (
+                      <label className="flex items-center gap-2 mb-3 text-sm text-gray-600 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!touchpoint.replyInThread}
+                          onChange={(e) => updateTouchpoint(touchpoint.id, { replyInThread: e.target.checked })}
+                        />
+                        Reply in the same thread (&quot;Re:&quot; step 1 subject, same mailbox)
+                      </label>
+                    )}
+
                     {/* Manual Content Mode */}
                     {touchpoint.contentMode === "manual" && touchpoint.channel === "email" && (
                       <div className="space-y-3">
                         <Input
-                          placeholder="Subject line..."
+                          placeholder={touchpoint.replyInThread ? "Subject (replaced by \"Re: \" + step 1 subject)" : "Subject line..."}
                           value={touchpoint.subject || ""}
                           onChange={(e) => updateTouchpoint(touchpoint.id, { subject: e.target.value })}
                         />
@@ -1892,6 +2055,14 @@ export default function NewCampaignPage() {
                 <span className="text-gray-500">Sequence Type</span>
                 <span className="font-medium capitalize">{sequenceType}</span>
               </div>
+              {sequenceType === "library" && (
+                <div className="flex justify-between py-2 border-b">
+                  <span className="text-gray-500">Library Sequence</span>
+                  <span className="font-medium">
+                    {selectedLibrary?.name} v{selectedLibrary?.latestVersion}
+                  </span>
+                </div>
+              )}
               {sequenceType === "manual" && (
                 <>
                   <div className="flex justify-between py-2 border-b">
@@ -35,6 +35,7 @@ interface Campaign {
   description: string | null;
   source: string | null;
   status: string;
+  tags: string[];
   createdAt: string;
   stats: CampaignStats;
 }
@@ -118,6 +119,8 @@ export default function CampaignsPage() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showFilters, setShowFilters] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string>("all");
+  const [showTagFilter, setShowTagFilter] = useState(false);
   const [favoritesOnly, setFavoritesOnly] = useState(false);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
@@ -139,6 +142,8 @@ export default function CampaignsPage() {
     fetchCampaigns();
   }, []);
 
+  const allTags = [...new Set(campaigns.flatMap((c) => c.tags || []))].sort();
+
   // Filter campaigns
   const filteredCampaigns = campaigns.filter((campaign) => {
     // Search filter
@@ -149,6 +154,10 @@ export default function CampaignsPage() {
     if (statusFilter !== "all" && campaign.status !== statusFilter) {
       return false;
     }
+    // Tag filter
+    if (tagFilter !== "all" && !(campaign.tags || []).includes(tagFilter)) {
+      return false;
+    }
     // Favorites filter
     if (favoritesOnly && !favorites.has(campaign.id)) {
       return false;
@@ -158,17 +167,26 @@ export default function CampaignsPage() {
 
   const toggleStatus = async (campaign: Campaign) => {
     const newStatus = campaign.status === "active" ? "paused" : "active";
+    const reason = prompt(
+      newStatus === "paused" ? "Why are you pausing this campaign? (optional)" : "Why are you resuming this campaign? (optional)"
+    );
+    if (reason === null) return;
     setUpdatingStatus(campaign.id);
 
     try {
-      await fetch("/api/campaigns", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          id: campaign.id,
-          updates: { status: newStatus },
-        }),
-      });
+      // Pause freezes pending steps; resume pushes them back by the time paused
+      const response = await fetch(
+        `/api/campaigns/${campaign.id}/${newStatus === "paused" ? "pause" : "resume"}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reason }),
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update status");
+      }
 
       setCampaigns((prev) =>
         prev.map((c) =>
@@ -330,12 +348,37 @@ export default function CampaignsPage() {
             {/* Tags Filter */}
             <div className="relative">
               <button
+                onClick={() => setShowTagFilter(!showTagFilter)}
                 className="flex items-center gap-2 px-3 py-2 text-sm border rounded-lg hover:bg-gray-50"
               >
                 <span className="text-gray-500">Tags:</span>
-                <span className="font-medium">All</span>
+                <span className="font-medium">{tagFilter === "all" ? "All" : tagFilter}</span>
                 <ChevronDown className="h-4 w-4 text-gray-400" />
               </button>
+              {showTagFilter && (
+                <>
+                  <div className="fixed inset-0 z-10" onClick={() => setShowTagFilter(false)} />
+                  <div className="absolute top-full left-0 mt-1 bg-white border rounded-lg shadow-lg z-20 py-1 min-w-[150px]">
+                    {["all", ...allTags].map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={() => {
+                          setTagFilter(tag);
+                          setShowTagFilter(false);
+                        }}
+                        className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-50 ${
+                          tagFilter === tag ? "bg-blue-50 text-blue-600" : ""
+                        }`}
+                      >
+                        {tag === "all" ? "All" : tag}
+                      </button>
+                    ))}
+                    {allTags.length === 0 && (
+                      <p className="px-4 py-2 text-xs text-gray-400">No tags yet - add them in a campaign&apos;s settings</p>
+                    )}
+                  </div>
+                </>
+              )}
             </div>
 
             {/* Favorites Toggle */}
@@ -421,14 +464,14 @@ export default function CampaignsPage() {
                         <Users className="h-8 w-8 text-gray-400" />
                       </div>
                       <h3 className="text-lg font-medium text-gray-900 mb-2">
-                        {searchQuery || statusFilter !== "all" ? "No campaigns found" : "Create your first campaign"}
+                        {searchQuery || statusFilter !== "all" || tagFilter !== "all" ? "No campaigns found" : "Create your first campaign"}
                       </h3>
                       <p className="text-gray-500 mb-4 max-w-md">
-                        {searchQuery || statusFilter !== "all"
+                        {searchQuery || statusFilter !== "all" || tagFilter !== "all"
                           ? "Try adjusting your filters or search query."
                           : "Start by creating a campaign to organize your outreach."}
                       </p>
-                      {!searchQuery && statusFilter === "all" && (
+                      {!searchQuery && statusFilter === "all" && tagFilter === "all" && (
                         <Button onClick={() => router.push("/campaigns/new")}>
                           <Plus className="h-4 w-4 mr-2" />
                           Create campaign
@@ -460,7 +503,7 @@ export default function CampaignsPage() {
                       <StatusToggle
                         isActive={campaign.status === "active"}
                         onChange={() => toggleStatus(campaign)}
-                        disabled={updatingStatus === campaign.id || campaign.status === "draft"}
+                        disabled={updatingStatus === campaign.id || !["active", "paused"].includes(campaign.status)}
                       />
                     </td>
 
@@ -474,6 +517,11 @@ export default function CampaignsPage() {
                             Draft
                           </span>
                         )}
+                        {(campaign.tags || []).map((tag) => (
+                          <span key={tag} className="px-2 py-0.5 text-xs bg-blue-50 text-blue-600 rounded">
+                            {tag}
+                          </span>
+                        ))}
                       </div>
                     </td>
 
@@ -41,18 +41,22 @@ import {
   Calendar,
   AlertCircle,
   Clock,
+  MessageCircle,
 } from "lucide-react";
 
 interface InboxMessage {
   id: string;
   leadId: string;
   direction: "inbound" | "outbound";
+  channel?: "email" | "sms" | "whatsapp";
   fromEmail: string;
   toEmail: string;
   subject: string;
   body: string;
   aiDraftReply?: string;
   aiDraftApproved?: boolean;
+  replyIntent?: string | null;
+  replyIntentConfidence?: number | null;
   isRead: boolean;
   receivedAt: string;
   lead?: {
@@ -70,10 +74,22 @@ interface InboxMessage {
   suggestMeeting?: boolean;
 }
 
+// Reply intents set by the reply processor (lib/ai/classify-reply.ts)
+const INTENT_LABELS: Record<string, { label: string; className: string }> = {
+  interested: { label: "Interested", className: "bg-green-100 text-green-700" },
+  not_interested: { label: "Not interested", className: "bg-gray-100 text-gray-600" },
+  out_of_office: { label: "Out of office", className: "bg-amber-100 text-amber-700" },
+  referral: { label: "Referral", className: "bg-blue-100 text-blue-700" },
+  unsubscribe: { label: "Unsubscribe", className: "bg-red-100 text-red-700" },
+  wrong_person: { label: "Wrong person", className: "bg-gray-100 text-gray-600" },
+  auto_bounce: { label: "Bounce", className: "bg-red-100 text-red-700" },
+};
+
 export default function InboxPage() {
   const [messages, setMessages] = useState<InboxMessage[]>([]);
   const [selectedMessage, setSelectedMessage] = useState<InboxMessage | null>(null);
   const [filter, setFilter] = useState<"all" | "unread" | "needs_reply">("all");
+  const [intentFilter, setIntentFilter] = useState("all");
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [generating, setGenerating] = useState(false);
@@ -102,6 +118,7 @@ export default function InboxPage() {
       const params = new URLSearchParams();
       if (filter === "unread") params.set("unread", "true");
       if (filter === "needs_reply") params.set("needsReply", "true");
+      if (intentFilter !== "all") params.set("intent", intentFilter);
 
       const response = await fetch(`/api/inbox?${params.toString()}`);
       const data = await response.json();
@@ -182,7 +199,7 @@ export default function InboxPage() {
     // Then poll IMAP in background with small delay
     const pollTimeout = setTimeout(() => pollForNewEmails(), 500);
     return () => clearTimeout(pollTimeout);
-  }, [filter]);
+  }, [filter, intentFilter]);
 
   useEffect(() => {
     if (selectedMessage?.leadId) {
@@ -369,6 +386,17 @@ export default function InboxPage() {
               {f === "needs_reply" ? "Needs Reply" : f.charAt(0).toUpperCase() + f.slice(1)}
             </button>
           ))}
+          <select
+            value={intentFilter}
+            onChange={(e) => setIntentFilter(e.target.value)}
+            className="ml-auto px-2 py-1 text-sm border rounded-lg text-gray-600"
+            aria-label="Filter by reply intent"
+          >
+            <option value="all">Any intent</option>
+            {Object.entries(INTENT_LABELS).map(([intent, { label }]) => (
+              <option key={intent} value={intent}>{label}</option>
+            ))}
+          </select>
         </div>
 
         <div className="flex-1 overflow-auto">
@@ -423,11 +451,22 @@ export default function InboxPage() {
                         {message.lead?.schoolName}
                       </p>
                       <p className="text-sm text-gray-600 truncate mt-1" title={message.subject}>
+                        {message.channel && message.channel !== "email" && (
+                          <MessageCircle className="h-3 w-3 inline mr-1 text-green-600" />
+                        )}
                         {message.subject}
                       </p>
                       <p className="text-xs text-gray-400 truncate" title={message.body?.substring(0, 200)}>
                         {message.body?.substring(0, 80)}...
                       </p>
+                      {message.replyIntent && INTENT_LABELS[message.replyIntent] && (
+                        <span
+                          className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs ${INTENT_LABELS[message.replyIntent].className}`}
+                          title={message.replyIntentConfidence != null ? `${message.replyIntentConfidence}% confident` : undefined}
+                        >
+                          {INTENT_LABELS[message.replyIntent].label}
+                        </span>
+                      )}
                       {message.aiDraftApproved && (
                         <div className="flex items-center gap-1 mt-1">
                           <CheckCircle className="h-3 w-3 text-green-600" />
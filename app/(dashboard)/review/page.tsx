@@ -0,0 +1,499 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Mail,
+  MessageCircle,
+  MessageSquare,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  AlertTriangle,
+  Loader2,
+  ClipboardCheck,
+  Save,
+  Settings2,
+  Sparkles,
+} from "lucide-react";
+
+type Assignee = "" | "me" | "unassigned";
+
+interface Draft {
+  id: string;
+  leadId: string;
+  leadName: string;
+  leadEmail: string;
+  jobTitle: string;
+  schoolName: string;
+  campaignId: string | null;
+  campaignName: string | null;
+  stepNumber: number;
+  channel: string;
+  campaignStep: boolean;
+  subject: string | null;
+  body: string | null;
+  confidenceScore: number | null;
+  confidenceReason: string | null;
+  rejectionReason: string | null;
+  scheduledAt: string | null;
+  reviewerId: string | null;
+  reviewerName: string | null;
+  reviewRequestedAt: string | null;
+  dueBy: string | null;
+  overdue: boolean;
+}
+
+interface Reviewer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Policy {
+  autoApproveConfidence: number;
+  reviewSlaHours: number;
+}
+
+const CHANNEL_ICONS: Record<string, typeof Mail> = {
+  email: Mail,
+  sms: MessageSquare,
+  whatsapp: MessageCircle,
+};
+
+function formatSla(draft: Draft): string {
+  if (!draft.dueBy) return "No SLA";
+  const hours = Math.round((new Date(draft.dueBy).getTime() - Date.now()) / (60 * 60 * 1000));
+  if (draft.overdue) return `Overdue by ${Math.max(1, -hours)}h`;
+  return hours < 1 ? "Due within the hour" : `Due in ${hours}h`;
+}
+
+function confidenceColor(score: number | null): string {
+  if (score === null) return "bg-gray-100 text-gray-600";
+  if (score >= 6) return "bg-amber-100 text-amber-700";
+  return "bg-red-100 text-red-700";
+}
+
+export default function ReviewQueuePage() {
+  const [assignee, setAssignee] = useState<Assignee>("");
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [overdue, setOverdue] = useState(0);
+  const [policy, setPolicy] = useState<Policy | null>(null);
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [showPolicy, setShowPolicy] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDrafts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (assignee) params.set("assignee", assignee);
+      const response = await fetch(`/api/review-queue?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to fetch review queue");
+      setDrafts(data.drafts);
+      setOverdue(data.overdue);
+      setPolicy(data.policy);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch review queue");
+    } finally {
+      setLoading(false);
+    }
+  }, [assignee]);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [fetchDrafts]);
+
+  useEffect(() => {
+    fetch("/api/review-queue/reviewers")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setReviewers(data.reviewers))
+      .catch((err) => console.error("Failed to load reviewers:", err));
+  }, []);
+
+  const replaceDraft = (draft: Draft) => {
+    setDrafts((prev) => prev.map((d) => (d.id === draft.id ? draft : d)));
+  };
+
+  const removeDraft = (draftId: string) => {
+    setDrafts((prev) => {
+      const removed = prev.find((d) => d.id === draftId);
+      if (removed?.overdue) setOverdue((count) => Math.max(0, count - 1));
+      return prev.filter((d) => d.id !== draftId);
+    });
+  };
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Review Queue</h1>
+          <p className="text-gray-500 mt-1">
+            Per-lead copy scored below {policy?.autoApproveConfidence ?? 8}/10. Nothing here sends until it&apos;s approved.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value as Assignee)}
+            className="px-3 py-2 border rounded-lg text-sm"
+          >
+            <option value="">Everyone&apos;s drafts</option>
+            <option value="me">Assigned to me</option>
+            <option value="unassigned">Unassigned</option>
+          </select>
+          <Button variant="outline" onClick={() => setShowPolicy((open) => !open)}>
+            <Settings2 className="h-4 w-4 mr-1" />
+            Policy
+          </Button>
+        </div>
+      </div>
+
+      {showPolicy && policy && (
+        <PolicyPanel
+          policy={policy}
+          onSaved={(saved) => {
+            setPolicy(saved);
+            fetchDrafts();
+          }}
+          onError={setError}
+        />
+      )}
+
+      {/* Summary */}
+      {!loading && drafts.length > 0 && (
+        <div className="flex items-center gap-4 mb-4 text-sm text-gray-600">
+          <span>{drafts.length} waiting</span>
+          {overdue > 0 && (
+            <span className="flex items-center gap-1 text-red-600">
+              <AlertTriangle className="h-4 w-4" />
+              {overdue} past the {policy?.reviewSlaHours ?? 24}h SLA
+            </span>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 text-red-700 text-sm flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-16 flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : drafts.length === 0 ? (
+        <div className="py-16 text-center text-gray-500">
+          <ClipboardCheck className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+          <p>Nothing to review</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {drafts.map((draft) => (
+            <DraftCard
+              key={draft.id}
+              draft={draft}
+              reviewers={reviewers}
+              onUpdated={replaceDraft}
+              onReviewed={removeDraft}
+              onRewritten={fetchDrafts}
+              onError={setError}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PolicyPanel({
+  policy,
+  onSaved,
+  onError,
+}: {
+  policy: Policy;
+  onSaved: (policy: Policy) => void;
+  onError: (message: string | null) => void;
+}) {
+  const [threshold, setThreshold] = useState(String(policy.autoApproveConfidence));
+  const [slaHours, setSlaHours] = useState(String(policy.reviewSlaHours));
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    setSaving(true);
+    onError(null);
+    try {
+      const response = await fetch("/api/settings/review", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          autoApproveConfidence: Number(threshold),
+          reviewSlaHours: Number(slaHours),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save policy");
+      onSaved(data.policy);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to save policy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-xl border shadow-sm flex items-end gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Auto-approve at</label>
+        <select
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          className="px-3 py-2 border rounded-lg text-sm"
+        >
+          {Array.from({ length: 10 }, (_, i) => i + 1).map((score) => (
+            <option key={score} value={score}>
+              {score}/10 or higher
+            </option>
+          ))}
+          <option value={11}>Never - review everything</option>
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Review within (hours)</label>
+        <Input
+          type="number"
+          min={1}
+          max={720}
+          value={slaHours}
+          onChange={(e) => setSlaHours(e.target.value)}
+          className="w-32"
+        />
+      </div>
+      <Button onClick={save} disabled={saving}>
+        {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+        Save
+      </Button>
+      <p className="text-xs text-gray-500 flex-1">
+        Applies to copy written from now on. Drafts already waiting stay in the queue.
+      </p>
+    </div>
+  );
+}
+
+function DraftCard({
+  draft,
+  reviewers,
+  onUpdated,
+  onReviewed,
+  onRewritten,
+  onError,
+}: {
+  draft: Draft;
+  reviewers: Reviewer[];
+  onUpdated: (draft: Draft) => void;
+  onReviewed: (draftId: string) => void;
+  onRewritten: () => void;
+  onError: (message: string | null) => void;
+}) {
+  const [subject, setSubject] = useState(draft.subject || "");
+  const [body, setBody] = useState(draft.body || "");
+  const [note, setNote] = useState("");
+  const [rewrite, setRewrite] = useState(draft.campaignStep);
+  const [busy, setBusy] = useState<"save" | "approve" | "reject" | "assign" | null>(null);
+
+  const ChannelIcon = CHANNEL_ICONS[draft.channel] || Mail;
+  const edited = subject !== (draft.subject || "") || body !== (draft.body || "");
+
+  const request = async (url: string, method: string, payload: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Request failed");
+    return data;
+  };
+
+  const run = async (action: NonNullable<typeof busy>, fn: () => Promise<void>) => {
+    setBusy(action);
+    onError(null);
+    try {
+      await fn();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveEdits = () =>
+    run("save", async () => {
+      const data = await request(`/api/review-queue/${draft.id}`, "PATCH", {
+        ...(draft.channel === "email" && draft.subject !== null ? { subject } : {}),
+        body,
+      });
+      onUpdated(data.draft);
+    });
+
+  const approve = () =>
+    run("approve", async () => {
+      if (edited) {
+        await request(`/api/review-queue/${draft.id}`, "PATCH", {
+          ...(draft.channel === "email" && draft.subject !== null ? { subject } : {}),
+          body,
+        });
+      }
+      await request("/api/review-queue/approve", "POST", { ids: [draft.id], note: note || undefined });
+      onReviewed(draft.id);
+    });
+
+  const reject = () => {
+    if (!note.trim()) {
+      onError("Add a reason before rejecting - it's given to the AI for the rewrite");
+      return;
+    }
+    return run("reject", async () => {
+      const data = await request("/api/review-queue/reject", "POST", { ids: [draft.id], reason: note, regenerate: rewrite });
+      onReviewed(draft.id);
+      // The rewrite comes straight back to the queue
+      if (data.regenerated?.leads > 0) onRewritten();
+    });
+  };
+
+  const assign = (reviewerId: string) =>
+    run("assign", async () => {
+      await request("/api/review-queue/assign", "POST", { ids: [draft.id], reviewerId: reviewerId || null });
+      const reviewer = reviewers.find((r) => r.id === reviewerId);
+      onUpdated({ ...draft, reviewerId: reviewerId || null, reviewerName: reviewer?.name || null });
+    });
+
+  return (
+    <div className="bg-white rounded-xl border shadow-sm">
+      {/* Lead and step */}
+      <div className="flex items-start justify-between p-4 border-b">
+        <div className="flex items-start gap-3">
+          <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-blue-100 text-blue-700">
+            <ChannelIcon className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900">{draft.leadName}</h3>
+            <p className="text-sm text-gray-500">
+              {draft.jobTitle} at {draft.schoolName}
+            </p>
+            <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+              {draft.campaignId ? (
+                <Link href={`/campaigns/${draft.campaignId}`} className="hover:underline">
+                  {draft.campaignName} · {draft.campaignStep ? "Step" : "Written email"} {draft.stepNumber}
+                </Link>
+              ) : (
+                <span>Written email {draft.stepNumber}</span>
+              )}
+              {draft.scheduledAt && (
+                <span>Sends {new Date(draft.scheduledAt).toLocaleString(undefined, { day: "numeric", month: "short", hour: "numeric", minute: "2-digit" })}</span>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-col items-end gap-2 text-sm">
+          <span className={`flex items-center gap-1 ${draft.overdue ? "text-red-600 font-medium" : "text-gray-500"}`}>
+            <Clock className="h-4 w-4" />
+            {formatSla(draft)}
+          </span>
+          <select
+            value={draft.reviewerId || ""}
+            onChange={(e) => assign(e.target.value)}
+            disabled={busy !== null}
+            className="px-2 py-1 border rounded text-xs"
+          >
+            <option value="">Unassigned</option>
+            {reviewers.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Why it was held */}
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className={`px-2 py-1 rounded font-medium ${confidenceColor(draft.confidenceScore)}`}>
+            <Sparkles className="h-3 w-3 inline mr-0.5" />
+            Confidence {draft.confidenceScore ?? "?"}/10
+          </span>
+          {draft.confidenceReason && <span className="text-gray-500">{draft.confidenceReason}</span>}
+        </div>
+        {draft.rejectionReason && (
+          <p className="text-xs text-amber-700 bg-amber-50 rounded p-2">
+            Rewrite - the previous version was rejected: {draft.rejectionReason}
+          </p>
+        )}
+
+        {/* Copy, editable in place */}
+        {draft.channel === "email" && draft.subject !== null && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+            <Input value={subject} onChange={(e) => setSubject(e.target.value)} />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {draft.channel === "email" ? "Body" : "Message"}
+          </label>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={8}
+            className="w-full px-3 py-2 border rounded-lg text-sm font-mono"
+          />
+          {edited && (
+            <div className="flex justify-end mt-1">
+              <Button size="sm" variant="outline" onClick={saveEdits} disabled={busy !== null || !body.trim()}>
+                {busy === "save" ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                Save edits
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Decision */}
+        <div className="flex items-center gap-2 pt-2 border-t">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Reason - required to reject, optional to approve"
+            className="flex-1"
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={rewrite}
+              onChange={(e) => setRewrite(e.target.checked)}
+              className="rounded border-gray-300"
+              disabled={!draft.campaignStep}
+            />
+            Rewrite on reject
+          </label>
+          <Button variant="outline" onClick={reject} disabled={busy !== null}>
+            {busy === "reject" ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <XCircle className="h-4 w-4 mr-1" />}
+            Reject
+          </Button>
+          <Button onClick={approve} disabled={busy !== null || !body.trim()} className="bg-green-600 hover:bg-green-700">
+            {busy === "approve" ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-1" />}
+            Approve
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
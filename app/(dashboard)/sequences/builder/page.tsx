@@ -24,8 +24,12 @@ import {
   Briefcase,
   Globe,
   GraduationCap,
+  Shuffle,
 } from "lucide-react";
 import Link from "next/link";
+import { renderTemplate, countVariations } from "@/lib/utils/template";
+import { StepConditionEditor } from "@/components/sequences/step-condition-editor";
+import type { StepCondition } from "@/lib/utils/step-conditions";
 
 // Available variables for personalization
 const VARIABLES = [
@@ -57,6 +61,7 @@ interface EmailStep {
   subject: string;
   body: string;
   delay: number; // days after previous email
+  condition?: StepCondition | null; // only send if earlier steps were opened/clicked/replied
 }
 
 export default function SequenceBuilderPage() {
@@ -82,6 +87,7 @@ Best,
   const [activeStep, setActiveStep] = useState<string>("1");
   const [showVariables, setShowVariables] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [previewSeed, setPreviewSeed] = useState(0); // Shuffle through spintax/variant combinations
   const [isSaving, setIsSaving] = useState(false);
   const [saved, setSaved] = useState(false);
 
@@ -132,7 +138,7 @@ Best,
   };
 
   // Update step
-  const updateStep = (id: string, field: keyof EmailStep, value: string | number) => {
+  const updateStep = (id: string, field: keyof EmailStep, value: EmailStep[keyof EmailStep]) => {
     setSteps(steps.map((s) => (s.id === id ? { ...s, [field]: value } : s)));
   };
 
@@ -168,13 +174,12 @@ Best,
   };
 
   // Replace variables with preview data
-  const replaceVariables = (text: string) => {
-    let result = text;
-    for (const [key, value] of Object.entries(previewData)) {
-      result = result.replace(new RegExp(`{{${key}}}`, "gi"), value);
-    }
-    return result;
-  };
+  const replaceVariables = (text: string, seed: string) =>
+    renderTemplate(text, previewData, { seed: `${previewSeed}:${seed}` }).output;
+
+  // Unique versions of a step across leads (spintax and variant pools in subject x body)
+  const getVariationCount = (step: EmailStep) =>
+    countVariations(step.subject) * countVariations(step.body);
 
   // Save sequence
   const handleSave = async () => {
@@ -428,6 +433,17 @@ Best,
                     </button>
                   </div>
 
+                  {/* Variation count */}
+                  <p className="mt-2 text-xs text-gray-500">
+                    Vary wording with <code>{"{Hi|Hello|Hey}"}</code> or whole paragraphs with{" "}
+                    <code>{"{{#variants}}...{{or}}...{{/variants}}"}</code>. Each lead always gets the same version.
+                    {getVariationCount(currentStep) > 1 && (
+                      <span className="ml-1 font-medium text-gray-700">
+                        {getVariationCount(currentStep).toLocaleString()} unique versions.
+                      </span>
+                    )}
+                  </p>
+
                   {/* Variable hints */}
                   <div className="mt-3 flex flex-wrap gap-2">
                     <span className="text-xs text-gray-500">Quick insert:</span>
@@ -464,6 +480,13 @@ Best,
                         <span className="text-sm text-gray-600">after the previous email</span>
                       </div>
                     </div>
+                    <div className="mt-4">
+                      <StepConditionEditor
+                        stepNumber={steps.findIndex((s) => s.id === activeStep) + 1}
+                        condition={currentStep.condition}
+                        onChange={(condition) => updateStep(activeStep, "condition", condition)}
+                      />
+                    </div>
                   </div>
                 )}
               </div>
@@ -495,7 +518,14 @@ Best,
               {steps.map((step, index) => (
                 <div key={step.id} className="border rounded-lg overflow-hidden">
                   <div className="bg-gray-50 px-4 py-2 border-b flex items-center justify-between">
-                    <span className="font-medium text-sm">Email {index + 1}</span>
+                    <span className="font-medium text-sm">
+                      Email {index + 1}
+                      {getVariationCount(step) > 1 && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          {getVariationCount(step).toLocaleString()} versions
+                        </span>
+                      )}
+                    </span>
                     {index > 0 && (
                       <span className="text-xs text-gray-500 flex items-center gap-1">
                         <Clock className="h-3 w-3" />
@@ -505,17 +535,23 @@ Best,
                   </div>
                   <div className="p-4">
                     <p className="font-medium text-gray-900 mb-3">
-                      Subject: {replaceVariables(step.subject)}
+                      Subject: {replaceVariables(step.subject, `${step.id}:subject`)}
                     </p>
                     <div className="text-gray-700 whitespace-pre-wrap text-sm">
-                      {replaceVariables(step.body)}
+                      {replaceVariables(step.body, `${step.id}:body`)}
                     </div>
                   </div>
                 </div>
               ))}
             </div>
 
-            <div className="border-t p-4 flex justify-end">
+            <div className="border-t p-4 flex justify-end gap-2">
+              {steps.some((step) => getVariationCount(step) > 1) && (
+                <Button variant="outline" onClick={() => setPreviewSeed((seed) => seed + 1)}>
+                  <Shuffle className="h-4 w-4 mr-2" />
+                  Shuffle
+                </Button>
+              )}
               <Button onClick={() => setShowPreview(false)}>Close Preview</Button>
             </div>
           </div>
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Loader2,
+  Check,
+  AlertCircle,
+  RotateCcw,
+  Info,
+} from "lucide-react";
+
+// Reply intents (lib/ai/classify-reply.ts) and what they mean
+const INTENTS = [
+  { key: "interested", label: "Interested", description: "Wants to learn more or talk" },
+  { key: "not_interested", label: "Not Interested", description: "Declines or says not now" },
+  { key: "out_of_office", label: "Out of Office", description: "Automatic away reply" },
+  { key: "referral", label: "Referral", description: "Points us to someone else, who becomes a new lead" },
+  { key: "unsubscribe", label: "Unsubscribe", description: "Asks to stop emailing" },
+  { key: "wrong_person", label: "Wrong Person", description: "Not the right contact" },
+  { key: "auto_bounce", label: "Bounce", description: "Delivery failure notice" },
+];
+
+// Actions (lib/services/reply-intent.ts)
+const ACTIONS = [
+  { key: "stop", label: "Stop sequence" },
+  { key: "pause", label: "Pause sequence" },
+  { key: "reschedule", label: "Reschedule (to the return date, or by a week)" },
+  { key: "suppress", label: "Suppress address" },
+  { key: "create_crm_contact", label: "Create CRM contact" },
+];
+
+interface ReplyActions {
+  [intent: string]: string[];
+}
+
+export default function ReplySettingsPage() {
+  const [actions, setActions] = useState<ReplyActions>({});
+  const [originalActions, setOriginalActions] = useState<ReplyActions>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchActions();
+  }, []);
+
+  const fetchActions = async () => {
+    try {
+      const response = await fetch("/api/settings/replies");
+      const data = await response.json();
+      setActions(data.actions);
+      setOriginalActions(data.actions);
+    } catch (error) {
+      console.error("Failed to fetch reply actions:", error);
+      setMessage({ type: "error", text: "Failed to load reply settings" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleAction = (intent: string, action: string) => {
+    const current = actions[intent] || [];
+    setActions({
+      ...actions,
+      [intent]: current.includes(action)
+        ? current.filter((a) => a !== action)
+        : [...current, action],
+    });
+  };
+
+  const hasChanges = JSON.stringify(actions) !== JSON.stringify(originalActions);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/settings/replies", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ actions }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save");
+      }
+
+      setActions(data.actions);
+      setOriginalActions(data.actions);
+      setMessage({ type: "success", text: "Reply actions saved!" });
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Save failed" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm("Reset all reply actions to defaults?")) return;
+
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/settings/replies?action=reset", {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to reset");
+      }
+
+      setActions(data.actions);
+      setOriginalActions(data.actions);
+      setMessage({ type: "success", text: "Reply actions reset to defaults" });
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Reset failed" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <div className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Reply Handling</h1>
+            <p className="text-gray-500 mt-1">
+              What happens automatically when a lead replies
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleReset} disabled={saving}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+        </div>
+      </div>
+
+      {/* Message */}
+      {message && (
+        <div
+          className={`mb-6 p-4 rounded-lg flex items-start gap-3 ${
+            message.type === "success"
+              ? "bg-green-50 border border-green-200"
+              : "bg-red-50 border border-red-200"
+          }`}
+        >
+          {message.type === "success" ? (
+            <Check className="h-5 w-5 text-green-600 mt-0.5" />
+          ) : (
+            <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+          )}
+          <p className={message.type === "success" ? "text-green-800" : "text-red-800"}>
+            {message.text}
+          </p>
+        </div>
+      )}
+
+      {/* Info box */}
+      <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+        <div className="flex items-start gap-3">
+          <Info className="h-5 w-5 text-blue-600 mt-0.5" />
+          <div>
+            <h3 className="font-medium text-blue-900">How Replies Are Handled</h3>
+            <p className="text-sm text-blue-800 mt-1">
+              Every reply is classified by intent, and the actions ticked for that intent run right away.
+              Stopping a sequence wins over pausing or rescheduling it. Replies that can&apos;t be classified
+              stop the sequence and create a CRM contact.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Intent x action grid */}
+      <div className="bg-white rounded-xl border shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="text-left font-medium text-gray-700 p-3">Reply intent</th>
+              {ACTIONS.map((action) => (
+                <th key={action.key} className="font-medium text-gray-700 p-3 text-center">
+                  {action.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {INTENTS.map((intent) => (
+              <tr key={intent.key}>
+                <td className="p-3">
+                  <div className="font-medium text-gray-900">{intent.label}</div>
+                  <div className="text-xs text-gray-500">{intent.description}</div>
+                </td>
+                {ACTIONS.map((action) => (
+                  <td key={action.key} className="p-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={(actions[intent.key] || []).includes(action.key)}
+                      onChange={() => toggleAction(intent.key, action.key)}
+                      className="rounded"
+                      aria-label={`${action.label} for ${intent.label}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Save Button */}
+      <div className="mt-8 flex items-center justify-between sticky bottom-4 bg-white p-4 rounded-xl border shadow-lg">
+        <div className="text-sm text-gray-500">
+          {hasChanges ? (
+            <span className="text-amber-600 font-medium">You have unsaved changes</span>
+          ) : (
+            "All changes saved"
+          )}
+        </div>
+        <Button onClick={handleSave} disabled={saving || !hasChanges}>
+          {saving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Check className="h-4 w-4 mr-2" />
+              Save Changes
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
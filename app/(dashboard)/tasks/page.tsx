@@ -0,0 +1,399 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Linkedin,
+  UserPlus,
+  Phone,
+  MessageCircle,
+  MessageSquare,
+  CheckCircle2,
+  SkipForward,
+  Sparkles,
+  Copy,
+  Check,
+  Clock,
+  GitBranch,
+  AlertTriangle,
+  Loader2,
+  ClipboardList,
+  ExternalLink,
+} from "lucide-react";
+
+type TaskChannel = "linkedin_connection" | "linkedin_message" | "phone_call" | "whatsapp" | "sms";
+type TaskView = "due" | "upcoming" | "completed";
+
+interface Task {
+  id: string;
+  leadId: string;
+  leadName: string;
+  leadEmail: string;
+  phone: string | null;
+  linkedinUrl: string | null;
+  jobTitle: string;
+  schoolName: string;
+  campaignId: string;
+  campaignName: string;
+  stepNumber: number;
+  channel: TaskChannel;
+  dueAt: string | null;
+  status: string | null;
+  condition: string | null;
+  message: string;
+  talkingPoints: string[];
+  aiGenerated: boolean;
+  missing: string[];
+  completedAt: string | null;
+  notes: string | null;
+}
+
+const CHANNELS: Record<TaskChannel, { label: string; action: string; icon: typeof Phone; color: string }> = {
+  linkedin_connection: { label: "LinkedIn connect", action: "Send connection request", icon: UserPlus, color: "bg-sky-100 text-sky-700" },
+  linkedin_message: { label: "LinkedIn message", action: "Send LinkedIn message", icon: Linkedin, color: "bg-sky-100 text-sky-700" },
+  phone_call: { label: "Call", action: "Call", icon: Phone, color: "bg-amber-100 text-amber-700" },
+  whatsapp: { label: "WhatsApp", action: "Send WhatsApp", icon: MessageCircle, color: "bg-emerald-100 text-emerald-700" },
+  sms: { label: "SMS", action: "Send SMS", icon: MessageSquare, color: "bg-violet-100 text-violet-700" },
+};
+
+function formatDue(dueAt: string | null): string {
+  if (!dueAt) return "No due date";
+  const date = new Date(dueAt);
+  const days = Math.floor((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000));
+  if (days >= 1) return `Overdue by ${days} day${days !== 1 ? "s" : ""}`;
+  return date.toLocaleString(undefined, { weekday: "short", day: "numeric", month: "short", hour: "numeric", minute: "2-digit" });
+}
+
+export default function TasksPage() {
+  const [view, setView] = useState<TaskView>("due");
+  const [channel, setChannel] = useState<TaskChannel | "">("");
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [dueCount, setDueCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTasks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ view });
+      if (channel) params.set("channel", channel);
+      const response = await fetch(`/api/tasks?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to fetch tasks");
+      setTasks(data.tasks);
+      setDueCount(data.dueCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch tasks");
+    } finally {
+      setLoading(false);
+    }
+  }, [view, channel]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  const replaceTask = (task: Task) => {
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? task : t)));
+  };
+
+  const removeTask = (taskId: string) => {
+    setTasks((prev) => prev.filter((t) => t.id !== taskId));
+    if (view === "due") setDueCount((count) => Math.max(0, count - 1));
+  };
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Tasks</h1>
+          <p className="text-gray-500 mt-1">
+            LinkedIn, call and messaging steps from your sequences. Completing one moves the lead to its next step.
+          </p>
+        </div>
+        <select
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as TaskChannel | "")}
+          className="px-3 py-2 border rounded-lg text-sm"
+        >
+          <option value="">All channels</option>
+          {(Object.keys(CHANNELS) as TaskChannel[]).map((c) => (
+            <option key={c} value={c}>
+              {CHANNELS[c].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* View tabs */}
+      <div className="flex items-center gap-1 border-b mb-6">
+        {(["due", "upcoming", "completed"] as TaskView[]).map((v) => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px capitalize ${
+              view === v ? "border-blue-500 text-blue-600" : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {v}
+            {v === "due" && dueCount > 0 && (
+              <span className="ml-2 px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-full">{dueCount}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 text-red-700 text-sm flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-16 flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : tasks.length === 0 ? (
+        <div className="py-16 text-center text-gray-500">
+          <ClipboardList className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+          <p>
+            {view === "due"
+              ? "Nothing due. Add LinkedIn, call or WhatsApp steps to a campaign's sequence to get tasks here."
+              : view === "upcoming"
+                ? "No upcoming tasks"
+                : "No completed tasks yet"}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {tasks.map((task) => (
+            <TaskCard
+              key={task.id}
+              task={task}
+              onUpdated={replaceTask}
+              onCompleted={(t) => (view === "completed" ? replaceTask(t) : removeTask(t.id))}
+              onError={setError}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TaskCard({
+  task,
+  onUpdated,
+  onCompleted,
+  onError,
+}: {
+  task: Task;
+  onUpdated: (task: Task) => void;
+  onCompleted: (task: Task) => void;
+  onError: (message: string | null) => void;
+}) {
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState<"generate" | "done" | "skipped" | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const channel = CHANNELS[task.channel];
+  const ChannelIcon = channel.icon;
+  const isOpen = task.status === "pending";
+
+  const generate = async () => {
+    setBusy("generate");
+    onError(null);
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/generate`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to generate copy");
+      onUpdated(data.task);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to generate copy");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const complete = async (outcome: "done" | "skipped") => {
+    setBusy(outcome);
+    onError(null);
+    try {
+      const response = await fetch(`/api/tasks/${task.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ outcome, notes }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to update task");
+      onCompleted(data.task);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Failed to update task");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const copyMessage = async () => {
+    await navigator.clipboard.writeText(task.message);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border shadow-sm">
+      {/* Lead and step */}
+      <div className="flex items-start justify-between p-4 border-b">
+        <div className="flex items-start gap-3">
+          <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${channel.color}`}>
+            <ChannelIcon className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900">
+              {channel.action} · {task.leadName}
+            </h3>
+            <p className="text-sm text-gray-500">
+              {task.jobTitle} at {task.schoolName}
+            </p>
+            <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+              {task.phone && (task.channel === "phone_call" || task.channel === "whatsapp" || task.channel === "sms") && (
+                <a href={`tel:${task.phone}`} className="text-blue-600 hover:underline">
+                  {task.phone}
+                </a>
+              )}
+              {task.linkedinUrl && task.channel.startsWith("linkedin") && (
+                <a
+                  href={task.linkedinUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline flex items-center gap-1"
+                >
+                  LinkedIn profile
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+              <Link href={`/campaigns/${task.campaignId}`} className="hover:underline">
+                {task.campaignName} · Step {task.stepNumber}
+              </Link>
+              {task.condition && (
+                <span className="flex items-center gap-1">
+                  <GitBranch className="h-3 w-3" />
+                  {task.condition}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="text-right text-sm">
+          {isOpen ? (
+            <span className="flex items-center gap-1 text-gray-500">
+              <Clock className="h-4 w-4" />
+              {formatDue(task.dueAt)}
+            </span>
+          ) : (
+            <span
+              className={`px-2 py-1 rounded text-xs font-medium ${
+                task.status === "sent" ? "bg-emerald-100 text-emerald-700" : "bg-gray-100 text-gray-600"
+              }`}
+            >
+              {task.status === "sent" ? "Done" : "Skipped"}
+              {task.completedAt && ` · ${new Date(task.completedAt).toLocaleDateString()}`}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Message / script */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-gray-700">
+              {task.channel === "phone_call" ? "Opener" : "Message"}
+              {task.aiGenerated && (
+                <span className="ml-2 text-xs text-violet-600">
+                  <Sparkles className="h-3 w-3 inline mr-0.5" />
+                  Personalised
+                </span>
+              )}
+            </label>
+            <div className="flex items-center gap-2">
+              {task.message && (
+                <button onClick={copyMessage} className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1">
+                  {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                  {copied ? "Copied" : "Copy"}
+                </button>
+              )}
+              {isOpen && (
+                <Button size="sm" variant="outline" onClick={generate} disabled={busy !== null}>
+                  {busy === "generate" ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Sparkles className="h-4 w-4 mr-1" />
+                  )}
+                  {task.aiGenerated ? "Regenerate" : "Write with AI"}
+                </Button>
+              )}
+            </div>
+          </div>
+          {task.message ? (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap bg-gray-50 rounded-lg p-3">{task.message}</p>
+          ) : (
+            <p className="text-sm text-gray-400 bg-gray-50 rounded-lg p-3">
+              This step has no template. Write it with AI or work from the talking points.
+            </p>
+          )}
+          {task.missing.length > 0 && (
+            <p className="text-xs text-amber-600 mt-1">Missing for this lead: {task.missing.join(", ")}</p>
+          )}
+        </div>
+
+        {/* Talking points */}
+        {task.talkingPoints.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Talking points</label>
+            <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+              {task.talkingPoints.map((point, i) => (
+                <li key={i}>{point}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Outcome */}
+        {isOpen ? (
+          <div className="flex items-center gap-2 pt-2 border-t">
+            <Input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes (optional) - e.g. left voicemail"
+              className="flex-1"
+            />
+            <Button variant="outline" onClick={() => complete("skipped")} disabled={busy !== null}>
+              {busy === "skipped" ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <SkipForward className="h-4 w-4 mr-1" />
+              )}
+              Skip
+            </Button>
+            <Button onClick={() => complete("done")} disabled={busy !== null} className="bg-green-600 hover:bg-green-700">
+              {busy === "done" ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+              )}
+              Done
+            </Button>
+          </div>
+        ) : (
+          task.notes && <p className="text-sm text-gray-500 pt-2 border-t">Notes: {task.notes}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { leads, campaigns, emailSequences, leadTouchpoints, crmContacts } from "@/lib/db/schema";
+import { leads, campaigns, leadTouchpoints, crmContacts } from "@/lib/db/schema";
 import { eq, desc, sql, count, and, gte, like, or } from "drizzle-orm";
 import { generateText } from "ai";
 import { anthropic } from "@ai-sdk/anthropic";
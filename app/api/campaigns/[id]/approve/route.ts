@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { campaigns, leads, emailSequences } from "@/lib/db/schema";
-import { eq, and, sql } from "drizzle-orm";
+import { campaigns } from "@/lib/db/schema";
+import { eq, sql } from "drizzle-orm";
+import { updateReviewStatus } from "@/lib/services/lead-sequences";
+import { getReviewPolicy } from "@/lib/services/review-queue";
+import { getCurrentUserId } from "@/lib/auth-helpers";
 
 // POST - Bulk approve sequences in a campaign
 export async function POST(
@@ -12,8 +15,8 @@ export async function POST(
     const { id: campaignId } = await params;
     const body = await request.json().catch(() => ({}));
     const {
-      sequenceIds,      // Specific sequences to approve
-      autoApproveOnly,  // Only approve high-confidence (8+)
+      sequenceIds,      // Specific sequences (lead IDs) to approve
+      autoApproveOnly,  // Only approve sequences at or above the workspace's auto-approve threshold
       approveAll        // Approve all pending
     } = body;
 
@@ -31,48 +34,27 @@ export async function POST(
     }
 
     let approved = 0;
+    const review = { reviewedBy: await getCurrentUserId() };
 
     if (sequenceIds && sequenceIds.length > 0) {
       // Approve specific sequences
-      for (const seqId of sequenceIds) {
-        await db
-          .update(emailSequences)
-          .set({ status: "approved", updatedAt: new Date() })
-          .where(eq(emailSequences.id, seqId));
-        approved++;
-      }
+      const result = await updateReviewStatus("approved", { leadIds: sequenceIds, campaignId }, review);
+      approved = result.length;
     } else if (autoApproveOnly) {
-      // Auto-approve only high confidence (8+) sequences
-      const result = await db
-        .update(emailSequences)
-        .set({ status: "approved", updatedAt: new Date() })
-        .where(
-          and(
-            eq(emailSequences.status, "pending_review"),
-            sql`${emailSequences.confidenceScore} >= 8`,
-            sql`${emailSequences.leadId} IN (
-              SELECT id FROM leads WHERE campaign_id = ${campaignId}
-            )`
-          )
-        )
-        .returning({ id: emailSequences.id });
-
+      // Auto-approve only sequences that clear the workspace's threshold
+      const { autoApproveConfidence } = await getReviewPolicy(campaign.workspaceId);
+      const result = await updateReviewStatus("approved", {
+        campaignId,
+        from: ["pending_review"],
+        minConfidence: autoApproveConfidence,
+      }, review);
       approved = result.length;
     } else if (approveAll) {
       // Approve all pending sequences in campaign
-      const result = await db
-        .update(emailSequences)
-        .set({ status: "approved", updatedAt: new Date() })
-        .where(
-          and(
-            eq(emailSequences.status, "pending_review"),
-            sql`${emailSequences.leadId} IN (
-              SELECT id FROM leads WHERE campaign_id = ${campaignId}
-            )`
-          )
-        )
-        .returning({ id: emailSequences.id });
-
+      const result = await updateReviewStatus("approved", {
+        campaignId,
+        from: ["pending_review"],
+      }, review);
       approved = result.length;
     }
 
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { leads, emailSequences, leadTouchpoints, campaigns } from "@/lib/db/schema";
+import { leads, leadTouchpoints, campaigns } from "@/lib/db/schema";
 import { eq, and, inArray } from "drizzle-orm";
+import { getLeadSequences } from "@/lib/services/lead-sequences";
 
 /**
  * GET /api/campaigns/[id]/export
@@ -74,10 +75,7 @@ export async function GET(
       // Get sequences for these leads
       const leadIds = campaignLeads.map((l) => l.id);
 
-      const leadSequencesList = await db
-        .select()
-        .from(emailSequences)
-        .where(inArray(emailSequences.leadId, leadIds));
+      const leadSequencesList = await getLeadSequences(leadIds);
 
       // Get all touchpoints for these leads directly (using leadId)
       let allTouchpoints: any[] = [];
@@ -100,13 +98,10 @@ export async function GET(
         }
       }
 
-      // Create a map of sequences by lead ID
-      const sequenceByLead: Record<string, any> = {};
+      // Create a map of written sequences by lead ID
+      const sequenceByLead: Record<string, (typeof leadSequencesList)[number]> = {};
       for (const seq of leadSequencesList) {
-        sequenceByLead[seq.leadId] = {
-          ...seq,
-          touchpoints: touchpointsByLead[seq.leadId] || [],
-        };
+        sequenceByLead[seq.leadId] = seq;
       }
 
       // Build export data
@@ -132,12 +127,14 @@ export async function GET(
           leadCreatedAt: lead.createdAt,
         };
 
-        if (sequence) {
-          baseData.sequenceStatus = sequence.status;
-          baseData.sequenceCreatedAt = sequence.createdAt;
+        const touchpoints = touchpointsByLead[lead.id] || [];
+        if (sequence || touchpoints.length > 0) {
+          // Written sequence status, or "launched" for campaign steps
+          baseData.sequenceStatus = sequence?.status || "launched";
+          baseData.sequenceCreatedAt = sequence?.createdAt || touchpoints[0].createdAt;
 
           // Add email content for each touchpoint (up to 5 emails)
-          const sortedTouchpoints = (sequence.touchpoints || []).sort(
+          const sortedTouchpoints = [...touchpoints].sort(
             (a: any, b: any) => (a.stepNumber || 0) - (b.stepNumber || 0)
           );
 
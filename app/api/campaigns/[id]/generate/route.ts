@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { campaigns, leads, emailSequences, sequenceTemplates, touchpointTemplates, companyContext } from "@/lib/db/schema";
+import { campaigns, leads, sequenceTemplates, touchpointTemplates, companyContext } from "@/lib/db/schema";
 import { eq, and, inArray, sql, asc, desc } from "drizzle-orm";
 import { generateEmailSequence, selectAngles, LeadResearch } from "@/lib/ai/generate-emails";
 import { generateObject } from "ai";
 import { z } from "zod";
 import { getModel } from "@/lib/ai/provider";
+import {
+  saveLeadSequence,
+  deleteLeadSequences,
+  getLeadIdsWithSequences,
+  getRejectionFeedback,
+  stepsFromGeneratedEmails,
+} from "@/lib/services/lead-sequences";
+import { getReviewPolicy } from "@/lib/services/review-queue";
 
 // Schema for generating sequence template content
 const SequenceTemplateSchema = z.object({
@@ -54,6 +62,7 @@ export async function POST(
 
     // Get leads that need email generation
     let leadsToGenerate;
+    let feedbackByLead = new Map<string, string[]>();
     if (leadIds && leadIds.length > 0) {
       // Specific leads
       leadsToGenerate = await db
@@ -66,25 +75,20 @@ export async function POST(
           )
         );
 
-      // If regenerating, delete existing sequences for these leads first
+      // If regenerating, keep the reviewers' rejection reasons and delete existing sequences first
       if (regenerate && leadsToGenerate.length > 0) {
-        await db
-          .delete(emailSequences)
-          .where(inArray(emailSequences.leadId, leadIds));
+        feedbackByLead = await getRejectionFeedback(leadsToGenerate.map((l) => l.id));
+        await deleteLeadSequences(leadsToGenerate.map((l) => l.id));
       }
     } else {
       // All leads without sequences
-      const leadsWithSequences = await db
-        .select({ leadId: emailSequences.leadId })
-        .from(emailSequences);
-
-      const leadIdsWithSequences = new Set(leadsWithSequences.map((l) => l.leadId));
-
       const allCampaignLeads = await db
         .select()
         .from(leads)
         .where(eq(leads.campaignId, campaignId));
 
+      const leadIdsWithSequences = await getLeadIdsWithSequences(allCampaignLeads.map((l) => l.id));
+
       leadsToGenerate = allCampaignLeads.filter(
         (lead) => !leadIdsWithSequences.has(lead.id)
       );
@@ -103,6 +107,7 @@ export async function POST(
     }
 
     // Generate emails for each lead
+    const { autoApproveConfidence } = await getReviewPolicy(campaign.workspaceId);
     let generated = 0;
     let failed = 0;
     const errors: string[] = [];
@@ -136,29 +141,16 @@ export async function POST(
           tertiaryAngle: angleSelection.tertiaryAngle,
         };
 
-        const sequence = await generateEmailSequence(lead, research);
+        const feedback = feedbackByLead.get(lead.id) || [];
+        const sequence = await generateEmailSequence(lead, research, feedback);
 
         // Calculate confidence score based on personalization quality
         const confidenceScore = calculateConfidenceScore(sequence, lead);
 
-        // Insert sequence with confidence score
-        await db.insert(emailSequences).values({
-          leadId: lead.id,
-          primaryAngle: angleSelection.primaryAngle,
-          secondaryAngle: angleSelection.secondaryAngle,
-          tertiaryAngle: angleSelection.tertiaryAngle,
-          email1Subject: sequence.email1Subject,
-          email1Body: sequence.email1Body,
-          email2Subject: sequence.email2Subject,
-          email2Body: sequence.email2Body,
-          email3Subject: sequence.email3Subject,
-          email3Body: sequence.email3Body,
-          email4Subject: sequence.email4Subject,
-          email4Body: sequence.email4Body,
-          email5Subject: sequence.email5Subject,
-          email5Body: sequence.email5Body,
-          // Auto-approve if confidence is high enough
-          status: confidenceScore >= 8 ? "approved" : "pending_review",
+        // Save the sequence as the lead's touchpoints - auto-approve if confidence clears the
+        // workspace threshold, unless it's a rewrite of a rejected sequence
+        await saveLeadSequence(lead.id, stepsFromGeneratedEmails(sequence, angleSelection), {
+          reviewStatus: confidenceScore >= autoApproveConfidence && feedback.length === 0 ? "approved" : "pending_review",
           confidenceScore,
           confidenceReason: getConfidenceReason(confidenceScore),
         });
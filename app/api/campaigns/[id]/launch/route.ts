@@ -8,6 +8,15 @@ import {
   leadTouchpoints,
 } from "@/lib/db/schema";
 import { eq, and, inArray, asc } from "drizzle-orm";
+import { resolveSendWindow, scheduleStepInSendWindow } from "@/lib/services/send-window";
+import { findUnresolvedVariables } from "@/lib/services/template-context";
+import { getVariantsByTemplate, pickVariant } from "@/lib/services/ab-testing";
+import { getLeadIdsWithSequences } from "@/lib/services/lead-sequences";
+import {
+  personalizeCampaign,
+  getPersonalizedChannels,
+  type PersonalizationResult,
+} from "@/lib/services/touchpoint-personalization";
 
 /**
  * POST /api/campaigns/[id]/launch
@@ -17,6 +26,26 @@ import { eq, and, inArray, asc } from "drizzle-orm";
  * Request body:
  * - leadIds?: string[] - Optional specific lead IDs to launch (launches all if not provided)
  * - scheduleAt?: string - Optional ISO date to schedule launch (launches immediately if not provided)
+ * - sendNow?: boolean - Send step 1 right away when the campaign's sending window is open
+ * - allowUnresolved?: boolean - Launch even if some leads are missing template variables
+ *   (those touchpoints fail at send time instead)
+ * - personalize?: boolean - Write each lead's own copy for the automatically sent steps with AI
+ *   (default false). This makes one AI call per lead before responding, so keep launches small
+ *   or use POST /api/campaigns/[id]/personalize afterwards. Copy scored below the auto-approve
+ *   threshold is held for review; leads whose copy can't be written get the template copy.
+ *
+ * Leads with a written sequence of their own (e.g. referred leads, see lib/services/referrals.ts)
+ * are left out.
+ *
+ * Steps with A/B variants assign each lead a variant by weight (or the promoted winner).
+ *
+ * Every step (and every variant of it) is rendered for every lead first. If any variable has no value and no default,
+ * nothing is launched and the response lists them: { error, unresolved: [{ leadId, leadName,
+ * stepNumber, variables }] }.
+ *
+ * Every touchpoint is scheduled inside the campaign's sending window (days/hours in its timezone,
+ * or in each lead's own timezone when the campaign targets recipient-local time). Steps with a
+ * preferred time of day (morning/afternoon/evening) land in that part of the lead's day.
  */
 export async function POST(
   request: NextRequest,
@@ -96,35 +125,85 @@ export async function POST(
         );
     }
 
+    // Leads with their own written sequence send that instead
+    const withSequences = await getLeadIdsWithSequences(leadsToLaunch.map((l) => l.id));
+    leadsToLaunch = leadsToLaunch.filter((lead) => !withSequences.has(lead.id));
+
     if (leadsToLaunch.length === 0) {
       return NextResponse.json(
-        { error: "No eligible leads to launch. Leads must have 'new' status." },
+        { error: "No eligible leads to launch. Leads must have 'new' status and no written sequence." },
         { status: 400 }
       );
     }
 
-    // 5. Calculate scheduled dates for each touchpoint
+    // 5. Check every step (and A/B variant) renders for every lead
+    const { sendNow = false, allowUnresolved = false, personalize = false } = body;
+    const variantsByStep = await getVariantsByTemplate(touchpoints.map((t) => t.id));
+
+    if (!allowUnresolved) {
+      const stepCopies = touchpoints.flatMap((touchpoint) => {
+        const variants = variantsByStep.get(touchpoint.id);
+        if (!variants?.length) return [touchpoint];
+        return variants.map((variant) => ({
+          stepNumber: touchpoint.stepNumber,
+          subject: variant.subject ?? touchpoint.subject,
+          body: variant.body ?? touchpoint.body,
+        }));
+      });
+      const unresolved = await findUnresolvedVariables(leadsToLaunch, stepCopies);
+      if (unresolved.length > 0) {
+        const affectedLeads = new Set(unresolved.map((u) => u.leadId)).size;
+        return NextResponse.json(
+          {
+            error: `${affectedLeads} lead${affectedLeads === 1 ? " is" : "s are"} missing template variables. Fill them in or add defaults like {{firstName|there}}.`,
+            unresolved,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 6. Calculate scheduled dates for each touchpoint, inside the sending window
     const baseDate = scheduleAt ? new Date(scheduleAt) : new Date();
     const launchedLeads: string[] = [];
     const touchpointsCreated: number[] = [];
+    const personalizedChannels: string[] = personalize ? getPersonalizedChannels() : [];
 
     for (const lead of leadsToLaunch) {
-      let cumulativeDelay = 0;
+      let previousDate = baseDate;
 
       for (const touchpoint of touchpoints) {
-        // Add delay days to get scheduled date
-        cumulativeDelay += touchpoint.delayDays || 0;
-        const scheduledDate = new Date(baseDate);
-        scheduledDate.setDate(scheduledDate.getDate() + cumulativeDelay);
+        // Each step lands delayDays after the previous one, at a random time in the window.
+        // With sendNow, an immediate first step keeps the earliest open slot.
+        const isImmediate = sendNow && touchpoint.stepNumber === 1 && !touchpoint.delayDays;
+        const scheduledDate = scheduleStepInSendWindow(
+          previousDate,
+          touchpoint.delayDays || 0,
+          resolveSendWindow(campaign.schedulingSettings, {
+            leadTimezone: lead.timezone,
+            preferredTimeOfDay: touchpoint.preferredTimeOfDay,
+          }),
+          { jitter: !isImmediate }
+        );
+        previousDate = scheduledDate;
+
+        // A/B variant: the promoted winner once there is one, otherwise a weighted pick
+        const variants = variantsByStep.get(touchpoint.id) || [];
+        const variant = variants.find((v) => v.id === touchpoint.winningVariantId) || pickVariant(variants);
 
         // Create lead touchpoint record
         await db.insert(leadTouchpoints).values({
           leadId: lead.id,
           touchpointTemplateId: touchpoint.id,
+          variantId: variant?.id || null,
           stepNumber: touchpoint.stepNumber,
           channel: touchpoint.channel,
           status: "pending",
           scheduledAt: scheduledDate,
+          // Held as a draft until its copy is written
+          reviewStatus: personalizedChannels.includes(touchpoint.channel) ? "draft" : null,
+          // A lead paused before launch starts frozen; resuming it shifts the schedule
+          pausedAt: lead.pausedAt ? new Date() : null,
         });
 
         touchpointsCreated.push(1);
@@ -142,7 +221,13 @@ export async function POST(
       launchedLeads.push(lead.id);
     }
 
-    // 6. Update campaign status to active
+    // 7. Write each lead's copy (drafts are released to the template copy if this fails)
+    let personalization: PersonalizationResult | null = null;
+    if (personalizedChannels.length > 0) {
+      personalization = await personalizeCampaign(campaignId, { leadIds: launchedLeads });
+    }
+
+    // 8. Update campaign status to active
     await db
       .update(campaigns)
       .set({
@@ -153,8 +238,7 @@ export async function POST(
 
     console.log(`[Campaign Launch] Launched ${launchedLeads.length} leads with ${touchpointsCreated.length} touchpoints for campaign ${campaignId}`);
 
-    // 7. Optionally send immediately scheduled emails
-    const { sendNow = false } = body;
+    // 9. Optionally send immediately scheduled emails
     let sendResult = null;
 
     if (sendNow) {
@@ -164,7 +248,7 @@ export async function POST(
         const processResponse = await fetch(`${baseUrl}/api/campaigns/${campaignId}/process`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ sendImmediate: true }),
+          body: JSON.stringify({}),
         });
         sendResult = await processResponse.json();
         console.log(`[Campaign Launch] Immediate send result:`, sendResult);
@@ -179,6 +263,7 @@ export async function POST(
       launchedLeads: launchedLeads.length,
       touchpointsScheduled: touchpointsCreated.length,
       leadIds: launchedLeads,
+      personalization,
       message: `Successfully launched ${launchedLeads.length} leads into the sequence`,
       sendResult,
     });
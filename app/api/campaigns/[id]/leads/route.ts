@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { leads, emailSequences, campaigns } from "@/lib/db/schema";
+import { leads, campaigns } from "@/lib/db/schema";
 import { eq, inArray, and, sql } from "drizzle-orm";
 
 /**
@@ -26,6 +26,9 @@ export async function GET(
         schoolName: leads.schoolName,
         schoolCountry: leads.schoolCountry,
         status: leads.status,
+        pausedAt: leads.pausedAt,
+        pausedUntil: leads.pausedUntil,
+        referredByLeadId: leads.referredByLeadId,
         leadScore: leads.leadScore,
         createdAt: leads.createdAt,
       })
@@ -77,12 +80,7 @@ export async function DELETE(
       );
     }
 
-    // First, delete associated email sequences
-    await db
-      .delete(emailSequences)
-      .where(inArray(emailSequences.leadId, leadIds));
-
-    // Then delete the leads themselves
+    // Delete the leads (their touchpoints go with them)
     const result = await db
       .delete(leads)
       .where(
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPauseHistory } from "@/lib/services/pause-resume";
+
+/**
+ * GET /api/campaigns/[id]/pause-history
+ *
+ * Pauses and resumes of the campaign and its leads, latest first, with who did them and why
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const history = await getPauseHistory({ campaignId: id });
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error("[Pause] Error fetching pause history:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch pause history" },
+      { status: 500 }
+    );
+  }
+}
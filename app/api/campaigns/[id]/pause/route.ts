@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { campaigns } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { pauseCampaign } from "@/lib/services/pause-resume";
+import { getCurrentWorkspaceId, getCurrentUserId } from "@/lib/auth-helpers";
+
+/**
+ * POST /api/campaigns/[id]/pause
+ *
+ * Pause an active campaign: its pending touchpoints are frozen until it's resumed
+ *
+ * Request body:
+ * - reason?: string - Why it was paused, kept in the pause history
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const workspaceId = await getCurrentWorkspaceId();
+
+    const [campaign] = await db
+      .select({ id: campaigns.id, status: campaigns.status })
+      .from(campaigns)
+      .where(and(eq(campaigns.id, id), workspaceId ? eq(campaigns.workspaceId, workspaceId) : undefined))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    if (campaign.status !== "active") {
+      return NextResponse.json(
+        { error: `Only active campaigns can be paused (this one is ${campaign.status})` },
+        { status: 409 }
+      );
+    }
+
+    const frozen = await pauseCampaign(id, {
+      userId: await getCurrentUserId(),
+      reason: typeof body.reason === "string" ? body.reason : null,
+    });
+
+    return NextResponse.json({ status: "paused", frozen });
+  } catch (error) {
+    console.error("[Pause] Error pausing campaign:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to pause campaign" },
+      { status: 500 }
+    );
+  }
+}
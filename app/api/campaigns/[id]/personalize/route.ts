@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { campaigns } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { personalizeCampaign } from "@/lib/services/touchpoint-personalization";
+
+/**
+ * POST /api/campaigns/[id]/personalize
+ *
+ * Write each launched lead's own copy for its pending, automatically sent steps with AI.
+ * Launch does this when asked to (personalize: true); use it to personalise after launching,
+ * retry leads that fell back to template copy or rewrite copy after changing the templates.
+ *
+ * Request body:
+ * - leadIds?: string[] - Only these leads (default: every lead with steps still to write)
+ * - regenerate?: boolean - Rewrite steps that already have copy of their own
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { leadIds, regenerate = false } = body;
+
+    if (leadIds !== undefined && !Array.isArray(leadIds)) {
+      return NextResponse.json({ error: "leadIds must be an array" }, { status: 400 });
+    }
+
+    const [campaign] = await db
+      .select({ id: campaigns.id })
+      .from(campaigns)
+      .where(eq(campaigns.id, campaignId))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    const result = await personalizeCampaign(campaignId, { leadIds, regenerate: !!regenerate });
+
+    return NextResponse.json({
+      ...result,
+      errors: result.errors.slice(0, 5), // First 5 errors
+      message: `Personalised copy for ${result.leads} leads${result.held > 0 ? `, ${result.held} steps held for review` : ""}${result.failed > 0 ? `, ${result.failed} failed` : ""}`,
+    });
+  } catch (error) {
+    console.error("[Personalize] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to personalise copy" },
+      { status: 500 }
+    );
+  }
+}
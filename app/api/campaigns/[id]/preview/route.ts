@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { leads, sequenceTemplates, touchpointTemplates, touchpointVariants, leadTouchpoints } from "@/lib/db/schema";
+import { eq, and, asc } from "drizzle-orm";
+import { getTemplateContext } from "@/lib/services/template-context";
+import { renderTemplate, getVariationSeed } from "@/lib/utils/template";
+
+/**
+ * GET /api/campaigns/[id]/preview?leadId=...
+ *
+ * Render every step of the campaign's sequence for one lead, exactly as the sender will.
+ * Defaults to the first lead in the campaign when leadId is omitted. Launched leads are shown
+ * with the A/B variant they were assigned.
+ *
+ * Returns { lead, steps: [{ stepNumber, channel, variantLabel, subject, body, missing }] } where
+ * missing lists variables with no value and no default.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params;
+    const leadId = request.nextUrl.searchParams.get("leadId");
+
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(
+        leadId
+          ? and(eq(leads.id, leadId), eq(leads.campaignId, campaignId))
+          : eq(leads.campaignId, campaignId)
+      )
+      .orderBy(asc(leads.createdAt))
+      .limit(1);
+
+    if (!lead) {
+      return NextResponse.json(
+        { error: leadId ? "Lead not found in this campaign" : "Campaign has no leads to preview" },
+        { status: 404 }
+      );
+    }
+
+    const [sequenceTemplate] = await db
+      .select()
+      .from(sequenceTemplates)
+      .where(eq(sequenceTemplates.campaignId, campaignId))
+      .limit(1);
+
+    if (!sequenceTemplate) {
+      return NextResponse.json(
+        { error: "No sequence template found for this campaign" },
+        { status: 404 }
+      );
+    }
+
+    const touchpoints = await db
+      .select()
+      .from(touchpointTemplates)
+      .where(eq(touchpointTemplates.sequenceTemplateId, sequenceTemplate.id))
+      .orderBy(asc(touchpointTemplates.stepNumber));
+
+    // Variants already assigned to this lead, by step
+    const assigned = await db
+      .select({
+        touchpointTemplateId: leadTouchpoints.touchpointTemplateId,
+        label: touchpointVariants.label,
+        subject: touchpointVariants.subject,
+        body: touchpointVariants.body,
+      })
+      .from(leadTouchpoints)
+      .innerJoin(touchpointVariants, eq(leadTouchpoints.variantId, touchpointVariants.id))
+      .where(eq(leadTouchpoints.leadId, lead.id));
+    const variantByStep = new Map(assigned.map((a) => [a.touchpointTemplateId, a]));
+
+    const context = await getTemplateContext(lead);
+
+    const steps = touchpoints.map((touchpoint) => {
+      const variant = variantByStep.get(touchpoint.id);
+      const subject = renderTemplate(variant?.subject ?? touchpoint.subject, context, {
+        seed: getVariationSeed(lead.id, touchpoint.stepNumber, "subject"),
+      });
+      const body = renderTemplate(variant?.body ?? touchpoint.body, context, {
+        seed: getVariationSeed(lead.id, touchpoint.stepNumber, "body"),
+      });
+
+      return {
+        stepNumber: touchpoint.stepNumber,
+        channel: touchpoint.channel,
+        variantLabel: variant?.label || null,
+        subject: subject.output,
+        body: body.output,
+        missing: [...new Set([...subject.missing, ...body.missing])],
+      };
+    });
+
+    return NextResponse.json({
+      lead: {
+        id: lead.id,
+        firstName: lead.firstName,
+        lastName: lead.lastName,
+        email: lead.email,
+      },
+      steps,
+    });
+  } catch (error) {
+    console.error("[Campaign Preview] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to render preview" },
+      { status: 500 }
+    );
+  }
+}
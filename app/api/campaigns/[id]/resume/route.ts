@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { campaigns } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { resumeCampaign } from "@/lib/services/pause-resume";
+import { getCurrentWorkspaceId, getCurrentUserId } from "@/lib/auth-helpers";
+
+/**
+ * POST /api/campaigns/[id]/resume
+ *
+ * Resume a paused campaign. Frozen touchpoints are pushed back by the time spent paused,
+ * keeping the delays between steps.
+ *
+ * Request body:
+ * - reason?: string - Why it was resumed, kept in the pause history
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const workspaceId = await getCurrentWorkspaceId();
+
+    const [campaign] = await db
+      .select({ id: campaigns.id, status: campaigns.status })
+      .from(campaigns)
+      .where(and(eq(campaigns.id, id), workspaceId ? eq(campaigns.workspaceId, workspaceId) : undefined))
+      .limit(1);
+
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    if (campaign.status !== "paused") {
+      return NextResponse.json(
+        { error: `Only paused campaigns can be resumed (this one is ${campaign.status})` },
+        { status: 409 }
+      );
+    }
+
+    const reflowed = await resumeCampaign(id, {
+      userId: await getCurrentUserId(),
+      reason: typeof body.reason === "string" ? body.reason : null,
+    });
+
+    return NextResponse.json({ status: "active", reflowed });
+  } catch (error) {
+    console.error("[Pause] Error resuming campaign:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to resume campaign" },
+      { status: 500 }
+    );
+  }
+}
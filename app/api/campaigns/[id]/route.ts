@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { campaigns, leads, emailSequences } from "@/lib/db/schema";
+import { campaigns, leads } from "@/lib/db/schema";
 import { eq, sql } from "drizzle-orm";
-
-// PATCH - Update campaign details (name, description, status)
+import { getLeadSequences } from "@/lib/services/lead-sequences";
+import { getReviewPolicy } from "@/lib/services/review-queue";
+import { applyPauseTransition } from "@/lib/services/pause-resume";
+import { SENDER_ROTATIONS } from "@/lib/services/sender-rotation";
+import { getSendWindowError } from "@/lib/services/send-window";
+import { getCurrentUserId } from "@/lib/auth-helpers";
+
+// PATCH - Update campaign details (name, description, status) and settings (sending window, daily limit,
+// tags, sender rotation and preferred domains)
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -13,7 +20,7 @@ export async function PATCH(
     const body = await request.json();
 
     // Filter only allowed fields
-    const allowedFields = ["name", "description", "status", "senderRotation", "preferredDomainIds"];
+    const allowedFields = ["name", "description", "status", "senderRotation", "preferredDomainIds", "schedulingSettings", "dailyLimit", "tags"];
     const updates: Record<string, unknown> = {};
 
     for (const field of allowedFields) {
@@ -22,6 +29,70 @@ export async function PATCH(
       }
     }
 
+    // null (or 0) removes the cap
+    if (updates.dailyLimit !== undefined) {
+      const { dailyLimit } = updates;
+      if (dailyLimit !== null && (!Number.isInteger(dailyLimit) || (dailyLimit as number) < 0)) {
+        return NextResponse.json(
+          { error: "dailyLimit must be a whole number of emails per day, or null for no limit" },
+          { status: 400 }
+        );
+      }
+      updates.dailyLimit = dailyLimit || null;
+    }
+
+    if (updates.tags !== undefined) {
+      const { tags } = updates;
+      if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+        return NextResponse.json(
+          { error: "tags must be an array of strings" },
+          { status: 400 }
+        );
+      }
+      updates.tags = [...new Set(tags.map((tag: string) => tag.trim()).filter(Boolean))];
+    }
+
+    if (updates.schedulingSettings !== undefined) {
+      const sendWindowError = getSendWindowError(updates.schedulingSettings);
+      if (sendWindowError) {
+        return NextResponse.json({ error: sendWindowError }, { status: 400 });
+      }
+    }
+
+    if (updates.senderRotation !== undefined && !SENDER_ROTATIONS.includes(updates.senderRotation as never)) {
+      return NextResponse.json(
+        { error: `senderRotation must be one of: ${SENDER_ROTATIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (updates.preferredDomainIds !== undefined) {
+      const { preferredDomainIds } = updates;
+      if (!Array.isArray(preferredDomainIds) || preferredDomainIds.some((domainId) => typeof domainId !== "string")) {
+        return NextResponse.json(
+          { error: "preferredDomainIds must be an array of sending domain IDs" },
+          { status: 400 }
+        );
+      }
+      updates.preferredDomainIds = [...new Set(preferredDomainIds as string[])];
+    }
+
+    // A fixed sender sends everything from the first preferred domain, so it needs one
+    if (updates.senderRotation === "fixed" || updates.preferredDomainIds !== undefined) {
+      const [current] = await db
+        .select({ senderRotation: campaigns.senderRotation, preferredDomainIds: campaigns.preferredDomainIds })
+        .from(campaigns)
+        .where(eq(campaigns.id, id));
+      const senderRotation = updates.senderRotation ?? current?.senderRotation;
+      const preferredDomainIds = (updates.preferredDomainIds ?? current?.preferredDomainIds ?? []) as string[];
+      if (senderRotation === "fixed" && preferredDomainIds.length === 0) {
+        return NextResponse.json(
+          { error: "Pick the domain to send from when sender rotation is fixed" },
+          { status: 400 }
+        );
+      }
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json(
         { error: "No valid fields to update" },
@@ -29,13 +100,20 @@ export async function PATCH(
       );
     }
 
-    // Add updatedAt
-    updates.updatedAt = new Date();
+    // Pausing and resuming also freeze and re-flow the touchpoints
+    if (typeof updates.status === "string" && (await applyPauseTransition(id, updates.status, { userId: await getCurrentUserId() }))) {
+      delete updates.status;
+    }
 
-    await db
-      .update(campaigns)
-      .set(updates)
-      .where(eq(campaigns.id, id));
+    if (Object.keys(updates).length > 0) {
+      // Add updatedAt
+      updates.updatedAt = new Date();
+
+      await db
+        .update(campaigns)
+        .set(updates)
+        .where(eq(campaigns.id, id));
+    }
 
     // Fetch updated campaign
     const [updated] = await db
@@ -76,10 +154,8 @@ export async function GET(
       );
     }
 
-    // OPTIMIZED: Single query with LEFT JOIN to get leads + sequences together
-    const leadsWithSequencesRaw = await db
+    const campaignLeads = await db
       .select({
-        // Lead fields
         id: leads.id,
         firstName: leads.firstName,
         lastName: leads.lastName,
@@ -92,69 +168,21 @@ export async function GET(
         status: leads.status,
         researchSummary: leads.researchSummary,
         createdAt: leads.createdAt,
-        // Sequence fields (will be null if no sequence exists)
-        sequenceId: emailSequences.id,
-        sequenceStatus: emailSequences.status,
-        currentEmail: emailSequences.currentEmail,
-        confidenceScore: emailSequences.confidenceScore,
-        confidenceReason: emailSequences.confidenceReason,
-        email1Subject: emailSequences.email1Subject,
-        email1Body: emailSequences.email1Body,
-        email2Subject: emailSequences.email2Subject,
-        email2Body: emailSequences.email2Body,
-        email3Subject: emailSequences.email3Subject,
-        email3Body: emailSequences.email3Body,
-        email4Subject: emailSequences.email4Subject,
-        email4Body: emailSequences.email4Body,
-        email5Subject: emailSequences.email5Subject,
-        email5Body: emailSequences.email5Body,
-        primaryAngle: emailSequences.primaryAngle,
-        secondaryAngle: emailSequences.secondaryAngle,
-        tertiaryAngle: emailSequences.tertiaryAngle,
       })
       .from(leads)
-      .leftJoin(emailSequences, eq(emailSequences.leadId, leads.id))
       .where(eq(leads.campaignId, id));
 
-    // Transform to expected format
-    const leadsWithSequences = leadsWithSequencesRaw.map((row) => ({
-      id: row.id,
-      firstName: row.firstName,
-      lastName: row.lastName,
-      email: row.email,
-      emailVerified: row.emailVerified,
-      jobTitle: row.jobTitle,
-      schoolName: row.schoolName,
-      schoolCountry: row.schoolCountry,
-      leadScore: row.leadScore,
-      status: row.status,
-      researchSummary: row.researchSummary,
-      createdAt: row.createdAt,
-      sequence: row.sequenceId
-        ? {
-            id: row.sequenceId,
-            status: row.sequenceStatus,
-            currentEmail: row.currentEmail,
-            confidenceScore: row.confidenceScore,
-            confidenceReason: row.confidenceReason,
-            email1Subject: row.email1Subject,
-            email1Body: row.email1Body,
-            email2Subject: row.email2Subject,
-            email2Body: row.email2Body,
-            email3Subject: row.email3Subject,
-            email3Body: row.email3Body,
-            email4Subject: row.email4Subject,
-            email4Body: row.email4Body,
-            email5Subject: row.email5Subject,
-            email5Body: row.email5Body,
-            primaryAngle: row.primaryAngle,
-            secondaryAngle: row.secondaryAngle,
-            tertiaryAngle: row.tertiaryAngle,
-          }
-        : null,
+    // Written sequences (the leads' own touchpoints), null for leads without one
+    const sequences = await getLeadSequences(campaignLeads.map((l) => l.id));
+    const sequenceByLead = new Map(sequences.map((s) => [s.leadId, s]));
+
+    const leadsWithSequences = campaignLeads.map((lead) => ({
+      ...lead,
+      sequence: sequenceByLead.get(lead.id) || null,
     }));
 
     // Calculate summary stats (in-memory, fast since we already have the data)
+    const { autoApproveConfidence } = await getReviewPolicy(campaign.workspaceId);
     const stats = {
       totalLeads: leadsWithSequences.length,
       noSequence: leadsWithSequences.filter((l) => !l.sequence).length,
@@ -168,18 +196,18 @@ export async function GET(
         (l) => l.sequence?.status === "active"
       ).length,
       highConfidence: leadsWithSequences.filter(
-        (l) => l.sequence && (l.sequence.confidenceScore || 0) >= 8
+        (l) => l.sequence && (l.sequence.confidenceScore || 0) >= autoApproveConfidence
       ).length,
       needsReview: leadsWithSequences.filter(
         (l) =>
           l.sequence &&
-          (l.sequence.confidenceScore || 0) < 8 &&
+          (l.sequence.confidenceScore || 0) < autoApproveConfidence &&
           l.sequence.status === "pending_review"
       ).length,
       autoApprovable: leadsWithSequences.filter(
         (l) =>
           l.sequence &&
-          (l.sequence.confidenceScore || 0) >= 8 &&
+          (l.sequence.confidenceScore || 0) >= autoApproveConfidence &&
           l.sequence.status === "pending_review"
       ).length,
       replied: leadsWithSequences.filter((l) => l.status === "replied").length,
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { campaigns, leads, emailSequences, sendingDomains } from "@/lib/db/schema";
-import { eq, and, sql } from "drizzle-orm";
-import { sendEmail, scheduleNextEmail } from "@/lib/services/email-sender";
-
-// POST - Send emails for approved sequences in campaign
+import { campaigns, leads, sendingDomains } from "@/lib/db/schema";
+import { eq, and, isNull, sql } from "drizzle-orm";
+import { sendEmail } from "@/lib/services/email-sender";
+import { getLeadSequences, scheduleNextSteps } from "@/lib/services/lead-sequences";
+import { getRemainingDailySends } from "@/lib/services/send-queue";
+import { selectSendingDomain, getCampaignRotation } from "@/lib/services/sender-rotation";
+
+// POST - Send the first email of approved sequences in campaign; the send queue sends the rest
+// on the sequence cadence
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -27,6 +31,13 @@ export async function POST(
       );
     }
 
+    if (campaign.status === "paused") {
+      return NextResponse.json(
+        { error: "Campaign is paused - resume it to send" },
+        { status: 409 }
+      );
+    }
+
     // Check for active sending domains
     const activeDomains = await db
       .select()
@@ -46,38 +57,19 @@ export async function POST(
       console.log(`  - ${d.fromEmail} (${d.sendingMethod || 'resend'}) ${d.smtpHost ? `via ${d.smtpHost}` : ''}`);
     }
 
-    // Get approved sequences in this campaign with full lead data
-    const approvedSequences = await db
-      .select({
-        sequenceId: emailSequences.id,
-        leadId: leads.id,
-        email: leads.email,
-        firstName: leads.firstName,
-        lastName: leads.lastName,
-        jobTitle: leads.jobTitle,
-        schoolName: leads.schoolName,
-        schoolCountry: leads.schoolCountry,
-        schoolRegion: leads.schoolRegion,
-        phone: leads.phone,
-        linkedinUrl: leads.linkedinUrl,
-        curriculum: leads.curriculum,
-        annualFeesUsd: leads.annualFeesUsd,
-        studentCount: leads.studentCount,
-        deviceAccess: leads.deviceAccess,
-        schoolType: leads.schoolType,
-        schoolWebsite: leads.schoolWebsite,
-        subject: emailSequences.email1Subject,
-        body: emailSequences.email1Body,
-        currentEmail: emailSequences.currentEmail,
-      })
-      .from(emailSequences)
-      .innerJoin(leads, eq(emailSequences.leadId, leads.id))
-      .where(
-        and(
-          eq(leads.campaignId, campaignId),
-          eq(emailSequences.status, "approved")
-        )
-      );
+    // Get approved sequences in this campaign that haven't started yet (paused leads wait)
+    const campaignLeads = await db
+      .select()
+      .from(leads)
+      .where(and(eq(leads.campaignId, campaignId), isNull(leads.pausedAt)));
+    const leadsById = new Map(campaignLeads.map((lead) => [lead.id, lead]));
+
+    const approvedSequences = (await getLeadSequences(campaignLeads.map((l) => l.id)))
+      .filter((sequence) => sequence.status === "approved")
+      .map((sequence) => ({
+        ...leadsById.get(sequence.leadId)!,
+        step: sequence.steps[0],
+      }));
 
     console.log(`[Campaign Send] Found ${approvedSequences.length} approved sequences`);
 
@@ -89,14 +81,31 @@ export async function POST(
       });
     }
 
+    // The campaign's daily limit applies here too; the rest wait for the next call
+    const remainingToday = await getRemainingDailySends(campaign);
+    if (remainingToday === 0) {
+      return NextResponse.json({
+        message: `Daily limit of ${campaign.dailyLimit} emails reached for this campaign - try again tomorrow`,
+        sent: 0,
+        failed: 0,
+        held: approvedSequences.length,
+      });
+    }
+
     let sent = 0;
     let failed = 0;
+    let held = 0;
     const errors: string[] = [];
 
     for (const seq of approvedSequences) {
+      if (remainingToday !== null && sent >= remainingToday) {
+        held++;
+        continue;
+      }
+
       try {
         // Validate email content
-        if (!seq.subject || !seq.body) {
+        if (!seq.step.subject || !seq.step.body) {
           const errMsg = `${seq.firstName || 'Unknown'}: No email content (subject or body missing)`;
           console.error(`[Campaign Send] ${errMsg}`);
           errors.push(errMsg);
@@ -113,19 +122,31 @@ export async function POST(
           continue;
         }
 
-        console.log(`[Campaign Send] Sending to ${seq.email} (${seq.firstName} ${seq.lastName})`);
+        // Leads already emailed stay on their mailbox unless it was paused, the rest go through the campaign's rotation
+        const pinned = activeDomains.some((d) => d.id === seq.senderDomainId && !d.isPaused);
+        const selected = await selectSendingDomain(
+          pinned ? { onlyDomainId: seq.senderDomainId! } : getCampaignRotation(campaign)
+        );
+        if (!selected) {
+          // Every allowed mailbox is at its warmup limit - the sequence stays approved for the next call
+          console.log(`[Campaign Send] No mailbox with capacity left for ${seq.email}, holding`);
+          held++;
+          continue;
+        }
+
+        console.log(`[Campaign Send] Sending to ${seq.email} (${seq.firstName} ${seq.lastName}) via ${selected.domain.fromEmail}`);
 
         // Use the unified sendEmail function which handles:
         // - SMTP sending
-        // - Domain rotation
         // - Warmup limits
+        // - Pinning the lead to the mailbox
         const result = await sendEmail({
           to: seq.email,
-          subject: seq.subject,
-          body: seq.body,
-          leadId: seq.leadId,
-          sequenceId: seq.sequenceId,
-          emailNumber: 1,
+          subject: seq.step.subject,
+          body: seq.step.body,
+          leadId: seq.id,
+          domainId: selected.domain.id,
+          touchpointId: seq.step.touchpointId,
         });
 
         if (!result.success) {
@@ -138,24 +159,14 @@ export async function POST(
 
         console.log(`[Campaign Send] ✓ Sent to ${seq.email} via ${result.domain}, messageId: ${result.messageId}`);
 
-        // Update sequence to active - ONLY after successful send
-        await db
-          .update(emailSequences)
-          .set({
-            status: "active",
-            email1SentAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(emailSequences.id, seq.sequenceId));
-
         // Update lead status
         await db
           .update(leads)
           .set({ status: "emailing", updatedAt: new Date() })
-          .where(eq(leads.id, seq.leadId));
+          .where(eq(leads.id, seq.id));
 
-        // Schedule next email in sequence
-        await scheduleNextEmail(seq.sequenceId);
+        // Schedule the rest of the sequence
+        await scheduleNextSteps(seq.id, seq.step.stepNumber);
 
         sent++;
       } catch (error) {
@@ -177,9 +188,10 @@ export async function POST(
       })
       .where(eq(campaigns.id, campaignId));
 
-    const resultMessage = sent > 0
+    const resultMessage = (sent > 0
       ? `Sent ${sent} email${sent !== 1 ? 's' : ''}${failed > 0 ? `, ${failed} failed` : ""}`
-      : `Failed to send ${failed} email${failed !== 1 ? 's' : ''}`;
+      : `Failed to send ${failed} email${failed !== 1 ? 's' : ''}`) +
+      (held > 0 ? `, ${held} held by sending limits` : "");
 
     console.log(`[Campaign Send] Complete: ${resultMessage}`);
 
@@ -187,6 +199,7 @@ export async function POST(
       message: resultMessage,
       sent,
       failed,
+      held,
       errors: errors.slice(0, 10), // Return first 10 errors for debugging
     });
   } catch (error) {
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { touchpointTemplates } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { touchpointTemplates, touchpointVariants } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { AB_TEST_METRICS, promoteVariant, type AbTestMetric } from "@/lib/services/ab-testing";
+import { validateCondition, normalizeCondition } from "@/lib/utils/step-conditions";
 
 // PATCH - Update a sequence step
 export async function PATCH(
@@ -19,8 +21,13 @@ export async function PATCH(
       "delayDays",
       "subject",
       "body",
+      "talkingPoints",
       "preferredTimeOfDay",
       "personalizationNotes",
+      "abTestMetric",
+      "abTestMinSends",
+      "autoPromoteWinner",
+      "condition",
     ];
     const updates: Record<string, unknown> = {};
 
@@ -30,7 +37,61 @@ export async function PATCH(
       }
     }
 
-    if (Object.keys(updates).length === 0) {
+    if (updates.abTestMetric !== undefined && !AB_TEST_METRICS.includes(updates.abTestMetric as AbTestMetric)) {
+      return NextResponse.json(
+        { error: `abTestMetric must be one of: ${AB_TEST_METRICS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Branch conditions may only look at earlier steps
+    if (updates.condition !== undefined) {
+      let stepNumber = updates.stepNumber as number | undefined;
+      if (stepNumber === undefined) {
+        const [existing] = await db
+          .select({ stepNumber: touchpointTemplates.stepNumber })
+          .from(touchpointTemplates)
+          .where(eq(touchpointTemplates.id, stepId))
+          .limit(1);
+        stepNumber = existing?.stepNumber;
+      }
+
+      const conditionError = validateCondition(updates.condition, stepNumber ?? 1);
+      if (conditionError) {
+        return NextResponse.json(
+          { error: conditionError },
+          { status: 400 }
+        );
+      }
+      updates.condition = normalizeCondition(updates.condition as Parameters<typeof normalizeCondition>[0]);
+    }
+
+    // Promoting a winner switches the step's remaining sends to it; null clears it
+    if (body.winningVariantId) {
+      const [variant] = await db
+        .select({ id: touchpointVariants.id })
+        .from(touchpointVariants)
+        .where(
+          and(
+            eq(touchpointVariants.id, body.winningVariantId),
+            eq(touchpointVariants.touchpointTemplateId, stepId)
+          )
+        )
+        .limit(1);
+
+      if (!variant) {
+        return NextResponse.json(
+          { error: "Variant not found for this step" },
+          { status: 404 }
+        );
+      }
+
+      await promoteVariant(stepId, variant.id);
+    } else if (body.winningVariantId === null) {
+      updates.winningVariantId = null;
+    }
+
+    if (Object.keys(updates).length === 0 && !body.winningVariantId) {
       return NextResponse.json(
         { error: "No valid fields to update" },
         { status: 400 }
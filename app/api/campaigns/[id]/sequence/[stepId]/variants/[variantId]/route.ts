@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { touchpointVariants } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+
+// PATCH - Update an A/B variant
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; stepId: string; variantId: string }> }
+) {
+  try {
+    const { stepId, variantId } = await params;
+    const body = await request.json();
+
+    // Filter only allowed fields
+    const allowedFields = ["label", "subject", "body", "weight", "isActive"];
+    const updates: Record<string, unknown> = {};
+
+    for (const field of allowedFields) {
+      if (body[field] !== undefined) {
+        updates[field] = body[field];
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 }
+      );
+    }
+
+    if (updates.weight !== undefined && (!Number.isInteger(updates.weight) || (updates.weight as number) < 0)) {
+      return NextResponse.json(
+        { error: "weight must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    updates.updatedAt = new Date();
+
+    const [variant] = await db
+      .update(touchpointVariants)
+      .set(updates)
+      .where(
+        and(
+          eq(touchpointVariants.id, variantId),
+          eq(touchpointVariants.touchpointTemplateId, stepId)
+        )
+      )
+      .returning();
+
+    if (!variant) {
+      return NextResponse.json(
+        { error: "Variant not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ variant });
+  } catch (error) {
+    console.error("Error updating variant:", error);
+    return NextResponse.json(
+      { error: "Failed to update variant" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove an A/B variant (leads already assigned to it fall back to the step's copy)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; stepId: string; variantId: string }> }
+) {
+  try {
+    const { stepId, variantId } = await params;
+
+    const [deleted] = await db
+      .delete(touchpointVariants)
+      .where(
+        and(
+          eq(touchpointVariants.id, variantId),
+          eq(touchpointVariants.touchpointTemplateId, stepId)
+        )
+      )
+      .returning();
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Variant not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error("Error deleting variant:", error);
+    return NextResponse.json(
+      { error: "Failed to delete variant" },
+      { status: 500 }
+    );
+  }
+}
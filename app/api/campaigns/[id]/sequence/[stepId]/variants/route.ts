@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { touchpointTemplates, touchpointVariants } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  AB_TEST_METRICS,
+  checkSignificance,
+  getVariantStats,
+  type AbTestMetric,
+} from "@/lib/services/ab-testing";
+
+// GET - A/B variants of a step with per-variant stats and a significance check
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; stepId: string }> }
+) {
+  try {
+    const { stepId } = await params;
+
+    const [step] = await db
+      .select()
+      .from(touchpointTemplates)
+      .where(eq(touchpointTemplates.id, stepId))
+      .limit(1);
+
+    if (!step) {
+      return NextResponse.json(
+        { error: "Step not found" },
+        { status: 404 }
+      );
+    }
+
+    const variants = await db
+      .select()
+      .from(touchpointVariants)
+      .where(eq(touchpointVariants.touchpointTemplateId, stepId));
+
+    const stats = await getVariantStats(stepId);
+    const metric = AB_TEST_METRICS.includes(step.abTestMetric as AbTestMetric)
+      ? (step.abTestMetric as AbTestMetric)
+      : "reply";
+
+    return NextResponse.json({
+      variants: variants.map((variant) => ({
+        ...variant,
+        stats: stats.find((s) => s.variantId === variant.id) || null,
+      })),
+      significance: checkSignificance(stats, metric, step.abTestMinSends ?? undefined),
+      settings: {
+        abTestMetric: metric,
+        abTestMinSends: step.abTestMinSends,
+        autoPromoteWinner: step.autoPromoteWinner,
+        winningVariantId: step.winningVariantId,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching variants:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch variants" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add an A/B variant to a step
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; stepId: string }> }
+) {
+  try {
+    const { stepId } = await params;
+    const body = await request.json();
+
+    const [step] = await db
+      .select({ id: touchpointTemplates.id })
+      .from(touchpointTemplates)
+      .where(eq(touchpointTemplates.id, stepId))
+      .limit(1);
+
+    if (!step) {
+      return NextResponse.json(
+        { error: "Step not found" },
+        { status: 404 }
+      );
+    }
+
+    if (body.weight !== undefined && (!Number.isInteger(body.weight) || body.weight < 0)) {
+      return NextResponse.json(
+        { error: "weight must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    // Label the next variant A, B, C... unless one was given
+    const existing = await db
+      .select({ label: touchpointVariants.label })
+      .from(touchpointVariants)
+      .where(eq(touchpointVariants.touchpointTemplateId, stepId));
+    const label = body.label || String.fromCharCode(65 + existing.length);
+
+    const [variant] = await db
+      .insert(touchpointVariants)
+      .values({
+        touchpointTemplateId: stepId,
+        label,
+        subject: body.subject ?? null,
+        body: body.body ?? null,
+        weight: body.weight ?? 1,
+      })
+      .returning();
+
+    return NextResponse.json({ variant });
+  } catch (error) {
+    console.error("Error creating variant:", error);
+    return NextResponse.json(
+      { error: "Failed to create variant" },
+      { status: 500 }
+    );
+  }
+}
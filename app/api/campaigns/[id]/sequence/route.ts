@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sequenceTemplates, touchpointTemplates, campaigns } from "@/lib/db/schema";
+import {
+  sequenceTemplates,
+  touchpointTemplates,
+  campaigns,
+  sequenceLibrary,
+  sequenceLibraryVersions,
+} from "@/lib/db/schema";
 import { eq, asc } from "drizzle-orm";
+import { validateCondition, normalizeCondition } from "@/lib/utils/step-conditions";
 
 // GET - Get sequence steps for a campaign
 export async function GET(
@@ -32,14 +39,34 @@ export async function GET(
         delayDays: touchpointTemplates.delayDays,
         subject: touchpointTemplates.subject,
         body: touchpointTemplates.body,
+        talkingPoints: touchpointTemplates.talkingPoints,
         preferredTimeOfDay: touchpointTemplates.preferredTimeOfDay,
         personalizationNotes: touchpointTemplates.personalizationNotes,
+        abTestMetric: touchpointTemplates.abTestMetric,
+        abTestMinSends: touchpointTemplates.abTestMinSends,
+        autoPromoteWinner: touchpointTemplates.autoPromoteWinner,
+        winningVariantId: touchpointTemplates.winningVariantId,
+        condition: touchpointTemplates.condition,
         createdAt: touchpointTemplates.createdAt,
       })
       .from(touchpointTemplates)
       .where(eq(touchpointTemplates.sequenceTemplateId, sequenceTemplate.id))
       .orderBy(asc(touchpointTemplates.stepNumber));
 
+    // Library version the steps were copied from, if any
+    const [library] = sequenceTemplate.libraryVersionId
+      ? await db
+          .select({
+            id: sequenceLibrary.id,
+            name: sequenceLibrary.name,
+            version: sequenceLibraryVersions.version,
+            latestVersion: sequenceLibrary.latestVersion,
+          })
+          .from(sequenceLibraryVersions)
+          .innerJoin(sequenceLibrary, eq(sequenceLibraryVersions.libraryId, sequenceLibrary.id))
+          .where(eq(sequenceLibraryVersions.id, sequenceTemplate.libraryVersionId))
+      : [];
+
     return NextResponse.json({
       steps,
       sequenceTemplate: {
@@ -47,6 +74,7 @@ export async function GET(
         name: sequenceTemplate.name,
         generationType: sequenceTemplate.generationType,
       },
+      library: library || null,
     });
   } catch (error) {
     console.error("Error fetching sequence:", error);
@@ -98,6 +126,14 @@ export async function POST(
         .returning();
     }
 
+    const conditionError = validateCondition(body.condition, body.stepNumber || 1);
+    if (conditionError) {
+      return NextResponse.json(
+        { error: conditionError },
+        { status: 400 }
+      );
+    }
+
     // Create the new touchpoint
     const [newStep] = await db
       .insert(touchpointTemplates)
@@ -108,8 +144,10 @@ export async function POST(
         delayDays: body.delayDays || 0,
         subject: body.subject || null,
         body: body.body || null,
+        talkingPoints: body.talkingPoints || [],
         preferredTimeOfDay: body.preferredTimeOfDay || null,
         personalizationNotes: body.personalizationNotes || null,
+        condition: normalizeCondition(body.condition),
       })
       .returning();
 
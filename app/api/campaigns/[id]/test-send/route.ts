@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { leads, sequenceTemplates, touchpointTemplates, sendingDomains } from "@/lib/db/schema";
+import { eq, and, asc } from "drizzle-orm";
+import { getTemplateContext } from "@/lib/services/template-context";
+import { resolveSender, generateMessageId } from "@/lib/services/email-transport";
+import { renderTemplate, getVariationSeed } from "@/lib/utils/template";
+
+/**
+ * POST /api/campaigns/[id]/test-send
+ *
+ * Render one step for a lead and send it to a test address, so you can check the
+ * real email before launching. Nothing is tracked or logged against the lead.
+ *
+ * Request body:
+ * - testEmail: string - Where to send the test
+ * - stepNumber?: number - Step to send (default 1)
+ * - leadId?: string - Lead whose data fills the variables (default: first lead in the campaign)
+ * - domainId?: string - Mailbox to send from (default: first active one)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { testEmail, stepNumber = 1, leadId, domainId } = body;
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!testEmail || !emailRegex.test(testEmail)) {
+      return NextResponse.json(
+        { error: "A valid testEmail is required" },
+        { status: 400 }
+      );
+    }
+
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(
+        leadId
+          ? and(eq(leads.id, leadId), eq(leads.campaignId, campaignId))
+          : eq(leads.campaignId, campaignId)
+      )
+      .orderBy(asc(leads.createdAt))
+      .limit(1);
+
+    if (!lead) {
+      return NextResponse.json(
+        { error: leadId ? "Lead not found in this campaign" : "Add a lead to the campaign to send a test" },
+        { status: 404 }
+      );
+    }
+
+    const [touchpoint] = await db
+      .select({
+        subject: touchpointTemplates.subject,
+        body: touchpointTemplates.body,
+        channel: touchpointTemplates.channel,
+      })
+      .from(touchpointTemplates)
+      .innerJoin(sequenceTemplates, eq(touchpointTemplates.sequenceTemplateId, sequenceTemplates.id))
+      .where(
+        and(
+          eq(sequenceTemplates.campaignId, campaignId),
+          eq(touchpointTemplates.stepNumber, stepNumber)
+        )
+      )
+      .limit(1);
+
+    if (!touchpoint || touchpoint.channel !== "email" || !touchpoint.body) {
+      return NextResponse.json(
+        { error: `Step ${stepNumber} is not an email step with content` },
+        { status: 400 }
+      );
+    }
+
+    const [domain] = await db
+      .select()
+      .from(sendingDomains)
+      .where(domainId ? eq(sendingDomains.id, domainId) : eq(sendingDomains.isActive, true))
+      .orderBy(asc(sendingDomains.createdAt))
+      .limit(1);
+
+    const context = await getTemplateContext(lead, domain);
+    const subject = renderTemplate(touchpoint.subject || `Step ${stepNumber}`, context, {
+      seed: getVariationSeed(lead.id, stepNumber, "subject"),
+    });
+    const text = renderTemplate(touchpoint.body, context, {
+      seed: getVariationSeed(lead.id, stepNumber, "body"),
+    });
+
+    const { transport, fromName, fromEmail, messageDomain } = resolveSender(domain || null);
+    const { messageId } = await transport.send({
+      from: `${fromName} <${fromEmail}>`,
+      to: testEmail,
+      subject: `[Test] ${subject.output}`,
+      text: text.output,
+      html: text.output.replace(/\n/g, "<br>"),
+      messageId: generateMessageId(messageDomain),
+    });
+
+    console.log(`[Campaign Test Send] Step ${stepNumber} for ${lead.email} sent to ${testEmail} via ${transport.name}`);
+
+    return NextResponse.json({
+      success: true,
+      messageId,
+      from: fromEmail,
+      subject: subject.output,
+      body: text.output,
+      missing: [...new Set([...subject.missing, ...text.missing])],
+    });
+  } catch (error) {
+    console.error("[Campaign Test Send] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to send test email" },
+      { status: 500 }
+    );
+  }
+}
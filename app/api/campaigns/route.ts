@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { campaigns, leads } from "@/lib/db/schema";
 import { eq, desc, sql, inArray, and } from "drizzle-orm";
-import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+import { getCurrentWorkspaceId, getCurrentUserId } from "@/lib/auth-helpers";
+import { applyPauseTransition } from "@/lib/services/pause-resume";
+import { getSendWindowError } from "@/lib/services/send-window";
 
 // Helper to handle database errors
 function handleDbError(error: unknown) {
@@ -25,25 +27,27 @@ function handleDbError(error: unknown) {
   );
 }
 
-// GET - List all campaigns with stats (auto-sync lead counts)
+// GET - List all campaigns with stats (auto-sync lead counts); ?tag= lists only campaigns with that tag
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
 
   try {
+    const tag = request.nextUrl.searchParams.get("tag")?.trim();
+
     // Get current workspace
     const workspaceId = await getCurrentWorkspaceId();
 
     // Build query - filter by workspace if available
-    const allCampaigns = workspaceId
-      ? await db
-          .select()
-          .from(campaigns)
-          .where(eq(campaigns.workspaceId, workspaceId))
-          .orderBy(desc(campaigns.createdAt))
-      : await db
-          .select()
-          .from(campaigns)
-          .orderBy(desc(campaigns.createdAt));
+    const allCampaigns = await db
+      .select()
+      .from(campaigns)
+      .where(
+        and(
+          workspaceId ? eq(campaigns.workspaceId, workspaceId) : undefined,
+          tag ? sql`${campaigns.tags} @> ${JSON.stringify([tag])}::jsonb` : undefined
+        )
+      )
+      .orderBy(desc(campaigns.createdAt));
 
     // Get actual lead counts for each campaign in one query
     const campaignIds = allCampaigns.map(c => c.id);
@@ -90,6 +94,8 @@ export async function GET(request: NextRequest) {
         description: campaign.description,
         source: campaign.source,
         status: campaign.status,
+        tags: campaign.tags || [],
+        dailyLimit: campaign.dailyLimit,
         totalLeads: actualLeadCount,
         emailsGenerated: campaign.emailsGenerated || 0,
         emailsApproved: campaign.emailsApproved || 0,
@@ -129,7 +135,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, description, source, sourceQuery, sequenceType, aiCriteria } = body;
+    const { name, description, source, sourceQuery, sequenceType, aiCriteria, schedulingSettings } = body;
 
     if (!name) {
       return NextResponse.json(
@@ -138,6 +144,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const sendWindowError = schedulingSettings ? getSendWindowError(schedulingSettings) : null;
+    if (sendWindowError) {
+      return NextResponse.json({ error: sendWindowError }, { status: 400 });
+    }
+
     // Get current workspace
     const workspaceId = await getCurrentWorkspaceId();
 
@@ -151,6 +162,7 @@ export async function POST(request: NextRequest) {
         status: "draft",
         sequenceType: sequenceType || "ai",
         aiCriteria: aiCriteria || null,
+        schedulingSettings: schedulingSettings || null,
         workspaceId: workspaceId || null,
       })
       .returning();
@@ -187,12 +199,18 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    // Update campaign fields
+    // Update campaign fields - pausing and resuming also freeze and re-flow the touchpoints
     if (updates) {
-      await db
-        .update(campaigns)
-        .set({ ...updates, updatedAt: new Date() })
-        .where(eq(campaigns.id, id));
+      const { status, ...fields } = updates;
+      const handled = status ? await applyPauseTransition(id, status, { userId: await getCurrentUserId() }) : false;
+      if (status && !handled) fields.status = status;
+
+      if (Object.keys(fields).length > 0) {
+        await db
+          .update(campaigns)
+          .set({ ...fields, updatedAt: new Date() })
+          .where(eq(campaigns.id, id));
+      }
     }
 
     // Batch add leads to campaign (single query instead of loop)
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { crmContacts, crmActivities, leads, leadTouchpoints, inboxMessages, emailSequences } from "@/lib/db/schema";
+import { crmContacts, crmActivities, leads, leadTouchpoints, inboxMessages } from "@/lib/db/schema";
 import { eq, desc, asc, sql, and, or, ilike } from "drizzle-orm";
 
 /**
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { leads, emailSequences, leadTouchpoints, meetings, inboxMessages, emailEvents } from "@/lib/db/schema";
+import { leads, leadTouchpoints, meetings, inboxMessages, emailEvents } from "@/lib/db/schema";
 import { eq, desc, sql, and, gte } from "drizzle-orm";
 
 /**
@@ -26,8 +26,7 @@ export async function GET() {
       leadsByStatus[status] = (leadsByStatus[status] || 0) + 1;
     }
 
-    // Get email sequences and touchpoints stats
-    const allSequences = await db.select().from(emailSequences);
+    // Get touchpoint stats (campaign steps and written sequences alike)
     const allTouchpoints = await db.select().from(leadTouchpoints);
 
     // Count sent, opened, clicked
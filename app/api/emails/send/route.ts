@@ -1,16 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, emailSequences, leads } from "@/lib/db";
-import { eq, and, inArray } from "drizzle-orm";
-import { sendEmail, scheduleNextEmail } from "@/lib/services/email-sender";
+import { db, leads } from "@/lib/db";
+import { eq, inArray } from "drizzle-orm";
+import { sendEmail } from "@/lib/services/email-sender";
+import { getLeadSequences, scheduleNextSteps } from "@/lib/services/lead-sequences";
 
 /**
  * POST /api/emails/send
  *
- * Send emails for approved sequences
+ * Send emails for approved sequences now. Later steps are scheduled on the sequence cadence
+ * and sent by the send queue.
  *
  * Request body:
  * {
- *   sequenceIds: string[]  // Sequences to send
+ *   sequenceIds: string[]  // Sequences to send (their lead IDs)
  *   emailNumber?: number   // Which email to send (1-5), defaults to next in sequence
  * }
  */
@@ -27,14 +29,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Get sequences with lead data
-    const sequences = await db
-      .select({
-        sequence: emailSequences,
-        lead: leads,
-      })
-      .from(emailSequences)
-      .innerJoin(leads, eq(emailSequences.leadId, leads.id))
-      .where(inArray(emailSequences.id, sequenceIds));
+    const sequenceLeads = await db
+      .select()
+      .from(leads)
+      .where(inArray(leads.id, sequenceIds));
+    const leadsById = new Map(sequenceLeads.map((lead) => [lead.id, lead]));
+
+    const sequences = (await getLeadSequences(sequenceLeads.map((l) => l.id))).map((sequence) => ({
+      sequence,
+      lead: leadsById.get(sequence.leadId)!,
+    }));
 
     if (sequences.length === 0) {
       return NextResponse.json(
@@ -54,14 +58,16 @@ export async function POST(request: NextRequest) {
 
     for (const { sequence, lead } of sequences) {
       // Determine which email to send
-      const targetEmail = emailNumber || (sequence.currentEmail || 0) + 1;
+      const targetEmail = emailNumber || sequence.currentStep + 1;
+      const step = sequence.steps.find((s) => s.stepNumber === targetEmail);
 
-      if (targetEmail > 5) {
+      if (!step) {
+        const lastStep = sequence.steps[sequence.steps.length - 1].stepNumber;
         results.push({
           sequenceId: sequence.id,
           leadEmail: lead.email,
           success: false,
-          error: "Sequence already complete",
+          error: targetEmail > lastStep ? "Sequence already complete" : `Email ${targetEmail} content not found`,
         });
         continue;
       }
@@ -77,12 +83,21 @@ export async function POST(request: NextRequest) {
         continue;
       }
 
-      // Get email content
-      const subjectKey = `email${targetEmail}Subject` as keyof typeof sequence;
-      const bodyKey = `email${targetEmail}Body` as keyof typeof sequence;
+      if (step.reviewStatus !== "approved" || step.status !== "pending") {
+        results.push({
+          sequenceId: sequence.id,
+          leadEmail: lead.email,
+          success: false,
+          error: step.status !== "pending"
+            ? `Email ${targetEmail} is already ${step.status}`
+            : `Email ${targetEmail} is not approved`,
+        });
+        continue;
+      }
 
-      const subject = sequence[subjectKey] as string;
-      const emailBody = sequence[bodyKey] as string;
+      // Get email content
+      const subject = step.subject;
+      const emailBody = step.body;
 
       if (!subject || !emailBody) {
         results.push({
@@ -100,21 +115,10 @@ export async function POST(request: NextRequest) {
         subject,
         body: emailBody,
         leadId: lead.id,
-        sequenceId: sequence.id,
-        emailNumber: targetEmail,
+        touchpointId: step.touchpointId,
       });
 
       if (sendResult.success) {
-        // Update sequence status to active
-        await db
-          .update(emailSequences)
-          .set({
-            status: "active",
-            currentEmail: targetEmail,
-            updatedAt: new Date(),
-          })
-          .where(eq(emailSequences.id, sequence.id));
-
         // Update lead status
         await db
           .update(leads)
@@ -125,7 +129,7 @@ export async function POST(request: NextRequest) {
           .where(eq(leads.id, lead.id));
 
         // Schedule next email
-        const nextSendDate = await scheduleNextEmail(sequence.id);
+        const nextSendDate = await scheduleNextSteps(lead.id, targetEmail);
 
         results.push({
           sequenceId: sequence.id,
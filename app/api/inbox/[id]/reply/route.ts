@@ -7,11 +7,12 @@
  * KEY BEHAVIOR (DO NOT CHANGE WITHOUT EXPLICIT REQUEST):
  * 1. Replies MUST come from the SAME email address that originally contacted the lead
  * 2. Sender matching priority:
- *    a) Original outbound email's fromEmail (most recent)
- *    b) Inbound message's toEmail (what they replied to)
- *    c) SMTP_FROM_EMAIL environment variable
- *    d) SMTP_USER environment variable
- * 3. fromName is looked up from sendingDomains table if domain matches
+ *    a) The mailbox the lead is pinned to (leads.senderDomainId, set by the first send)
+ *    b) Original outbound email's fromEmail (most recent)
+ *    c) Inbound message's toEmail (what they replied to)
+ *    d) SMTP_FROM_EMAIL environment variable
+ *    e) SMTP_USER environment variable
+ * 3. fromName is the pinned mailbox's, otherwise looked up from sendingDomains table if domain matches
  *
  * This ensures thread continuity and prevents confusion for recipients.
  */
@@ -20,6 +21,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { db, inboxMessages, leads, sendingDomains, meetings } from "@/lib/db";
 import { eq, and, desc } from "drizzle-orm";
 import { sendReply } from "@/lib/services/email-sender";
+import { getPinnedDomain } from "@/lib/services/sender-rotation";
+import { sendMessage } from "@/lib/services/message-sender";
 import {
   createMeetingInviteAttachment,
   createCalendarAlternative,
@@ -67,13 +70,46 @@ export async function POST(
 
     const { message, lead } = result;
 
+    // SMS and WhatsApp conversations are answered on the same channel
+    if (message.channel === "sms" || message.channel === "whatsapp") {
+      const sent = await sendMessage({
+        channel: message.channel,
+        leadId: lead.id,
+        leadEmail: lead.email,
+        phone: message.direction === "inbound" ? message.fromEmail : message.toEmail,
+        country: lead.schoolCountry,
+        body: replyBody,
+      });
+
+      if (!sent.success) {
+        console.error("[Reply] Send error:", sent.error);
+        return NextResponse.json(
+          { error: sent.error || "Failed to send reply" },
+          { status: 500 }
+        );
+      }
+
+      await db
+        .update(inboxMessages)
+        .set({ aiDraftApproved: true })
+        .where(eq(inboxMessages.id, id));
+
+      return NextResponse.json({
+        success: true,
+        messageId: sent.providerMessageId,
+        meetingCreated: false,
+      });
+    }
+
     // =========================================================================
     // SENDER MATCHING LOGIC - LOCKED (DO NOT MODIFY WITHOUT EXPLICIT REQUEST)
     // =========================================================================
-    // Priority: originalOutbound.fromEmail > message.toEmail > SMTP_FROM_EMAIL > SMTP_USER
+    // Priority: pinned mailbox > originalOutbound.fromEmail > message.toEmail > SMTP_FROM_EMAIL > SMTP_USER
     // This ensures replies come from the SAME email that originally contacted the lead
 
-    // Step 1: Find the most recent outbound email to this lead
+    // Step 1: The lead's pinned mailbox, and the most recent outbound email to this lead
+    const pinnedDomain = await getPinnedDomain(lead.id);
+
     const [originalOutbound] = await db
       .select({
         fromEmail: inboxMessages.fromEmail,
@@ -92,7 +128,10 @@ export async function POST(
     let fromEmail = "";
     let senderSource = "";
 
-    if (originalOutbound?.fromEmail) {
+    if (pinnedDomain) {
+      fromEmail = pinnedDomain.fromEmail;
+      senderSource = "pinned_mailbox";
+    } else if (originalOutbound?.fromEmail) {
       fromEmail = originalOutbound.fromEmail;
       senderSource = "original_outbound";
     } else if (message.toEmail) {
@@ -109,7 +148,9 @@ export async function POST(
     // Step 3: Determine fromName from sendingDomains or env
     let fromName = process.env.SMTP_FROM_NAME || process.env.SMTP_USER || "";
 
-    if (fromEmail) {
+    if (pinnedDomain) {
+      fromName = pinnedDomain.fromName;
+    } else if (fromEmail) {
       const emailDomain = fromEmail.split("@")[1];
       if (emailDomain) {
         const [matchingDomain] = await db
@@ -126,7 +167,7 @@ export async function POST(
 
     // Step 4: Validate we have a sender
     if (!fromEmail) {
-      console.error("[Reply] FAILED: No sender email found. Checked: originalOutbound, message.toEmail, SMTP_FROM_EMAIL, SMTP_USER");
+      console.error("[Reply] FAILED: No sender email found. Checked: pinnedDomain, originalOutbound, message.toEmail, SMTP_FROM_EMAIL, SMTP_USER");
       return NextResponse.json(
         { error: "No sending identity available. Please configure SMTP settings or add a domain." },
         { status: 500 }
@@ -179,7 +220,7 @@ export async function POST(
     });
 
     if (error) {
-      console.error("[Reply] SMTP error:", error);
+      console.error("[Reply] Send error:", error);
       return NextResponse.json(
         { error: error || "Failed to send reply" },
         { status: 500 }
@@ -205,7 +246,6 @@ export async function POST(
 
     await db.insert(inboxMessages).values({
       leadId: lead.id,
-      sequenceId: message.sequenceId,
       direction: "outbound",
       fromEmail,
       toEmail: message.fromEmail,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db, inboxMessages, leads } from "@/lib/db";
 import { eq, desc, and, SQL, sql } from "drizzle-orm";
 import { markAsRead, getInboxStats } from "@/lib/services/reply-processor";
+import { isReplyIntent } from "@/lib/services/reply-intent";
 
 /**
  * GET /api/inbox
@@ -13,6 +14,7 @@ import { markAsRead, getInboxStats } from "@/lib/services/reply-processor";
  * - leadId: filter by specific lead
  * - senderEmail: filter by the email address we sent from (for sender rotation view)
  * - direction: "inbound" | "outbound" | "all" (default: inbound)
+ * - intent: reply intent of inbound messages ("interested", "out_of_office", "referral", ...)
  * - limit: max messages to return (default 50)
  */
 export async function GET(request: NextRequest) {
@@ -23,6 +25,14 @@ export async function GET(request: NextRequest) {
     const senderEmail = searchParams.get("senderEmail"); // Filter by our sending email
     const direction = searchParams.get("direction") || "inbound";
     const limit = parseInt(searchParams.get("limit") || "50", 10);
+    const intent = searchParams.get("intent");
+
+    if (intent && !isReplyIntent(intent)) {
+      return NextResponse.json(
+        { error: `Unknown reply intent: ${intent}` },
+        { status: 400 }
+      );
+    }
 
     // Build where conditions
     const conditions: SQL[] = [];
@@ -43,6 +53,10 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(inboxMessages.leadId, leadId));
     }
 
+    if (intent) {
+      conditions.push(eq(inboxMessages.replyIntent, intent));
+    }
+
     // Filter by sender email (our sending email address)
     // This finds messages where we sent from this email (outbound) or received replies to this email (inbound toEmail)
     if (senderEmail) {
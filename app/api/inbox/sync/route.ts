@@ -13,6 +13,7 @@
  *   total: number,      // total domains checked
  *   synced: number,     // domains successfully synced
  *   newMessages: number, // new messages found (used by inbox page)
+ *   bounces: number,    // bounce reports recorded (not inbox messages)
  *   errors: string[]    // any errors (logged but don't block UI)
  * }
  */
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { leads } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { pauseLead } from "@/lib/services/pause-resume";
+import { getCurrentWorkspaceId, getCurrentUserId } from "@/lib/auth-helpers";
+
+/**
+ * POST /api/leads/[id]/pause
+ *
+ * Pause one lead's sequence: its pending touchpoints are frozen until it's resumed
+ *
+ * Request body:
+ * - reason?: string - Why it was paused, kept in the pause history
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const workspaceId = await getCurrentWorkspaceId();
+
+    const [lead] = await db
+      .select({ id: leads.id, campaignId: leads.campaignId, pausedAt: leads.pausedAt })
+      .from(leads)
+      .where(and(eq(leads.id, id), workspaceId ? eq(leads.workspaceId, workspaceId) : undefined))
+      .limit(1);
+
+    if (!lead) {
+      return NextResponse.json({ error: "Lead not found" }, { status: 404 });
+    }
+
+    if (lead.pausedAt) {
+      return NextResponse.json({ error: "Lead is already paused" }, { status: 409 });
+    }
+
+    const frozen = await pauseLead(lead, {
+      userId: await getCurrentUserId(),
+      reason: typeof body.reason === "string" ? body.reason : null,
+    });
+
+    return NextResponse.json({ paused: true, frozen });
+  } catch (error) {
+    console.error("[Pause] Error pausing lead:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to pause lead" },
+      { status: 500 }
+    );
+  }
+}
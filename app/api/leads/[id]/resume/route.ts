@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { leads } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { resumeLead } from "@/lib/services/pause-resume";
+import { getCurrentWorkspaceId, getCurrentUserId } from "@/lib/auth-helpers";
+
+/**
+ * POST /api/leads/[id]/resume
+ *
+ * Resume one lead's sequence. Frozen touchpoints are pushed back by the time spent paused;
+ * if the lead's campaign is paused they wait for the campaign to resume.
+ *
+ * Request body:
+ * - reason?: string - Why it was resumed, kept in the pause history
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const workspaceId = await getCurrentWorkspaceId();
+
+    const [lead] = await db
+      .select({ id: leads.id, campaignId: leads.campaignId, pausedAt: leads.pausedAt })
+      .from(leads)
+      .where(and(eq(leads.id, id), workspaceId ? eq(leads.workspaceId, workspaceId) : undefined))
+      .limit(1);
+
+    if (!lead) {
+      return NextResponse.json({ error: "Lead not found" }, { status: 404 });
+    }
+
+    if (!lead.pausedAt) {
+      return NextResponse.json({ error: "Lead is not paused" }, { status: 409 });
+    }
+
+    const reflowed = await resumeLead(lead, {
+      userId: await getCurrentUserId(),
+      reason: typeof body.reason === "string" ? body.reason : null,
+    });
+
+    return NextResponse.json({ paused: false, reflowed });
+  } catch (error) {
+    console.error("[Pause] Error resuming lead:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to resume lead" },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import {
   validateLeads,
   deduplicateLeads,
 } from "@/lib/utils/csv-parser";
+import { isValidTimezone, resolveLeadTimezone } from "@/lib/utils/timezone";
 
 interface DuplicateInfo {
   email: string;
@@ -91,10 +92,15 @@ async function checkForDuplicates(
  * For CSV upload, send FormData with:
  * - file: File (CSV, XLSX, XLS)
  * - mappings?: JSON string of column mappings
+ * - defaultTimezone?: IANA timezone for leads whose timezone can't be inferred
  *
  * For search results import, send JSON:
  * - leads: Array of lead objects
  * - source: "search" | "csv"
+ * - defaultTimezone?: IANA timezone for leads whose timezone can't be inferred
+ *
+ * Each lead's timezone is taken from a mapped timezone column when valid, otherwise
+ * inferred from schoolCountry/schoolRegion.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -106,6 +112,7 @@ export async function POST(request: NextRequest) {
     let campaignName: string | null = null;
     let autoCreateCampaign = false;
     let searchQuery: string | null = null;
+    let defaultTimezone: string | null = null;
 
     // Handle JSON body (from search results)
     if (contentType.includes("application/json")) {
@@ -124,6 +131,7 @@ export async function POST(request: NextRequest) {
       campaignName = body.campaignName || null;
       autoCreateCampaign = body.autoCreateCampaign || false;
       searchQuery = body.searchQuery || null;
+      defaultTimezone = body.defaultTimezone || null;
 
     // Handle FormData (file upload)
     } else if (contentType.includes("multipart/form-data")) {
@@ -131,6 +139,7 @@ export async function POST(request: NextRequest) {
       const file = formData.get("file") as File | null;
       const mappingsStr = formData.get("mappings") as string | null;
       const campaignIdFromForm = formData.get("campaignId") as string | null;
+      defaultTimezone = formData.get("defaultTimezone") as string | null;
 
       // Set campaignId from FormData if provided
       if (campaignIdFromForm) {
@@ -180,6 +189,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (defaultTimezone && !isValidTimezone(defaultTimezone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${defaultTimezone}". Use an IANA name like "Asia/Dubai".` },
+        { status: 400 }
+      );
+    }
+
     // Validate leads
     const { valid, invalid } = validateLeads(leadsToImport);
 
@@ -234,6 +250,7 @@ export async function POST(request: NextRequest) {
       schoolWebsite: lead.schoolWebsite ? String(lead.schoolWebsite) : undefined,
       schoolCountry: lead.schoolCountry ? String(lead.schoolCountry) : undefined,
       schoolRegion: lead.schoolRegion ? String(lead.schoolRegion) : undefined,
+      timezone: resolveLeadTimezone(lead) || defaultTimezone || undefined,
       curriculum: lead.curriculum as string[] || [],
       annualFeesUsd: lead.annualFeesUsd ? Number(lead.annualFeesUsd) : undefined,
       studentCount: lead.studentCount ? Number(lead.studentCount) : undefined,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db, leads, type NewLead } from "@/lib/db";
 import { eq, desc, inArray, and } from "drizzle-orm";
 import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+import { resolveLeadTimezone } from "@/lib/utils/timezone";
 
 // GET /api/leads - List all leads (with optional pagination for large datasets)
 export async function GET(request: NextRequest) {
@@ -72,6 +73,7 @@ export async function POST(request: NextRequest) {
       schoolWebsite: body.schoolWebsite,
       schoolCountry: body.schoolCountry,
       schoolRegion: body.schoolRegion,
+      timezone: resolveLeadTimezone(body),
       curriculum: body.curriculum || [],
       annualFeesUsd: body.annualFeesUsd,
       studentCount: body.studentCount,
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { getQueueStats, runQueueTick } from "@/lib/services/send-queue";
+
+/**
+ * GET /api/queue
+ *
+ * Send queue depth and lag across all active campaigns
+ */
+export async function GET() {
+  try {
+    const stats = await getQueueStats();
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error("[Queue] Error fetching stats:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch queue stats" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/queue
+ *
+ * Run one queue batch across all active campaigns.
+ * Use from a cron when the in-process worker is disabled (SEND_WORKER_ENABLED=false).
+ * Requires "Authorization: Bearer <CRON_SECRET>" (401 otherwise); middleware lets this
+ * request through without a session.
+ *
+ * Request body:
+ * - limit?: number - Maximum touchpoints to claim (default 20)
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyCronSecret(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const result = await runQueueTick({ limit: body.limit });
+
+    return NextResponse.json({
+      ...result,
+      errors: result.errors.slice(0, 10),
+    });
+  } catch (error) {
+    console.error("[Queue] Tick error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to run queue" },
+      { status: 500 }
+    );
+  }
+}
+
+// Check the Authorization header against CRON_SECRET (never passes when it isn't set)
+function verifyCronSecret(authorization: string | null): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || !authorization) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(authorization);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
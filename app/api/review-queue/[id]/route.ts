@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDraft, updateDraft } from "@/lib/services/review-queue";
+import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+
+/**
+ * PATCH /api/review-queue/[id]
+ *
+ * Edit a held draft in place before approving it
+ *
+ * Request body:
+ * - subject?: string | null
+ * - body?: string
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { subject } = body;
+    const copy = body.body;
+
+    if (subject === undefined && copy === undefined) {
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 }
+      );
+    }
+    if (copy !== undefined && (typeof copy !== "string" || !copy.trim())) {
+      return NextResponse.json(
+        { error: "body can't be empty" },
+        { status: 400 }
+      );
+    }
+
+    const workspaceId = await getCurrentWorkspaceId();
+    if (!(await getDraft(id, workspaceId))) {
+      return NextResponse.json(
+        { error: "Draft not found or no longer waiting for review" },
+        { status: 404 }
+      );
+    }
+
+    await updateDraft(id, {
+      ...(subject !== undefined ? { subject: subject || null } : {}),
+      ...(copy !== undefined ? { body: copy } : {}),
+    });
+
+    return NextResponse.json({ draft: await getDraft(id, workspaceId) });
+  } catch (error) {
+    console.error("[Review Queue] Error updating draft:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update draft" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { approveDrafts, getReviewQueue } from "@/lib/services/review-queue";
+import { getCurrentWorkspaceId, getCurrentUserId } from "@/lib/auth-helpers";
+
+/**
+ * POST /api/review-queue/approve
+ *
+ * Approve held drafts so they go out at their scheduled time
+ *
+ * Request body:
+ * - ids: string[] - Lead touchpoint IDs
+ * - note?: string - Optional reason, kept with the approval
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { ids, note } = body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json(
+        { error: "ids must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+
+    // Only drafts in the current workspace
+    const drafts = await getReviewQueue({ ids, workspaceId: await getCurrentWorkspaceId(), limit: ids.length });
+    const approved = await approveDrafts(
+      drafts.map((d) => d.id),
+      { reviewedBy: await getCurrentUserId(), note: note || null }
+    );
+
+    return NextResponse.json({ approved });
+  } catch (error) {
+    console.error("[Review Queue] Error approving drafts:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to approve drafts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { assignReviewer, getReviewQueue, listReviewers } from "@/lib/services/review-queue";
+import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+
+/**
+ * POST /api/review-queue/assign
+ *
+ * Assign held drafts to a reviewer
+ *
+ * Request body:
+ * - ids: string[] - Lead touchpoint IDs
+ * - reviewerId: string | null - A workspace member, or null to unassign
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { ids, reviewerId } = body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json(
+        { error: "ids must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+    if (reviewerId === undefined) {
+      return NextResponse.json(
+        { error: "reviewerId is required (null to unassign)" },
+        { status: 400 }
+      );
+    }
+
+    const workspaceId = await getCurrentWorkspaceId();
+    if (reviewerId !== null) {
+      if (!workspaceId) {
+        return NextResponse.json({ error: "No workspace selected" }, { status: 400 });
+      }
+      const reviewers = await listReviewers(workspaceId);
+      if (!reviewers.some((r) => r.id === reviewerId)) {
+        return NextResponse.json(
+          { error: "Reviewer is not a member of this workspace" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Only drafts in the current workspace
+    const drafts = await getReviewQueue({ ids, workspaceId, limit: ids.length });
+    const assigned = await assignReviewer(drafts.map((d) => d.id), reviewerId);
+
+    return NextResponse.json({ assigned });
+  } catch (error) {
+    console.error("[Review Queue] Error assigning drafts:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to assign drafts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rejectDrafts, getReviewQueue } from "@/lib/services/review-queue";
+import {
+  personalizeLeadTouchpoints,
+  type PersonalizationResult,
+} from "@/lib/services/touchpoint-personalization";
+import { getCurrentWorkspaceId, getCurrentUserId } from "@/lib/auth-helpers";
+
+/**
+ * POST /api/review-queue/reject
+ *
+ * Reject held drafts. They stay held, and the reason is given to the AI when the copy is
+ * rewritten; the rewrite comes back to the queue whatever its score.
+ *
+ * Request body:
+ * - ids: string[] - Lead touchpoint IDs
+ * - reason: string - What's wrong with the copy
+ * - regenerate?: boolean - Rewrite rejected campaign steps right away (written sequences are
+ *   rewritten with the campaign's Generate or /api/sequences/generate)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { ids, reason, regenerate = false } = body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json(
+        { error: "ids must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+    if (typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json(
+        { error: "A rejection reason is required" },
+        { status: 400 }
+      );
+    }
+
+    // Only drafts in the current workspace
+    const drafts = await getReviewQueue({ ids, workspaceId: await getCurrentWorkspaceId(), limit: ids.length });
+    const rejected = await rejectDrafts(
+      drafts.map((d) => d.id),
+      { reason: reason.trim(), reviewedBy: await getCurrentUserId() }
+    );
+
+    let regenerated: PersonalizationResult | null = null;
+    if (regenerate) {
+      regenerated = { leads: 0, approved: 0, held: 0, failed: 0, errors: [] };
+      const steps = rejected.filter((r) => r.campaignStep);
+      for (const leadId of new Set(steps.map((r) => r.leadId))) {
+        const result = await personalizeLeadTouchpoints(leadId, {
+          touchpointIds: steps.filter((r) => r.leadId === leadId).map((r) => r.id),
+        });
+        regenerated.leads += result.leads;
+        regenerated.approved += result.approved;
+        regenerated.held += result.held;
+        regenerated.failed += result.failed;
+        regenerated.errors.push(...result.errors);
+      }
+    }
+
+    return NextResponse.json({ rejected: rejected.length, regenerated });
+  } catch (error) {
+    console.error("[Review Queue] Error rejecting drafts:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to reject drafts" },
+      { status: 500 }
+    );
+  }
+}
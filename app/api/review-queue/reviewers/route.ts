@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { listReviewers } from "@/lib/services/review-queue";
+import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+
+/**
+ * GET /api/review-queue/reviewers
+ *
+ * Workspace members drafts can be assigned to
+ */
+export async function GET() {
+  try {
+    const workspaceId = await getCurrentWorkspaceId();
+    const reviewers = workspaceId ? await listReviewers(workspaceId) : [];
+
+    return NextResponse.json({ reviewers });
+  } catch (error) {
+    console.error("[Review Queue] Error listing reviewers:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch reviewers" },
+      { status: 500 }
+    );
+  }
+}
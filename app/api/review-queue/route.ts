@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReviewQueue, getReviewPolicy } from "@/lib/services/review-queue";
+import { getCurrentWorkspaceId, getCurrentUserId } from "@/lib/auth-helpers";
+
+/**
+ * GET /api/review-queue
+ *
+ * Per-lead copy held for review because it scored below the workspace's auto-approve threshold
+ * (or is a rewrite of rejected copy). Held steps don't send, and hold the lead's later steps,
+ * until they're approved.
+ *
+ * Query params:
+ * - campaignId?: string
+ * - assignee?: "me" | "unassigned" | a user ID
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const campaignId = searchParams.get("campaignId") || undefined;
+    const assignee = searchParams.get("assignee");
+    const workspaceId = await getCurrentWorkspaceId();
+
+    let reviewerId: string | null | undefined;
+    if (assignee === "unassigned") {
+      reviewerId = null;
+    } else if (assignee === "me") {
+      reviewerId = await getCurrentUserId();
+      if (!reviewerId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+      }
+    } else if (assignee) {
+      reviewerId = assignee;
+    }
+
+    const [drafts, policy] = await Promise.all([
+      getReviewQueue({ workspaceId, campaignId, reviewerId }),
+      getReviewPolicy(workspaceId),
+    ]);
+
+    return NextResponse.json({
+      drafts,
+      total: drafts.length,
+      overdue: drafts.filter((d) => d.overdue).length,
+      policy,
+    });
+  } catch (error) {
+    console.error("[Review Queue] Error listing drafts:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch review queue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { sequenceLibrary } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+import {
+  getLibraryTemplate,
+  addLibraryVersion,
+  validateLibrarySteps,
+} from "@/lib/services/sequence-library";
+
+/**
+ * Library sequence visible to the current workspace, or null
+ */
+async function findTemplate(id: string) {
+  const template = await getLibraryTemplate(id);
+  const workspaceId = await getCurrentWorkspaceId();
+
+  if (!template || (workspaceId && template.workspaceId !== workspaceId)) {
+    return null;
+  }
+  return template;
+}
+
+// GET - A library sequence with all of its versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const template = await findTemplate(id);
+
+    if (!template) {
+      return NextResponse.json({ error: "Library sequence not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error("[Sequence Library] Error fetching template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch library sequence" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Rename/archive, or save edited steps as a new version
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { name, description, isArchived, steps, changeNote } = body;
+
+    if (!(await findTemplate(id))) {
+      return NextResponse.json({ error: "Library sequence not found" }, { status: 404 });
+    }
+
+    if (steps !== undefined) {
+      const stepsError = validateLibrarySteps(steps);
+      if (stepsError) {
+        return NextResponse.json({ error: stepsError }, { status: 400 });
+      }
+    }
+
+    const updates: Partial<typeof sequenceLibrary.$inferInsert> = {};
+    if (name !== undefined) updates.name = name;
+    if (description !== undefined) updates.description = description;
+    if (isArchived !== undefined) updates.isArchived = !!isArchived;
+
+    if (Object.keys(updates).length > 0) {
+      await db
+        .update(sequenceLibrary)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(sequenceLibrary.id, id));
+    }
+
+    // Steps are never edited in place - campaigns using older versions keep their copy
+    if (steps !== undefined) {
+      await addLibraryVersion(id, steps, changeNote);
+    }
+
+    return NextResponse.json({ template: await getLibraryTemplate(id) });
+  } catch (error) {
+    console.error("[Sequence Library] Error updating template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update library sequence" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a library sequence (campaigns created from it keep their steps)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!(await findTemplate(id))) {
+      return NextResponse.json({ error: "Library sequence not found" }, { status: 404 });
+    }
+
+    await db.delete(sequenceLibrary).where(eq(sequenceLibrary.id, id));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Sequence Library] Error deleting template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete library sequence" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { campaigns } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+import { getLibraryTemplate, instantiateLibraryTemplate } from "@/lib/services/sequence-library";
+
+// POST - Copy a library version (latest unless `version` is given) into a campaign
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { campaignId, version } = body;
+
+    if (!campaignId) {
+      return NextResponse.json({ error: "Campaign ID is required" }, { status: 400 });
+    }
+    if (version !== undefined && !Number.isInteger(version)) {
+      return NextResponse.json({ error: "version must be a version number" }, { status: 400 });
+    }
+
+    const workspaceId = await getCurrentWorkspaceId();
+    const template = await getLibraryTemplate(id);
+    if (!template || (workspaceId && template.workspaceId !== workspaceId)) {
+      return NextResponse.json({ error: "Library sequence not found" }, { status: 404 });
+    }
+    if (version !== undefined && !template.versions.some((v) => v.version === version)) {
+      return NextResponse.json({ error: `Version ${version} not found` }, { status: 404 });
+    }
+
+    const [campaign] = await db
+      .select({ id: campaigns.id, workspaceId: campaigns.workspaceId })
+      .from(campaigns)
+      .where(eq(campaigns.id, campaignId))
+      .limit(1);
+    if (!campaign || (workspaceId && campaign.workspaceId !== workspaceId)) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    const result = await instantiateLibraryTemplate({ libraryId: id, campaignId, version });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[Sequence Library] Error using template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to use library sequence" },
+      { status: 500 }
+    );
+  }
+}
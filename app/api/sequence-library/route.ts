@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+import { listLibrary, saveSequenceToLibrary } from "@/lib/services/sequence-library";
+
+// GET - List the workspace's library sequences (latest version summary)
+export async function GET(request: NextRequest) {
+  try {
+    const workspaceId = await getCurrentWorkspaceId();
+    const includeArchived = request.nextUrl.searchParams.get("includeArchived") === "true";
+
+    const templates = await listLibrary(workspaceId, { includeArchived });
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("[Sequence Library] Error listing templates:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch library" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save a campaign's sequence to the library (new sequence, or new version of libraryId)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { campaignId, name, description, libraryId, changeNote } = body;
+
+    if (!campaignId) {
+      return NextResponse.json(
+        { error: "Campaign ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const workspaceId = await getCurrentWorkspaceId();
+    const saved = await saveSequenceToLibrary({
+      campaignId,
+      workspaceId,
+      name,
+      description,
+      libraryId,
+      changeNote,
+    });
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: libraryId ? "Library sequence not found" : "Campaign has no sequence steps to save" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(saved);
+  } catch (error) {
+    console.error("[Sequence Library] Error saving template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save to library" },
+      { status: 500 }
+    );
+  }
+}
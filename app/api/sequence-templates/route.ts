@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { sequenceTemplates, touchpointTemplates, campaigns } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
+import { validateCondition, normalizeCondition } from "@/lib/utils/step-conditions";
 
 // Helper to handle database errors
 function handleDbError(error: unknown) {
@@ -90,6 +91,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const conditionError = Array.isArray(touchpoints)
+      ? touchpoints.map((tp: any, index: number) => validateCondition(tp.condition, index + 1)).find(Boolean)
+      : null;
+    if (conditionError) {
+      return NextResponse.json(
+        { error: conditionError },
+        { status: 400 }
+      );
+    }
+
     // Create sequence template
     const [template] = await db
       .insert(sequenceTemplates)
@@ -111,10 +122,12 @@ export async function POST(request: NextRequest) {
         channel: tp.channel || "email",
         delayDays: tp.delayDays || 0,
         preferredTimeOfDay: tp.preferredTimeOfDay || null,
+        replyInThread: tp.channel === "email" && index > 0 ? !!tp.replyInThread : false,
         subject: tp.subject || null,
         body: tp.body || null,
         talkingPoints: tp.talkingPoints || [],
         personalizationNotes: tp.personalizationNotes || null,
+        condition: normalizeCondition(tp.condition),
       }));
 
       await db.insert(touchpointTemplates).values(touchpointValues);
@@ -151,6 +164,16 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    const conditionError = Array.isArray(touchpoints)
+      ? touchpoints.map((tp: any, index: number) => validateCondition(tp.condition, index + 1)).find(Boolean)
+      : null;
+    if (conditionError) {
+      return NextResponse.json(
+        { error: conditionError },
+        { status: 400 }
+      );
+    }
+
     // Update template fields
     if (updates) {
       await db
@@ -174,10 +197,12 @@ export async function PATCH(request: NextRequest) {
           channel: tp.channel || "email",
           delayDays: tp.delayDays || 0,
           preferredTimeOfDay: tp.preferredTimeOfDay || null,
+          replyInThread: tp.channel === "email" && index > 0 ? !!tp.replyInThread : false,
           subject: tp.subject || null,
           body: tp.body || null,
           talkingPoints: tp.talkingPoints || [],
           personalizationNotes: tp.personalizationNotes || null,
+          condition: normalizeCondition(tp.condition),
         }));
 
         await db.insert(touchpointTemplates).values(touchpointValues);
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, emailSequences } from "@/lib/db";
-import { eq } from "drizzle-orm";
+import { getLeadSequence, updateReviewStatus } from "@/lib/services/lead-sequences";
 
 /**
  * POST /api/sequences/[id]/approve
  *
- * Approve a sequence for sending
+ * Approve a sequence for sending (id is the lead's ID)
  */
 export async function POST(
   request: NextRequest,
@@ -14,25 +13,19 @@ export async function POST(
   try {
     const { id } = await params;
 
-    const [updated] = await db
-      .update(emailSequences)
-      .set({
-        status: "approved",
-        updatedAt: new Date(),
-      })
-      .where(eq(emailSequences.id, id))
-      .returning();
-
-    if (!updated) {
+    const existing = await getLeadSequence(id);
+    if (!existing) {
       return NextResponse.json(
         { error: "Sequence not found" },
         { status: 404 }
       );
     }
 
+    await updateReviewStatus("approved", { leadIds: [id] });
+
     return NextResponse.json({
       success: true,
-      sequence: updated,
+      sequence: await getLeadSequence(id),
     });
   } catch (error) {
     console.error("[Sequence Approve] Error:", error);
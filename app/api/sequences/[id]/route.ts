@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, emailSequences } from "@/lib/db";
-import { eq } from "drizzle-orm";
+import {
+  getLeadSequence,
+  deleteLeadSequences,
+  updateSequenceSteps,
+  updateReviewStatus,
+} from "@/lib/services/lead-sequences";
+
+const REVIEW_STATUSES = ["draft", "pending_review", "approved"] as const;
+
+// Sequences are keyed by lead ID - a lead has one written sequence at a time
 
 // GET /api/sequences/[id] - Get a single sequence
 export async function GET(
@@ -10,17 +18,13 @@ export async function GET(
   try {
     const { id } = await params;
 
-    const sequence = await db
-      .select()
-      .from(emailSequences)
-      .where(eq(emailSequences.id, id))
-      .limit(1);
+    const sequence = await getLeadSequence(id);
 
-    if (!sequence.length) {
+    if (!sequence) {
       return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ sequence: sequence[0] });
+    return NextResponse.json({ sequence });
   } catch (error) {
     console.error("Error fetching sequence:", error);
     return NextResponse.json(
@@ -30,7 +34,8 @@ export async function GET(
   }
 }
 
-// PATCH /api/sequences/[id] - Update a sequence
+// PATCH /api/sequences/[id] - Edit unsent steps ({ steps: [{ stepNumber, subject?, body?, angle? }] })
+// and/or move the sequence to a review status ({ reviewStatus })
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -38,48 +43,34 @@ export async function PATCH(
   try {
     const { id } = await params;
     const body = await request.json();
+    const { steps, reviewStatus } = body;
 
-    // Filter only allowed fields
-    const allowedFields = [
-      "email1Subject", "email1Body", "email1Approved",
-      "email2Subject", "email2Body", "email2Approved",
-      "email3Subject", "email3Body", "email3Approved",
-      "email4Subject", "email4Body", "email4Approved",
-      "email5Subject", "email5Body", "email5Approved",
-      "primaryAngle", "secondaryAngle", "tertiaryAngle",
-      "status",
-    ];
-
-    const updates: Record<string, unknown> = {};
-    for (const field of allowedFields) {
-      if (body[field] !== undefined) {
-        updates[field] = body[field];
-      }
-    }
-
-    if (Object.keys(updates).length === 0) {
+    if (!Array.isArray(steps) && reviewStatus === undefined) {
       return NextResponse.json(
         { error: "No valid fields to update" },
         { status: 400 }
       );
     }
 
-    // Add updatedAt
-    updates.updatedAt = new Date();
+    if (reviewStatus !== undefined && !REVIEW_STATUSES.includes(reviewStatus)) {
+      return NextResponse.json(
+        { error: `reviewStatus must be one of: ${REVIEW_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
 
-    await db
-      .update(emailSequences)
-      .set(updates)
-      .where(eq(emailSequences.id, id));
+    if (!(await getLeadSequence(id))) {
+      return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+    }
 
-    // Fetch updated sequence
-    const updated = await db
-      .select()
-      .from(emailSequences)
-      .where(eq(emailSequences.id, id))
-      .limit(1);
+    if (Array.isArray(steps)) {
+      await updateSequenceSteps(id, steps);
+    }
+    if (reviewStatus) {
+      await updateReviewStatus(reviewStatus, { leadIds: [id] });
+    }
 
-    return NextResponse.json({ sequence: updated[0] });
+    return NextResponse.json({ sequence: await getLeadSequence(id) });
   } catch (error) {
     console.error("Error updating sequence:", error);
     return NextResponse.json(
@@ -97,7 +88,7 @@ export async function DELETE(
   try {
     const { id } = await params;
 
-    await db.delete(emailSequences).where(eq(emailSequences.id, id));
+    await deleteLeadSequences([id]);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, emailSequences } from "@/lib/db";
-import { eq, inArray, or } from "drizzle-orm";
+import { updateReviewStatus } from "@/lib/services/lead-sequences";
+import { getCurrentUserId } from "@/lib/auth-helpers";
 
 /**
  * POST /api/sequences/approve-bulk
@@ -8,7 +8,7 @@ import { eq, inArray, or } from "drizzle-orm";
  * Bulk approve multiple sequences
  *
  * Request body:
- * - sequenceIds: string[] - IDs of sequences to approve (optional, if not provided approves all pending)
+ * - sequenceIds: string[] - IDs of sequences (their lead IDs) to approve (optional, if not provided approves all pending)
  * - approveAll: boolean - If true, approves all pending_review and draft sequences
  */
 export async function POST(request: NextRequest) {
@@ -16,31 +16,21 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { sequenceIds, approveAll } = body;
 
-    let idsToApprove: string[] = [];
-
-    if (approveAll) {
-      // Get all sequences that are pending review or draft
-      const pendingSequences = await db
-        .select({ id: emailSequences.id })
-        .from(emailSequences)
-        .where(
-          or(
-            eq(emailSequences.status, "pending_review"),
-            eq(emailSequences.status, "draft")
-          )
-        );
-
-      idsToApprove = pendingSequences.map(s => s.id);
-    } else if (sequenceIds && Array.isArray(sequenceIds) && sequenceIds.length > 0) {
-      idsToApprove = sequenceIds;
-    } else {
+    if (!approveAll && !(sequenceIds && Array.isArray(sequenceIds) && sequenceIds.length > 0)) {
       return NextResponse.json(
         { error: "No sequences specified. Provide sequenceIds array or set approveAll: true" },
         { status: 400 }
       );
     }
 
-    if (idsToApprove.length === 0) {
+    // Approve every sequence still in review or draft, or just the ones specified
+    const result = await updateReviewStatus(
+      "approved",
+      approveAll ? { from: ["pending_review", "draft"] } : { leadIds: sequenceIds },
+      { reviewedBy: await getCurrentUserId() }
+    );
+
+    if (result.length === 0) {
       return NextResponse.json({
         success: true,
         approved: 0,
@@ -48,22 +38,12 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Bulk update all specified sequences to approved
-    const result = await db
-      .update(emailSequences)
-      .set({
-        status: "approved",
-        updatedAt: new Date(),
-      })
-      .where(inArray(emailSequences.id, idsToApprove))
-      .returning({ id: emailSequences.id });
-
     console.log(`[Bulk Approve] Approved ${result.length} sequences`);
 
     return NextResponse.json({
       success: true,
       approved: result.length,
-      ids: result.map(r => r.id),
+      ids: result,
     });
   } catch (error) {
     console.error("[Bulk Approve] Error:", error);
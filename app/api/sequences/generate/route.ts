@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, leads, emailSequences } from "@/lib/db";
+import { db, leads } from "@/lib/db";
 import { eq, inArray } from "drizzle-orm";
 import { generateEmailSequence, selectAngles } from "@/lib/ai/generate-emails";
 import { researchLead } from "@/lib/ai/research-lead";
 import { chunk, sleep } from "@/lib/utils";
 import { getCurrentWorkspaceId } from "@/lib/auth";
 import { checkUsage, incrementUsage } from "@/lib/services/usage-tracker";
+import {
+  saveLeadSequence,
+  getRejectionFeedback,
+  stepsFromGeneratedEmails,
+} from "@/lib/services/lead-sequences";
 
 const BATCH_SIZE = 10; // Process 10 leads at a time for quality
 
@@ -64,6 +69,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No leads found" }, { status: 404 });
     }
 
+    // Rewrites of rejected sequences are told why the last version was rejected
+    const feedbackByLead = await getRejectionFeedback(leadsToProcess.map((l) => l.id));
+
     const results: { leadId: string; success: boolean; error?: string }[] = [];
     const batches = chunk(leadsToProcess, BATCH_SIZE);
 
@@ -88,25 +96,11 @@ export async function POST(request: NextRequest) {
               .where(eq(leads.id, lead.id));
 
             // 3. Generate email sequence
-            const emails = await generateEmailSequence(lead, research);
+            const emails = await generateEmailSequence(lead, research, feedbackByLead.get(lead.id));
 
-            // 4. Save sequence to database
-            await db.insert(emailSequences).values({
-              leadId: lead.id,
-              primaryAngle: research.primaryAngle,
-              secondaryAngle: research.secondaryAngle,
-              tertiaryAngle: research.tertiaryAngle,
-              email1Subject: emails.email1Subject,
-              email1Body: emails.email1Body,
-              email2Subject: emails.email2Subject,
-              email2Body: emails.email2Body,
-              email3Subject: emails.email3Subject,
-              email3Body: emails.email3Body,
-              email4Subject: emails.email4Subject,
-              email4Body: emails.email4Body,
-              email5Subject: emails.email5Subject,
-              email5Body: emails.email5Body,
-              status: "pending_review",
+            // 4. Save the sequence as the lead's touchpoints, held for review
+            await saveLeadSequence(lead.id, stepsFromGeneratedEmails(emails, research), {
+              reviewStatus: "pending_review",
             });
 
             // 5. Update lead status
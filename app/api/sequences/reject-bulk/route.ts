@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, emailSequences } from "@/lib/db";
-import { inArray } from "drizzle-orm";
+import { updateReviewStatus } from "@/lib/services/lead-sequences";
+import { getCurrentUserId } from "@/lib/auth-helpers";
 
 /**
  * POST /api/sequences/reject-bulk
@@ -8,12 +8,13 @@ import { inArray } from "drizzle-orm";
  * Bulk reject multiple sequences (set status to pending_review)
  *
  * Request body:
- * - sequenceIds: string[] - IDs of sequences to reject
+ * - sequenceIds: string[] - IDs of sequences (their lead IDs) to reject
+ * - reason?: string - Why; given to the AI when the sequences are regenerated
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sequenceIds } = body;
+    const { sequenceIds, reason } = body;
 
     if (!sequenceIds || !Array.isArray(sequenceIds) || sequenceIds.length === 0) {
       return NextResponse.json(
@@ -22,22 +23,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Bulk update all specified sequences to pending_review
-    const result = await db
-      .update(emailSequences)
-      .set({
-        status: "pending_review",
-        updatedAt: new Date(),
-      })
-      .where(inArray(emailSequences.id, sequenceIds))
-      .returning({ id: emailSequences.id });
+    // Send the unsent steps of these sequences back to review
+    const result = await updateReviewStatus(
+      "pending_review",
+      { leadIds: sequenceIds },
+      { reviewedBy: await getCurrentUserId(), note: reason || null }
+    );
 
     console.log(`[Bulk Reject] Rejected ${result.length} sequences`);
 
     return NextResponse.json({
       success: true,
       rejected: result.length,
-      ids: result.map(r => r.id),
+      ids: result,
     });
   } catch (error) {
     console.error("[Bulk Reject] Error:", error);
@@ -1,36 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, emailSequences, leads } from "@/lib/db";
-import { desc, eq } from "drizzle-orm";
+import { db, leads } from "@/lib/db";
+import { eq, inArray } from "drizzle-orm";
+import { getLeadSequences, saveLeadSequence } from "@/lib/services/lead-sequences";
 
 /**
  * POST /api/sequences
  *
- * Create a new email sequence manually
+ * Write an email sequence for a lead by hand (replaces any sequence the lead already has)
+ *
+ * Request body:
+ * - leadId: string
+ * - steps: { subject, body, angle? }[] - one per email, in order
+ * - reviewStatus?: "draft" | "pending_review" | "approved" (default "draft")
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+    const { leadId, steps, reviewStatus } = body;
 
-    const [sequence] = await db
-      .insert(emailSequences)
-      .values({
-        leadId: body.leadId,
-        status: body.status || "draft",
-        primaryAngle: body.primaryAngle,
-        secondaryAngle: body.secondaryAngle,
-        tertiaryAngle: body.tertiaryAngle,
-        email1Subject: body.email1Subject,
-        email1Body: body.email1Body,
-        email2Subject: body.email2Subject,
-        email2Body: body.email2Body,
-        email3Subject: body.email3Subject,
-        email3Body: body.email3Body,
-        email4Subject: body.email4Subject,
-        email4Body: body.email4Body,
-        email5Subject: body.email5Subject,
-        email5Body: body.email5Body,
-      })
-      .returning();
+    if (!leadId || !Array.isArray(steps) || steps.length === 0) {
+      return NextResponse.json(
+        { error: "leadId and at least one step are required" },
+        { status: 400 }
+      );
+    }
+
+    const [lead] = await db
+      .select({ id: leads.id })
+      .from(leads)
+      .where(eq(leads.id, leadId))
+      .limit(1);
+
+    if (!lead) {
+      return NextResponse.json({ error: "Lead not found" }, { status: 404 });
+    }
+
+    const sequence = await saveLeadSequence(
+      leadId,
+      steps.map((step: { subject?: string; body?: string; angle?: string }) => ({
+        subject: step.subject || null,
+        body: step.body || null,
+        angle: step.angle,
+      })),
+      { reviewStatus: reviewStatus || "draft" }
+    );
 
     return NextResponse.json({ sequence });
   } catch (error) {
@@ -45,72 +58,43 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/sequences
  *
- * Get all email sequences with their associated leads
+ * Get all written email sequences (one per lead, keyed by lead ID) with their leads
  */
 export async function GET() {
   const startTime = Date.now();
   try {
-    const sequences = await db
-      .select({
-        id: emailSequences.id,
-        leadId: emailSequences.leadId,
-        primaryAngle: emailSequences.primaryAngle,
-        secondaryAngle: emailSequences.secondaryAngle,
-        tertiaryAngle: emailSequences.tertiaryAngle,
-        email1Subject: emailSequences.email1Subject,
-        email1Body: emailSequences.email1Body,
-        email2Subject: emailSequences.email2Subject,
-        email2Body: emailSequences.email2Body,
-        email3Subject: emailSequences.email3Subject,
-        email3Body: emailSequences.email3Body,
-        email4Subject: emailSequences.email4Subject,
-        email4Body: emailSequences.email4Body,
-        email5Subject: emailSequences.email5Subject,
-        email5Body: emailSequences.email5Body,
-        status: emailSequences.status,
-        currentEmail: emailSequences.currentEmail,
-        nextSendAt: emailSequences.nextSendAt,
-        createdAt: emailSequences.createdAt,
-        // Lead info
-        leadFirstName: leads.firstName,
-        leadLastName: leads.lastName,
-        leadEmail: leads.email,
-        leadJobTitle: leads.jobTitle,
-        leadSchoolName: leads.schoolName,
-      })
-      .from(emailSequences)
-      .leftJoin(leads, eq(emailSequences.leadId, leads.id))
-      .orderBy(desc(emailSequences.createdAt));
+    const sequences = await getLeadSequences();
 
-    // Transform the flat result into nested structure
-    const transformedSequences = sequences.map((seq) => ({
-      id: seq.id,
-      leadId: seq.leadId,
-      primaryAngle: seq.primaryAngle,
-      secondaryAngle: seq.secondaryAngle,
-      tertiaryAngle: seq.tertiaryAngle,
-      email1Subject: seq.email1Subject,
-      email1Body: seq.email1Body,
-      email2Subject: seq.email2Subject,
-      email2Body: seq.email2Body,
-      email3Subject: seq.email3Subject,
-      email3Body: seq.email3Body,
-      email4Subject: seq.email4Subject,
-      email4Body: seq.email4Body,
-      email5Subject: seq.email5Subject,
-      email5Body: seq.email5Body,
-      status: seq.status,
-      currentEmail: seq.currentEmail,
-      nextSendAt: seq.nextSendAt,
-      createdAt: seq.createdAt,
-      lead: {
-        firstName: seq.leadFirstName,
-        lastName: seq.leadLastName,
-        email: seq.leadEmail,
-        jobTitle: seq.leadJobTitle,
-        schoolName: seq.leadSchoolName,
-      },
-    }));
+    const sequenceLeads = sequences.length > 0
+      ? await db
+          .select({
+            id: leads.id,
+            firstName: leads.firstName,
+            lastName: leads.lastName,
+            email: leads.email,
+            jobTitle: leads.jobTitle,
+            schoolName: leads.schoolName,
+          })
+          .from(leads)
+          .where(inArray(leads.id, sequences.map((s) => s.leadId)))
+      : [];
+    const leadsById = new Map(sequenceLeads.map((lead) => [lead.id, lead]));
+
+    const transformedSequences = sequences
+      .map((seq) => {
+        const lead = leadsById.get(seq.leadId);
+        return {
+          ...seq,
+          lead: {
+            firstName: lead?.firstName ?? null,
+            lastName: lead?.lastName ?? null,
+            email: lead?.email ?? null,
+            jobTitle: lead?.jobTitle ?? null,
+            schoolName: lead?.schoolName ?? null,
+          },
+        };
+      })
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
 
     const duration = Date.now() - startTime;
     console.log(`[API] GET /api/sequences - ${transformedSequences.length} sequences in ${duration}ms`);
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getReplyActions,
+  updateReplyActions,
+  resetReplyActions,
+  isReplyActionList,
+  isReplyIntent,
+  type ReplyActionConfig,
+} from "@/lib/services/reply-intent";
+
+/**
+ * GET /api/settings/replies
+ *
+ * Get the actions taken for each reply intent
+ */
+export async function GET() {
+  try {
+    const actions = await getReplyActions();
+    return NextResponse.json({ actions });
+  } catch (error) {
+    console.error("[Reply Settings] GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reply settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/settings/replies
+ *
+ * Request body:
+ * - actions: { [intent]: ("stop" | "pause" | "suppress" | "reschedule" | "create_crm_contact")[] }
+ *   - intents left out keep their current actions
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { actions } = body;
+
+    if (!actions || typeof actions !== "object" || Array.isArray(actions)) {
+      return NextResponse.json(
+        { error: "Invalid actions object" },
+        { status: 400 }
+      );
+    }
+
+    for (const [intent, list] of Object.entries(actions)) {
+      if (!isReplyIntent(intent)) {
+        return NextResponse.json(
+          { error: `Unknown reply intent: ${intent}` },
+          { status: 400 }
+        );
+      }
+      if (!isReplyActionList(list)) {
+        return NextResponse.json(
+          { error: `Invalid actions for ${intent}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await updateReplyActions(actions as Partial<ReplyActionConfig>);
+
+    return NextResponse.json({
+      success: true,
+      actions: updated,
+      message: "Reply actions updated successfully",
+    });
+  } catch (error) {
+    console.error("[Reply Settings] PUT error:", error);
+    return NextResponse.json(
+      { error: "Failed to update reply settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/replies?action=reset
+ *
+ * Reset reply actions to defaults
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const action = url.searchParams.get("action");
+
+    if (action === "reset") {
+      const actions = await resetReplyActions();
+      return NextResponse.json({
+        success: true,
+        actions,
+        message: "Reply actions reset to defaults",
+      });
+    }
+
+    return NextResponse.json(
+      { error: "Unknown action" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("[Reply Settings] POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to reset reply settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReviewPolicy, updateReviewPolicy } from "@/lib/services/review-queue";
+import { getCurrentWorkspaceId } from "@/lib/auth-helpers";
+
+/**
+ * GET /api/settings/review
+ *
+ * The workspace's review policy: the confidence score per-lead copy needs to skip review,
+ * and how long drafts may wait before they're flagged overdue
+ */
+export async function GET() {
+  try {
+    const policy = await getReviewPolicy(await getCurrentWorkspaceId());
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("[Review Settings] GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch review settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/settings/review
+ *
+ * Request body:
+ * - autoApproveConfidence?: number - 1-11 (11 sends everything to review)
+ * - reviewSlaHours?: number - 1-720
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const workspaceId = await getCurrentWorkspaceId();
+    if (!workspaceId) {
+      return NextResponse.json({ error: "No workspace selected" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { autoApproveConfidence, reviewSlaHours } = body;
+
+    if (
+      autoApproveConfidence !== undefined &&
+      (!Number.isInteger(autoApproveConfidence) || autoApproveConfidence < 1 || autoApproveConfidence > 11)
+    ) {
+      return NextResponse.json(
+        { error: "autoApproveConfidence must be a whole number between 1 and 11" },
+        { status: 400 }
+      );
+    }
+    if (
+      reviewSlaHours !== undefined &&
+      (!Number.isInteger(reviewSlaHours) || reviewSlaHours < 1 || reviewSlaHours > 720)
+    ) {
+      return NextResponse.json(
+        { error: "reviewSlaHours must be a whole number between 1 and 720" },
+        { status: 400 }
+      );
+    }
+
+    const policy = await updateReviewPolicy(workspaceId, {
+      ...(autoApproveConfidence !== undefined ? { autoApproveConfidence } : {}),
+      ...(reviewSlaHours !== undefined ? { reviewSlaHours } : {}),
+    });
+
+    if (!policy) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("[Review Settings] PUT error:", error);
+    return NextResponse.json(
+      { error: "Failed to update review settings" },
+      { status: 500 }
+    );
+  }
+}
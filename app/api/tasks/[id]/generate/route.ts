@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTask, generateTaskContent } from "@/lib/services/manual-tasks";
+
+/**
+ * POST /api/tasks/[id]/generate
+ *
+ * Rewrite a task's message and talking points for its lead with AI
+ * (from the step template, the lead's research and earlier touches)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const existing = await getTask(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+    if (existing.status !== "pending") {
+      return NextResponse.json(
+        { error: "Task is already completed" },
+        { status: 400 }
+      );
+    }
+
+    const task = await generateTaskContent(id);
+    return NextResponse.json({ task });
+  } catch (error) {
+    console.error("[Tasks] Error generating task copy:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to generate task copy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTask, completeTask } from "@/lib/services/manual-tasks";
+
+/**
+ * PATCH /api/tasks/[id]
+ *
+ * Complete a manual task. The lead's remaining steps are rescheduled from now.
+ *
+ * Request body:
+ * - outcome: "done" | "skipped"
+ * - notes?: string - What happened ("left voicemail", "connected, call booked")
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (body.outcome !== "done" && body.outcome !== "skipped") {
+      return NextResponse.json(
+        { error: 'outcome must be "done" or "skipped"' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getTask(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+    if (existing.status !== "pending") {
+      return NextResponse.json(
+        { error: "Task is already completed" },
+        { status: 400 }
+      );
+    }
+
+    const task = await completeTask(id, body.outcome, body.notes);
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task is already completed" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ task });
+  } catch (error) {
+    console.error("[Tasks] Error completing task:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to complete task" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listTasks,
+  countDueTasks,
+  MANUAL_TASK_CHANNELS,
+  TASK_VIEWS,
+  type ManualTaskChannel,
+  type TaskView,
+} from "@/lib/services/manual-tasks";
+
+/**
+ * GET /api/tasks
+ *
+ * Manual sequence steps (LinkedIn, calls, WhatsApp, SMS) for SDRs to work through.
+ * Due tasks whose branching condition isn't met are left out (the send queue skips them).
+ *
+ * Query params:
+ * - view?: "due" | "upcoming" | "completed" (default "due")
+ * - campaignId?: string
+ * - channel?: one of the manual channels
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const view = (searchParams.get("view") || "due") as TaskView;
+    const channel = searchParams.get("channel") as ManualTaskChannel | null;
+    const campaignId = searchParams.get("campaignId") || undefined;
+
+    if (!TASK_VIEWS.includes(view)) {
+      return NextResponse.json(
+        { error: `view must be one of: ${TASK_VIEWS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (channel && !MANUAL_TASK_CHANNELS.includes(channel)) {
+      return NextResponse.json(
+        { error: `channel must be one of: ${MANUAL_TASK_CHANNELS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const tasks = await listTasks({ view, campaignId, channel: channel || undefined });
+    const dueCount = view === "due" ? tasks.length : await countDueTasks(campaignId);
+
+    return NextResponse.json({ tasks, dueCount });
+  } catch (error) {
+    console.error("[Tasks] Error listing tasks:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch tasks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUnsubscribeToken, unsubscribe } from "@/lib/services/unsubscribe";
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function htmlPage(title: string, body: string, status = 200) {
+  return new NextResponse(
+    `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+</head>
+<body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;max-width:480px;margin:80px auto;padding:0 20px;color:#111827;">
+  <h1 style="font-size:20px;">${title}</h1>
+  ${body}
+</body>
+</html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
+
+const invalidLinkPage = () =>
+  htmlPage(
+    "Invalid unsubscribe link",
+    `<p>This link is invalid or has been altered. Reply to the email with "unsubscribe" and we'll remove you.</p>`,
+    400
+  );
+
+/**
+ * GET /api/unsubscribe/[token]
+ *
+ * Confirmation page with a button. Unsubscribing happens on POST, so link scanners
+ * that prefetch URLs don't unsubscribe people by accident.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const payload = verifyUnsubscribeToken(token);
+
+  if (!payload) {
+    return invalidLinkPage();
+  }
+
+  return htmlPage(
+    "Unsubscribe",
+    `<p>Stop receiving emails from us at <strong>${escapeHtml(payload.email)}</strong>?</p>
+  <form method="POST">
+    <button type="submit" style="background:#111827;color:#ffffff;border:0;border-radius:6px;padding:10px 16px;font-size:14px;cursor:pointer;">Unsubscribe</button>
+  </form>`
+  );
+}
+
+/**
+ * POST /api/unsubscribe/[token]
+ *
+ * Handles both the confirmation form and one-click unsubscribe from mailbox
+ * providers (RFC 8058 - body "List-Unsubscribe=One-Click").
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const payload = verifyUnsubscribeToken(token);
+
+  if (!payload) {
+    return invalidLinkPage();
+  }
+
+  try {
+    await unsubscribe(payload);
+  } catch (error) {
+    console.error("[Unsubscribe] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to unsubscribe" },
+      { status: 500 }
+    );
+  }
+
+  return htmlPage(
+    "You've been unsubscribed",
+    `<p><strong>${escapeHtml(payload.email)}</strong> won't receive any more emails from us.</p>`
+  );
+}
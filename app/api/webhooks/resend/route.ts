@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { processReply } from "@/lib/services/reply-processor";
-import { syncLeadToNotion } from "@/lib/services/notion-client";
+import { toHeaderRecord } from "@/lib/services/out-of-office";
+import { recordDeliveryEvent } from "@/lib/services/email-tracking";
+import { recordLeadBounce, recordLeadComplaint } from "@/lib/services/bounces";
+import { verifyResendWebhook } from "@/lib/services/email-transport";
 
 /**
  * POST /api/webhooks/resend
@@ -9,15 +12,32 @@ import { syncLeadToNotion } from "@/lib/services/notion-client";
  *
  * Resend sends webhooks for:
  * - email.received (inbound emails)
- * - email.delivered
- * - email.bounced
- * - email.complained
+ * - email.delivered - sets the touchpoint's deliveredAt
+ * - email.bounced - hard (permanent) bounces suppress the recipient and stop their sequence
+ * - email.complained - suppresses the recipient and stops their sequence
+ *
+ * Delivery events are matched to the touchpoint by Resend's email_id (its providerMessageId).
+ * Bounces and complaints also count against the sending domain, which may pause it.
+ *
+ * Requests must carry a valid Svix signature for RESEND_WEBHOOK_SECRET (the webhook's signing
+ * secret in the Resend dashboard); anything else gets a 401.
  *
  * Docs: https://resend.com/docs/dashboard/webhooks/introduction
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const payload = await request.text();
+
+    const verified = verifyResendWebhook(payload, {
+      id: request.headers.get("svix-id"),
+      timestamp: request.headers.get("svix-timestamp"),
+      signature: request.headers.get("svix-signature"),
+    });
+    if (!verified) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    const body = JSON.parse(payload);
 
     console.log("[Resend Webhook] Received event:", body.type);
 
@@ -36,14 +56,10 @@ export async function POST(request: NextRequest) {
           messageId: data.email_id,
           inReplyTo: data.in_reply_to,
           receivedAt: new Date(data.created_at),
+          headers: toHeaderRecord(data.headers), // Auto-reply detection
         });
 
-        if (result.success && result.leadId) {
-          // Trigger Notion sync in background (don't await)
-          syncLeadToNotion(result.leadId).catch((err) => {
-            console.error("[Resend Webhook] Notion sync failed:", err);
-          });
-        }
+        // processReply syncs to Notion when the reply's intent calls for it
 
         return NextResponse.json({
           success: result.success,
@@ -55,22 +71,53 @@ export async function POST(request: NextRequest) {
 
       case "email.delivered": {
         // Email was delivered successfully
-        console.log("[Resend Webhook] Email delivered:", body.data.email_id);
-        return NextResponse.json({ success: true, event: "delivered" });
+        const data = body.data;
+        const matched = await recordDeliveryEvent(
+          data.email_id,
+          new Date(data.created_at || body.created_at || Date.now())
+        );
+
+        console.log(`[Resend Webhook] Email delivered: ${data.email_id}${matched ? "" : " (no matching touchpoint)"}`);
+        return NextResponse.json({ success: true, event: "delivered", matched });
       }
 
       case "email.bounced": {
-        // Email bounced - should mark email as invalid
-        console.log("[Resend Webhook] Email bounced:", body.data);
-        // TODO: Update lead.emailVerified = false
-        return NextResponse.json({ success: true, event: "bounced" });
+        // Permanent bounces mark the address bounced and unverified; transient ones are only recorded
+        const data = body.data;
+        const recipient = firstRecipient(data.to);
+        if (!recipient) {
+          return NextResponse.json({ error: "Bounce has no recipient" }, { status: 400 });
+        }
+
+        const result = await recordLeadBounce({
+          recipient,
+          providerMessageId: data.email_id,
+          bounceType: data.bounce?.type === "Permanent" ? "hard" : "soft",
+          reason: data.bounce?.message || data.bounce?.subType || "Bounced",
+        });
+
+        return NextResponse.json({
+          success: true,
+          event: "bounced",
+          bounceType: result.bounceType,
+          matched: !!result.touchpointId,
+        });
       }
 
       case "email.complained": {
-        // Spam complaint - should stop sequence and mark lead
-        console.log("[Resend Webhook] Spam complaint:", body.data);
-        // TODO: Stop sequence and flag lead
-        return NextResponse.json({ success: true, event: "complained" });
+        // Spam complaint - stop the sequence and never email the address again
+        const data = body.data;
+        const recipient = firstRecipient(data.to);
+        if (!recipient) {
+          return NextResponse.json({ error: "Complaint has no recipient" }, { status: 400 });
+        }
+
+        const touchpointId = await recordLeadComplaint({
+          recipient,
+          providerMessageId: data.email_id,
+        });
+
+        return NextResponse.json({ success: true, event: "complained", matched: !!touchpointId });
       }
 
       default:
@@ -86,6 +133,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Resend sends "to" as a list of addresses
+ */
+function firstRecipient(to: unknown): string | null {
+  const address = Array.isArray(to) ? to[0] : to;
+  return typeof address === "string" && address ? address : null;
+}
+
 /**
  * GET /api/webhooks/resend
  *
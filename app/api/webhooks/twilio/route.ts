@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyTwilioSignature } from "@/lib/services/messaging-provider";
+import { processInboundMessage, recordDeliveryStatus } from "@/lib/services/message-sender";
+
+// Empty TwiML - acknowledge without sending an automatic reply
+const EMPTY_TWIML = "<?xml version=\"1.0\" encoding=\"UTF-8\"?><Response></Response>";
+
+/**
+ * POST /api/webhooks/twilio
+ *
+ * Webhook endpoint for Twilio Messaging. Point both the number's (or WhatsApp sender's)
+ * "A message comes in" URL and TWILIO_STATUS_CALLBACK_URL here.
+ *
+ * Twilio sends form-encoded requests for:
+ * - inbound SMS / WhatsApp messages (Body, From, To)
+ * - status callbacks for messages we sent (MessageStatus: delivered, undelivered, failed, ...)
+ *
+ * Requests are checked against X-Twilio-Signature (skipped with MESSAGING_PROVIDER=fake).
+ *
+ * Docs: https://www.twilio.com/docs/messaging/guides/webhook-request
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      params[key] = String(value);
+    });
+
+    if (process.env.MESSAGING_PROVIDER !== "fake") {
+      // Twilio signs the public URL it called, which differs from request.url behind a proxy
+      const url = process.env.NEXT_PUBLIC_APP_URL
+        ? `${process.env.NEXT_PUBLIC_APP_URL.replace(/\/$/, "")}${request.nextUrl.pathname}${request.nextUrl.search}`
+        : request.url;
+
+      if (!verifyTwilioSignature(url, params, request.headers.get("x-twilio-signature"))) {
+        return NextResponse.json({ error: "Invalid signature" }, { status: 403 });
+      }
+    }
+
+    // Status callback for an outbound message
+    if (params.MessageStatus && params.MessageStatus !== "received") {
+      const status = params.MessageStatus;
+      console.log(`[Twilio Webhook] ${params.MessageSid}: ${status}`);
+
+      if (status === "delivered" || status === "read") {
+        await recordDeliveryStatus(params.MessageSid, "delivered");
+      } else if (status === "undelivered" || status === "failed") {
+        await recordDeliveryStatus(
+          params.MessageSid,
+          "failed",
+          params.ErrorCode ? `Twilio error ${params.ErrorCode}` : undefined
+        );
+      }
+
+      return NextResponse.json({ success: true, event: status });
+    }
+
+    // Inbound message
+    const channel = params.From?.startsWith("whatsapp:") ? "whatsapp" : "sms";
+    const result = await processInboundMessage({
+      channel,
+      from: params.From || "",
+      to: params.To || "",
+      body: params.Body || "",
+      providerMessageId: params.MessageSid,
+    });
+
+    console.log(
+      result.success
+        ? `[Twilio Webhook] Processed ${channel} reply from lead ${result.leadId}`
+        : `[Twilio Webhook] ${result.error}`
+    );
+
+    return new NextResponse(EMPTY_TWIML, {
+      headers: { "Content-Type": "text/xml" },
+    });
+  } catch (error) {
+    console.error("[Twilio Webhook] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Webhook processing failed" },
+      { status: 500 }
+    );
+  }
+}
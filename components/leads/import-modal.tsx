@@ -61,6 +61,9 @@ export function ImportModal({ open, onClose, onImportComplete, campaignId }: Imp
   const [newCustomFieldName, setNewCustomFieldName] = useState("");
   const [showAddCustomField, setShowAddCustomField] = useState(false);
 
+  // Fallback for leads whose timezone can't be inferred from country/region
+  const [defaultTimezone, setDefaultTimezone] = useState("");
+
   const leadFields = getLeadFields();
 
   // Combine standard fields with custom fields
@@ -169,6 +172,9 @@ export function ImportModal({ open, onClose, onImportComplete, campaignId }: Imp
       formData.append("file", file);
       formData.append("mappings", JSON.stringify(mappings));
       formData.append("customFields", JSON.stringify(customFields));
+      if (defaultTimezone.trim()) {
+        formData.append("defaultTimezone", defaultTimezone.trim());
+      }
       if (campaignId) {
         formData.append("campaignId", campaignId);
       }
@@ -210,6 +216,7 @@ export function ImportModal({ open, onClose, onImportComplete, campaignId }: Imp
     setCustomFields([]);
     setNewCustomFieldName("");
     setShowAddCustomField(false);
+    setDefaultTimezone("");
   };
 
   const handleClose = () => {
@@ -389,6 +396,21 @@ export function ImportModal({ open, onClose, onImportComplete, campaignId }: Imp
                   </div>
                 ))}
               </div>
+
+              {/* Timezone fallback */}
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-600 w-44">Default timezone</span>
+                <Input
+                  value={defaultTimezone}
+                  onChange={(e) => setDefaultTimezone(e.target.value)}
+                  placeholder="Auto-detect from country/region"
+                  className="w-56"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Timezones are detected from each lead&apos;s country and region. Map a timezone column or set an IANA
+                name (e.g. Asia/Dubai) here for leads that can&apos;t be detected.
+              </p>
             </div>
 
             {/* Preview Table */}
@@ -0,0 +1,171 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { GitBranch, Plus, X } from "lucide-react";
+import {
+  CONDITION_EVENTS,
+  describeCondition,
+  type StepCondition,
+  type StepConditionRule,
+} from "@/lib/utils/step-conditions";
+
+const EVENT_OPTIONS: Record<StepConditionRule["event"], string> = {
+  opened: "opened",
+  clicked: "clicked a link in",
+  replied: "replied to",
+};
+
+interface StepConditionEditorProps {
+  stepNumber: number; // The step being edited - rules can only look at earlier steps
+  condition: StepCondition | null | undefined;
+  onChange: (condition: StepCondition | null) => void;
+  variants?: { id: string; label: string }[]; // A/B variants the branch can send
+}
+
+/**
+ * Author "only send this step if..." branches on earlier steps' opens, clicks and replies
+ */
+export function StepConditionEditor({
+  stepNumber,
+  condition,
+  onChange,
+  variants = [],
+}: StepConditionEditorProps) {
+  const rules = condition?.rules || [];
+  const earlierSteps = Array.from({ length: stepNumber - 1 }, (_, i) => i + 1);
+
+  if (stepNumber <= 1) return null;
+
+  const update = (patch: Partial<StepCondition>) => {
+    const next: StepCondition = { rules, ...condition, ...patch };
+    onChange(next.rules.length > 0 ? next : null);
+  };
+
+  const updateRule = (index: number, patch: Partial<StepConditionRule>) => {
+    update({ rules: rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+  };
+
+  const addRule = () => {
+    update({ rules: [...rules, { stepNumber: stepNumber - 1, event: "opened", happened: true }] });
+  };
+
+  const removeRule = (index: number) => {
+    update({ rules: rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          <GitBranch className="h-4 w-4 inline mr-1" />
+          Branching
+        </label>
+        <span className="text-xs text-gray-500">{describeCondition(condition)}</span>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-3">
+          This step is sent to every lead. Add a condition to send it only to leads who did (or
+          didn&apos;t) open, click or reply to an earlier step.
+        </p>
+      ) : (
+        <div className="space-y-2 mb-3">
+          {rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm">
+              <span className="w-10 text-gray-500">
+                {index === 0 ? "If" : condition?.match === "any" ? "or" : "and"}
+              </span>
+              <select
+                value={rule.happened ? "yes" : "no"}
+                onChange={(e) => updateRule(index, { happened: e.target.value === "yes" })}
+                className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+              >
+                <option value="yes">lead</option>
+                <option value="no">lead has not</option>
+              </select>
+              <select
+                value={rule.event}
+                onChange={(e) => updateRule(index, { event: e.target.value as StepConditionRule["event"] })}
+                className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+              >
+                {CONDITION_EVENTS.map((event) => (
+                  <option key={event} value={event}>
+                    {EVENT_OPTIONS[event]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={rule.stepNumber}
+                onChange={(e) => updateRule(index, { stepNumber: Number(e.target.value) })}
+                className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+              >
+                {earlierSteps.map((n) => (
+                  <option key={n} value={n}>
+                    step {n}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeRule(index)}
+                className="p-1 hover:bg-gray-200 rounded"
+                title="Remove condition"
+              >
+                <X className="h-4 w-4 text-gray-400" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Button size="sm" variant="outline" onClick={addRule}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add condition
+        </Button>
+
+        {rules.length > 1 && (
+          <select
+            value={condition?.match || "all"}
+            onChange={(e) => update({ match: e.target.value as StepCondition["match"] })}
+            className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+          >
+            <option value="all">Match all</option>
+            <option value="any">Match any</option>
+          </select>
+        )}
+
+        {rules.length > 0 && (
+          <label className="flex items-center gap-2 text-gray-600">
+            Otherwise
+            <select
+              value={condition?.otherwise || "skip"}
+              onChange={(e) => update({ otherwise: e.target.value as StepCondition["otherwise"] })}
+              className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+            >
+              <option value="skip">skip this step</option>
+              <option value="send">send it anyway</option>
+            </select>
+          </label>
+        )}
+
+        {rules.length > 0 && variants.length > 0 && (
+          <label className="flex items-center gap-2 text-gray-600">
+            When met, send
+            <select
+              value={condition?.variantId || ""}
+              onChange={(e) => update({ variantId: e.target.value || undefined })}
+              className="px-2 py-1.5 border rounded-lg text-sm bg-white"
+            >
+              <option value="">the assigned copy</option>
+              {variants.map((variant) => (
+                <option key={variant.id} value={variant.id}>
+                  variant {variant.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
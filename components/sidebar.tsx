@@ -26,6 +26,9 @@ import {
   Flame,
   LogOut,
   User,
+  ClipboardList,
+  ClipboardCheck,
+  MessageSquareReply,
 } from "lucide-react";
 
 const navigation = [
@@ -35,6 +38,8 @@ const navigation = [
   { name: "Leads", href: "/leads", icon: Users },
   { name: "Sequences", href: "/sequences", icon: Mail },
   { name: "Inbox", href: "/inbox", icon: Inbox },
+  { name: "Tasks", href: "/tasks", icon: ClipboardList },
+  { name: "Review", href: "/review", icon: ClipboardCheck },
   { name: "CRM Sync", href: "/crm", icon: Database },
   { name: "Meetings", href: "/meetings", icon: Calendar },
   { name: "Meeting Insights", href: "/meetings/insights", icon: Lightbulb },
@@ -48,6 +53,7 @@ const settingsNavigation = [
   { name: "Email Settings", href: "/settings", icon: Settings },
   { name: "Notion CRM", href: "/settings/notion", icon: Database },
   { name: "Lead Scoring", href: "/settings/scoring", icon: Target },
+  { name: "Reply Handling", href: "/settings/replies", icon: MessageSquareReply },
   { name: "Calendly", href: "/settings/calendly", icon: Calendar },
   { name: "Email History", href: "/settings/email-history", icon: History },
 ];
@@ -49,7 +49,11 @@ const FIELD_LABELS: Record<string, { label: string; description: string; categor
   // Sender fields
   senderName: { label: "Sender Name", description: "Your name in signature", category: "Sender" },
   senderTitle: { label: "Sender Title", description: "Your job title", category: "Sender" },
+  senderFirstName: { label: "Sender First Name", description: "Your first name", category: "Sender" },
+  senderEmail: { label: "Sender Email", description: "Mailbox the email is sent from", category: "Sender" },
   senderCompany: { label: "Company Name", description: "Your company name", category: "Sender" },
+  companyWebsite: { label: "Company Website", description: "Your company website", category: "Sender" },
+  signature: { label: "Signature", description: "Your signature block", category: "Sender" },
 
   // Research fields
   researchSummary: { label: "Research Summary", description: "AI-generated research about the lead", category: "Research" },
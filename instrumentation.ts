@@ -0,0 +1,15 @@
+/**
+ * Next.js server startup hook
+ *
+ * Starts the send queue worker in the Node.js runtime.
+ * Set SEND_WORKER_ENABLED=false to run the queue from a cron (POST /api/queue, authorised with
+ * CRON_SECRET) instead.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (process.env.SEND_WORKER_ENABLED === "false") return;
+  if (!process.env.DATABASE_URL) return;
+
+  const { startSendWorker } = await import("@/lib/services/send-queue");
+  startSendWorker();
+}
@@ -0,0 +1,159 @@
+/**
+ * Reply Intent Classification
+ *
+ * Classifies an inbound reply so the reply processor can act on it (see
+ * lib/services/reply-intent.ts for the actions each intent triggers).
+ * Obvious auto-replies and unsubscribe requests are caught by keyword first, without an AI call.
+ */
+
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel } from "@/lib/ai/provider";
+
+export const REPLY_INTENTS = [
+  "interested",
+  "not_interested",
+  "out_of_office",
+  "referral",
+  "unsubscribe",
+  "wrong_person",
+  "auto_bounce",
+] as const;
+
+export type ReplyIntent = (typeof REPLY_INTENTS)[number];
+
+const ReplyClassificationSchema = z.object({
+  intent: z.enum(REPLY_INTENTS).describe("What the reply means for the outreach"),
+  confidence: z.number().min(0).max(1).describe("Confidence score 0-1"),
+  reasoning: z.string().describe("Brief explanation of the classification"),
+});
+
+export type ReplyClassification = z.infer<typeof ReplyClassificationSchema>;
+
+interface ConversationMessage {
+  direction: "inbound" | "outbound";
+  subject?: string;
+  body: string;
+}
+
+/**
+ * Quick check for replies that don't need the model (auto-replies, bounces, unsubscribes)
+ */
+export function detectObviousIntent(subject: string, body: string): ReplyClassification | null {
+  const lowerSubject = subject.toLowerCase();
+  const lowerBody = body.toLowerCase();
+
+  const bounceSignals = [
+    "delivery status notification",
+    "undeliverable",
+    "mail delivery failed",
+    "delivery has failed",
+    "returned mail",
+    "address not found",
+  ];
+  if (bounceSignals.some((signal) => lowerSubject.includes(signal))) {
+    return { intent: "auto_bounce", confidence: 0.95, reasoning: "Bounce notification subject" };
+  }
+
+  const outOfOfficeSignals = [
+    "out of office",
+    "out of the office",
+    "automatic reply",
+    "auto-reply",
+    "autoreply",
+    "on vacation",
+    "on annual leave",
+    "on leave until",
+  ];
+  if (outOfOfficeSignals.some((signal) => lowerSubject.includes(signal))) {
+    return { intent: "out_of_office", confidence: 0.9, reasoning: "Auto-reply subject" };
+  }
+
+  const outOfOfficeBodySignals = [
+    "i am out of the office",
+    "i'm out of the office",
+    "i am currently out of",
+    "i'm currently out of",
+    "i am away from",
+    "i'm away from",
+    "limited access to email",
+    "limited access to my email",
+    "will respond when i return",
+    "will reply when i return",
+    "upon my return",
+  ];
+  // Short messages only - a real reply may mention being away before getting to the point
+  if (lowerBody.length < 800 && outOfOfficeBodySignals.some((signal) => lowerBody.includes(signal))) {
+    return { intent: "out_of_office", confidence: 0.85, reasoning: "Auto-reply wording" };
+  }
+
+  const unsubscribeSignals = [
+    "unsubscribe",
+    "remove me from",
+    "take me off",
+    "stop emailing",
+    "do not contact",
+    "don't contact me",
+  ];
+  // Short messages only - a long reply that mentions unsubscribing may say more
+  if (lowerBody.length < 300 && unsubscribeSignals.some((signal) => lowerBody.includes(signal))) {
+    return { intent: "unsubscribe", confidence: 0.9, reasoning: "Unsubscribe request" };
+  }
+
+  return null;
+}
+
+/**
+ * Classify a reply the mail headers already mark as automatic: a bounce if it reads like one,
+ * otherwise an out-of-office
+ */
+export function classifyAutoReply(subject: string, body: string): ReplyClassification {
+  const obvious = detectObviousIntent(subject, body);
+  if (obvious?.intent === "auto_bounce") return obvious;
+
+  return { intent: "out_of_office", confidence: 0.95, reasoning: "Auto-reply headers" };
+}
+
+/**
+ * Classify an inbound reply. Returns null if classification failed.
+ */
+export async function classifyReply(
+  reply: { subject: string; body: string },
+  conversation: ConversationMessage[] = []
+): Promise<ReplyClassification | null> {
+  const obvious = detectObviousIntent(reply.subject, reply.body);
+  if (obvious) return obvious;
+
+  const conversationText = conversation
+    .map((msg) => `[${msg.direction === "outbound" ? "YOU" : "LEAD"}]: ${msg.body}`)
+    .join("\n\n");
+
+  try {
+    const { object } = await generateObject({
+      model: getModel("fast"),
+      schema: ReplyClassificationSchema,
+      system: `You classify replies to B2B cold outreach sent to school leaders.
+
+Pick exactly one intent:
+- interested: wants to learn more, asks questions, agrees to a call or demo
+- not_interested: declines, no budget, already has a solution, "not now"
+- out_of_office: automatic away or vacation reply
+- referral: points us to someone else ("please contact our IT head")
+- unsubscribe: asks to stop emailing or be removed
+- wrong_person: says they're not the right contact without naming anyone else
+- auto_bounce: delivery failure or mailbox-full notice
+
+A referral that names someone is "referral" even if the sender also says they're not the right person.`,
+      prompt: `${conversationText ? `Conversation so far:\n\n${conversationText}\n\n` : ""}Classify this reply:
+
+Subject: ${reply.subject}
+
+${reply.body}`,
+    });
+
+    return object;
+  } catch (error) {
+    console.error("[Reply Classification] Classification error:", error);
+    return null;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Referral Extraction
+ *
+ * Reads the people a reply points us to ("please contact our IT head, Sam Lee - sam@school.org")
+ * out of its body and signature, and writes the opening email to each of them that says who
+ * referred us. See lib/services/referrals.ts for turning them into leads.
+ */
+
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel } from "@/lib/ai/provider";
+import { getProductOverview, getActiveCompanyContext } from "@/lib/prompts/get-prompts";
+
+const ReferralsSchema = z.object({
+  people: z
+    .array(
+      z.object({
+        firstName: z.string().describe("First name of the referred person"),
+        lastName: z.string().describe("Last name, empty if not given"),
+        email: z.string().describe("Email address exactly as written in the reply"),
+        jobTitle: z.string().describe("Job title or role, empty if not given"),
+      })
+    )
+    .describe("People the reply refers us to, with an email address"),
+});
+
+export type ReferredPerson = z.infer<typeof ReferralsSchema>["people"][number];
+
+const ReferralOpenerSchema = z.object({
+  subject: z.string().describe("Subject line, max 8 words"),
+  body: z.string().describe("Email body, max 100 words"),
+});
+
+export type ReferralOpener = z.infer<typeof ReferralOpenerSchema>;
+
+interface Referrer {
+  firstName: string;
+  lastName: string;
+  email: string;
+  jobTitle: string;
+  schoolName: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * People a referral reply names, with the address it gives for each. Only addresses that
+ * appear in the reply are kept, so the model can't invent one. Returns [] if extraction failed.
+ */
+export async function extractReferrals(
+  reply: { subject: string; body: string },
+  referrer: Referrer
+): Promise<ReferredPerson[]> {
+  try {
+    const { object } = await generateObject({
+      model: getModel("fast"),
+      schema: ReferralsSchema,
+      system: `You read replies to B2B cold outreach sent to school leaders and pull out the people the sender refers us to.
+
+Rules:
+- Only include people the sender points us to (a colleague, the IT head, a curriculum coordinator)
+- Only include people whose email address is written in the reply, body or signature
+- Never include the sender themselves
+- Take names and titles from the reply or the referred person's signature; leave them empty if not given
+- Return an empty list if nobody is referred with an email address`,
+      prompt: `The reply is from ${referrer.firstName} ${referrer.lastName} (${referrer.jobTitle}, ${referrer.schoolName}, ${referrer.email}).
+
+Subject: ${reply.subject}
+
+${reply.body}`,
+    });
+
+    const text = `${reply.subject}\n${reply.body}`.toLowerCase();
+    const seen = new Set([referrer.email.toLowerCase()]);
+
+    return object.people
+      .map((person) => ({ ...person, email: person.email.trim().toLowerCase() }))
+      .filter((person) => {
+        if (!EMAIL_PATTERN.test(person.email) || !text.includes(person.email)) return false;
+        if (seen.has(person.email)) return false;
+        seen.add(person.email);
+        return true;
+      });
+  } catch (error) {
+    console.error("[Referral Extraction] Extraction error:", error);
+    return [];
+  }
+}
+
+/**
+ * Opening email saying who referred us, used if the AI call fails
+ */
+function fallbackReferralOpener(referrer: Referrer, person: ReferredPerson): ReferralOpener {
+  const referrerName = `${referrer.firstName} ${referrer.lastName}`.trim();
+
+  return {
+    subject: `${referrerName} suggested I get in touch`,
+    body: `Hi ${person.firstName},
+
+${referrerName} suggested you'd be the right person to speak to at ${referrer.schoolName}, so I hope you don't mind me reaching out directly.
+
+Would you be open to a short call to see whether what we do is a fit for your school?`,
+  };
+}
+
+/**
+ * Write the opening email to a referred person. It leads with who referred us and picks up
+ * from what we last sent the referrer.
+ */
+export async function writeReferralOpener(
+  referrer: Referrer,
+  person: ReferredPerson,
+  lastEmailToReferrer?: string
+): Promise<ReferralOpener> {
+  try {
+    const company = await getActiveCompanyContext();
+    const overview = await getProductOverview();
+    const companyName = company?.companyName || "your company";
+
+    const { object } = await generateObject({
+      model: getModel("default"),
+      schema: ReferralOpenerSchema,
+      system: `You are an expert SDR for ${companyName} writing to someone a school leader referred you to.
+
+## About ${companyName}
+${overview}
+
+## Rules:
+- Open by saying who referred you - the referral is the reason for writing
+- Max 100 words, 3 short paragraphs max
+- Peer-to-peer, professional, neutral international English
+- End with one low-pressure question
+- No sign-off or signature, no links`,
+      prompt: `Write the first email to ${person.firstName} ${person.lastName}${person.jobTitle ? ` (${person.jobTitle})` : ""} at ${referrer.schoolName}.
+
+They were referred by ${referrer.firstName} ${referrer.lastName} (${referrer.jobTitle}).
+${lastEmailToReferrer ? `\nWhat we last wrote to ${referrer.firstName}:\n\n${lastEmailToReferrer}\n` : ""}`,
+    });
+
+    return object;
+  } catch (error) {
+    console.error("[Referral Extraction] Opener error:", error);
+    return fallbackReferralOpener(referrer, person);
+  }
+}
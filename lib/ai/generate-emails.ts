@@ -86,7 +86,8 @@ ${overview}
 
 export async function generateEmailSequence(
   lead: Lead,
-  research: LeadResearch
+  research: LeadResearch,
+  feedback: string[] = [] // Why reviewers rejected the previous version
 ): Promise<GeneratedEmailSequence> {
   const systemPrompt = await buildSystemPrompt();
 
@@ -131,7 +132,7 @@ ${research.schoolInsights.strategicPriorities?.length ? `- Strategic Priorities:
 - **Email 2 (Primary):** ${research.primaryAngle}
 - **Email 3 (Secondary):** ${research.secondaryAngle}
 - **Email 4 (Tertiary):** ${research.tertiaryAngle}
-
+${feedback.length ? `\n## Reviewer Feedback\nThe previous version was rejected. Fix these points:\n${feedback.map((f) => `- ${f}`).join("\n")}\n` : ""}
 Generate the complete 5-email sequence following the SKILL guidelines exactly.`,
   });
 
@@ -0,0 +1,79 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel } from "@/lib/ai/provider";
+import { getProductOverview, getActiveCompanyContext } from "@/lib/prompts/get-prompts";
+import type { Lead } from "@/lib/db/schema";
+
+type TaskChannel = "linkedin_message" | "linkedin_connection" | "sms" | "whatsapp" | "phone_call";
+
+interface TaskCopyContext {
+  lead: Lead;
+  channel: TaskChannel;
+  stepNumber: number;
+  message?: string | null; // Step template, already rendered for the lead
+  talkingPoints?: string[]; // Step talking points, already rendered for the lead
+  personalizationNotes?: string | null;
+  previousTouches?: string[]; // Short summaries of earlier steps ("Email 1: Quick question about ...")
+}
+
+const TaskCopySchema = z.object({
+  message: z.string().describe("Message to send, or the call opener for phone calls"),
+  talkingPoints: z.array(z.string()).describe("3-5 short talking points or follow-up angles"),
+});
+
+export type GeneratedTaskCopy = z.infer<typeof TaskCopySchema>;
+
+const CHANNEL_GUIDELINES: Record<TaskChannel, string> = {
+  linkedin_connection: "A LinkedIn connection request note. Max 280 characters, no pitch, one personal hook.",
+  linkedin_message: "A LinkedIn direct message. Max 80 words, conversational, one clear question.",
+  sms: "An SMS. Max 300 characters, plain text, no links unless essential, identify yourself.",
+  whatsapp: "A WhatsApp message. Max 60 words, friendly and brief, identify yourself.",
+  phone_call: "A phone call. The message is a 2-3 sentence opener; talking points cover why you're calling, discovery questions and likely objections.",
+};
+
+/**
+ * Draft the copy (or call script) for a manual sequence step, personalised to the lead
+ */
+export async function generateTaskCopy(context: TaskCopyContext): Promise<GeneratedTaskCopy> {
+  const { lead, channel } = context;
+  const company = await getActiveCompanyContext();
+  const overview = await getProductOverview();
+  const companyName = company?.companyName || "your company";
+
+  const { object } = await generateObject({
+    model: getModel("fast"),
+    schema: TaskCopySchema,
+    system: `You are an expert SDR for ${companyName}, preparing a manual outreach step in a multi-channel sequence.
+
+## About ${companyName}
+${overview}
+
+## Channel
+${CHANNEL_GUIDELINES[channel]}
+
+## Guidelines:
+- Build on the earlier touches instead of repeating them
+- Use the step's template and talking points as the brief - keep their intent
+- Peer-to-peer, professional, international English
+- Never pushy, never make unsubstantiated claims`,
+    prompt: `Prepare step ${context.stepNumber} (${channel.replace(/_/g, " ")}) for this prospect.
+
+## Prospect
+**Name:** ${lead.firstName} ${lead.lastName}
+**Title:** ${lead.jobTitle}
+**School:** ${lead.schoolName}
+**Country:** ${lead.schoolCountry || "Unknown"}
+${lead.researchSummary ? `\n## Research\n${lead.researchSummary}\n` : ""}
+## Earlier touches
+${context.previousTouches?.length ? context.previousTouches.map((t) => `- ${t}`).join("\n") : "None"}
+
+## Step template
+${context.message || "None - write from scratch"}
+
+## Step talking points
+${context.talkingPoints?.length ? context.talkingPoints.map((t) => `- ${t}`).join("\n") : "None"}
+${context.personalizationNotes ? `\n## Personalization notes\n${context.personalizationNotes}` : ""}`,
+  });
+
+  return object;
+}
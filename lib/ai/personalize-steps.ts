@@ -0,0 +1,91 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getModel } from "@/lib/ai/provider";
+import { getProductOverview, getActiveCompanyContext } from "@/lib/prompts/get-prompts";
+import type { Lead } from "@/lib/db/schema";
+
+export type PersonalizedChannel = "email" | "sms" | "whatsapp";
+
+export interface StepBrief {
+  stepNumber: number;
+  channel: PersonalizedChannel;
+  subject?: string | null; // Template subject (ignored for steps that reply in thread)
+  body: string | null; // Template body, variables and spintax left in
+  replyInThread?: boolean;
+  personalizationNotes?: string | null;
+  rejectionReason?: string | null; // A reviewer rejected the previous copy for this reason
+}
+
+const PersonalizedStepsSchema = z.object({
+  steps: z.array(z.object({
+    stepNumber: z.number(),
+    subject: z.string().nullable().describe("Subject line, or null for SMS/WhatsApp and steps that reply in thread"),
+    body: z.string().describe("Personalised message body"),
+    confidenceScore: z.number().min(1).max(10).describe("How well the copy fits this prospect (1-10)"),
+    confidenceReason: z.string().describe("One sentence on what the score is based on"),
+  })),
+});
+
+export type PersonalizedStep = z.infer<typeof PersonalizedStepsSchema>["steps"][number];
+
+const CHANNEL_GUIDELINES: Record<PersonalizedChannel, string> = {
+  email: "Email: max 150 words, short subject line, one clear call to action.",
+  sms: "SMS: max 300 characters, plain text, no subject, identify yourself.",
+  whatsapp: "WhatsApp: max 60 words, friendly and brief, no subject, identify yourself.",
+};
+
+function describeInsights(label: string, insights: Record<string, unknown> | null): string {
+  if (!insights || Object.keys(insights).length === 0) return "";
+  return `\n**${label}:** ${JSON.stringify(insights)}`;
+}
+
+/**
+ * Rewrite a lead's automatically sent steps for that lead, keeping each template's intent.
+ * Done in one call so later steps build on the earlier ones.
+ */
+export async function personalizeSteps(lead: Lead, briefs: StepBrief[]): Promise<PersonalizedStep[]> {
+  const company = await getActiveCompanyContext();
+  const overview = await getProductOverview();
+  const companyName = company?.companyName || "your company";
+
+  const channels = [...new Set(briefs.map((b) => b.channel))];
+
+  const { object } = await generateObject({
+    model: getModel("default"),
+    schema: PersonalizedStepsSchema,
+    system: `You are an expert SDR for ${companyName}, personalising a multi-channel outreach sequence for one prospect.
+
+## About ${companyName}
+${overview}
+
+## Channels
+${channels.map((c) => `- ${CHANNEL_GUIDELINES[c]}`).join("\n")}
+
+## Guidelines:
+- Each step's template is the brief - keep its intent, structure and call to action
+- Weave in what the research says about the prospect and their school; never invent facts
+- Follow each step's personalization notes
+- Where a reviewer rejected the previous copy, fix what they objected to
+- Keep {{variables}} and {{#if}} blocks exactly as written - they are filled in at send time
+- Where the template offers alternatives like {a|b|c}, pick the one that fits best
+- Later steps build on earlier ones instead of repeating them
+- Peer-to-peer, professional, international English
+- Score your confidence low when the research is thin or the template doesn't fit the prospect`,
+    prompt: `Personalise these steps for this prospect. Return one entry per step, same step numbers.
+
+## Prospect
+**Name:** ${lead.firstName} ${lead.lastName}
+**Title:** ${lead.jobTitle}
+**School:** ${lead.schoolName}
+**Country:** ${lead.schoolCountry || "Unknown"}
+${lead.researchSummary ? `\n## Research\n${lead.researchSummary}` : "\n## Research\nNone"}${describeInsights("Person insights", lead.personInsights)}${describeInsights("School insights", lead.schoolInsights)}
+
+## Steps
+${briefs.map((brief) => `### Step ${brief.stepNumber} (${brief.channel})
+${brief.channel === "email" ? (brief.replyInThread ? "**Subject:** (replies in the earlier thread - return null)\n" : `**Subject:** ${brief.subject || "None - write one"}\n`) : ""}**Body:**
+${brief.body || "None - write from scratch"}
+${brief.personalizationNotes ? `**Personalization notes:** ${brief.personalizationNotes}\n` : ""}${brief.rejectionReason ? `**Previous copy rejected because:** ${brief.rejectionReason}\n` : ""}`).join("\n")}`,
+  });
+
+  return object.steps;
+}
@@ -7,6 +7,7 @@ import {
   jsonb,
   pgEnum,
   index,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -23,14 +24,11 @@ export const leadStatusEnum = pgEnum("lead_status", [
   "lost",
 ]);
 
-export const sequenceStatusEnum = pgEnum("sequence_status", [
+// Review state of a lead's AI-written copy (null for steps sent from the template as-is)
+export const reviewStatusEnum = pgEnum("review_status", [
   "draft",
   "pending_review",
   "approved",
-  "active",
-  "paused",
-  "completed",
-  "stopped",
 ]);
 
 export const messageDirectionEnum = pgEnum("message_direction", [
@@ -147,6 +145,10 @@ export const workspaces = pgTable("workspaces", {
   defaultFromName: text("default_from_name"),
   defaultFromEmail: text("default_from_email"),
 
+  // Review of per-lead copy (see lib/services/review-queue.ts)
+  autoApproveConfidence: integer("auto_approve_confidence").default(8), // Drafts scored lower wait for review
+  reviewSlaHours: integer("review_sla_hours").default(24), // Drafts waiting longer are flagged overdue
+
   // API Keys (user provides their own)
   geminiApiKey: text("gemini_api_key"),
   anthropicApiKey: text("anthropic_api_key"),
@@ -201,9 +203,21 @@ export const campaigns = pgTable("campaigns", {
   // Sequence configuration
   sequenceType: text("sequence_type").default("ai"), // "ai" or "manual"
 
-  // Sender rotation configuration
+  // Sender rotation configuration (see getCampaignRotation in lib/services/sender-rotation.ts)
   senderRotation: text("sender_rotation").default("auto"), // "auto", "fixed", "round_robin"
-  preferredDomainIds: jsonb("preferred_domain_ids").$type<string[]>().default([]), // IDs of preferred domains for this campaign
+  preferredDomainIds: jsonb("preferred_domain_ids").$type<string[]>().default([]), // Domains the campaign may send from (empty = any)
+
+  // Sending window - touchpoints are only scheduled/sent inside these days and hours
+  schedulingSettings: jsonb("scheduling_settings").$type<{
+    timezone: string; // IANA timezone, e.g. "Asia/Kolkata"
+    sendingDays: string[]; // "monday" ... "sunday"
+    sendingTimeStart: string; // "HH:mm" in the campaign timezone
+    sendingTimeEnd: string; // "HH:mm" in the campaign timezone
+    defaultIntervalDays?: number;
+    useRecipientTimezone?: boolean; // Apply the window in each lead's own timezone when known
+  }>(),
+  dailyLimit: integer("daily_limit"), // Max emails the campaign sends per day (campaign timezone); null = no cap
+  tags: jsonb("tags").$type<string[]>().default([]),
 
   // For AI sequences - criteria used
   aiCriteria: jsonb("ai_criteria").$type<{
@@ -220,6 +234,80 @@ export const campaigns = pgTable("campaigns", {
   index("campaigns_created_at_idx").on(table.createdAt),
 ]);
 
+// ============================================
+// SEQUENCE LIBRARY TABLE (workspace-level reusable sequences)
+// ============================================
+export const sequenceLibrary = pgTable("sequence_library", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  workspaceId: text("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+
+  name: text("name").notNull(),
+  description: text("description"),
+
+  latestVersion: integer("latest_version").default(1).notNull(),
+  createdFromCampaignId: text("created_from_campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
+
+  isArchived: boolean("is_archived").default(false),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("sequence_library_workspace_id_idx").on(table.workspaceId),
+]);
+
+// ============================================
+// SEQUENCE LIBRARY VERSIONS TABLE (immutable snapshots of a library sequence)
+// ============================================
+export const sequenceLibraryVersions = pgTable("sequence_library_versions", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  libraryId: text("library_id")
+    .references(() => sequenceLibrary.id, { onDelete: "cascade" })
+    .notNull(),
+
+  version: integer("version").notNull(),
+
+  // Steps as they were saved - copied into a campaign's touchpoint templates on use.
+  // Variants are referenced by label, since their IDs belong to one campaign.
+  steps: jsonb("steps").$type<{
+    channel: "email" | "linkedin_message" | "linkedin_connection" | "sms" | "whatsapp" | "phone_call";
+    delayDays: number;
+    preferredTimeOfDay: string | null;
+    replyInThread: boolean;
+    condition: {
+      rules: { stepNumber: number; event: "opened" | "clicked" | "replied"; happened: boolean }[];
+      match?: "all" | "any";
+      variantLabel?: string;
+      otherwise?: "skip" | "send";
+    } | null;
+    subject: string | null;
+    body: string | null;
+    talkingPoints: string[];
+    personalizationNotes: string | null;
+    abTestMetric: string | null;
+    abTestMinSends: number | null;
+    autoPromoteWinner: boolean;
+    variants: {
+      label: string;
+      subject: string | null;
+      body: string | null;
+      weight: number;
+      isActive: boolean;
+    }[];
+  }[]>().notNull(),
+
+  changeNote: text("change_note"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("sequence_library_versions_library_id_idx").on(table.libraryId, table.version),
+]);
+
 // ============================================
 // SEQUENCE TEMPLATES TABLE (campaign-level sequence definition)
 // ============================================
@@ -243,6 +331,9 @@ export const sequenceTemplates = pgTable("sequence_templates", {
 
   isActive: boolean("is_active").default(true),
 
+  // Library version this sequence was copied from (library edits never touch this copy)
+  libraryVersionId: text("library_version_id").references(() => sequenceLibraryVersions.id, { onDelete: "set null" }),
+
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -271,6 +362,22 @@ export const touchpointTemplates = pgTable("touchpoint_templates", {
   delayDays: integer("delay_days").default(0), // Days after previous step
   preferredTimeOfDay: text("preferred_time_of_day"), // "morning", "afternoon", "evening"
 
+  // Threading - send as a reply to the previous step ("Re: " + step-1 subject, same mailbox)
+  replyInThread: boolean("reply_in_thread").default(false),
+
+  // Branching - checked against earlier steps' emailEvents when this step comes due.
+  // Unmet conditions skip the step (or send the normal copy with otherwise: "send").
+  condition: jsonb("condition").$type<{
+    rules: {
+      stepNumber: number; // Earlier step whose engagement is checked
+      event: "opened" | "clicked" | "replied";
+      happened: boolean; // false = "not opened", "no reply"...
+    }[];
+    match?: "all" | "any"; // Default "all"
+    variantId?: string; // A/B variant to send when the condition is met
+    otherwise?: "skip" | "send"; // Default "skip"
+  }>(),
+
   // Content template
   subject: text("subject"), // For email
   body: text("body"),
@@ -281,6 +388,12 @@ export const touchpointTemplates = pgTable("touchpoint_templates", {
   // AI personalization instructions
   personalizationNotes: text("personalization_notes"),
 
+  // A/B testing (copies live in touchpointVariants)
+  abTestMetric: text("ab_test_metric").default("reply"), // "open", "click", "reply" - what decides the winner
+  abTestMinSends: integer("ab_test_min_sends").default(100), // Sends per variant before a winner can be picked
+  autoPromoteWinner: boolean("auto_promote_winner").default(false), // Switch remaining sends to the winner
+  winningVariantId: text("winning_variant_id"), // Set once a winner is promoted (automatically or by hand)
+
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -288,6 +401,33 @@ export const touchpointTemplates = pgTable("touchpoint_templates", {
   index("touchpoint_templates_step_idx").on(table.stepNumber),
 ]);
 
+// ============================================
+// TOUCHPOINT VARIANTS TABLE (A/B test copies of a step)
+// ============================================
+export const touchpointVariants = pgTable("touchpoint_variants", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  touchpointTemplateId: text("touchpoint_template_id")
+    .references(() => touchpointTemplates.id, { onDelete: "cascade" })
+    .notNull(),
+
+  label: text("label").notNull(), // "A", "B", ...
+
+  // Content - null falls back to the step's own subject/body (e.g. to test only the subject)
+  subject: text("subject"),
+  body: text("body"),
+
+  weight: integer("weight").default(1), // Relative share of leads assigned to this variant
+  isActive: boolean("is_active").default(true), // Inactive variants get no new leads
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("touchpoint_variants_template_id_idx").on(table.touchpointTemplateId),
+]);
+
 // ============================================
 // LEAD TOUCHPOINTS TABLE (actual touchpoints for each lead)
 // ============================================
@@ -303,6 +443,10 @@ export const leadTouchpoints = pgTable("lead_touchpoints", {
   touchpointTemplateId: text("touchpoint_template_id")
     .references(() => touchpointTemplates.id, { onDelete: "cascade" }),
 
+  // A/B variant assigned at launch (null when the step has no variants)
+  variantId: text("variant_id")
+    .references(() => touchpointVariants.id, { onDelete: "set null" }),
+
   // Step info (copied for easy access)
   stepNumber: integer("step_number").notNull(),
   channel: channelTypeEnum("channel").notNull(),
@@ -310,6 +454,15 @@ export const leadTouchpoints = pgTable("lead_touchpoints", {
   // Personalized content (AI-generated from template)
   subject: text("subject"),
   body: text("body"),
+  angle: text("angle"), // Value proposition angle the copy was written around
+  reviewStatus: reviewStatusEnum("review_status"), // Set when the copy was written per lead - only "approved" is sent
+  reviewRequestedAt: timestamp("review_requested_at"), // When the copy entered the review queue
+  reviewerId: text("reviewer_id").references(() => users.id, { onDelete: "set null" }), // Assigned reviewer
+  reviewedBy: text("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"), // Reason given with the last approval or rejection
+  rejectionReason: text("rejection_reason"), // Fed into the next rewrite of the copy
+  talkingPoints: jsonb("talking_points").$type<string[]>(), // Calls/LinkedIn - personalized from the step's talking points
 
   // Status tracking
   status: touchpointStatusEnum("status").default("pending"),
@@ -324,6 +477,8 @@ export const leadTouchpoints = pgTable("lead_touchpoints", {
 
   // Tracking
   trackingId: text("tracking_id"), // Unique ID for tracking pixel/links
+  messageId: text("message_id"), // Message-ID header of the sent email (later steps reply to it)
+  providerMessageId: text("provider_message_id"), // ID the provider gave the email (e.g. Resend email_id), for its webhooks
   openCount: integer("open_count").default(0),
   clickCount: integer("click_count").default(0),
   clickedLinks: jsonb("clicked_links").$type<string[]>(), // URLs that were clicked
@@ -335,12 +490,29 @@ export const leadTouchpoints = pgTable("lead_touchpoints", {
   // Error tracking
   errorMessage: text("error_message"),
 
+  // Manual tasks (LinkedIn, calls, WhatsApp, SMS) - done sets status "sent", skipped "skipped"
+  completedAt: timestamp("completed_at"),
+  taskNotes: text("task_notes"), // Outcome notes from the SDR ("left voicemail", "connected")
+
+  // Send queue (claimed by a worker while it is being sent)
+  attempts: integer("attempts").default(0),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+
+  // Frozen while its campaign or lead is paused - the queue skips it and resume shifts
+  // scheduledAt by the time spent paused (see lib/services/pause-resume.ts)
+  pausedAt: timestamp("paused_at"),
+
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("lead_touchpoints_lead_id_idx").on(table.leadId),
   index("lead_touchpoints_status_idx").on(table.status),
   index("lead_touchpoints_scheduled_idx").on(table.scheduledAt),
+  index("lead_touchpoints_variant_id_idx").on(table.variantId),
+  index("lead_touchpoints_review_status_idx").on(table.reviewStatus),
+  index("lead_touchpoints_reviewer_id_idx").on(table.reviewerId),
+  index("lead_touchpoints_provider_message_id_idx").on(table.providerMessageId),
 ]);
 
 // ============================================
@@ -365,6 +537,7 @@ export const leads = pgTable("leads", {
   schoolWebsite: text("school_website"),
   schoolCountry: text("school_country"),
   schoolRegion: text("school_region"),
+  timezone: text("timezone"), // IANA timezone - inferred from schoolCountry/schoolRegion, editable on import
 
   // Enrichment
   curriculum: jsonb("curriculum").$type<string[]>().default([]),
@@ -384,9 +557,12 @@ export const leads = pgTable("leads", {
   // Scoring
   leadScore: integer("lead_score"),
   scoreReasons: jsonb("score_reasons").$type<string[]>().default([]),
+  replySentiment: text("reply_sentiment").$type<"positive" | "neutral" | "negative">(), // From the latest classified reply
 
   // Status
   status: leadStatusEnum("status").default("new"),
+  pausedAt: timestamp("paused_at"), // Set while the lead's sequence is paused on its own
+  pausedUntil: timestamp("paused_until"), // Resumes on its own then (out-of-office return date)
 
   // Notion sync
   notionCompanyId: text("notion_company_id"),
@@ -394,6 +570,10 @@ export const leads = pgTable("leads", {
 
   // Campaign association
   campaignId: text("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
+  // Mailbox that sent the lead's first email - later steps and inbox replies come from it too
+  senderDomainId: text("sender_domain_id").references(() => sendingDomains.id, { onDelete: "set null" }),
+  // Lead whose reply pointed us to this one (see lib/services/referrals.ts)
+  referredByLeadId: text("referred_by_lead_id").references((): AnyPgColumn => leads.id, { onDelete: "set null" }),
   workspaceId: text("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
 
   // Timestamps
@@ -407,64 +587,25 @@ export const leads = pgTable("leads", {
 ]);
 
 // ============================================
-// EMAIL SEQUENCES TABLE
+// PAUSE EVENTS TABLE (who paused or resumed a campaign or lead, and why)
 // ============================================
-export const emailSequences = pgTable("email_sequences", {
+export const pauseEvents = pgTable("pause_events", {
   id: text("id")
     .primaryKey()
     .$defaultFn(() => crypto.randomUUID()),
 
-  leadId: text("lead_id")
-    .references(() => leads.id, { onDelete: "cascade" })
-    .notNull(),
-
-  // Angles used
-  primaryAngle: text("primary_angle"),
-  secondaryAngle: text("secondary_angle"),
-  tertiaryAngle: text("tertiary_angle"),
+  campaignId: text("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }),
+  leadId: text("lead_id").references(() => leads.id, { onDelete: "cascade" }), // Null for the whole campaign
 
-  // Email 1
-  email1Subject: text("email_1_subject"),
-  email1Body: text("email_1_body"),
-  email1SentAt: timestamp("email_1_sent_at"),
-
-  // Email 2
-  email2Subject: text("email_2_subject"),
-  email2Body: text("email_2_body"),
-  email2SentAt: timestamp("email_2_sent_at"),
-
-  // Email 3
-  email3Subject: text("email_3_subject"),
-  email3Body: text("email_3_body"),
-  email3SentAt: timestamp("email_3_sent_at"),
-
-  // Email 4
-  email4Subject: text("email_4_subject"),
-  email4Body: text("email_4_body"),
-  email4SentAt: timestamp("email_4_sent_at"),
-
-  // Email 5
-  email5Subject: text("email_5_subject"),
-  email5Body: text("email_5_body"),
-  email5SentAt: timestamp("email_5_sent_at"),
-
-  // Status
-  status: sequenceStatusEnum("status").default("draft"),
-  currentEmail: integer("current_email").default(1),
-  nextSendAt: timestamp("next_send_at"),
-  stopReason: text("stop_reason"),
+  action: text("action").$type<"paused" | "resumed">().notNull(),
+  reason: text("reason"),
+  userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
+  touchpoints: integer("touchpoints").default(0), // Touchpoints frozen or re-flowed
 
-  // Confidence scoring (1-10, used for auto-approval)
-  confidenceScore: integer("confidence_score"),
-  confidenceReason: text("confidence_reason"),
-
-  // Timestamps
   createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
-  index("sequences_lead_id_idx").on(table.leadId),
-  index("sequences_status_idx").on(table.status),
-  index("sequences_confidence_idx").on(table.confidenceScore),
+  index("pause_events_campaign_id_idx").on(table.campaignId),
+  index("pause_events_lead_id_idx").on(table.leadId),
 ]);
 
 // ============================================
@@ -479,7 +620,8 @@ export const inboxMessages = pgTable("inbox_messages", {
     .references(() => leads.id, { onDelete: "cascade" })
     .notNull(),
 
-  sequenceId: text("sequence_id").references(() => emailSequences.id),
+  // Email, SMS or WhatsApp - for SMS/WhatsApp the from/to fields hold E.164 numbers
+  channel: channelTypeEnum("channel").default("email"),
 
   // Email details
   direction: messageDirectionEnum("direction").notNull(),
@@ -498,6 +640,10 @@ export const inboxMessages = pgTable("inbox_messages", {
   aiDraftReply: text("ai_draft_reply"),
   aiDraftApproved: boolean("ai_draft_approved").default(false),
 
+  // Reply intent of inbound messages (see lib/services/reply-intent.ts)
+  replyIntent: text("reply_intent"), // "interested", "not_interested", "out_of_office", "referral", "unsubscribe", "wrong_person", "auto_bounce"
+  replyIntentConfidence: integer("reply_intent_confidence"), // 0-100
+
   // Status
   isRead: boolean("is_read").default(false),
   readBy: jsonb("read_by").$type<string[]>().default([]),
@@ -558,6 +704,7 @@ export const sendingDomains = pgTable("sending_domains", {
 
   // Throttling & Rate Limiting
   currentDelayMs: integer("current_delay_ms").default(60000), // Delay between sends
+  lastSentAt: timestamp("last_sent_at"), // Used with the delay to space out sends
   bounceCountToday: integer("bounce_count_today").default(0),
   complaintCountToday: integer("complaint_count_today").default(0),
   lastBounceAt: timestamp("last_bounce_at"),
@@ -592,7 +739,7 @@ export const emailHistory = pgTable("email_history", {
   schoolName: text("school_name"),
 
   // Source of this record
-  source: text("source").notNull(), // "import", "search", "csv_history", "manual"
+  source: text("source").notNull(), // "import", "search", "csv_history", "manual", "referral"
 
   // Status
   status: text("status").default("contacted"), // "contacted", "bounced", "unsubscribed", "do_not_contact"
@@ -1044,6 +1191,15 @@ export const touchpointTemplatesRelations = relations(touchpointTemplates, ({ on
     references: [sequenceTemplates.id],
   }),
   leadTouchpoints: many(leadTouchpoints),
+  variants: many(touchpointVariants),
+}));
+
+export const touchpointVariantsRelations = relations(touchpointVariants, ({ one, many }) => ({
+  touchpointTemplate: one(touchpointTemplates, {
+    fields: [touchpointVariants.touchpointTemplateId],
+    references: [touchpointTemplates.id],
+  }),
+  leadTouchpoints: many(leadTouchpoints),
 }));
 
 export const leadTouchpointsRelations = relations(leadTouchpoints, ({ one }) => ({
@@ -1055,10 +1211,13 @@ export const leadTouchpointsRelations = relations(leadTouchpoints, ({ one }) =>
     fields: [leadTouchpoints.touchpointTemplateId],
     references: [touchpointTemplates.id],
   }),
+  variant: one(touchpointVariants, {
+    fields: [leadTouchpoints.variantId],
+    references: [touchpointVariants.id],
+  }),
 }));
 
 export const leadsRelations = relations(leads, ({ many, one }) => ({
-  emailSequence: one(emailSequences),
   messages: many(inboxMessages),
   meetings: many(meetings),
   meetingPrep: one(meetingPreps),
@@ -1080,23 +1239,11 @@ export const meetingsRelations = relations(meetings, ({ one }) => ({
   }),
 }));
 
-export const emailSequencesRelations = relations(emailSequences, ({ one, many }) => ({
-  lead: one(leads, {
-    fields: [emailSequences.leadId],
-    references: [leads.id],
-  }),
-  messages: many(inboxMessages),
-}));
-
 export const inboxMessagesRelations = relations(inboxMessages, ({ one }) => ({
   lead: one(leads, {
     fields: [inboxMessages.leadId],
     references: [leads.id],
   }),
-  sequence: one(emailSequences, {
-    fields: [inboxMessages.sequenceId],
-    references: [emailSequences.id],
-  }),
 }));
 
 export const meetingPrepsRelations = relations(meetingPreps, ({ one }) => ({
@@ -1150,9 +1297,6 @@ export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) =
 export type Lead = typeof leads.$inferSelect;
 export type NewLead = typeof leads.$inferInsert;
 
-export type EmailSequence = typeof emailSequences.$inferSelect;
-export type NewEmailSequence = typeof emailSequences.$inferInsert;
-
 export type InboxMessage = typeof inboxMessages.$inferSelect;
 export type NewInboxMessage = typeof inboxMessages.$inferInsert;
 
@@ -1180,15 +1324,27 @@ export type NewWorkspace = typeof workspaces.$inferInsert;
 export type Campaign = typeof campaigns.$inferSelect;
 export type NewCampaign = typeof campaigns.$inferInsert;
 
+export type SequenceLibraryTemplate = typeof sequenceLibrary.$inferSelect;
+export type NewSequenceLibraryTemplate = typeof sequenceLibrary.$inferInsert;
+
+export type SequenceLibraryVersion = typeof sequenceLibraryVersions.$inferSelect;
+export type NewSequenceLibraryVersion = typeof sequenceLibraryVersions.$inferInsert;
+
 export type SequenceTemplate = typeof sequenceTemplates.$inferSelect;
 export type NewSequenceTemplate = typeof sequenceTemplates.$inferInsert;
 
 export type TouchpointTemplate = typeof touchpointTemplates.$inferSelect;
 export type NewTouchpointTemplate = typeof touchpointTemplates.$inferInsert;
 
+export type TouchpointVariant = typeof touchpointVariants.$inferSelect;
+export type NewTouchpointVariant = typeof touchpointVariants.$inferInsert;
+
 export type LeadTouchpoint = typeof leadTouchpoints.$inferSelect;
 export type NewLeadTouchpoint = typeof leadTouchpoints.$inferInsert;
 
+export type PauseEvent = typeof pauseEvents.$inferSelect;
+export type NewPauseEvent = typeof pauseEvents.$inferInsert;
+
 export type EmailEvent = typeof emailEvents.$inferSelect;
 export type NewEmailEvent = typeof emailEvents.$inferInsert;
 
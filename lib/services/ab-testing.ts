@@ -0,0 +1,277 @@
+/**
+ * A/B Testing Service
+ *
+ * Steps can carry several copies (touchpointVariants). Each lead is assigned one at
+ * launch by weighted random pick, stored on leadTouchpoints.variantId.
+ * - Stats per variant come from sends (leadTouchpoints.sentAt) and emailEvents
+ * - Significance is a two-proportion z-test between the leading variant and the runner-up
+ * - With autoPromoteWinner, once every active variant has abTestMinSends sends and the
+ *   leader is significant, remaining pending sends switch to the winner
+ */
+
+import { db } from "@/lib/db";
+import {
+  touchpointTemplates,
+  touchpointVariants,
+  leadTouchpoints,
+  emailEvents,
+} from "@/lib/db/schema";
+import type { TouchpointVariant } from "@/lib/db/schema";
+import { eq, and, or, asc, inArray, isNull, isNotNull, ne, sql } from "drizzle-orm";
+
+export const AB_TEST_METRICS = ["open", "click", "reply"] as const;
+export type AbTestMetric = (typeof AB_TEST_METRICS)[number];
+
+const SIGNIFICANCE_LEVEL = 0.05; // 95% confidence
+const DEFAULT_MIN_SENDS = 100;
+
+export interface VariantStats {
+  variantId: string;
+  label: string;
+  weight: number;
+  isActive: boolean;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  openRate: number; // 0-1
+  clickRate: number;
+  replyRate: number;
+}
+
+export interface SignificanceResult {
+  metric: AbTestMetric;
+  leaderId: string | null;
+  runnerUpId: string | null;
+  pValue: number | null;
+  confidence: number | null; // 1 - pValue
+  significant: boolean;
+  enoughVolume: boolean; // Every active variant reached minSends
+  minSends: number;
+}
+
+/**
+ * Weighted random pick (weights <= 0 are never picked)
+ */
+export function pickVariant<T extends { weight: number | null }>(variants: T[]): T | null {
+  const eligible = variants.filter((v) => (v.weight ?? 1) > 0);
+  const total = eligible.reduce((sum, v) => sum + (v.weight ?? 1), 0);
+  if (total <= 0) return null;
+
+  let roll = Math.random() * total;
+  for (const variant of eligible) {
+    roll -= variant.weight ?? 1;
+    if (roll < 0) return variant;
+  }
+  return eligible[eligible.length - 1];
+}
+
+/**
+ * Active variants for a set of steps, keyed by touchpoint template ID
+ */
+export async function getVariantsByTemplate(
+  touchpointTemplateIds: string[]
+): Promise<Map<string, TouchpointVariant[]>> {
+  const result = new Map<string, TouchpointVariant[]>();
+  if (touchpointTemplateIds.length === 0) return result;
+
+  const variants = await db
+    .select()
+    .from(touchpointVariants)
+    .where(
+      and(
+        inArray(touchpointVariants.touchpointTemplateId, touchpointTemplateIds),
+        eq(touchpointVariants.isActive, true)
+      )
+    )
+    .orderBy(asc(touchpointVariants.label));
+
+  for (const variant of variants) {
+    const list = result.get(variant.touchpointTemplateId) || [];
+    list.push(variant);
+    result.set(variant.touchpointTemplateId, list);
+  }
+
+  return result;
+}
+
+/**
+ * Sends, opens, clicks and replies per variant of a step
+ */
+export async function getVariantStats(touchpointTemplateId: string): Promise<VariantStats[]> {
+  const variants = await db
+    .select()
+    .from(touchpointVariants)
+    .where(eq(touchpointVariants.touchpointTemplateId, touchpointTemplateId))
+    .orderBy(asc(touchpointVariants.label));
+
+  if (variants.length === 0) return [];
+
+  const countEvent = (type: string) =>
+    sql<number>`COUNT(DISTINCT CASE WHEN ${emailEvents.eventType} = ${type} THEN ${leadTouchpoints.id} END)`;
+
+  const rows = await db
+    .select({
+      variantId: leadTouchpoints.variantId,
+      sent: sql<number>`COUNT(DISTINCT ${leadTouchpoints.id})`,
+      opened: countEvent("opened"),
+      clicked: countEvent("clicked"),
+      replied: countEvent("replied"),
+    })
+    .from(leadTouchpoints)
+    .leftJoin(emailEvents, eq(emailEvents.touchpointId, leadTouchpoints.id))
+    .where(
+      and(
+        eq(leadTouchpoints.touchpointTemplateId, touchpointTemplateId),
+        isNotNull(leadTouchpoints.variantId),
+        isNotNull(leadTouchpoints.sentAt)
+      )
+    )
+    .groupBy(leadTouchpoints.variantId);
+
+  const byVariant = new Map(rows.map((r) => [r.variantId, r]));
+
+  return variants.map((variant) => {
+    const row = byVariant.get(variant.id);
+    const sent = Number(row?.sent || 0);
+    const opened = Number(row?.opened || 0);
+    const clicked = Number(row?.clicked || 0);
+    const replied = Number(row?.replied || 0);
+
+    return {
+      variantId: variant.id,
+      label: variant.label,
+      weight: variant.weight ?? 1,
+      isActive: variant.isActive ?? true,
+      sent,
+      opened,
+      clicked,
+      replied,
+      openRate: sent ? opened / sent : 0,
+      clickRate: sent ? clicked / sent : 0,
+      replyRate: sent ? replied / sent : 0,
+    };
+  });
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function successes(stats: VariantStats, metric: AbTestMetric): number {
+  if (metric === "open") return stats.opened;
+  if (metric === "click") return stats.clicked;
+  return stats.replied;
+}
+
+/**
+ * Compare the best-performing active variant against the runner-up on one metric
+ */
+export function checkSignificance(
+  stats: VariantStats[],
+  metric: AbTestMetric,
+  minSends: number = DEFAULT_MIN_SENDS
+): SignificanceResult {
+  const active = stats.filter((s) => s.isActive);
+  const ranked = [...active].sort(
+    (a, b) => successes(b, metric) / (b.sent || 1) - successes(a, metric) / (a.sent || 1)
+  );
+  const [leader, runnerUp] = ranked;
+
+  const result: SignificanceResult = {
+    metric,
+    leaderId: leader?.variantId || null,
+    runnerUpId: runnerUp?.variantId || null,
+    pValue: null,
+    confidence: null,
+    significant: false,
+    enoughVolume: active.length > 1 && active.every((s) => s.sent >= minSends),
+    minSends,
+  };
+
+  if (!leader || !runnerUp || !leader.sent || !runnerUp.sent) return result;
+
+  const p1 = successes(leader, metric) / leader.sent;
+  const p2 = successes(runnerUp, metric) / runnerUp.sent;
+  const pooled = (successes(leader, metric) + successes(runnerUp, metric)) / (leader.sent + runnerUp.sent);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / leader.sent + 1 / runnerUp.sent));
+
+  if (standardError === 0) return result;
+
+  const z = (p1 - p2) / standardError;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+
+  result.pValue = pValue;
+  result.confidence = 1 - pValue;
+  result.significant = pValue < SIGNIFICANCE_LEVEL;
+  return result;
+}
+
+/**
+ * Make a variant the winner: remaining pending sends of the step switch to it
+ * Returns the number of pending touchpoints that were switched
+ */
+export async function promoteVariant(
+  touchpointTemplateId: string,
+  variantId: string
+): Promise<number> {
+  await db
+    .update(touchpointTemplates)
+    .set({ winningVariantId: variantId, updatedAt: new Date() })
+    .where(eq(touchpointTemplates.id, touchpointTemplateId));
+
+  const switched = await db
+    .update(leadTouchpoints)
+    .set({ variantId, updatedAt: new Date() })
+    .where(
+      and(
+        eq(leadTouchpoints.touchpointTemplateId, touchpointTemplateId),
+        eq(leadTouchpoints.status, "pending"),
+        or(isNull(leadTouchpoints.variantId), ne(leadTouchpoints.variantId, variantId))
+      )
+    )
+    .returning({ id: leadTouchpoints.id });
+
+  console.log(`[A/B Test] Promoted variant ${variantId} for step ${touchpointTemplateId} (${switched.length} pending sends switched)`);
+  return switched.length;
+}
+
+/**
+ * Promote the leading variant if auto-promote is on, every variant has enough volume
+ * and the difference is significant. Returns the winner's ID, or null if none yet.
+ */
+export async function maybePromoteWinner(touchpointTemplateId: string): Promise<string | null> {
+  const [template] = await db
+    .select({
+      abTestMetric: touchpointTemplates.abTestMetric,
+      abTestMinSends: touchpointTemplates.abTestMinSends,
+      autoPromoteWinner: touchpointTemplates.autoPromoteWinner,
+      winningVariantId: touchpointTemplates.winningVariantId,
+    })
+    .from(touchpointTemplates)
+    .where(eq(touchpointTemplates.id, touchpointTemplateId))
+    .limit(1);
+
+  if (!template?.autoPromoteWinner) return null;
+  if (template.winningVariantId) return template.winningVariantId;
+
+  const metric = AB_TEST_METRICS.includes(template.abTestMetric as AbTestMetric)
+    ? (template.abTestMetric as AbTestMetric)
+    : "reply";
+  const result = checkSignificance(
+    await getVariantStats(touchpointTemplateId),
+    metric,
+    template.abTestMinSends ?? DEFAULT_MIN_SENDS
+  );
+
+  if (!result.enoughVolume || !result.significant || !result.leaderId) return null;
+
+  await promoteVariant(touchpointTemplateId, result.leaderId);
+  return result.leaderId;
+}
@@ -0,0 +1,264 @@
+/**
+ * Bounce and Complaint Handling
+ *
+ * Mail sent over SMTP bounces back to the sending mailbox as a delivery status notification
+ * (RFC 3464: multipart/report; report-type=delivery-status). The IMAP sync hands these here
+ * instead of to the reply processor, so they never become inbox conversations:
+ * - Reads the failed recipient, status code and diagnostic from the report
+ * - Hard bounces (5.x.x) put the address on the suppression list as bounced, which cancels
+ *   everything pending for it, mark the lead's email unverified and count against the
+ *   sending domain (see warmup-manager.ts)
+ * - Soft bounces (4.x.x) are only recorded on the touchpoint - the address may work later
+ * - "delayed" reports are ignored: the receiving server is still trying
+ *
+ * Resend reports bounces and spam complaints by webhook instead, identified by its own
+ * message ID (see app/api/webhooks/resend). Complaints suppress the address as do-not-contact
+ * and count against the sending domain like hard bounces.
+ */
+
+import type { ParsedMail } from "mailparser";
+import { db } from "@/lib/db";
+import { leads, leadTouchpoints } from "@/lib/db/schema";
+import { eq, and, desc, isNotNull, sql, type SQL } from "drizzle-orm";
+import { recordBounceEvent, recordComplaintEvent } from "./email-tracking";
+import { recordBounce, recordComplaint } from "./warmup-manager";
+import { suppressEmail } from "./unsubscribe";
+
+export type BounceType = "hard" | "soft";
+
+export interface DeliveryFailure {
+  recipient: string;
+  status: string | null; // Enhanced status code, e.g. "5.1.1"
+  diagnostic: string | null; // The receiving server's own words
+  bounceType: BounceType;
+}
+
+export interface RecordedBounce {
+  touchpointId: string | null; // Null if the bounce couldn't be matched to a sent email
+  bounceType: BounceType;
+}
+
+interface SentEmailMatch {
+  messageId?: string | null; // Message-ID header of the email
+  providerMessageId?: string | null; // ID the provider gave it (e.g. Resend email_id)
+}
+
+/**
+ * Whether a Content-Type header (as mailparser gives it) marks a delivery status report
+ */
+export function isDeliveryStatusReport(contentType: unknown): boolean {
+  if (!contentType || typeof contentType !== "object") return false;
+
+  const { value, params } = contentType as { value?: string; params?: Record<string, string> };
+  return (
+    value?.toLowerCase() === "multipart/report" &&
+    params?.["report-type"]?.toLowerCase() === "delivery-status"
+  );
+}
+
+/**
+ * Hard or soft, from the status code, or the SMTP reply code in the diagnostic if there's none
+ */
+export function classifyBounce(status: string | null, diagnostic: string | null): BounceType {
+  if (status) return status.startsWith("4") ? "soft" : "hard";
+  if (diagnostic && /\b4\d\d\b/.test(diagnostic)) return "soft";
+  return "hard";
+}
+
+/**
+ * Failed recipients in the text of a delivery status report (one "Final-Recipient" block
+ * each). Recipients the report lists as delayed, delivered or relayed are left out.
+ */
+export function parseDeliveryStatus(text: string): DeliveryFailure[] {
+  const failures: DeliveryFailure[] = [];
+
+  // Unfold continuation lines, then read each blank-line separated block as a set of fields
+  const blocks = text.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n\s*\r?\n/);
+
+  for (const block of blocks) {
+    const fields: Record<string, string> = {};
+    for (const line of block.split(/\r?\n/)) {
+      const match = line.match(/^([A-Za-z-]+):\s*(.*)$/);
+      if (match) fields[match[1].toLowerCase()] = match[2].trim();
+    }
+
+    const recipientField = fields["final-recipient"] || fields["original-recipient"];
+    if (!recipientField) continue;
+
+    const action = fields["action"]?.toLowerCase();
+    if (action && action !== "failed") continue;
+
+    const recipient = recipientField.replace(/^[^;]*;\s*/, "").trim().toLowerCase();
+    if (!recipient.includes("@")) continue;
+
+    const status = fields["status"]?.match(/\b[245]\.\d{1,3}\.\d{1,3}\b/)?.[0] || null;
+    if (status?.startsWith("2")) continue;
+
+    const diagnostic = fields["diagnostic-code"]?.replace(/^[^;]*;\s*/, "") || null;
+
+    failures.push({
+      recipient,
+      status,
+      diagnostic,
+      bounceType: classifyBounce(status, diagnostic),
+    });
+  }
+
+  return failures;
+}
+
+async function selectSentEmail(where: SQL | undefined) {
+  const [touchpoint] = await db
+    .select({
+      id: leadTouchpoints.id,
+      leadId: leadTouchpoints.leadId,
+      senderDomainId: leads.senderDomainId,
+    })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .where(where)
+    .orderBy(desc(leadTouchpoints.sentAt))
+    .limit(1);
+
+  return touchpoint;
+}
+
+/**
+ * The touchpoint a bounce or complaint is about: by message ID, else the latest email sent
+ * to the address
+ */
+async function findSentEmail(recipient: string, match: SentEmailMatch) {
+  if (match.providerMessageId) {
+    const touchpoint = await selectSentEmail(eq(leadTouchpoints.providerMessageId, match.providerMessageId));
+    if (touchpoint) return touchpoint;
+  }
+  if (match.messageId) {
+    const touchpoint = await selectSentEmail(eq(leadTouchpoints.messageId, match.messageId));
+    if (touchpoint) return touchpoint;
+  }
+
+  return selectSentEmail(
+    and(
+      sql`lower(${leads.email}) = ${recipient}`,
+      eq(leadTouchpoints.channel, "email"),
+      isNotNull(leadTouchpoints.sentAt)
+    )
+  );
+}
+
+/**
+ * Record a bounce against the email it answers. Hard bounces suppress the address and mark
+ * it unverified.
+ */
+export async function recordLeadBounce(
+  bounce: SentEmailMatch & {
+    recipient: string;
+    bounceType: BounceType;
+    reason: string;
+    domainId?: string | null; // Sending domain, for its bounce rate (defaults to the lead's mailbox)
+  }
+): Promise<RecordedBounce> {
+  const recipient = bounce.recipient.toLowerCase();
+  const touchpoint = await findSentEmail(recipient, bounce);
+
+  if (touchpoint) {
+    await recordBounceEvent(touchpoint.id, bounce.bounceType, bounce.reason);
+  }
+
+  if (bounce.bounceType === "hard") {
+    // Also cancels the remaining touchpoints of every lead with this address
+    await suppressEmail(recipient, "bounced", {
+      leadId: touchpoint?.leadId,
+      source: "bounce",
+    });
+
+    await db
+      .update(leads)
+      .set({ emailVerified: false, updatedAt: new Date() })
+      .where(sql`lower(${leads.email}) = ${recipient}`);
+
+    const domainId = bounce.domainId || touchpoint?.senderDomainId;
+    if (domainId) {
+      await recordBounce(domainId);
+    }
+  }
+
+  console.log(
+    `[Bounces] ${bounce.bounceType} bounce for ${recipient}${touchpoint ? ` (touchpoint ${touchpoint.id})` : " (no matching email)"}: ${bounce.reason}`
+  );
+
+  return { touchpointId: touchpoint?.id || null, bounceType: bounce.bounceType };
+}
+
+/**
+ * Record a spam complaint against the email it's about: the address goes on the suppression
+ * list as do-not-contact (stopping its sequence) and the complaint counts against the sending
+ * domain. Returns the touchpoint, or null if the complaint couldn't be matched to a sent email.
+ */
+export async function recordLeadComplaint(
+  complaint: SentEmailMatch & { recipient: string; feedbackType?: string }
+): Promise<string | null> {
+  const recipient = complaint.recipient.toLowerCase();
+  const touchpoint = await findSentEmail(recipient, complaint);
+
+  if (touchpoint) {
+    await recordComplaintEvent(touchpoint.id, complaint.feedbackType);
+  }
+
+  await suppressEmail(recipient, "do_not_contact", {
+    leadId: touchpoint?.leadId,
+    source: "complaint",
+  });
+
+  if (touchpoint?.senderDomainId) {
+    await recordComplaint(touchpoint.senderDomainId);
+  }
+
+  console.log(
+    `[Bounces] Spam complaint from ${recipient}${touchpoint ? ` (touchpoint ${touchpoint.id})` : " (no matching email)"}`
+  );
+
+  return touchpoint?.id || null;
+}
+
+/**
+ * Message-ID of the bounced email, from the copy of its headers the report attaches
+ */
+function findOriginalMessageId(parsed: ParsedMail): string | null {
+  for (const attachment of parsed.attachments) {
+    if (attachment.contentType !== "text/rfc822-headers" && attachment.contentType !== "message/rfc822") {
+      continue;
+    }
+    const match = attachment.content.toString("utf8").match(/^Message-ID:\s*(<[^>]+>)/im);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Record every failed recipient in a parsed delivery status report. Returns the bounces
+ * recorded.
+ */
+export async function handleDeliveryReport(
+  parsed: ParsedMail,
+  domainId: string
+): Promise<RecordedBounce[]> {
+  // mailparser appends the machine-readable part to the text
+  const failures = parseDeliveryStatus(parsed.text || "");
+  const messageId = findOriginalMessageId(parsed);
+
+  const recorded: RecordedBounce[] = [];
+  for (const failure of failures) {
+    recorded.push(
+      await recordLeadBounce({
+        recipient: failure.recipient,
+        bounceType: failure.bounceType,
+        reason: [failure.status, failure.diagnostic].filter(Boolean).join(" ") || "Delivery failed",
+        messageId,
+        domainId,
+      })
+    );
+  }
+
+  return recorded;
+}
@@ -1,43 +1,42 @@
-import nodemailer from "nodemailer";
-import type { Transporter } from "nodemailer";
-import { db, sendingDomains, emailSequences, inboxMessages, leadTouchpoints } from "@/lib/db";
+import { db, sendingDomains, inboxMessages, leadTouchpoints } from "@/lib/db";
+import type { SendingDomain } from "@/lib/db";
 import { eq, sql } from "drizzle-orm";
 import {
   generateTrackingId,
   addTrackingToEmail,
 } from "@/lib/services/email-tracking";
+import {
+  resolveSender,
+  generateMessageId,
+  isRetryableSendError,
+  type TransportName,
+} from "@/lib/services/email-transport";
+import { recordSend, getPinnedDomain, pinLeadSender } from "@/lib/services/sender-rotation";
+import {
+  getSuppressionStatus,
+  createUnsubscribeToken,
+  getUnsubscribeUrl,
+  getUnsubscribeHeaders,
+  addUnsubscribeFooter,
+} from "@/lib/services/unsubscribe";
 
-// SMTP transporter - singleton
-let smtpTransporter: Transporter | null = null;
-
-function getTransporter(): Transporter {
-  if (!smtpTransporter) {
-    const host = process.env.SMTP_HOST || "smtp.gmail.com";
-    const port = parseInt(process.env.SMTP_PORT || "587", 10);
-    const user = process.env.SMTP_USER;
-    const pass = process.env.SMTP_PASS;
-
-    if (!user || !pass) {
-      throw new Error("SMTP credentials not configured. Set SMTP_USER and SMTP_PASS in .env.local");
-    }
+/**
+ * Find the sending domain that owns a from address ("Name <email>" or bare email)
+ */
+export async function findDomainByFromAddress(from: string): Promise<SendingDomain | null> {
+  const match = from.match(/<([^>]+)>/);
+  const address = (match ? match[1] : from).trim().toLowerCase();
 
-    smtpTransporter = nodemailer.createTransport({
-      host,
-      port,
-      secure: port === 465,
-      auth: { user, pass },
-    });
-  }
-  return smtpTransporter;
-}
+  const [domain] = await db
+    .select()
+    .from(sendingDomains)
+    .where(sql`lower(${sendingDomains.fromEmail}) = ${address}`)
+    .limit(1);
 
-function getSender(): { fromName: string; fromEmail: string } {
-  return {
-    fromName: process.env.SMTP_FROM_NAME || "Kanishk Kapoor",
-    fromEmail: process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER || "",
-  };
+  return domain || null;
 }
 
+// Days to wait before each step of a written sequence (see lead-sequences.ts)
 export const EMAIL_CADENCE = {
   1: 0,
   2: 3,
@@ -61,10 +60,13 @@ export interface SendEmailOptions {
   htmlBody?: string;
   replyTo?: string;
   leadId: string;
-  sequenceId: string;
-  emailNumber: number;
   preferredDomain?: string;
+  domainId?: string; // Send from exactly this domain (already picked by the caller)
   signatureName?: string;
+  // Threading - send as a reply to an earlier message
+  inReplyTo?: string; // Message-ID of the message being replied to
+  references?: string[]; // Message-IDs of the thread so far, oldest first
+  threadId?: string; // Message-ID of the first message in the thread
   // Tracking options
   touchpointId?: string; // If sending via touchpoint system
   trackOpens?: boolean;
@@ -74,7 +76,11 @@ export interface SendEmailOptions {
 export interface SendEmailResult {
   success: boolean;
   messageId?: string;
+  providerMessageId?: string; // ID assigned by the provider (e.g. Resend email_id)
+  provider?: TransportName;
   error?: string;
+  retryable?: boolean; // Transient failure (rate limit, 4xx, network) - safe to retry later
+  suppressed?: boolean; // Recipient is unsubscribed, do-not-contact or bounced - nothing was sent
   domain?: string;
   trackingId?: string;
 }
@@ -204,7 +210,7 @@ function extractSignatureName(body: string): string | undefined {
 }
 
 /**
- * Send email via SMTP (Gmail)
+ * Send email through the transport of the domain picked by rotation (SMTP or Resend)
  */
 export async function sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
   const {
@@ -214,25 +220,65 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
     htmlBody,
     replyTo,
     leadId,
-    sequenceId,
-    emailNumber,
     preferredDomain,
+    domainId,
     signatureName,
+    inReplyTo,
+    references,
+    threadId,
     touchpointId,
     trackOpens = true,
     trackClicks = true,
   } = options;
 
   try {
-    const transporter = getTransporter();
-    const sender = getSender();
-    const detectedSignature = signatureName || extractSignatureName(body);
-    const domainResult = await selectDomain(detectedSignature, preferredDomain);
+    // Never mail unsubscribed, do-not-contact or bounced addresses
+    const suppression = await getSuppressionStatus(to);
+    if (suppression) {
+      console.log(`[Email Send] Skipping ${to}: on suppression list (${suppression})`);
+      return {
+        success: false,
+        error: `Recipient is on the suppression list (${suppression})`,
+        suppressed: true,
+      };
+    }
 
-    const fromName = sender.fromName;
-    const fromEmail = sender.fromEmail;
+    let domainResult: { domain: SendingDomain } | null = null;
+    if (domainId) {
+      const [domain] = await db
+        .select()
+        .from(sendingDomains)
+        .where(eq(sendingDomains.id, domainId))
+        .limit(1);
+      if (!domain) {
+        return { success: false, error: `Sending domain ${domainId} not found` };
+      }
+      domainResult = { domain };
+    } else {
+      // Stay on the mailbox that already emailed this lead
+      const pinned = await getPinnedDomain(leadId);
+      const detectedSignature = signatureName || extractSignatureName(body);
+      domainResult = pinned
+        ? { domain: pinned }
+        : await selectDomain(detectedSignature, preferredDomain);
+    }
+
+    const { transport, fromName, fromEmail, messageDomain } = resolveSender(
+      domainResult?.domain || null
+    );
     const fromAddress = `${fromName} <${fromEmail}>`;
-    let htmlContent = htmlBody || body.replace(/\n/g, "<br>");
+
+    // Per-recipient unsubscribe link in the footer and List-Unsubscribe headers
+    const unsubscribeUrl = getUnsubscribeUrl(
+      createUnsubscribeToken({ email: to, leadId, touchpointId })
+    );
+    const withFooter = addUnsubscribeFooter(
+      body,
+      htmlBody || body.replace(/\n/g, "<br>"),
+      unsubscribeUrl
+    );
+    const textContent = withFooter.text;
+    let htmlContent = withFooter.html;
 
     // Generate tracking ID and add tracking to email
     const trackingId = generateTrackingId();
@@ -243,73 +289,75 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
       });
     }
 
-    console.log(`[Email Send] Sending via SMTP from ${fromAddress} to ${to} (tracking: ${trackingId})`);
+    const headers: Record<string, string> = getUnsubscribeHeaders(unsubscribeUrl);
+    if (inReplyTo) {
+      headers["In-Reply-To"] = inReplyTo;
+      headers["References"] = (references?.length ? references : [inReplyTo]).join(" ");
+    }
 
-    const info = await transporter.sendMail({
+    console.log(`[Email Send] Sending via ${transport.name} from ${fromAddress} to ${to} (tracking: ${trackingId})`);
+
+    const { messageId, providerMessageId } = await transport.send({
       from: fromAddress,
       to,
       subject,
-      text: body,
+      text: textContent,
       html: htmlContent,
       replyTo: replyTo || fromEmail,
+      headers,
+      messageId: generateMessageId(messageDomain),
     });
 
-    const messageId = info.messageId;
     console.log(`[Email Send] Success! messageId: ${messageId}`);
 
-    // Update domain sent count
-    if (domainResult) {
-      await db
-        .update(sendingDomains)
-        .set({
-          sentToday: (domainResult.domain.sentToday || 0) + 1,
-          updatedAt: new Date(),
-        })
-        .where(eq(sendingDomains.id, domainResult.domain.id));
-    }
-
-    // Log the outbound message
-    await db.insert(inboxMessages).values({
-      leadId,
-      sequenceId,
-      direction: "outbound",
-      fromEmail,
-      toEmail: to,
-      subject,
-      body,
-      htmlBody: htmlContent,
-      messageId,
-    });
-
-    // Update sequence with sent timestamp
-    const sentAtField = `email${emailNumber}SentAt` as keyof typeof emailSequences.$inferSelect;
-    await db
-      .update(emailSequences)
-      .set({
-        [sentAtField]: new Date(),
-        currentEmail: emailNumber,
-        updatedAt: new Date(),
-      })
-      .where(eq(emailSequences.id, sequenceId));
-
-    // Update touchpoint with tracking ID if provided
-    if (touchpointId) {
-      await db
-        .update(leadTouchpoints)
-        .set({
-          trackingId,
-          sentAt: new Date(),
-          status: "sent",
-          updatedAt: new Date(),
-        })
-        .where(eq(leadTouchpoints.id, touchpointId));
+    // The email is out: a failure from here on is logged, never reported as a failed send
+    // (the send queue would retry it and mail the lead twice)
+    try {
+      // Mark the touchpoint sent first, with its tracking ID, so it can't go out again
+      if (touchpointId) {
+        await db
+          .update(leadTouchpoints)
+          .set({
+            trackingId,
+            messageId,
+            providerMessageId,
+            sentAt: new Date(),
+            status: "sent",
+            updatedAt: new Date(),
+          })
+          .where(eq(leadTouchpoints.id, touchpointId));
+      }
+
+      // Update domain sent count and last send time, and keep the lead on this mailbox
+      if (domainResult) {
+        await recordSend(domainResult.domain.id);
+        await pinLeadSender(leadId, domainResult.domain.id);
+      }
+
+      // Log the outbound message
+      await db.insert(inboxMessages).values({
+        leadId,
+        direction: "outbound",
+        fromEmail,
+        toEmail: to,
+        subject,
+        body,
+        htmlBody: htmlContent,
+        threadId: threadId || messageId,
+        inReplyTo: inReplyTo || null,
+        messageId,
+      });
+    } catch (error) {
+      console.error(`[Email Send] Sent to ${to} (messageId: ${messageId}) but failed to record it:`, error);
     }
 
-    console.log(`[Email Send] Sent email ${emailNumber} to ${to} from ${fromEmail} (tracking: ${trackingId})`);
+    console.log(`[Email Send] Sent email to ${to} from ${fromEmail} (tracking: ${trackingId})`);
 
     return {
       success: true,
       messageId,
+      providerMessageId,
+      provider: transport.name,
       domain: domainResult?.domain.domain || fromEmail,
       trackingId,
     };
@@ -318,12 +366,13 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error",
+      retryable: isRetryableSendError(error),
     };
   }
 }
 
 /**
- * Send a reply email via SMTP
+ * Send a reply email through the transport of the mailbox that owns the from address
  */
 export async function sendReply(options: {
   from: string;
@@ -341,9 +390,10 @@ export async function sendReply(options: {
     contentType: string;
     content: string;
   };
-}): Promise<{ messageId?: string; error?: string }> {
+}): Promise<SendEmailResult> {
   try {
-    const transporter = getTransporter();
+    const domain = await findDomainByFromAddress(options.from);
+    const { transport, messageDomain } = resolveSender(domain);
 
     const headers: Record<string, string> = {};
     if (options.inReplyTo) {
@@ -351,81 +401,34 @@ export async function sendReply(options: {
       headers["References"] = options.references || options.inReplyTo;
     }
 
-    const mailOptions: Record<string, unknown> = {
+    const { messageId, providerMessageId } = await transport.send({
       from: options.from,
       to: options.to,
       subject: options.subject,
       text: options.text,
       html: options.text.replace(/\n/g, "<br>"),
       headers: Object.keys(headers).length > 0 ? headers : undefined,
-    };
-
-    if (options.icsAttachment) {
-      mailOptions.attachments = [
-        {
-          filename: options.icsAttachment.filename,
-          content: options.icsAttachment.content,
-          contentType: options.icsAttachment.contentType,
-        },
-      ];
-    }
-
-    if (options.icsAlternative) {
-      mailOptions.alternatives = [
-        {
-          contentType: options.icsAlternative.contentType,
-          content: options.icsAlternative.content,
-        },
-      ];
-    }
+      messageId: generateMessageId(messageDomain),
+      attachments: options.icsAttachment ? [options.icsAttachment] : undefined,
+      alternatives: options.icsAlternative ? [options.icsAlternative] : undefined,
+    });
 
-    const info = await transporter.sendMail(mailOptions);
-    console.log(`[Reply Send] Success! messageId: ${info.messageId}`);
-    return { messageId: info.messageId };
+    console.log(`[Reply Send] Success via ${transport.name}! messageId: ${messageId}`);
+    return {
+      success: true,
+      messageId,
+      providerMessageId,
+      provider: transport.name,
+      domain: domain?.domain,
+    };
   } catch (error) {
     console.error("[Reply Send] Error:", error);
-    return { error: error instanceof Error ? error.message : "Unknown error" };
-  }
-}
-
-export async function scheduleNextEmail(sequenceId: string): Promise<Date | null> {
-  const [sequence] = await db
-    .select()
-    .from(emailSequences)
-    .where(eq(emailSequences.id, sequenceId));
-
-  if (!sequence) {
-    return null;
-  }
-
-  const currentEmail = sequence.currentEmail || 1;
-  const nextEmail = currentEmail + 1;
-
-  if (nextEmail > 5) {
-    await db
-      .update(emailSequences)
-      .set({
-        status: "completed",
-        updatedAt: new Date(),
-      })
-      .where(eq(emailSequences.id, sequenceId));
-
-    return null;
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      retryable: isRetryableSendError(error),
+    };
   }
-
-  const daysToWait = EMAIL_CADENCE[nextEmail as keyof typeof EMAIL_CADENCE] || 3;
-  const nextSendDate = new Date();
-  nextSendDate.setDate(nextSendDate.getDate() + daysToWait);
-
-  await db
-    .update(emailSequences)
-    .set({
-      nextSendAt: nextSendDate,
-      updatedAt: new Date(),
-    })
-    .where(eq(emailSequences.id, sequenceId));
-
-  return nextSendDate;
 }
 
 export async function getDomainStats(): Promise<
@@ -467,7 +470,7 @@ export async function getDomainStats(): Promise<
 }
 
 /**
- * Test SMTP connection
+ * Test the sending connection for a domain (SMTP login or Resend API key)
  */
 export async function testSmtpConnection(
   domainId: string
@@ -482,11 +485,11 @@ export async function testSmtpConnection(
       return { success: false, error: "Domain not found" };
     }
 
-    const transporter = getTransporter();
-    await transporter.verify();
+    const { transport } = resolveSender(domain);
+    await transport.verify();
 
-    console.log(`[Email Test] SMTP verified for domain ${domain.domain}`);
-    return { success: true, provider: "smtp" };
+    console.log(`[Email Test] ${transport.name} verified for domain ${domain.domain}`);
+    return { success: true, provider: transport.name };
   } catch (error) {
     console.error("[Email Test] Connection error:", error);
     return {
@@ -262,6 +262,46 @@ export async function recordClickEvent(
   }
 }
 
+/**
+ * Record a delivery event by the provider's message ID (called from webhook handlers).
+ * Returns false if no sent email has that ID.
+ */
+export async function recordDeliveryEvent(
+  providerMessageId: string,
+  deliveredAt: Date = new Date()
+): Promise<boolean> {
+  try {
+    const [touchpoint] = await db
+      .select({ id: leadTouchpoints.id })
+      .from(leadTouchpoints)
+      .where(eq(leadTouchpoints.providerMessageId, providerMessageId))
+      .limit(1);
+
+    if (!touchpoint) return false;
+
+    await db.insert(emailEvents).values({
+      id: crypto.randomUUID(),
+      touchpointId: touchpoint.id,
+      eventType: "delivered",
+      occurredAt: deliveredAt,
+    });
+
+    // Status stays "sent" - reply matching looks for it
+    await db
+      .update(leadTouchpoints)
+      .set({
+        deliveredAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(leadTouchpoints.id, touchpoint.id));
+
+    return true;
+  } catch (error) {
+    console.error("[Tracking] Error recording delivery:", error);
+    return false;
+  }
+}
+
 /**
  * Record a bounce event (called from webhook handlers)
  */
@@ -0,0 +1,348 @@
+/**
+ * Email Transport Service
+ *
+ * Pluggable transports used by the email sender:
+ * - smtp: one pooled nodemailer transporter per sending domain (Gmail, Outlook, custom SMTP)
+ * - resend: Resend API (domain verified in Resend)
+ * - capture: local sink for development - logs and keeps messages in memory, sends nothing
+ *
+ * The transport is picked from the domain's `sendingMethod`.
+ * Set EMAIL_TRANSPORT=capture to route every message to the capture sink.
+ * Resend's webhooks are checked against RESEND_WEBHOOK_SECRET (see verifyResendWebhook).
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import { Resend } from "resend";
+import type { SendingDomain } from "@/lib/db";
+
+export type TransportName = "smtp" | "resend" | "capture";
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  messageId: string;
+  headers?: Record<string, string>;
+  attachments?: {
+    filename: string;
+    content: string;
+    contentType: string;
+  }[];
+  alternatives?: {
+    contentType: string;
+    content: string;
+  }[];
+}
+
+export interface TransportSendResult {
+  messageId: string;
+  providerMessageId?: string;
+}
+
+export interface EmailTransport {
+  name: TransportName;
+  send(email: OutgoingEmail): Promise<TransportSendResult>;
+  verify(): Promise<void>;
+}
+
+export interface ResolvedSender {
+  transport: EmailTransport;
+  fromName: string;
+  fromEmail: string;
+  messageDomain: string;
+}
+
+// ============================================
+// SMTP
+// ============================================
+
+// Fallback SMTP transporter built from env - singleton
+let envTransporter: Transporter | null = null;
+
+function getEnvTransporter(): Transporter {
+  if (!envTransporter) {
+    const host = process.env.SMTP_HOST || "smtp.gmail.com";
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    const user = process.env.SMTP_USER;
+    const pass = process.env.SMTP_PASS;
+
+    if (!user || !pass) {
+      throw new Error("SMTP credentials not configured. Set SMTP_USER and SMTP_PASS in .env.local");
+    }
+
+    envTransporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: { user, pass },
+    });
+  }
+  return envTransporter;
+}
+
+function getEnvSender(): { fromName: string; fromEmail: string } {
+  return {
+    fromName: process.env.SMTP_FROM_NAME || "Kanishk Kapoor",
+    fromEmail: process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER || "",
+  };
+}
+
+// SMTP transport pool - one pooled transporter per sending domain, keyed by domain ID.
+// The fingerprint lets us rebuild a transporter when its credentials are edited.
+const transportPool = new Map<string, { transporter: Transporter; fingerprint: string }>();
+
+function hasSmtpCredentials(domain: SendingDomain): boolean {
+  return !!(domain.smtpHost && domain.smtpPassword);
+}
+
+function getDomainTransporter(domain: SendingDomain): Transporter {
+  const host = domain.smtpHost || "smtp.gmail.com";
+  const port = domain.smtpPort || 587;
+  const user = domain.smtpUser || domain.fromEmail;
+  const pass = domain.smtpPassword || "";
+  const secure = domain.smtpSecure || port === 465;
+  const fingerprint = [host, port, user, pass, secure].join("|");
+
+  const cached = transportPool.get(domain.id);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached.transporter;
+  }
+
+  // Credentials changed since the transporter was built - drop the stale one
+  cached?.transporter.close();
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: { user, pass },
+    pool: true,
+    maxConnections: 1,
+  });
+  transportPool.set(domain.id, { transporter, fingerprint });
+
+  return transporter;
+}
+
+function createSmtpTransport(transporter: Transporter): EmailTransport {
+  return {
+    name: "smtp",
+    async send(email) {
+      const info = await transporter.sendMail({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+        replyTo: email.replyTo,
+        messageId: email.messageId,
+        headers: email.headers,
+        attachments: email.attachments,
+        alternatives: email.alternatives,
+      });
+
+      return { messageId: info.messageId || email.messageId };
+    },
+    async verify() {
+      await transporter.verify();
+    },
+  };
+}
+
+// ============================================
+// RESEND
+// ============================================
+
+let resendClient: Resend | null = null;
+
+function getResendClient(): Resend {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey || !apiKey.startsWith("re_")) {
+    throw new Error("RESEND_API_KEY is not configured. Add it to your .env.local file");
+  }
+
+  if (!resendClient) {
+    resendClient = new Resend(apiKey);
+  }
+  return resendClient;
+}
+
+const resendTransport: EmailTransport = {
+  name: "resend",
+  async send(email) {
+    const resend = getResendClient();
+
+    // Resend has no multipart alternatives - calendar parts go out as attachments
+    const attachments = [
+      ...(email.attachments || []),
+      ...(email.alternatives || []).map((alt, i) => ({
+        filename: `invite-${i + 1}.ics`,
+        content: alt.content,
+        contentType: alt.contentType,
+      })),
+    ];
+
+    const { data, error } = await resend.emails.send({
+      from: email.from,
+      to: [email.to],
+      subject: email.subject,
+      text: email.text,
+      html: email.html || email.text.replace(/\n/g, "<br>"),
+      replyTo: email.replyTo,
+      headers: { ...email.headers, "Message-ID": email.messageId },
+      attachments: attachments.length > 0 ? attachments : undefined,
+    });
+
+    if (error) {
+      throw Object.assign(new Error(error.message), { code: error.name });
+    }
+
+    return { messageId: email.messageId, providerMessageId: data?.id };
+  },
+  async verify() {
+    const { error } = await getResendClient().domains.list();
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+};
+
+// Resend signs webhooks with Svix; older timestamps are rejected as replays
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Check the svix-id, svix-timestamp and svix-signature headers of a Resend webhook request.
+ * `payload` is the raw request body, exactly as received.
+ */
+export function verifyResendWebhook(
+  payload: string,
+  headers: { id: string | null; timestamp: string | null; signature: string | null }
+): boolean {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!secret || !headers.id || !headers.timestamp || !headers.signature) return false;
+
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() - timestamp * 1000) > WEBHOOK_TOLERANCE_MS) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  const expected = Buffer.from(
+    createHmac("sha256", key).update(`${headers.id}.${headers.timestamp}.${payload}`).digest("base64")
+  );
+
+  // One or more space-separated "v1,<signature>" entries (several while a secret is rotated)
+  return headers.signature.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    if (version !== "v1" || !signature) return false;
+
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+}
+
+// ============================================
+// CAPTURE (dev sink)
+// ============================================
+
+const MAX_CAPTURED = 100;
+const capturedEmails: (OutgoingEmail & { capturedAt: Date })[] = [];
+
+const captureTransport: EmailTransport = {
+  name: "capture",
+  async send(email) {
+    capturedEmails.push({ ...email, capturedAt: new Date() });
+    if (capturedEmails.length > MAX_CAPTURED) {
+      capturedEmails.shift();
+    }
+
+    console.log(`[Capture Transport] Captured "${email.subject}" from ${email.from} to ${email.to}`);
+    return { messageId: email.messageId, providerMessageId: `capture-${crypto.randomUUID()}` };
+  },
+  async verify() {},
+};
+
+/**
+ * Messages caught by the capture transport (most recent last)
+ */
+export function getCapturedEmails(): (OutgoingEmail & { capturedAt: Date })[] {
+  return [...capturedEmails];
+}
+
+export function clearCapturedEmails(): void {
+  capturedEmails.length = 0;
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Resolve the transport and sender identity for a domain.
+ * Without a usable domain we fall back to the env SMTP mailbox.
+ */
+export function resolveSender(domain: SendingDomain | null): ResolvedSender {
+  const capture = process.env.EMAIL_TRANSPORT === "capture";
+
+  if (domain && (capture || domain.sendingMethod === "resend" || hasSmtpCredentials(domain))) {
+    let transport: EmailTransport;
+    if (capture) {
+      transport = captureTransport;
+    } else if (domain.sendingMethod === "resend") {
+      transport = resendTransport;
+    } else {
+      transport = createSmtpTransport(getDomainTransporter(domain));
+    }
+
+    return {
+      transport,
+      fromName: domain.fromName,
+      fromEmail: domain.fromEmail,
+      messageDomain: domain.fromEmail.split("@")[1] || domain.domain,
+    };
+  }
+
+  const sender = getEnvSender();
+  return {
+    transport: capture ? captureTransport : createSmtpTransport(getEnvTransporter()),
+    fromName: sender.fromName,
+    fromEmail: sender.fromEmail,
+    messageDomain: sender.fromEmail.split("@")[1] || "localhost",
+  };
+}
+
+/**
+ * Build a Message-ID on the sender's domain so it aligns with From
+ */
+export function generateMessageId(messageDomain: string): string {
+  return `<${crypto.randomUUID()}@${messageDomain}>`;
+}
+
+/**
+ * Whether a send error is worth retrying later (rate limits, 4xx SMTP, network)
+ */
+export function isRetryableSendError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const { code, responseCode } = error as Error & { code?: string; responseCode?: number };
+
+  if (responseCode) {
+    return responseCode >= 400 && responseCode < 500;
+  }
+
+  const retryableCodes = [
+    "ECONNECTION",
+    "ETIMEDOUT",
+    "ESOCKET",
+    "ECONNRESET",
+    "rate_limit_exceeded",
+    "application_error",
+    "internal_server_error",
+  ];
+  return !!code && retryableCodes.includes(code);
+}
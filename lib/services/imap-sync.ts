@@ -3,6 +3,7 @@
  *
  * Fetches incoming emails from Gmail/Outlook via IMAP
  * Used for domains sending via SMTP (not Resend)
+ * Bounce reports are recorded as bounces, never as replies (see bounces.ts)
  */
 
 import Imap from "imap-simple";
@@ -10,6 +11,8 @@ import { simpleParser } from "mailparser";
 import { db, sendingDomains, inboxMessages, leads } from "@/lib/db";
 import { eq, and, desc } from "drizzle-orm";
 import { processReply } from "./reply-processor";
+import { toHeaderRecord } from "./out-of-office";
+import { isDeliveryStatusReport, handleDeliveryReport } from "./bounces";
 
 // IMAP presets for common providers
 export const IMAP_PRESETS: Record<string, { host: string; port: number }> = {
@@ -21,6 +24,7 @@ export const IMAP_PRESETS: Record<string, { host: string; port: number }> = {
 interface SyncResult {
   success: boolean;
   newMessages: number;
+  bounces: number; // Bounce reports handled (these don't become inbox messages)
   errors: string[];
 }
 
@@ -28,7 +32,7 @@ interface SyncResult {
  * Sync emails for a single domain
  */
 export async function syncDomainInbox(domainId: string): Promise<SyncResult> {
-  const result: SyncResult = { success: false, newMessages: 0, errors: [] };
+  const result: SyncResult = { success: false, newMessages: 0, bounces: 0, errors: [] };
 
   try {
     // Get domain config
@@ -109,6 +113,15 @@ export async function syncDomainInbox(domainId: string): Promise<SyncResult> {
         // Parse the email
         const parsed = await simpleParser(allParts.body);
 
+        // Bounces come back to the sending mailbox - record them, don't treat them as replies
+        if (isDeliveryStatusReport(parsed.headers.get("content-type"))) {
+          const bounces = await handleDeliveryReport(parsed, domain.id);
+          result.bounces += bounces.length;
+
+          await connection.addFlags(message.attributes.uid, ["\\Seen"]);
+          continue;
+        }
+
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const fromValue = parsed.from?.value as any;
         const fromAddress = Array.isArray(fromValue)
@@ -151,6 +164,7 @@ export async function syncDomainInbox(domainId: string): Promise<SyncResult> {
           messageId: messageId || undefined,
           inReplyTo: parsed.inReplyTo || undefined,
           receivedAt: parsed.date || new Date(),
+          headers: toHeaderRecord(parsed.headers), // Auto-reply detection
         });
 
         if (processResult.success) {
@@ -175,7 +189,7 @@ export async function syncDomainInbox(domainId: string): Promise<SyncResult> {
     connection.end();
 
     result.success = true;
-    console.log(`[IMAP Sync] Completed for ${domain.fromEmail}: ${result.newMessages} new messages`);
+    console.log(`[IMAP Sync] Completed for ${domain.fromEmail}: ${result.newMessages} new messages, ${result.bounces} bounces`);
 
     return result;
   } catch (error) {
@@ -192,9 +206,10 @@ export async function syncAllInboxes(): Promise<{
   total: number;
   synced: number;
   newMessages: number;
+  bounces: number;
   errors: string[];
 }> {
-  const results = { total: 0, synced: 0, newMessages: 0, errors: [] as string[] };
+  const results = { total: 0, synced: 0, newMessages: 0, bounces: 0, errors: [] as string[] };
 
   // Get all SMTP domains
   const domains = await db
@@ -214,6 +229,7 @@ export async function syncAllInboxes(): Promise<{
     if (syncResult.success) {
       results.synced++;
       results.newMessages += syncResult.newMessages;
+      results.bounces += syncResult.bounces;
     }
     results.errors.push(...syncResult.errors);
   }
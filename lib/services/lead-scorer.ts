@@ -60,7 +60,7 @@ export interface LeadData {
   deviceAccess?: string | null;
 
   // Engagement
-  replySentiment?: "positive" | "neutral" | "negative" | null;
+  replySentiment?: "positive" | "neutral" | "negative" | null; // Set from the latest reply's intent (see reply-intent.ts)
   emailOpens?: number | null;
   linkClicks?: number | null;
 
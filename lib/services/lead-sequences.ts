@@ -0,0 +1,394 @@
+/**
+ * Lead Sequences Service
+ *
+ * Email sequences written for a single lead (by AI or by hand), stored as that lead's touchpoints:
+ * - One email touchpoint per step with its own subject, body and angle, and no step template
+ * - Copy goes through review (draft -> pending_review -> approved); the send queue only
+ *   sends approved copy. Steps waiting for review show up in the review queue
+ *   (see lib/services/review-queue.ts), and rejection reasons are kept for the next rewrite.
+ * - Once a step is sent, the rest are scheduled on EMAIL_CADENCE and go out through the
+ *   send queue like any other touchpoint
+ * - A sequence's status is derived from its touchpoints, so the reply, bounce and
+ *   unsubscribe handling that stops touchpoints stops the sequence too
+ */
+
+import { db } from "@/lib/db";
+import { leads, leadTouchpoints, type LeadTouchpoint } from "@/lib/db/schema";
+import { eq, and, asc, gt, gte, inArray, isNull, isNotNull } from "drizzle-orm";
+import type { GeneratedEmailSequence } from "@/lib/ai/generate-emails";
+import { EMAIL_CADENCE } from "./email-sender";
+import { pendingReviewFields } from "./review-queue";
+
+export type ReviewStatus = NonNullable<LeadTouchpoint["reviewStatus"]>;
+
+export type SequenceStatus =
+  | "draft"
+  | "pending_review"
+  | "approved"
+  | "active"
+  | "completed"
+  | "stopped";
+
+export interface SequenceStepInput {
+  subject: string | null;
+  body: string | null;
+  angle?: string | null;
+}
+
+export interface LeadSequenceStep {
+  touchpointId: string;
+  stepNumber: number;
+  subject: string | null;
+  body: string | null;
+  angle: string | null;
+  status: LeadTouchpoint["status"];
+  reviewStatus: ReviewStatus;
+  scheduledAt: Date | null;
+  sentAt: Date | null;
+}
+
+export interface LeadSequence {
+  id: string; // The lead's ID - a lead has one written sequence at a time
+  leadId: string;
+  status: SequenceStatus;
+  currentStep: number; // Last step sent (0 before the first)
+  nextSendAt: Date | null;
+  confidenceScore: number | null;
+  confidenceReason: string | null;
+  createdAt: Date | null;
+  steps: LeadSequenceStep[];
+}
+
+/**
+ * Touchpoints that hold a lead's own written copy (campaign steps carry their template's copy)
+ */
+function sequenceStepFilter() {
+  return and(
+    isNull(leadTouchpoints.touchpointTemplateId),
+    isNotNull(leadTouchpoints.reviewStatus)
+  );
+}
+
+/**
+ * Steps of an AI-generated five-email sequence. Emails 2-4 are written around the
+ * primary, secondary and tertiary angles.
+ */
+export function stepsFromGeneratedEmails(
+  emails: Omit<GeneratedEmailSequence, "anglesUsed">,
+  angles: { primaryAngle?: string | null; secondaryAngle?: string | null; tertiaryAngle?: string | null }
+): SequenceStepInput[] {
+  return [
+    { subject: emails.email1Subject, body: emails.email1Body },
+    { subject: emails.email2Subject, body: emails.email2Body, angle: angles.primaryAngle },
+    { subject: emails.email3Subject, body: emails.email3Body, angle: angles.secondaryAngle },
+    { subject: emails.email4Subject, body: emails.email4Body, angle: angles.tertiaryAngle },
+    { subject: emails.email5Subject, body: emails.email5Body },
+  ];
+}
+
+/**
+ * Replace a lead's written sequence with new steps. Steps already sent are kept (with their
+ * events and Message-ID), so only the new copy for the steps after them is saved.
+ */
+export async function saveLeadSequence(
+  leadId: string,
+  steps: SequenceStepInput[],
+  options: {
+    reviewStatus?: ReviewStatus;
+    confidenceScore?: number | null;
+    confidenceReason?: string | null;
+  } = {}
+): Promise<LeadSequence | null> {
+  await deleteLeadSequences([leadId]);
+
+  const sent = await db
+    .select({ stepNumber: leadTouchpoints.stepNumber })
+    .from(leadTouchpoints)
+    .where(and(sequenceStepFilter(), eq(leadTouchpoints.leadId, leadId)));
+  const sentSteps = new Set(sent.map((s) => s.stepNumber));
+
+  const rows = steps
+    .map((step, index) => ({ ...step, stepNumber: index + 1 }))
+    .filter((step) => (step.subject || step.body) && !sentSteps.has(step.stepNumber));
+
+  if (rows.length > 0) {
+    await db.insert(leadTouchpoints).values(
+      rows.map((step) => ({
+        leadId,
+        stepNumber: step.stepNumber,
+        channel: "email" as const,
+        subject: step.subject,
+        body: step.body,
+        angle: step.angle || null,
+        ...(options.reviewStatus && options.reviewStatus !== "pending_review"
+          ? { reviewStatus: options.reviewStatus }
+          : pendingReviewFields()),
+        confidenceScore: options.confidenceScore ?? null,
+        confidenceReason: options.confidenceReason ?? null,
+        status: "pending" as const,
+      }))
+    );
+  }
+
+  return getLeadSequence(leadId);
+}
+
+/**
+ * Delete the unsent steps of these leads' written sequences. Sent steps stay, as the record
+ * of what went out (their events and Message-IDs hang off them).
+ */
+export async function deleteLeadSequences(leadIds: string[]): Promise<number> {
+  if (leadIds.length === 0) return 0;
+
+  const deleted = await db
+    .delete(leadTouchpoints)
+    .where(
+      and(
+        sequenceStepFilter(),
+        inArray(leadTouchpoints.leadId, leadIds),
+        isNull(leadTouchpoints.sentAt)
+      )
+    )
+    .returning({ leadId: leadTouchpoints.leadId });
+
+  return new Set(deleted.map((d) => d.leadId)).size;
+}
+
+function getSequenceStatus(steps: LeadSequenceStep[]): SequenceStatus {
+  if (steps.some((s) => s.status === "replied" || s.status === "cancelled")) return "stopped";
+
+  const pending = steps.filter((s) => s.status === "pending");
+  if (pending.length === 0) return "completed";
+  if (steps.some((s) => s.sentAt)) return "active";
+
+  // Nothing sent yet - a step scheduled ahead of review (e.g. a referral opener) still waits on it
+  if (steps.some((s) => s.reviewStatus === "draft")) return "draft";
+  if (steps.some((s) => s.reviewStatus === "pending_review")) return "pending_review";
+  return pending.some((s) => s.scheduledAt) ? "active" : "approved";
+}
+
+function toLeadSequence(leadId: string, rows: LeadTouchpoint[]): LeadSequence {
+  const steps: LeadSequenceStep[] = rows.map((row) => ({
+    touchpointId: row.id,
+    stepNumber: row.stepNumber,
+    subject: row.subject,
+    body: row.body,
+    angle: row.angle,
+    status: row.status,
+    reviewStatus: row.reviewStatus!,
+    scheduledAt: row.scheduledAt,
+    sentAt: row.sentAt,
+  }));
+
+  const sent = steps.filter((s) => s.sentAt);
+  const next = steps.find((s) => s.status === "pending" && s.scheduledAt);
+
+  return {
+    id: leadId,
+    leadId,
+    status: getSequenceStatus(steps),
+    currentStep: sent.length > 0 ? sent[sent.length - 1].stepNumber : 0,
+    nextSendAt: next?.scheduledAt || null,
+    confidenceScore: rows[0].confidenceScore,
+    confidenceReason: rows[0].confidenceReason,
+    createdAt: rows[0].createdAt,
+    steps,
+  };
+}
+
+/**
+ * Written sequences, one per lead (all leads when no IDs are given)
+ */
+export async function getLeadSequences(leadIds?: string[]): Promise<LeadSequence[]> {
+  if (leadIds && leadIds.length === 0) return [];
+
+  const rows = await db
+    .select()
+    .from(leadTouchpoints)
+    .where(
+      and(
+        sequenceStepFilter(),
+        leadIds ? inArray(leadTouchpoints.leadId, leadIds) : undefined
+      )
+    )
+    .orderBy(asc(leadTouchpoints.leadId), asc(leadTouchpoints.stepNumber));
+
+  const byLead = new Map<string, LeadTouchpoint[]>();
+  for (const row of rows) {
+    const leadRows = byLead.get(row.leadId) || [];
+    leadRows.push(row);
+    byLead.set(row.leadId, leadRows);
+  }
+
+  return [...byLead.entries()].map(([leadId, leadRows]) => toLeadSequence(leadId, leadRows));
+}
+
+export async function getLeadSequence(leadId: string): Promise<LeadSequence | null> {
+  const [sequence] = await getLeadSequences([leadId]);
+  return sequence || null;
+}
+
+/**
+ * Move the unsent steps of matching sequences to a review status, recording who reviewed
+ * them and why. A reason given when sending steps back to review is kept for the next rewrite.
+ * Returns the IDs of the leads whose sequences changed.
+ */
+export async function updateReviewStatus(
+  reviewStatus: ReviewStatus,
+  where: {
+    leadIds?: string[];
+    campaignId?: string;
+    from?: ReviewStatus[]; // Only sequences currently in one of these states
+    minConfidence?: number;
+  },
+  review: { reviewedBy?: string | null; note?: string | null } = {}
+): Promise<string[]> {
+  if (where.leadIds && where.leadIds.length === 0) return [];
+
+  const now = new Date();
+  const reviewed = review.reviewedBy || review.note
+    ? { reviewedBy: review.reviewedBy || null, reviewedAt: now, reviewNote: review.note || null }
+    : {};
+  const updated = await db
+    .update(leadTouchpoints)
+    .set({
+      ...(reviewStatus === "pending_review" ? pendingReviewFields() : { reviewStatus }),
+      ...reviewed,
+      ...(reviewStatus === "pending_review" && review.note ? { rejectionReason: review.note } : {}),
+      updatedAt: now,
+    })
+    .where(
+      and(
+        sequenceStepFilter(),
+        eq(leadTouchpoints.status, "pending"),
+        isNull(leadTouchpoints.sentAt),
+        where.leadIds ? inArray(leadTouchpoints.leadId, where.leadIds) : undefined,
+        where.campaignId
+          ? inArray(
+              leadTouchpoints.leadId,
+              db.select({ id: leads.id }).from(leads).where(eq(leads.campaignId, where.campaignId))
+            )
+          : undefined,
+        where.from ? inArray(leadTouchpoints.reviewStatus, where.from) : undefined,
+        where.minConfidence !== undefined
+          ? gte(leadTouchpoints.confidenceScore, where.minConfidence)
+          : undefined
+      )
+    )
+    .returning({ leadId: leadTouchpoints.leadId });
+
+  return [...new Set(updated.map((u) => u.leadId))];
+}
+
+/**
+ * Edit the copy of a sequence's unsent steps
+ */
+export async function updateSequenceSteps(
+  leadId: string,
+  steps: { stepNumber: number; subject?: string | null; body?: string | null; angle?: string | null }[]
+): Promise<number> {
+  let updated = 0;
+
+  for (const step of steps) {
+    const patch: Partial<typeof leadTouchpoints.$inferInsert> = {};
+    if (step.subject !== undefined) patch.subject = step.subject;
+    if (step.body !== undefined) patch.body = step.body;
+    if (step.angle !== undefined) patch.angle = step.angle;
+    if (Object.keys(patch).length === 0) continue;
+
+    const rows = await db
+      .update(leadTouchpoints)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(
+        and(
+          sequenceStepFilter(),
+          eq(leadTouchpoints.leadId, leadId),
+          eq(leadTouchpoints.stepNumber, step.stepNumber),
+          eq(leadTouchpoints.status, "pending")
+        )
+      )
+      .returning({ id: leadTouchpoints.id });
+    updated += rows.length;
+  }
+
+  return updated;
+}
+
+/**
+ * Schedule the approved steps after `afterStep` on EMAIL_CADENCE, counting from `sentAt`.
+ * Returns when the next step goes out, or null if nothing is left to send.
+ */
+export async function scheduleNextSteps(
+  leadId: string,
+  afterStep: number,
+  sentAt: Date = new Date()
+): Promise<Date | null> {
+  const remaining = await db
+    .select({ id: leadTouchpoints.id, stepNumber: leadTouchpoints.stepNumber })
+    .from(leadTouchpoints)
+    .where(
+      and(
+        sequenceStepFilter(),
+        eq(leadTouchpoints.leadId, leadId),
+        gt(leadTouchpoints.stepNumber, afterStep),
+        eq(leadTouchpoints.status, "pending"),
+        eq(leadTouchpoints.reviewStatus, "approved")
+      )
+    )
+    .orderBy(asc(leadTouchpoints.stepNumber));
+
+  let sendAt = sentAt;
+  let nextSendAt: Date | null = null;
+
+  for (const step of remaining) {
+    const daysToWait = EMAIL_CADENCE[step.stepNumber as keyof typeof EMAIL_CADENCE] ?? 3;
+    sendAt = new Date(sendAt.getTime() + daysToWait * 24 * 60 * 60 * 1000);
+    nextSendAt = nextSendAt || sendAt;
+
+    await db
+      .update(leadTouchpoints)
+      .set({ scheduledAt: sendAt, updatedAt: new Date() })
+      .where(eq(leadTouchpoints.id, step.id));
+  }
+
+  return nextSendAt;
+}
+
+/**
+ * Reasons reviewers gave for rejecting each lead's written sequence, for its next rewrite
+ */
+export async function getRejectionFeedback(leadIds: string[]): Promise<Map<string, string[]>> {
+  const feedback = new Map<string, string[]>();
+  if (leadIds.length === 0) return feedback;
+
+  const rows = await db
+    .selectDistinct({ leadId: leadTouchpoints.leadId, reason: leadTouchpoints.rejectionReason })
+    .from(leadTouchpoints)
+    .where(
+      and(
+        sequenceStepFilter(),
+        inArray(leadTouchpoints.leadId, leadIds),
+        isNotNull(leadTouchpoints.rejectionReason)
+      )
+    );
+
+  for (const row of rows) {
+    feedback.set(row.leadId, [...(feedback.get(row.leadId) || []), row.reason!]);
+  }
+
+  return feedback;
+}
+
+/**
+ * Lead IDs (of those given) that already have a written sequence
+ */
+export async function getLeadIdsWithSequences(leadIds: string[]): Promise<Set<string>> {
+  if (leadIds.length === 0) return new Set();
+
+  const rows = await db
+    .selectDistinct({ leadId: leadTouchpoints.leadId })
+    .from(leadTouchpoints)
+    .where(and(sequenceStepFilter(), inArray(leadTouchpoints.leadId, leadIds)));
+
+  return new Set(rows.map((r) => r.leadId));
+}
@@ -0,0 +1,429 @@
+/**
+ * Manual Tasks Service
+ *
+ * Non-email steps (LinkedIn, calls, WhatsApp, SMS) are created at launch like any other
+ * touchpoint, but an SDR carries them out. A pending one becomes a task once it's due.
+ * - Branching conditions are checked when the task comes due: unmet ones are left out of the
+ *   due list and count, and skipped (advancing the lead) by the send queue's tick
+ * - Copy and talking points come from the step template, rendered for the lead, and can
+ *   be rewritten per lead with AI
+ * - Completing a task (done or skipped) advances the lead: the remaining steps are
+ *   rescheduled from now, keeping their delays
+ * - Later steps wait while a task is open (see noEarlierStepPending)
+ * - Tasks of paused campaigns and leads aren't due until they're resumed
+ * - SMS and WhatsApp steps are sent by the send queue instead once a messaging provider
+ *   is configured for them (see lib/services/messaging-provider.ts)
+ */
+
+import { db } from "@/lib/db";
+import {
+  leads,
+  campaigns,
+  touchpointTemplates,
+  leadTouchpoints,
+} from "@/lib/db/schema";
+import { eq, and, ne, gt, lt, lte, asc, desc, isNull, isNotNull, inArray, count, sql } from "drizzle-orm";
+import { evaluateStepCondition, noEarlierStepPending } from "@/lib/services/sequence-branching";
+import { resolveSendWindow, scheduleStepInSendWindow } from "@/lib/services/send-window";
+import { getTemplateContext } from "@/lib/services/template-context";
+import { getAutoSendChannels } from "@/lib/services/messaging-provider";
+import { generateTaskCopy } from "@/lib/ai/generate-task-copy";
+import { renderTemplate, getVariationSeed } from "@/lib/utils/template";
+import { describeCondition } from "@/lib/utils/step-conditions";
+
+export const MANUAL_TASK_CHANNELS = [
+  "linkedin_connection",
+  "linkedin_message",
+  "phone_call",
+  "whatsapp",
+  "sms",
+] as const;
+export type ManualTaskChannel = (typeof MANUAL_TASK_CHANNELS)[number];
+
+export const TASK_VIEWS = ["due", "upcoming", "completed"] as const;
+export type TaskView = (typeof TASK_VIEWS)[number];
+
+export interface ManualTask {
+  id: string; // Lead touchpoint ID
+  leadId: string;
+  leadName: string;
+  leadEmail: string;
+  phone: string | null;
+  linkedinUrl: string | null;
+  jobTitle: string;
+  schoolName: string;
+  campaignId: string;
+  campaignName: string;
+  stepNumber: number;
+  channel: ManualTaskChannel;
+  dueAt: Date | null;
+  status: string | null;
+  condition: string | null; // Summary of the step's branching condition, if any
+  message: string;
+  talkingPoints: string[];
+  aiGenerated: boolean; // Copy was personalised for this lead
+  missing: string[]; // Template variables without a value
+  completedAt: Date | null;
+  notes: string | null;
+}
+
+export interface ListTasksOptions {
+  view?: TaskView;
+  campaignId?: string;
+  channel?: ManualTaskChannel;
+  limit?: number;
+}
+
+const taskColumns = {
+  id: leadTouchpoints.id,
+  stepNumber: leadTouchpoints.stepNumber,
+  channel: leadTouchpoints.channel,
+  status: leadTouchpoints.status,
+  scheduledAt: leadTouchpoints.scheduledAt,
+  completedAt: leadTouchpoints.completedAt,
+  taskNotes: leadTouchpoints.taskNotes,
+  personalizedBody: leadTouchpoints.body,
+  personalizedTalkingPoints: leadTouchpoints.talkingPoints,
+  templateBody: touchpointTemplates.body,
+  templateTalkingPoints: touchpointTemplates.talkingPoints,
+  templateCondition: touchpointTemplates.condition,
+  personalizationNotes: touchpointTemplates.personalizationNotes,
+  campaignId: campaigns.id,
+  campaignName: campaigns.name,
+  lead: leads,
+};
+
+type TaskRow = Awaited<ReturnType<typeof selectTasks>>[number];
+
+function selectTasks() {
+  return db
+    .select(taskColumns)
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+    .leftJoin(touchpointTemplates, eq(leadTouchpoints.touchpointTemplateId, touchpointTemplates.id));
+}
+
+async function getTaskRow(touchpointId: string): Promise<TaskRow | null> {
+  const [row] = await selectTasks().where(eq(leadTouchpoints.id, touchpointId)).limit(1);
+  if (!row || !MANUAL_TASK_CHANNELS.includes(row.channel as ManualTaskChannel)) return null;
+  return row;
+}
+
+/**
+ * One task by lead touchpoint ID (null if it doesn't exist or isn't a manual step)
+ */
+export async function getTask(touchpointId: string): Promise<ManualTask | null> {
+  const row = await getTaskRow(touchpointId);
+  return row ? toTask(row) : null;
+}
+
+/**
+ * Task with the step's copy rendered for the lead (or the lead's personalised copy)
+ */
+async function toTask(row: TaskRow): Promise<ManualTask> {
+  const context = await getTemplateContext(row.lead);
+  const seed = getVariationSeed(row.lead.id, row.stepNumber, "body");
+
+  const rendered = row.personalizedBody
+    ? { output: row.personalizedBody, missing: [] as string[] }
+    : renderTemplate(row.templateBody, context, { seed });
+  const talkingPoints = row.personalizedTalkingPoints?.length
+    ? row.personalizedTalkingPoints.map((point) => ({ output: point, missing: [] as string[] }))
+    : (row.templateTalkingPoints || []).map((point, i) =>
+        renderTemplate(point, context, { seed: `${seed}:${i}` })
+      );
+
+  return {
+    id: row.id,
+    leadId: row.lead.id,
+    leadName: `${row.lead.firstName} ${row.lead.lastName}`.trim(),
+    leadEmail: row.lead.email,
+    phone: row.lead.phone,
+    linkedinUrl: row.lead.linkedinUrl,
+    jobTitle: row.lead.jobTitle,
+    schoolName: row.lead.schoolName,
+    campaignId: row.campaignId,
+    campaignName: row.campaignName,
+    stepNumber: row.stepNumber,
+    channel: row.channel as ManualTaskChannel,
+    dueAt: row.scheduledAt,
+    status: row.status,
+    condition: row.templateCondition?.rules.length ? describeCondition(row.templateCondition) : null,
+    message: rendered.output,
+    talkingPoints: talkingPoints.map((t) => t.output).filter(Boolean),
+    aiGenerated: !!row.personalizedBody || !!row.personalizedTalkingPoints?.length,
+    missing: [...new Set([...rendered.missing, ...talkingPoints.flatMap((t) => t.missing)])],
+    completedAt: row.completedAt,
+    notes: row.taskNotes,
+  };
+}
+
+/**
+ * Reschedule a lead's remaining pending steps after the given step, starting from now.
+ * Each keeps its delay, so a task done late doesn't leave the next steps overdue.
+ */
+export async function advanceLead(leadId: string, afterStepNumber: number): Promise<number> {
+  const remaining = await db
+    .select({
+      id: leadTouchpoints.id,
+      delayDays: touchpointTemplates.delayDays,
+      preferredTimeOfDay: touchpointTemplates.preferredTimeOfDay,
+      leadTimezone: leads.timezone,
+      schedulingSettings: campaigns.schedulingSettings,
+    })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+    .leftJoin(touchpointTemplates, eq(leadTouchpoints.touchpointTemplateId, touchpointTemplates.id))
+    .where(
+      and(
+        eq(leadTouchpoints.leadId, leadId),
+        eq(leadTouchpoints.status, "pending"),
+        gt(leadTouchpoints.stepNumber, afterStepNumber)
+      )
+    )
+    .orderBy(asc(leadTouchpoints.stepNumber));
+
+  let previousDate = new Date();
+  for (const step of remaining) {
+    const scheduledAt = scheduleStepInSendWindow(
+      previousDate,
+      step.delayDays || 0,
+      resolveSendWindow(step.schedulingSettings, {
+        leadTimezone: step.leadTimezone,
+        preferredTimeOfDay: step.preferredTimeOfDay,
+      })
+    );
+    previousDate = scheduledAt;
+
+    await db
+      .update(leadTouchpoints)
+      .set({ scheduledAt, updatedAt: new Date() })
+      .where(eq(leadTouchpoints.id, step.id));
+  }
+
+  return remaining.length;
+}
+
+/**
+ * Whether a due task's branching condition lets it go ahead
+ */
+async function conditionAllows(row: TaskRow): Promise<boolean> {
+  if (!row.templateCondition?.rules.length || row.templateCondition.otherwise === "send") return true;
+
+  const condition = await evaluateStepCondition(row.lead.id, row.templateCondition);
+  return condition.met;
+}
+
+/**
+ * Filter for the steps of the templates with a branching condition. Use in queries joining
+ * touchpointTemplates.
+ */
+function hasCondition() {
+  return sql`jsonb_array_length(coalesce(${touchpointTemplates.condition} -> 'rules', '[]'::jsonb)) > 0`;
+}
+
+/**
+ * Filter for due tasks: pending, scheduled for now or earlier, in an active campaign and not
+ * waiting on an earlier step
+ */
+function isDueTask(campaignId?: string) {
+  return and(
+    eq(leadTouchpoints.status, "pending"),
+    isNull(leadTouchpoints.pausedAt),
+    eq(campaigns.status, "active"),
+    lte(leadTouchpoints.scheduledAt, new Date()),
+    campaignId ? eq(campaigns.id, campaignId) : undefined,
+    noEarlierStepPending()
+  );
+}
+
+/**
+ * Skip due tasks whose branching condition isn't met and move their leads on. Run by the
+ * send queue's tick. Returns the number of tasks skipped.
+ */
+export async function skipUnmetTasks(campaignId?: string): Promise<number> {
+  const rows = await selectTasks().where(
+    and(inArray(leadTouchpoints.channel, getOpenTaskChannels()), isDueTask(campaignId), hasCondition())
+  );
+
+  let skipped = 0;
+  for (const row of rows) {
+    if (!row.templateCondition || row.templateCondition.otherwise === "send") continue;
+
+    const condition = await evaluateStepCondition(row.lead.id, row.templateCondition);
+    if (condition.met) continue;
+
+    const [updated] = await db
+      .update(leadTouchpoints)
+      .set({
+        status: "skipped",
+        errorMessage: `Condition not met: ${condition.reason}`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(leadTouchpoints.id, row.id), eq(leadTouchpoints.status, "pending")))
+      .returning({ id: leadTouchpoints.id });
+    if (!updated) continue;
+
+    await advanceLead(row.lead.id, row.stepNumber);
+    skipped++;
+  }
+
+  return skipped;
+}
+
+/**
+ * Channels an SDR still works by hand
+ */
+function getOpenTaskChannels(): ManualTaskChannel[] {
+  const autoSend: string[] = getAutoSendChannels();
+  return MANUAL_TASK_CHANNELS.filter((channel) => !autoSend.includes(channel));
+}
+
+/**
+ * List tasks. "due" tasks are pending, scheduled for now or earlier, in an active campaign,
+ * not waiting on an earlier step and with their branching condition met; "upcoming" are the
+ * pending ones scheduled later.
+ */
+export async function listTasks(options: ListTasksOptions = {}): Promise<ManualTask[]> {
+  const { view = "due", campaignId, channel, limit = 100 } = options;
+  const now = new Date();
+
+  // Completed tasks stay listed even if their channel has since become automatic
+  const channels = view === "completed" ? [...MANUAL_TASK_CHANNELS] : getOpenTaskChannels();
+  const filters = and(
+    inArray(leadTouchpoints.channel, channel ? channels.filter((c) => c === channel) : channels),
+    campaignId ? eq(campaigns.id, campaignId) : undefined
+  );
+
+  let rows: TaskRow[];
+  if (view === "completed") {
+    rows = await selectTasks()
+      .where(and(filters, isNotNull(leadTouchpoints.completedAt)))
+      .orderBy(desc(leadTouchpoints.completedAt))
+      .limit(limit);
+  } else if (view === "upcoming") {
+    rows = await selectTasks()
+      .where(
+        and(
+          filters,
+          eq(leadTouchpoints.status, "pending"),
+          ne(campaigns.status, "completed"),
+          gt(leadTouchpoints.scheduledAt, now)
+        )
+      )
+      .orderBy(asc(leadTouchpoints.scheduledAt))
+      .limit(limit);
+  } else {
+    const due = await selectTasks()
+      .where(and(filters, isDueTask()))
+      .orderBy(asc(leadTouchpoints.scheduledAt))
+      .limit(limit);
+
+    const allowed = await Promise.all(due.map(conditionAllows));
+    rows = due.filter((_, i) => allowed[i]);
+  }
+
+  return Promise.all(rows.map(toTask));
+}
+
+/**
+ * Number of open tasks (for badges)
+ */
+export async function countDueTasks(campaignId?: string): Promise<number> {
+  const due = and(inArray(leadTouchpoints.channel, getOpenTaskChannels()), isDueTask(campaignId));
+
+  const [unconditional] = await db
+    .select({ count: count() })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+    .leftJoin(touchpointTemplates, eq(leadTouchpoints.touchpointTemplateId, touchpointTemplates.id))
+    .where(and(due, sql`not (${hasCondition()})`));
+
+  // Steps with a condition only count if it's met
+  const conditional = await selectTasks().where(and(due, hasCondition()));
+  const allowed = await Promise.all(conditional.map(conditionAllows));
+
+  return unconditional.count + allowed.filter(Boolean).length;
+}
+
+/**
+ * Personalise a task's copy and talking points for its lead with AI
+ */
+export async function generateTaskContent(touchpointId: string): Promise<ManualTask | null> {
+  const row = await getTaskRow(touchpointId);
+  if (!row) return null;
+
+  const draft = await toTask({ ...row, personalizedBody: null, personalizedTalkingPoints: null });
+
+  const earlier = await db
+    .select({
+      stepNumber: leadTouchpoints.stepNumber,
+      channel: leadTouchpoints.channel,
+      status: leadTouchpoints.status,
+      subject: touchpointTemplates.subject,
+    })
+    .from(leadTouchpoints)
+    .leftJoin(touchpointTemplates, eq(leadTouchpoints.touchpointTemplateId, touchpointTemplates.id))
+    .where(
+      and(
+        eq(leadTouchpoints.leadId, row.lead.id),
+        lt(leadTouchpoints.stepNumber, row.stepNumber)
+      )
+    )
+    .orderBy(asc(leadTouchpoints.stepNumber));
+
+  const copy = await generateTaskCopy({
+    lead: row.lead,
+    channel: draft.channel,
+    stepNumber: row.stepNumber,
+    message: draft.message,
+    talkingPoints: draft.talkingPoints,
+    personalizationNotes: row.personalizationNotes,
+    previousTouches: earlier.map(
+      (e) => `Step ${e.stepNumber} (${e.channel.replace(/_/g, " ")}, ${e.status})${e.subject ? `: ${e.subject}` : ""}`
+    ),
+  });
+
+  await db
+    .update(leadTouchpoints)
+    .set({ body: copy.message, talkingPoints: copy.talkingPoints, updatedAt: new Date() })
+    .where(eq(leadTouchpoints.id, touchpointId));
+
+  return toTask({ ...row, personalizedBody: copy.message, personalizedTalkingPoints: copy.talkingPoints });
+}
+
+/**
+ * Mark a task done (status "sent") or skipped, then move the lead on to its next step.
+ * Returns null if the task doesn't exist or was already completed.
+ */
+export async function completeTask(
+  touchpointId: string,
+  outcome: "done" | "skipped",
+  notes?: string | null
+): Promise<ManualTask | null> {
+  const row = await getTaskRow(touchpointId);
+  if (!row || row.status !== "pending") return null;
+
+  const now = new Date();
+  const [updated] = await db
+    .update(leadTouchpoints)
+    .set({
+      status: outcome === "done" ? "sent" : "skipped",
+      sentAt: outcome === "done" ? now : null,
+      completedAt: now,
+      taskNotes: notes || null,
+      updatedAt: now,
+    })
+    .where(and(eq(leadTouchpoints.id, touchpointId), eq(leadTouchpoints.status, "pending")))
+    .returning({ id: leadTouchpoints.id });
+
+  if (!updated) return null;
+
+  const rescheduled = await advanceLead(row.lead.id, row.stepNumber);
+  console.log(`[Tasks] Step ${row.stepNumber} (${row.channel}) for ${row.lead.email} marked ${outcome}, ${rescheduled} later steps rescheduled`);
+
+  return toTask({ ...row, status: outcome === "done" ? "sent" : "skipped", completedAt: now, taskNotes: notes || null });
+}
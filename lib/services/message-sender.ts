@@ -0,0 +1,234 @@
+/**
+ * Message Sender Service
+ *
+ * SMS and WhatsApp delivery for sequence steps, through the active messaging provider:
+ * - Sends to the lead's phone, normalised to E.164 from leads.phone and the school country
+ * - Honours the lead's suppression status (an email opt-out stops every channel)
+ * - Logs outbound and inbound messages to the shared inbox with their channel
+ * - Inbound replies stop the sequence like email replies (see reply-processor.ts);
+ *   STOP-style keywords unsubscribe the lead instead
+ * - Records delivery receipts as touchpoint events
+ */
+
+import { db, leads, inboxMessages, leadTouchpoints, emailEvents } from "@/lib/db";
+import { eq, and, desc, isNotNull, sql } from "drizzle-orm";
+import {
+  getMessagingProvider,
+  isRetryableMessagingError,
+  type MessagingChannel,
+  type MessagingProviderName,
+} from "./messaging-provider";
+import { getSuppressionStatus, unsubscribe } from "./unsubscribe";
+import { processReply, type ProcessedReply } from "./reply-processor";
+import { normalizePhone } from "@/lib/utils/phone";
+
+export const CHANNEL_LABELS: Record<MessagingChannel, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp message",
+};
+
+// Carrier-standard opt-out keywords
+const OPT_OUT_KEYWORDS = ["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT"];
+
+export interface SendMessageOptions {
+  channel: MessagingChannel;
+  leadId: string;
+  leadEmail: string; // Suppression is tracked per email address
+  phone: string | null; // Raw leads.phone
+  country?: string | null; // Used to place national-format numbers
+  body: string;
+  touchpointId?: string;
+}
+
+export interface SendMessageResult {
+  success: boolean;
+  providerMessageId?: string;
+  provider?: MessagingProviderName;
+  to?: string;
+  error?: string;
+  retryable?: boolean; // Rate limit or provider outage - safe to retry later
+  suppressed?: boolean; // Lead opted out - nothing was sent
+}
+
+export interface IncomingMessage {
+  channel: MessagingChannel;
+  from: string;
+  to: string;
+  body: string;
+  providerMessageId?: string;
+  receivedAt?: Date;
+}
+
+/**
+ * Send an SMS or WhatsApp message to a lead and log it to the inbox
+ */
+export async function sendMessage(options: SendMessageOptions): Promise<SendMessageResult> {
+  const { channel, leadId, leadEmail, body, touchpointId } = options;
+
+  try {
+    const suppression = leadEmail ? await getSuppressionStatus(leadEmail) : null;
+    if (suppression === "unsubscribed" || suppression === "do_not_contact") {
+      console.log(`[Message Send] Skipping ${leadEmail}: on suppression list (${suppression})`);
+      return {
+        success: false,
+        error: `Recipient is on the suppression list (${suppression})`,
+        suppressed: true,
+      };
+    }
+
+    const to = normalizePhone(options.phone, options.country);
+    if (!to) {
+      return {
+        success: false,
+        error: options.phone ? `Invalid phone number: ${options.phone}` : "No phone number",
+      };
+    }
+
+    const provider = getMessagingProvider();
+    console.log(`[Message Send] Sending ${channel} via ${provider.name} to ${to}`);
+
+    const { providerMessageId, from } = await provider.send({ channel, to, body });
+
+    await db.insert(inboxMessages).values({
+      leadId,
+      channel,
+      direction: "outbound",
+      fromEmail: from,
+      toEmail: to,
+      subject: CHANNEL_LABELS[channel],
+      body,
+      threadId: to,
+      messageId: providerMessageId,
+      isRead: true,
+    });
+
+    if (touchpointId) {
+      await db
+        .update(leadTouchpoints)
+        .set({
+          messageId: providerMessageId,
+          sentAt: new Date(),
+          status: "sent",
+          updatedAt: new Date(),
+        })
+        .where(eq(leadTouchpoints.id, touchpointId));
+    }
+
+    return { success: true, providerMessageId, provider: provider.name, to };
+  } catch (error) {
+    console.error("[Message Send] Error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      retryable: isRetryableMessagingError(error),
+    };
+  }
+}
+
+/**
+ * Find the lead a phone number belongs to (most recently active first)
+ */
+async function findLeadByPhone(phone: string) {
+  const normalized = normalizePhone(phone);
+  if (!normalized) return null;
+
+  // Narrow on the trailing digits in SQL, then compare properly normalised numbers
+  const candidates = await db
+    .select()
+    .from(leads)
+    .where(
+      and(
+        isNotNull(leads.phone),
+        sql`regexp_replace(${leads.phone}, '[^0-9]', '', 'g') like ${"%" + normalized.slice(-8)}`
+      )
+    )
+    .orderBy(desc(leads.updatedAt));
+
+  return candidates.find((lead) => normalizePhone(lead.phone, lead.schoolCountry) === normalized) || null;
+}
+
+/**
+ * Process an inbound SMS or WhatsApp message
+ */
+export async function processInboundMessage(message: IncomingMessage): Promise<ProcessedReply> {
+  const from = normalizePhone(message.from) || message.from;
+  const lead = await findLeadByPhone(from);
+
+  if (!lead) {
+    console.log(`[Message Inbound] No lead found for: ${from}`);
+    return { success: false, error: `No lead found for phone: ${from}` };
+  }
+
+  if (OPT_OUT_KEYWORDS.includes(message.body.trim().toUpperCase())) {
+    console.log(`[Message Inbound] Opt-out from lead ${lead.id} via ${message.channel}`);
+    await unsubscribe({ email: lead.email, leadId: lead.id });
+
+    const [inboxMessage] = await db
+      .insert(inboxMessages)
+      .values({
+        leadId: lead.id,
+        channel: message.channel,
+        direction: "inbound",
+        fromEmail: from,
+        toEmail: normalizePhone(message.to) || message.to,
+        subject: CHANNEL_LABELS[message.channel],
+        body: message.body,
+        threadId: from,
+        messageId: message.providerMessageId,
+        isRead: false,
+        receivedAt: message.receivedAt || new Date(),
+      })
+      .returning();
+
+    return { success: true, leadId: lead.id, inboxMessageId: inboxMessage.id };
+  }
+
+  return processReply({
+    leadId: lead.id,
+    channel: message.channel,
+    from,
+    to: normalizePhone(message.to) || message.to,
+    subject: CHANNEL_LABELS[message.channel],
+    body: message.body,
+    messageId: message.providerMessageId,
+    threadId: from,
+    receivedAt: message.receivedAt,
+  });
+}
+
+/**
+ * Record a provider delivery receipt against the touchpoint it belongs to
+ */
+export async function recordDeliveryStatus(
+  providerMessageId: string,
+  status: "delivered" | "failed",
+  errorMessage?: string
+): Promise<boolean> {
+  const [touchpoint] = await db
+    .select({ id: leadTouchpoints.id })
+    .from(leadTouchpoints)
+    .where(eq(leadTouchpoints.messageId, providerMessageId))
+    .limit(1);
+
+  if (!touchpoint) return false;
+
+  await db.insert(emailEvents).values({
+    touchpointId: touchpoint.id,
+    eventType: status === "delivered" ? "delivered" : "bounced",
+    bounceReason: status === "failed" ? errorMessage : undefined,
+    occurredAt: new Date(),
+  });
+
+  if (status === "failed") {
+    await db
+      .update(leadTouchpoints)
+      .set({
+        status: "failed",
+        errorMessage: errorMessage || "Message undelivered",
+        updatedAt: new Date(),
+      })
+      .where(and(eq(leadTouchpoints.id, touchpoint.id), eq(leadTouchpoints.status, "sent")));
+  }
+
+  return true;
+}
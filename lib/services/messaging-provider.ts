@@ -0,0 +1,198 @@
+/**
+ * Messaging Provider Service
+ *
+ * Pluggable providers used to deliver SMS and WhatsApp sequence steps:
+ * - twilio: Twilio Programmable Messaging REST API (SMS numbers, messaging services and
+ *   WhatsApp senders)
+ * - fake: local sink for development and tests - logs and keeps messages in memory, sends nothing
+ *
+ * Set MESSAGING_PROVIDER=fake to route every message to the fake sink. A channel is only
+ * sent automatically when the provider has a sender for it; otherwise its steps stay
+ * manual tasks (see lib/services/manual-tasks.ts).
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type MessagingChannel = "sms" | "whatsapp";
+export type MessagingProviderName = "twilio" | "fake";
+
+export const MESSAGING_CHANNELS: MessagingChannel[] = ["sms", "whatsapp"];
+
+export interface OutgoingMessage {
+  channel: MessagingChannel;
+  to: string; // E.164
+  body: string;
+}
+
+export interface MessageSendResult {
+  providerMessageId: string;
+  from: string; // Number (or messaging service) the message went out from
+}
+
+export interface MessagingProvider {
+  name: MessagingProviderName;
+  isConfigured(channel: MessagingChannel): boolean;
+  send(message: OutgoingMessage): Promise<MessageSendResult>;
+}
+
+// ============================================
+// TWILIO
+// ============================================
+
+const TWILIO_API_URL = "https://api.twilio.com/2010-04-01";
+
+function getTwilioCredentials(): { accountSid: string; authToken: string } {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+
+  if (!accountSid || !authToken) {
+    throw new Error("Twilio credentials not configured. Set TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN in .env.local");
+  }
+  return { accountSid, authToken };
+}
+
+function getTwilioSender(channel: MessagingChannel): string | undefined {
+  return channel === "whatsapp"
+    ? process.env.TWILIO_WHATSAPP_FROM
+    : process.env.TWILIO_MESSAGING_SERVICE_SID || process.env.TWILIO_SMS_FROM;
+}
+
+const twilioProvider: MessagingProvider = {
+  name: "twilio",
+  isConfigured(channel) {
+    return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && getTwilioSender(channel));
+  },
+  async send(message) {
+    const { accountSid, authToken } = getTwilioCredentials();
+    const sender = getTwilioSender(message.channel);
+    if (!sender) {
+      throw new Error(
+        message.channel === "whatsapp"
+          ? "TWILIO_WHATSAPP_FROM is not configured"
+          : "TWILIO_SMS_FROM or TWILIO_MESSAGING_SERVICE_SID is not configured"
+      );
+    }
+
+    const prefix = message.channel === "whatsapp" ? "whatsapp:" : "";
+    const form = new URLSearchParams({ To: `${prefix}${message.to}`, Body: message.body });
+    if (sender.startsWith("MG")) {
+      form.set("MessagingServiceSid", sender);
+    } else {
+      form.set("From", `${prefix}${sender.replace(/^whatsapp:/, "")}`);
+    }
+    if (process.env.TWILIO_STATUS_CALLBACK_URL) {
+      form.set("StatusCallback", process.env.TWILIO_STATUS_CALLBACK_URL);
+    }
+
+    const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: form.toString(),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw Object.assign(new Error(data.message || `Twilio error ${response.status}`), {
+        code: data.code ? String(data.code) : undefined,
+        status: response.status,
+      });
+    }
+
+    return { providerMessageId: data.sid, from: data.from || sender };
+  },
+};
+
+/**
+ * Check the X-Twilio-Signature header of a webhook request.
+ * `url` is the full public URL Twilio called, `params` the POSTed form fields.
+ */
+export function verifyTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string | null
+): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken || !signature) return false;
+
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  const expected = createHmac("sha1", authToken).update(payload).digest("base64");
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// ============================================
+// FAKE (dev and test sink)
+// ============================================
+
+const MAX_FAKE_MESSAGES = 100;
+const fakeMessages: (OutgoingMessage & { providerMessageId: string; sentAt: Date })[] = [];
+
+const fakeProvider: MessagingProvider = {
+  name: "fake",
+  isConfigured() {
+    return true;
+  },
+  async send(message) {
+    const providerMessageId = `fake-${crypto.randomUUID()}`;
+    fakeMessages.push({ ...message, providerMessageId, sentAt: new Date() });
+    if (fakeMessages.length > MAX_FAKE_MESSAGES) {
+      fakeMessages.shift();
+    }
+
+    console.log(`[Fake Messaging] Captured ${message.channel} to ${message.to}`);
+    return { providerMessageId, from: process.env.FAKE_MESSAGING_FROM || "+10000000000" };
+  },
+};
+
+/**
+ * Messages caught by the fake provider (most recent last)
+ */
+export function getFakeMessages(): (OutgoingMessage & { providerMessageId: string; sentAt: Date })[] {
+  return [...fakeMessages];
+}
+
+export function clearFakeMessages(): void {
+  fakeMessages.length = 0;
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * The active messaging provider
+ */
+export function getMessagingProvider(): MessagingProvider {
+  return process.env.MESSAGING_PROVIDER === "fake" ? fakeProvider : twilioProvider;
+}
+
+/**
+ * Channels the active provider can send, so their steps go through the send queue
+ * instead of becoming manual tasks
+ */
+export function getAutoSendChannels(): MessagingChannel[] {
+  const provider = getMessagingProvider();
+  return MESSAGING_CHANNELS.filter((channel) => provider.isConfigured(channel));
+}
+
+/**
+ * Whether a messaging send error is worth retrying later (rate limits, 5xx, network)
+ */
+export function isRetryableMessagingError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const { status, code } = error as Error & { status?: number; code?: string };
+  if (status) {
+    return status === 429 || status >= 500;
+  }
+
+  // Twilio 20429 = too many requests; fetch failures have no status
+  return code === "20429" || error.name === "TypeError";
+}
@@ -0,0 +1,133 @@
+/**
+ * Out-of-Office Detection
+ *
+ * - Spots auto-replies from their headers: Auto-Submitted (RFC 3834), X-Autoreply,
+ *   X-Autorespond and Precedence: auto_reply / bulk / junk
+ * - Reads the return date out of the text ("back on 3 March", "until March 3rd, 2026",
+ *   "returning 2026-03-03"), so the reply processor can pause the lead until then instead of
+ *   stopping its sequence (see reply-intent.ts)
+ *
+ * Auto-replies without these headers are caught by the reply classifier from their content.
+ */
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0,
+  feb: 1, february: 1,
+  mar: 2, march: 2,
+  apr: 3, april: 3,
+  may: 4,
+  jun: 5, june: 5,
+  jul: 6, july: 6,
+  aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9,
+  nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join("|");
+
+// "3 March", "3rd of March 2026"
+const DAY_MONTH = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+of)?\\s+(${MONTH_PATTERN})\\.?(?:,?\\s+(\\d{4}))?\\b`, "gi");
+// "March 3", "March 3rd, 2026"
+const MONTH_DAY = new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, "gi");
+// "2026-03-03"
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+
+// Words that put a date in "when I'm back" terms, looked for just before it
+const RETURN_CONTEXT = /\b(back|return|returning|until|till|resume|resuming|in the office|reachable|available)\b/i;
+const CONTEXT_CHARS = 60;
+
+const MAX_AWAY_DAYS = 180; // Dates further out are more likely something else (an event, a deadline)
+
+/**
+ * Lower-case header names and string values, from a Map (mailparser), a plain object or a
+ * list of { name, value } pairs (webhooks)
+ */
+export function toHeaderRecord(headers: unknown): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!headers) return record;
+
+  const entries: [string, unknown][] =
+    headers instanceof Map
+      ? [...headers.entries()]
+      : Array.isArray(headers)
+        ? headers.map((h: { name?: string; value?: unknown }) => [h?.name || "", h?.value])
+        : typeof headers === "object"
+          ? Object.entries(headers as Record<string, unknown>)
+          : [];
+
+  for (const [name, value] of entries) {
+    if (!name) continue;
+    record[name.toLowerCase()] = typeof value === "string" ? value : JSON.stringify(value);
+  }
+  return record;
+}
+
+/**
+ * Whether the headers mark the message as sent by a machine rather than a person
+ */
+export function isAutoReply(headers: Record<string, string> = {}): boolean {
+  const autoSubmitted = headers["auto-submitted"]?.trim().toLowerCase();
+  if (autoSubmitted && autoSubmitted !== "no") return true;
+
+  if (headers["x-autoreply"] || headers["x-autorespond"]) return true;
+
+  const precedence = headers["precedence"]?.trim().toLowerCase();
+  return precedence === "auto_reply" || precedence === "bulk" || precedence === "junk";
+}
+
+function toDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * The return date an out-of-office reply gives (midnight UTC), or null if it names none.
+ * Dates without a year are taken as the next one after the reply arrived.
+ */
+export function extractReturnDate(text: string, receivedAt: Date = new Date()): Date | null {
+  const candidates: { index: number; date: Date | null; hasYear: boolean }[] = [];
+
+  for (const match of text.matchAll(DAY_MONTH)) {
+    candidates.push({
+      index: match.index,
+      date: toDate(Number(match[3]) || receivedAt.getUTCFullYear(), MONTHS[match[2].toLowerCase()], Number(match[1])),
+      hasYear: !!match[3],
+    });
+  }
+  for (const match of text.matchAll(MONTH_DAY)) {
+    candidates.push({
+      index: match.index,
+      date: toDate(Number(match[3]) || receivedAt.getUTCFullYear(), MONTHS[match[1].toLowerCase()], Number(match[2])),
+      hasYear: !!match[3],
+    });
+  }
+  for (const match of text.matchAll(ISO_DATE)) {
+    candidates.push({
+      index: match.index,
+      date: toDate(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+      hasYear: true,
+    });
+  }
+
+  const today = toDate(receivedAt.getUTCFullYear(), receivedAt.getUTCMonth(), receivedAt.getUTCDate())!;
+  const latest = new Date(today.getTime() + MAX_AWAY_DAYS * 24 * 60 * 60 * 1000);
+
+  // First date in the text that reads as a return date
+  for (const candidate of candidates.sort((a, b) => a.index - b.index)) {
+    let date = candidate.date;
+    if (!date) continue;
+
+    const before = text.slice(Math.max(0, candidate.index - CONTEXT_CHARS), candidate.index);
+    if (!RETURN_CONTEXT.test(before)) continue;
+
+    // "back on 3 January" in a December reply means next year
+    if (!candidate.hasYear && date < today) {
+      date = toDate(date.getUTCFullYear() + 1, date.getUTCMonth(), date.getUTCDate());
+    }
+    if (date && date >= today && date <= latest) return date;
+  }
+
+  return null;
+}
@@ -0,0 +1,280 @@
+/**
+ * Pause/Resume Service
+ *
+ * Pausing a campaign, or a single lead, freezes its pending touchpoints: each gets a pausedAt
+ * and the send queue and task list skip it until it's resumed.
+ * - Resuming shifts each frozen touchpoint's scheduledAt by the time it spent paused, so the
+ *   remaining delays are kept instead of everything coming due at once. The send queue still
+ *   moves anything that lands outside the sending window to the next open slot.
+ * - A lead paused on its own stays frozen when its campaign resumes, and a lead resumed while
+ *   its campaign is paused waits for the campaign
+ * - A lead can be paused until a date (e.g. an out-of-office return date); the send queue
+ *   resumes it then
+ * - Every pause and resume is recorded with who did it and why
+ */
+
+import { db } from "@/lib/db";
+import { campaigns, leads, leadTouchpoints, pauseEvents, users } from "@/lib/db/schema";
+import { eq, and, desc, inArray, isNull, isNotNull, lte, or, sql } from "drizzle-orm";
+
+export interface PauseOptions {
+  userId?: string | null;
+  reason?: string | null;
+  until?: Date | null; // Leads only - resume on their own at this time
+}
+
+export interface PauseHistoryEntry {
+  id: string;
+  campaignId: string | null;
+  leadId: string | null;
+  leadName: string | null; // Null for the whole campaign
+  action: "paused" | "resumed";
+  reason: string | null;
+  userName: string | null;
+  touchpoints: number;
+  createdAt: Date | null;
+}
+
+/**
+ * Freeze the pending, unsent touchpoints of the given leads. Touchpoints already frozen keep
+ * their pausedAt, so a later resume shifts them by the whole pause.
+ */
+async function freezeTouchpoints(leadIds: string[], now: Date): Promise<number> {
+  if (leadIds.length === 0) return 0;
+
+  const frozen = await db
+    .update(leadTouchpoints)
+    .set({ pausedAt: now, updatedAt: now })
+    .where(
+      and(
+        inArray(leadTouchpoints.leadId, leadIds),
+        eq(leadTouchpoints.status, "pending"),
+        isNull(leadTouchpoints.sentAt),
+        isNull(leadTouchpoints.pausedAt)
+      )
+    )
+    .returning({ id: leadTouchpoints.id });
+
+  return frozen.length;
+}
+
+/**
+ * Unfreeze the given leads' touchpoints, pushing each scheduledAt back by the time it was paused
+ */
+async function reflowTouchpoints(leadIds: string[], now: Date): Promise<number> {
+  if (leadIds.length === 0) return 0;
+
+  const reflowed = await db
+    .update(leadTouchpoints)
+    .set({
+      scheduledAt: sql`${leadTouchpoints.scheduledAt} + (${now.toISOString()}::timestamp - ${leadTouchpoints.pausedAt})`,
+      pausedAt: null,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        inArray(leadTouchpoints.leadId, leadIds),
+        eq(leadTouchpoints.status, "pending"),
+        isNotNull(leadTouchpoints.pausedAt)
+      )
+    )
+    .returning({ id: leadTouchpoints.id });
+
+  return reflowed.length;
+}
+
+async function recordPauseEvent(
+  event: { campaignId: string | null; leadId?: string; action: "paused" | "resumed"; touchpoints: number },
+  options: PauseOptions
+): Promise<void> {
+  await db.insert(pauseEvents).values({
+    ...event,
+    reason: options.reason?.trim() || null,
+    userId: options.userId || null,
+  });
+}
+
+/**
+ * Pause an active campaign. Returns how many touchpoints were frozen.
+ */
+export async function pauseCampaign(campaignId: string, options: PauseOptions = {}): Promise<number> {
+  const now = new Date();
+
+  await db
+    .update(campaigns)
+    .set({ status: "paused", updatedAt: now })
+    .where(eq(campaigns.id, campaignId));
+
+  const campaignLeads = await db
+    .select({ id: leads.id })
+    .from(leads)
+    .where(eq(leads.campaignId, campaignId));
+
+  const touchpoints = await freezeTouchpoints(campaignLeads.map((l) => l.id), now);
+  await recordPauseEvent({ campaignId, action: "paused", touchpoints }, options);
+
+  console.log(`[Pause] Campaign ${campaignId} paused, ${touchpoints} touchpoints frozen`);
+  return touchpoints;
+}
+
+/**
+ * Resume a paused campaign. Leads paused on their own stay paused.
+ * Returns how many touchpoints were re-flowed.
+ */
+export async function resumeCampaign(campaignId: string, options: PauseOptions = {}): Promise<number> {
+  const now = new Date();
+
+  await db
+    .update(campaigns)
+    .set({ status: "active", updatedAt: now })
+    .where(eq(campaigns.id, campaignId));
+
+  const campaignLeads = await db
+    .select({ id: leads.id })
+    .from(leads)
+    .where(and(eq(leads.campaignId, campaignId), isNull(leads.pausedAt)));
+
+  const touchpoints = await reflowTouchpoints(campaignLeads.map((l) => l.id), now);
+  await recordPauseEvent({ campaignId, action: "resumed", touchpoints }, options);
+
+  console.log(`[Pause] Campaign ${campaignId} resumed, ${touchpoints} touchpoints re-flowed`);
+  return touchpoints;
+}
+
+/**
+ * Pause one lead's sequence. Returns how many touchpoints were frozen.
+ */
+export async function pauseLead(
+  lead: { id: string; campaignId: string | null },
+  options: PauseOptions = {}
+): Promise<number> {
+  const now = new Date();
+
+  await db
+    .update(leads)
+    .set({ pausedAt: now, pausedUntil: options.until || null, updatedAt: now })
+    .where(eq(leads.id, lead.id));
+
+  const touchpoints = await freezeTouchpoints([lead.id], now);
+  await recordPauseEvent({ campaignId: lead.campaignId, leadId: lead.id, action: "paused", touchpoints }, options);
+
+  console.log(
+    `[Pause] Lead ${lead.id} paused${options.until ? ` until ${options.until.toISOString()}` : ""}, ${touchpoints} touchpoints frozen`
+  );
+  return touchpoints;
+}
+
+/**
+ * Resume one lead's sequence. While its campaign is paused the touchpoints stay frozen until
+ * the campaign resumes. Returns how many touchpoints were re-flowed.
+ */
+export async function resumeLead(
+  lead: { id: string; campaignId: string | null },
+  options: PauseOptions = {}
+): Promise<number> {
+  const now = new Date();
+
+  await db
+    .update(leads)
+    .set({ pausedAt: null, pausedUntil: null, updatedAt: now })
+    .where(eq(leads.id, lead.id));
+
+  const [campaign] = lead.campaignId
+    ? await db
+        .select({ status: campaigns.status })
+        .from(campaigns)
+        .where(eq(campaigns.id, lead.campaignId))
+        .limit(1)
+    : [];
+
+  const touchpoints = campaign?.status === "paused" ? 0 : await reflowTouchpoints([lead.id], now);
+  await recordPauseEvent({ campaignId: lead.campaignId, leadId: lead.id, action: "resumed", touchpoints }, options);
+
+  console.log(`[Pause] Lead ${lead.id} resumed, ${touchpoints} touchpoints re-flowed`);
+  return touchpoints;
+}
+
+/**
+ * Resume leads whose pause has run out (called from the send queue). Returns how many resumed.
+ */
+export async function resumeDueLeads(now = new Date()): Promise<number> {
+  const due = await db
+    .select({ id: leads.id, campaignId: leads.campaignId })
+    .from(leads)
+    .where(and(isNotNull(leads.pausedAt), lte(leads.pausedUntil, now)));
+
+  for (const lead of due) {
+    await resumeLead(lead, { reason: "Pause ended" });
+  }
+
+  return due.length;
+}
+
+/**
+ * Pauses and resumes for a campaign (including its leads') or a single lead, latest first
+ */
+export async function getPauseHistory(
+  filter: { campaignId?: string; leadId?: string },
+  limit = 50
+): Promise<PauseHistoryEntry[]> {
+  if (!filter.campaignId && !filter.leadId) return [];
+
+  const rows = await db
+    .select({
+      id: pauseEvents.id,
+      campaignId: pauseEvents.campaignId,
+      leadId: pauseEvents.leadId,
+      leadFirstName: leads.firstName,
+      leadLastName: leads.lastName,
+      action: pauseEvents.action,
+      reason: pauseEvents.reason,
+      userName: users.name,
+      userEmail: users.email,
+      touchpoints: pauseEvents.touchpoints,
+      createdAt: pauseEvents.createdAt,
+    })
+    .from(pauseEvents)
+    .leftJoin(leads, eq(pauseEvents.leadId, leads.id))
+    .leftJoin(users, eq(pauseEvents.userId, users.id))
+    .where(
+      or(
+        filter.campaignId ? eq(pauseEvents.campaignId, filter.campaignId) : undefined,
+        filter.leadId ? eq(pauseEvents.leadId, filter.leadId) : undefined
+      )
+    )
+    .orderBy(desc(pauseEvents.createdAt))
+    .limit(limit);
+
+  return rows.map(({ userEmail, leadFirstName, leadLastName, ...row }) => ({
+    ...row,
+    leadName: row.leadId ? `${leadFirstName || ""} ${leadLastName || ""}`.trim() : null,
+    userName: row.userName || userEmail,
+    touchpoints: row.touchpoints || 0,
+  }));
+}
+
+/**
+ * Pause or resume through a plain status change (campaign PATCH). Returns false when the change
+ * isn't active -> paused or paused -> active, so the caller sets the status itself.
+ */
+export async function applyPauseTransition(
+  campaignId: string,
+  status: string,
+  options: PauseOptions = {}
+): Promise<boolean> {
+  const [campaign] = await db
+    .select({ status: campaigns.status })
+    .from(campaigns)
+    .where(eq(campaigns.id, campaignId))
+    .limit(1);
+
+  if (campaign?.status === "active" && status === "paused") {
+    await pauseCampaign(campaignId, options);
+    return true;
+  }
+  if (campaign?.status === "paused" && status === "active") {
+    await resumeCampaign(campaignId, options);
+    return true;
+  }
+  return false;
+}
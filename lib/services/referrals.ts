@@ -0,0 +1,136 @@
+/**
+ * Referrals Service
+ *
+ * Turns a referral reply ("please contact my colleague X") into new leads:
+ * - Referred people are read from the reply body and signature (see lib/ai/extract-referrals.ts)
+ * - Each becomes a lead in the referrer's campaign and school, linked to the referrer
+ * - Each gets a one-step written sequence: an opener that says who referred us. It's due right
+ *   away but waits in the review queue; the send queue sends it (in the campaign's sending
+ *   window) once an SDR approves it. Launch leaves these leads out, as they have a sequence.
+ *
+ * Addresses that already belong to a lead or are on the suppression list are skipped.
+ */
+
+import { db } from "@/lib/db";
+import { leads, campaigns, emailHistory, leadTouchpoints, type Lead } from "@/lib/db/schema";
+import { eq, sql } from "drizzle-orm";
+import { extractReferrals, writeReferralOpener } from "@/lib/ai/extract-referrals";
+import { saveLeadSequence } from "./lead-sequences";
+import { getSuppressionStatus } from "./unsubscribe";
+
+export interface ReferralLead {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Create a lead for each person a referral reply names, with a referral opener awaiting review.
+ * Returns the leads created.
+ */
+export async function createReferralLeads(
+  referrer: Lead,
+  reply: { subject: string; body: string },
+  lastEmailToReferrer?: string
+): Promise<ReferralLead[]> {
+  const people = await extractReferrals(reply, referrer);
+  const created: ReferralLead[] = [];
+
+  for (const person of people) {
+    const [existing] = await db
+      .select({ id: leads.id })
+      .from(leads)
+      .where(sql`lower(${leads.email}) = ${person.email}`)
+      .limit(1);
+    if (existing) {
+      console.log(`[Referrals] ${person.email} is already a lead, skipping`);
+      continue;
+    }
+
+    const suppression = await getSuppressionStatus(person.email);
+    if (suppression) {
+      console.log(`[Referrals] ${person.email} is ${suppression.replace(/_/g, " ")}, skipping`);
+      continue;
+    }
+
+    const [lead] = await db
+      .insert(leads)
+      .values({
+        firstName: person.firstName,
+        lastName: person.lastName,
+        email: person.email,
+        emailVerified: false,
+        jobTitle: person.jobTitle || "Unknown",
+        schoolName: referrer.schoolName,
+        schoolWebsite: referrer.schoolWebsite,
+        schoolCountry: referrer.schoolCountry,
+        schoolRegion: referrer.schoolRegion,
+        timezone: referrer.timezone,
+        curriculum: referrer.curriculum,
+        annualFeesUsd: referrer.annualFeesUsd,
+        studentCount: referrer.studentCount,
+        deviceAccess: referrer.deviceAccess,
+        schoolType: referrer.schoolType,
+        status: "new",
+        campaignId: referrer.campaignId,
+        workspaceId: referrer.workspaceId,
+        referredByLeadId: referrer.id,
+      })
+      .returning();
+
+    // Dedup tracking, as for imported leads
+    await db
+      .insert(emailHistory)
+      .values({
+        email: person.email,
+        firstName: person.firstName,
+        lastName: person.lastName,
+        fullName: `${person.firstName} ${person.lastName}`.trim(),
+        jobTitle: lead.jobTitle,
+        schoolName: lead.schoolName,
+        source: "referral",
+        status: "contacted",
+        leadId: lead.id,
+      })
+      .onConflictDoNothing();
+
+    const opener = await writeReferralOpener(referrer, person, lastEmailToReferrer);
+
+    // Pending review by default - nothing goes out until an SDR approves it
+    const sequence = await saveLeadSequence(lead.id, [
+      { subject: opener.subject, body: opener.body, angle: "referral" },
+    ]);
+
+    // Due now, so the send queue picks it up as soon as it's approved
+    if (sequence?.steps[0]) {
+      await db
+        .update(leadTouchpoints)
+        .set({ scheduledAt: new Date(), updatedAt: new Date() })
+        .where(eq(leadTouchpoints.id, sequence.steps[0].touchpointId));
+    }
+
+    created.push({
+      id: lead.id,
+      email: lead.email,
+      firstName: lead.firstName,
+      lastName: lead.lastName,
+    });
+  }
+
+  if (referrer.campaignId && created.length > 0) {
+    await db
+      .update(campaigns)
+      .set({
+        totalLeads: sql`COALESCE(${campaigns.totalLeads}, 0) + ${created.length}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(campaigns.id, referrer.campaignId));
+  }
+
+  console.log(
+    `[Referrals] Lead ${referrer.id} referred ${people.length} people, created ${created.length} leads`
+  );
+
+  return created;
+}
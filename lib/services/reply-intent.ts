@@ -0,0 +1,269 @@
+/**
+ * Reply Intent Actions
+ *
+ * Maps each reply intent (see lib/ai/classify-reply.ts) to the follow-up actions the reply
+ * processor takes. The mapping is configurable via Settings > Reply Handling.
+ * - stop: cancel the lead's pending touchpoints
+ * - pause: freeze them until someone resumes the lead (see pause-resume.ts)
+ * - suppress: put the address on the suppression list
+ * - reschedule: push the remaining touchpoints back instead of cancelling them - past the
+ *   return date when an out-of-office reply gives one (the lead is paused until then and
+ *   re-flowed when it resumes), otherwise by a week
+ * - create_crm_contact: sync the lead to Notion
+ *
+ * Replies that couldn't be classified get the old behaviour: stop and sync to the CRM.
+ */
+
+import { db } from "@/lib/db";
+import { appSettings, leads, leadTouchpoints, type Lead } from "@/lib/db/schema";
+import { eq, and, isNull, sql } from "drizzle-orm";
+import { REPLY_INTENTS, type ReplyIntent } from "@/lib/ai/classify-reply";
+import { pauseLead } from "./pause-resume";
+import { suppressEmail, type SuppressionStatus } from "./unsubscribe";
+import { syncLeadToNotion } from "./notion-client";
+import { calculateLeadScoreWithDBWeights, generateScoreReasonsWithDBWeights } from "./lead-scorer";
+
+const REPLY_ACTIONS_KEY = "reply_intent_actions";
+
+export const REPLY_ACTIONS = ["stop", "pause", "suppress", "reschedule", "create_crm_contact"] as const;
+export type ReplyAction = (typeof REPLY_ACTIONS)[number];
+
+export type ReplyActionConfig = Record<ReplyIntent, ReplyAction[]>;
+
+export const DEFAULT_REPLY_ACTIONS: ReplyActionConfig = {
+  interested: ["stop", "create_crm_contact"],
+  not_interested: ["stop"],
+  out_of_office: ["reschedule"],
+  referral: ["stop", "create_crm_contact"],
+  unsubscribe: ["stop", "suppress"],
+  wrong_person: ["stop"],
+  auto_bounce: ["stop", "suppress"],
+};
+
+const UNCLASSIFIED_ACTIONS: ReplyAction[] = ["stop", "create_crm_contact"];
+
+const RESCHEDULE_DAYS = 7; // How far "reschedule" pushes the remaining touchpoints back
+
+// Suppression status for intents that "suppress"
+const SUPPRESSION_STATUS: Partial<Record<ReplyIntent, SuppressionStatus>> = {
+  unsubscribe: "unsubscribed",
+  auto_bounce: "bounced",
+};
+
+const LEAD_STATUS: Record<ReplyIntent, "replied" | "lost" | null> = {
+  interested: "replied",
+  not_interested: "lost",
+  out_of_office: null,
+  referral: "replied",
+  unsubscribe: "lost",
+  wrong_person: "lost",
+  auto_bounce: null,
+};
+
+export interface AppliedReplyActions {
+  actions: ReplyAction[];
+  touchpoints: number; // Touchpoints stopped, paused or rescheduled
+  notionSynced: boolean;
+}
+
+/**
+ * Whether a person wrote the reply (auto-replies and bounces don't count as replies)
+ */
+export function isHumanReply(intent: ReplyIntent | null): boolean {
+  return intent !== "out_of_office" && intent !== "auto_bounce";
+}
+
+/**
+ * Lead status after a reply with this intent (null keeps the current status)
+ */
+export function leadStatusForIntent(intent: ReplyIntent | null): "replied" | "lost" | null {
+  return intent ? LEAD_STATUS[intent] : "replied";
+}
+
+/**
+ * Reply sentiment for lead scoring (null for replies that say nothing about interest)
+ */
+export function replySentimentForIntent(
+  intent: ReplyIntent | null
+): "positive" | "neutral" | "negative" | null {
+  switch (intent) {
+    case "interested":
+      return "positive";
+    case "referral":
+    case "wrong_person":
+      return "neutral";
+    case "not_interested":
+    case "unsubscribe":
+      return "negative";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Actions per intent, from the database or the defaults
+ */
+export async function getReplyActions(): Promise<ReplyActionConfig> {
+  try {
+    const [setting] = await db
+      .select()
+      .from(appSettings)
+      .where(eq(appSettings.key, REPLY_ACTIONS_KEY))
+      .limit(1);
+
+    if (setting?.value) {
+      return { ...DEFAULT_REPLY_ACTIONS, ...(JSON.parse(setting.value) as Partial<ReplyActionConfig>) };
+    }
+  } catch (error) {
+    console.error("[Reply Intent] Failed to fetch actions from DB:", error);
+  }
+
+  return DEFAULT_REPLY_ACTIONS;
+}
+
+/**
+ * Save the actions for some or all intents
+ */
+export async function updateReplyActions(
+  patch: Partial<ReplyActionConfig>
+): Promise<ReplyActionConfig> {
+  const config = { ...(await getReplyActions()), ...patch };
+
+  await db
+    .insert(appSettings)
+    .values({ key: REPLY_ACTIONS_KEY, value: JSON.stringify(config) })
+    .onConflictDoUpdate({
+      target: appSettings.key,
+      set: { value: JSON.stringify(config), updatedAt: new Date() },
+    });
+
+  return config;
+}
+
+/**
+ * Go back to the default actions
+ */
+export async function resetReplyActions(): Promise<ReplyActionConfig> {
+  await db.delete(appSettings).where(eq(appSettings.key, REPLY_ACTIONS_KEY));
+  return DEFAULT_REPLY_ACTIONS;
+}
+
+/**
+ * Whether a value is a valid list of actions
+ */
+export function isReplyActionList(value: unknown): value is ReplyAction[] {
+  return (
+    Array.isArray(value) &&
+    value.every((action) => REPLY_ACTIONS.includes(action as ReplyAction))
+  );
+}
+
+export function isReplyIntent(value: unknown): value is ReplyIntent {
+  return REPLY_INTENTS.includes(value as ReplyIntent);
+}
+
+function pendingTouchpoints(leadId: string) {
+  return and(
+    eq(leadTouchpoints.leadId, leadId),
+    eq(leadTouchpoints.status, "pending"),
+    isNull(leadTouchpoints.sentAt)
+  );
+}
+
+/**
+ * Take the configured actions for a classified reply (null intent = couldn't classify).
+ * Stopping wins over pausing and rescheduling.
+ */
+export async function applyReplyActions(
+  lead: Pick<Lead, "id" | "email" | "campaignId" | "pausedAt" | "pausedUntil">,
+  intent: ReplyIntent | null,
+  options: { returnDate?: Date | null } = {}
+): Promise<AppliedReplyActions> {
+  const actions = intent ? (await getReplyActions())[intent] : UNCLASSIFIED_ACTIONS;
+  const now = new Date();
+  let touchpoints = 0;
+
+  const suppression = intent ? SUPPRESSION_STATUS[intent] : undefined;
+  if (actions.includes("suppress")) {
+    // Also cancels everything pending for the address
+    await suppressEmail(lead.email, suppression || "do_not_contact", {
+      leadId: lead.id,
+      source: "reply",
+    });
+  }
+
+  if (actions.includes("stop")) {
+    const stopped = await db
+      .update(leadTouchpoints)
+      .set({ status: "cancelled", updatedAt: now })
+      .where(pendingTouchpoints(lead.id))
+      .returning({ id: leadTouchpoints.id });
+    touchpoints = stopped.length;
+  } else if (actions.includes("pause")) {
+    touchpoints = await pauseLead(lead, { reason: `Reply classified as ${intent?.replace(/_/g, " ")}` });
+  } else if (actions.includes("reschedule") && options.returnDate) {
+    // Leave a lead someone paused by hand alone - resuming it on the return date would undo that
+    if (!lead.pausedAt || lead.pausedUntil) {
+      touchpoints = await pauseLead(lead, {
+        reason: `Out of office until ${options.returnDate.toISOString().slice(0, 10)}`,
+        until: options.returnDate,
+      });
+    }
+  } else if (actions.includes("reschedule")) {
+    const rescheduled = await db
+      .update(leadTouchpoints)
+      .set({
+        scheduledAt: sql`GREATEST(${leadTouchpoints.scheduledAt}, ${now.toISOString()}::timestamp) + make_interval(days => ${RESCHEDULE_DAYS})`,
+        updatedAt: now,
+      })
+      .where(pendingTouchpoints(lead.id))
+      .returning({ id: leadTouchpoints.id });
+    touchpoints = rescheduled.length;
+  }
+
+  let notionSynced = false;
+  if (actions.includes("create_crm_contact")) {
+    try {
+      const notionResult = await syncLeadToNotion(lead.id);
+      notionSynced = notionResult.success;
+      if (!notionResult.success) {
+        console.log(`[Reply Intent] Notion sync skipped or failed: ${notionResult.error}`);
+      }
+    } catch (error) {
+      console.error("[Reply Intent] Failed to sync to Notion:", error);
+    }
+  }
+
+  console.log(
+    `[Reply Intent] Lead ${lead.id} (${intent || "unclassified"}): ${actions.join(", ") || "no actions"}, ${touchpoints} touchpoints`
+  );
+
+  return { actions, touchpoints, notionSynced };
+}
+
+/**
+ * Record what the latest reply says about the lead: its status, and its reply sentiment and
+ * the lead score that follows from it
+ */
+export async function updateLeadForReply(lead: Lead, intent: ReplyIntent | null): Promise<void> {
+  const status = leadStatusForIntent(intent);
+  const replySentiment = replySentimentForIntent(intent);
+
+  if (!status && !replySentiment) return;
+
+  let scoring = {};
+  if (replySentiment) {
+    const leadScore = await calculateLeadScoreWithDBWeights({ ...lead, replySentiment });
+    const scoreReasons = await generateScoreReasonsWithDBWeights({ ...lead, replySentiment }, leadScore);
+    scoring = { replySentiment, leadScore, scoreReasons };
+  }
+
+  await db
+    .update(leads)
+    .set({
+      ...(status ? { status } : {}),
+      ...scoring,
+      updatedAt: new Date(),
+    })
+    .where(eq(leads.id, lead.id));
+}
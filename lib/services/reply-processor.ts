@@ -1,18 +1,26 @@
 /**
  * Reply Processor Service
  *
- * Handles incoming email replies:
+ * Handles incoming email replies (and SMS/WhatsApp replies, via message-sender.ts):
  * - Matches reply to lead
- * - Stops active sequence
+ * - Classifies the reply's intent (interested, out-of-office, referral, unsubscribe, ...);
+ *   auto-reply headers mark it out-of-office without asking the model
+ * - Pauses the sequence of a lead that's out of office until its return date
+ * - Turns the people a referral reply names into new leads, with an opener awaiting review
+ *   (see referrals.ts)
+ * - Takes the actions configured for that intent: stop, pause or reschedule the sequence,
+ *   suppress the address, sync to Notion CRM (see reply-intent.ts)
  * - Generates AI draft reply
- * - Updates lead status
- * - Syncs to Notion CRM automatically
+ * - Updates lead status, reply sentiment and score
  */
 
-import { db, leads, emailSequences, inboxMessages, leadTouchpoints } from "@/lib/db";
-import { eq, or, and } from "drizzle-orm";
+import { db, leads, inboxMessages, leadTouchpoints, emailEvents } from "@/lib/db";
+import { eq, or, and, desc, isNull } from "drizzle-orm";
 import { generateDraftReply } from "@/lib/ai/draft-reply";
-import { syncLeadToNotion } from "./notion-client";
+import { classifyReply, classifyAutoReply, type ReplyIntent } from "@/lib/ai/classify-reply";
+import { isAutoReply, extractReturnDate } from "./out-of-office";
+import { applyReplyActions, isHumanReply, updateLeadForReply, type ReplyAction } from "./reply-intent";
+import { createReferralLeads } from "./referrals";
 import { detectMeetingReadiness, hasObviousBookingSignals } from "@/lib/ai/meeting-readiness";
 import { getSchedulingUrl } from "./calendly-client";
 
@@ -26,13 +34,19 @@ export interface IncomingEmail {
   inReplyTo?: string;
   threadId?: string;
   receivedAt?: Date;
+  leadId?: string; // Already matched by the caller (e.g. by phone number)
+  channel?: "email" | "sms" | "whatsapp";
+  headers?: Record<string, string>; // Lower-case names (see toHeaderRecord in out-of-office.ts)
 }
 
 export interface ProcessedReply {
   success: boolean;
   leadId?: string;
-  sequenceId?: string;
   inboxMessageId?: string;
+  intent?: ReplyIntent | null; // Null if the reply couldn't be classified
+  actions?: ReplyAction[];
+  returnDate?: Date | null; // Out-of-office replies that say when they're back
+  referralLeadIds?: string[]; // Leads created for the people a referral reply names
   aiDraftGenerated?: boolean;
   notionSynced?: boolean;
   meetingReadiness?: {
@@ -58,13 +72,13 @@ export async function processReply(email: IncomingEmail): Promise<ProcessedReply
   try {
     const senderEmail = extractEmail(email.from);
 
-    console.log(`[Reply Processor] Processing reply from: ${senderEmail}`);
+    console.log(`[Reply Processor] Processing ${email.channel || "email"} reply from: ${senderEmail}`);
 
     // Find lead by email
     const [lead] = await db
       .select()
       .from(leads)
-      .where(eq(leads.email, senderEmail));
+      .where(email.leadId ? eq(leads.id, email.leadId) : eq(leads.email, senderEmail));
 
     if (!lead) {
       console.log(`[Reply Processor] No lead found for: ${senderEmail}`);
@@ -74,137 +88,134 @@ export async function processReply(email: IncomingEmail): Promise<ProcessedReply
       };
     }
 
-    // Find active sequence for this lead
-    const [sequence] = await db
+    // Get conversation history
+    const previousMessages = await db
       .select()
-      .from(emailSequences)
-      .where(eq(emailSequences.leadId, lead.id));
+      .from(inboxMessages)
+      .where(eq(inboxMessages.leadId, lead.id));
+
+    const conversationHistory = previousMessages.map((m) => ({
+      direction: m.direction as "inbound" | "outbound",
+      subject: m.subject || "",
+      body: m.body,
+      date: m.receivedAt || m.createdAt || new Date(),
+    }));
+
+    // What the reply means decides what happens to the sequence
+    const classification = isAutoReply(email.headers)
+      ? classifyAutoReply(email.subject, email.body)
+      : await classifyReply({ subject: email.subject, body: email.body }, conversationHistory);
+    const intent = classification?.intent || null;
+    console.log(`[Reply Processor] Classified reply as ${intent || "unclassified"}${classification ? ` (${Math.round(classification.confidence * 100)}%)` : ""}`);
+
+    const returnDate = intent === "out_of_office"
+      ? extractReturnDate(`${email.subject}\n${email.body}`, email.receivedAt || new Date())
+      : null;
+
+    // Mark the lead's sent touchpoints as "replied" - auto-replies and bounces don't count
+    if (isHumanReply(intent)) {
+      // Only messages sent on the reply's channel - manual tasks an SDR marked done (also
+      // "sent") aren't what the lead answered
+      const repliedChannel = and(
+        eq(leadTouchpoints.channel, email.channel || "email"),
+        isNull(leadTouchpoints.completedAt)
+      );
+
+      // The reply answers the most recent one, so its reply event goes there
+      const [repliedTouchpoint] = await db
+        .select({ id: leadTouchpoints.id })
+        .from(leadTouchpoints)
+        .where(
+          and(
+            eq(leadTouchpoints.leadId, lead.id),
+            eq(leadTouchpoints.status, "sent"),
+            repliedChannel
+          )
+        )
+        .orderBy(desc(leadTouchpoints.sentAt))
+        .limit(1);
 
-    // Stop the sequence if it exists and is active
-    if (sequence && sequence.status === "active") {
       await db
-        .update(emailSequences)
+        .update(leadTouchpoints)
         .set({
-          status: "stopped",
-          stopReason: "Lead replied",
+          status: "replied",
+          repliedAt: new Date(),
           updatedAt: new Date(),
         })
-        .where(eq(emailSequences.id, sequence.id));
-
-      console.log(`[Reply Processor] Stopped sequence ${sequence.id}`);
-    }
-
-    // Also stop any pending touchpoints for this lead (new campaign system)
-    const stoppedTouchpoints = await db
-      .update(leadTouchpoints)
-      .set({
-        status: "cancelled",
-        updatedAt: new Date(),
-      })
-      .where(
-        and(
-          eq(leadTouchpoints.leadId, lead.id),
-          eq(leadTouchpoints.status, "pending")
-        )
-      )
-      .returning({ id: leadTouchpoints.id });
-
-    if (stoppedTouchpoints.length > 0) {
-      console.log(`[Reply Processor] Cancelled ${stoppedTouchpoints.length} pending touchpoints for lead ${lead.id}`);
-    }
-
-    // Mark the most recent sent touchpoint as "replied"
-    const [repliedTouchpoint] = await db
-      .update(leadTouchpoints)
-      .set({
-        status: "replied",
-        repliedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(
-        and(
-          eq(leadTouchpoints.leadId, lead.id),
-          eq(leadTouchpoints.status, "sent")
-        )
-      )
-      .returning({ id: leadTouchpoints.id });
-
-    if (repliedTouchpoint) {
-      console.log(`[Reply Processor] Marked touchpoint ${repliedTouchpoint.id} as replied`);
+        .where(
+          and(
+            eq(leadTouchpoints.leadId, lead.id),
+            eq(leadTouchpoints.status, "sent"),
+            repliedChannel
+          )
+        );
+
+      if (repliedTouchpoint) {
+        // Reply event feeds per-step and per-variant reply rates
+        await db.insert(emailEvents).values({
+          touchpointId: repliedTouchpoint.id,
+          eventType: "replied",
+          occurredAt: new Date(),
+        });
+        console.log(`[Reply Processor] Marked touchpoint ${repliedTouchpoint.id} as replied`);
+      }
     }
 
-    // Update lead status to replied
-    await db
-      .update(leads)
-      .set({
-        status: "replied",
-        updatedAt: new Date(),
-      })
-      .where(eq(leads.id, lead.id));
+    // Lead status, reply sentiment and score
+    await updateLeadForReply(lead, intent);
 
-    // Generate AI draft reply
+    // Generate AI draft reply (not for auto-replies, bounces or unsubscribe requests)
     let aiDraft: string | undefined;
     let aiDraftGenerated = false;
     let meetingReadinessResult: { isReady: boolean; confidence: number; scenario: string } | undefined;
 
-    try {
-      // Get conversation history
-      const previousMessages = await db
-        .select()
-        .from(inboxMessages)
-        .where(eq(inboxMessages.leadId, lead.id));
-
-      const conversationHistory = previousMessages.map((m) => ({
-        direction: m.direction as "inbound" | "outbound",
-        subject: m.subject || "",
-        body: m.body,
-        date: m.receivedAt || m.createdAt || new Date(),
-      }));
-
-      // Check for meeting readiness (quick check first)
-      let calendlyUrl: string | undefined;
-      if (hasObviousBookingSignals(email.body)) {
-        console.log("[Reply Processor] Obvious booking signals detected, checking meeting readiness...");
-
-        // Full conversation with new message
-        const fullConversation = [
-          ...conversationHistory,
-          { direction: "inbound" as const, body: email.body, subject: email.subject },
-        ];
-
-        try {
-          const readiness = await detectMeetingReadiness(fullConversation);
-          meetingReadinessResult = {
-            isReady: readiness.isReady,
-            confidence: readiness.confidence,
-            scenario: readiness.scenario,
-          };
-
-          if (readiness.isReady && readiness.confidence >= 0.7) {
-            console.log(`[Reply Processor] Lead is ready to book! Scenario: ${readiness.scenario}, Confidence: ${readiness.confidence}`);
-
-            // Try to get Calendly URL
-            try {
-              calendlyUrl = await getSchedulingUrl();
-              console.log("[Reply Processor] Retrieved Calendly URL for draft reply");
-            } catch (calendlyError) {
-              console.log("[Reply Processor] Calendly not configured, skipping link");
+    if (isHumanReply(intent) && intent !== "unsubscribe") {
+      try {
+        // Check for meeting readiness (quick check first)
+        let calendlyUrl: string | undefined;
+        if (hasObviousBookingSignals(email.body)) {
+          console.log("[Reply Processor] Obvious booking signals detected, checking meeting readiness...");
+
+          // Full conversation with new message
+          const fullConversation = [
+            ...conversationHistory,
+            { direction: "inbound" as const, body: email.body, subject: email.subject },
+          ];
+
+          try {
+            const readiness = await detectMeetingReadiness(fullConversation);
+            meetingReadinessResult = {
+              isReady: readiness.isReady,
+              confidence: readiness.confidence,
+              scenario: readiness.scenario,
+            };
+
+            if (readiness.isReady && readiness.confidence >= 0.7) {
+              console.log(`[Reply Processor] Lead is ready to book! Scenario: ${readiness.scenario}, Confidence: ${readiness.confidence}`);
+
+              // Try to get Calendly URL
+              try {
+                calendlyUrl = await getSchedulingUrl();
+                console.log("[Reply Processor] Retrieved Calendly URL for draft reply");
+              } catch (calendlyError) {
+                console.log("[Reply Processor] Calendly not configured, skipping link");
+              }
             }
+          } catch (readinessError) {
+            console.error("[Reply Processor] Meeting readiness check failed:", readinessError);
           }
-        } catch (readinessError) {
-          console.error("[Reply Processor] Meeting readiness check failed:", readinessError);
         }
-      }
 
-      aiDraft = await generateDraftReply({
-        lead,
-        incomingMessage: email.body,
-        previousMessages: conversationHistory,
-        calendlyUrl, // Pass Calendly URL if lead is ready to book
-      });
-      aiDraftGenerated = true;
-    } catch (error) {
-      console.error("[Reply Processor] Failed to generate AI draft:", error);
+        aiDraft = await generateDraftReply({
+          lead,
+          incomingMessage: email.body,
+          previousMessages: conversationHistory,
+          calendlyUrl, // Pass Calendly URL if lead is ready to book
+        });
+        aiDraftGenerated = true;
+      } catch (error) {
+        console.error("[Reply Processor] Failed to generate AI draft:", error);
+      }
     }
 
     // Save the incoming message to inbox
@@ -212,7 +223,7 @@ export async function processReply(email: IncomingEmail): Promise<ProcessedReply
       .insert(inboxMessages)
       .values({
         leadId: lead.id,
-        sequenceId: sequence?.id,
+        channel: email.channel || "email",
         direction: "inbound",
         fromEmail: senderEmail,
         toEmail: email.to,
@@ -223,6 +234,8 @@ export async function processReply(email: IncomingEmail): Promise<ProcessedReply
         inReplyTo: email.inReplyTo,
         threadId: email.threadId,
         aiDraftReply: aiDraft,
+        replyIntent: intent,
+        replyIntentConfidence: classification ? Math.round(classification.confidence * 100) : null,
         isRead: false,
         receivedAt: email.receivedAt || new Date(),
       })
@@ -232,27 +245,37 @@ export async function processReply(email: IncomingEmail): Promise<ProcessedReply
       `[Reply Processor] Created inbox message ${inboxMessage.id} for lead ${lead.id}`
     );
 
-    // Sync to Notion CRM automatically when reply is received
-    let notionSynced = false;
-    try {
-      const notionResult = await syncLeadToNotion(lead.id);
-      notionSynced = notionResult.success;
-      if (notionResult.success) {
-        console.log(`[Reply Processor] Synced lead ${lead.id} to Notion CRM`);
-      } else {
-        console.log(`[Reply Processor] Notion sync skipped or failed: ${notionResult.error}`);
+    // Stop, pause, suppress, reschedule and/or sync to the CRM, as configured for the intent
+    const applied = await applyReplyActions(lead, intent, { returnDate });
+
+    // Referred people become leads in the same campaign
+    let referralLeadIds: string[] = [];
+    if (intent === "referral") {
+      try {
+        const [lastOutbound] = conversationHistory
+          .filter((m) => m.direction === "outbound")
+          .sort((a, b) => b.date.getTime() - a.date.getTime());
+        const referralLeads = await createReferralLeads(
+          lead,
+          { subject: email.subject, body: email.body },
+          lastOutbound?.body
+        );
+        referralLeadIds = referralLeads.map((l) => l.id);
+      } catch (error) {
+        console.error("[Reply Processor] Failed to create referral leads:", error);
       }
-    } catch (error) {
-      console.error("[Reply Processor] Failed to sync to Notion:", error);
     }
 
     return {
       success: true,
       leadId: lead.id,
-      sequenceId: sequence?.id,
       inboxMessageId: inboxMessage.id,
+      intent,
+      actions: applied.actions,
+      returnDate,
+      referralLeadIds,
       aiDraftGenerated,
-      notionSynced,
+      notionSynced: applied.notionSynced,
       meetingReadiness: meetingReadinessResult,
     };
   } catch (error) {
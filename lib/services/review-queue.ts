@@ -0,0 +1,300 @@
+/**
+ * Review Queue Service
+ *
+ * Copy written for a single lead that scored below the workspace's auto-approve threshold:
+ * personalised campaign steps (see lib/services/touchpoint-personalization.ts) and written
+ * sequences (see lib/services/lead-sequences.ts). Each draft is a pending lead touchpoint with
+ * reviewStatus "pending_review"; the send queue holds it, and the lead's later steps, until
+ * it's approved.
+ * - Drafts can be assigned to a workspace member and edited in place before approval
+ * - Approvals and rejections record who made them and why
+ * - Rejected drafts go back to "draft" and stay held; the reason is given to the AI the next
+ *   time the copy is written, and the rewrite comes back here whatever its score
+ * - Drafts waiting longer than the workspace's review SLA are flagged overdue
+ */
+
+import { db } from "@/lib/db";
+import {
+  leads,
+  campaigns,
+  users,
+  workspaces,
+  workspaceMembers,
+  leadTouchpoints,
+} from "@/lib/db/schema";
+import { eq, and, asc, inArray, isNull } from "drizzle-orm";
+
+export const DEFAULT_AUTO_APPROVE_CONFIDENCE = 8;
+export const DEFAULT_REVIEW_SLA_HOURS = 24;
+
+export interface ReviewPolicy {
+  autoApproveConfidence: number; // Copy scored at least this high skips review
+  reviewSlaHours: number;
+}
+
+export interface ReviewDraft {
+  id: string; // Lead touchpoint ID
+  leadId: string;
+  leadName: string;
+  leadEmail: string;
+  jobTitle: string;
+  schoolName: string;
+  campaignId: string | null;
+  campaignName: string | null;
+  stepNumber: number;
+  channel: string;
+  campaignStep: boolean; // Personalised campaign step (false for written sequences)
+  subject: string | null;
+  body: string | null;
+  confidenceScore: number | null;
+  confidenceReason: string | null;
+  rejectionReason: string | null; // Why the previous version was rejected
+  scheduledAt: Date | null;
+  reviewerId: string | null;
+  reviewerName: string | null;
+  reviewRequestedAt: Date | null;
+  dueBy: Date | null; // reviewRequestedAt + the SLA
+  overdue: boolean;
+}
+
+export interface Reviewer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Fields that put copy into the review queue
+ */
+export function pendingReviewFields() {
+  return { reviewStatus: "pending_review" as const, reviewRequestedAt: new Date() };
+}
+
+/**
+ * The workspace's review policy (defaults without a workspace)
+ */
+export async function getReviewPolicy(workspaceId?: string | null): Promise<ReviewPolicy> {
+  const [workspace] = workspaceId
+    ? await db
+        .select({
+          autoApproveConfidence: workspaces.autoApproveConfidence,
+          reviewSlaHours: workspaces.reviewSlaHours,
+        })
+        .from(workspaces)
+        .where(eq(workspaces.id, workspaceId))
+        .limit(1)
+    : [];
+
+  return {
+    autoApproveConfidence: workspace?.autoApproveConfidence ?? DEFAULT_AUTO_APPROVE_CONFIDENCE,
+    reviewSlaHours: workspace?.reviewSlaHours ?? DEFAULT_REVIEW_SLA_HOURS,
+  };
+}
+
+/**
+ * Change the workspace's review policy. Returns null if the workspace doesn't exist.
+ */
+export async function updateReviewPolicy(
+  workspaceId: string,
+  patch: Partial<ReviewPolicy>
+): Promise<ReviewPolicy | null> {
+  const [updated] = await db
+    .update(workspaces)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(eq(workspaces.id, workspaceId))
+    .returning({ id: workspaces.id });
+
+  return updated ? getReviewPolicy(workspaceId) : null;
+}
+
+function heldDraftFilter() {
+  return and(
+    eq(leadTouchpoints.reviewStatus, "pending_review"),
+    eq(leadTouchpoints.status, "pending")
+  );
+}
+
+/**
+ * Drafts waiting for review, oldest first. `reviewerId: null` lists the unassigned ones.
+ */
+export async function getReviewQueue(
+  options: {
+    workspaceId?: string | null;
+    campaignId?: string;
+    reviewerId?: string | null;
+    ids?: string[];
+    limit?: number;
+  } = {}
+): Promise<ReviewDraft[]> {
+  const { workspaceId, campaignId, reviewerId, ids, limit = 100 } = options;
+  if (ids && ids.length === 0) return [];
+
+  const rows = await db
+    .select({
+      id: leadTouchpoints.id,
+      leadId: leads.id,
+      firstName: leads.firstName,
+      lastName: leads.lastName,
+      leadEmail: leads.email,
+      jobTitle: leads.jobTitle,
+      schoolName: leads.schoolName,
+      campaignId: campaigns.id,
+      campaignName: campaigns.name,
+      stepNumber: leadTouchpoints.stepNumber,
+      channel: leadTouchpoints.channel,
+      templateId: leadTouchpoints.touchpointTemplateId,
+      subject: leadTouchpoints.subject,
+      body: leadTouchpoints.body,
+      confidenceScore: leadTouchpoints.confidenceScore,
+      confidenceReason: leadTouchpoints.confidenceReason,
+      rejectionReason: leadTouchpoints.rejectionReason,
+      scheduledAt: leadTouchpoints.scheduledAt,
+      reviewerId: leadTouchpoints.reviewerId,
+      reviewerName: users.name,
+      reviewerEmail: users.email,
+      reviewRequestedAt: leadTouchpoints.reviewRequestedAt,
+    })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .leftJoin(campaigns, eq(leads.campaignId, campaigns.id))
+    .leftJoin(users, eq(leadTouchpoints.reviewerId, users.id))
+    .where(
+      and(
+        heldDraftFilter(),
+        workspaceId ? eq(leads.workspaceId, workspaceId) : undefined,
+        campaignId ? eq(campaigns.id, campaignId) : undefined,
+        reviewerId === null
+          ? isNull(leadTouchpoints.reviewerId)
+          : reviewerId ? eq(leadTouchpoints.reviewerId, reviewerId) : undefined,
+        ids ? inArray(leadTouchpoints.id, ids) : undefined
+      )
+    )
+    .orderBy(asc(leadTouchpoints.reviewRequestedAt), asc(leadTouchpoints.scheduledAt), asc(leadTouchpoints.stepNumber))
+    .limit(limit);
+
+  const { reviewSlaHours } = await getReviewPolicy(workspaceId);
+  const now = Date.now();
+
+  return rows.map(({ firstName, lastName, reviewerEmail, templateId, ...row }) => {
+    const dueBy = row.reviewRequestedAt
+      ? new Date(row.reviewRequestedAt.getTime() + reviewSlaHours * 60 * 60 * 1000)
+      : null;
+    return {
+      ...row,
+      leadName: `${firstName} ${lastName}`.trim(),
+      campaignStep: !!templateId,
+      reviewerName: row.reviewerId ? row.reviewerName || reviewerEmail : null,
+      dueBy,
+      overdue: !!dueBy && dueBy.getTime() < now,
+    };
+  });
+}
+
+/**
+ * One draft waiting for review (null if it isn't, or belongs to another workspace)
+ */
+export async function getDraft(touchpointId: string, workspaceId?: string | null): Promise<ReviewDraft | null> {
+  const [draft] = await getReviewQueue({ ids: [touchpointId], workspaceId, limit: 1 });
+  return draft || null;
+}
+
+/**
+ * Assign drafts to a reviewer (null unassigns). Returns how many changed.
+ */
+export async function assignReviewer(touchpointIds: string[], reviewerId: string | null): Promise<number> {
+  if (touchpointIds.length === 0) return 0;
+
+  const assigned = await db
+    .update(leadTouchpoints)
+    .set({ reviewerId, updatedAt: new Date() })
+    .where(and(heldDraftFilter(), inArray(leadTouchpoints.id, touchpointIds)))
+    .returning({ id: leadTouchpoints.id });
+
+  return assigned.length;
+}
+
+/**
+ * Edit a draft's copy in place. Returns false if it isn't waiting for review.
+ */
+export async function updateDraft(
+  touchpointId: string,
+  patch: { subject?: string | null; body?: string }
+): Promise<boolean> {
+  const [updated] = await db
+    .update(leadTouchpoints)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(and(heldDraftFilter(), eq(leadTouchpoints.id, touchpointId)))
+    .returning({ id: leadTouchpoints.id });
+
+  return !!updated;
+}
+
+/**
+ * Approve drafts so the send queue picks them up. Returns how many were approved.
+ */
+export async function approveDrafts(
+  touchpointIds: string[],
+  review: { reviewedBy?: string | null; note?: string | null } = {}
+): Promise<number> {
+  if (touchpointIds.length === 0) return 0;
+
+  const now = new Date();
+  const approved = await db
+    .update(leadTouchpoints)
+    .set({
+      reviewStatus: "approved",
+      reviewedBy: review.reviewedBy || null,
+      reviewedAt: now,
+      reviewNote: review.note || null,
+      updatedAt: now,
+    })
+    .where(and(heldDraftFilter(), inArray(leadTouchpoints.id, touchpointIds)))
+    .returning({ id: leadTouchpoints.id });
+
+  return approved.length;
+}
+
+/**
+ * Reject drafts: they go back to "draft" (still held) with the reason for the next rewrite.
+ * Returns the rejected touchpoints with their leads and whether they are campaign steps.
+ */
+export async function rejectDrafts(
+  touchpointIds: string[],
+  review: { reason: string; reviewedBy?: string | null }
+): Promise<{ id: string; leadId: string; campaignStep: boolean }[]> {
+  if (touchpointIds.length === 0) return [];
+
+  const now = new Date();
+  const rejected = await db
+    .update(leadTouchpoints)
+    .set({
+      reviewStatus: "draft",
+      reviewedBy: review.reviewedBy || null,
+      reviewedAt: now,
+      reviewNote: review.reason,
+      rejectionReason: review.reason,
+      updatedAt: now,
+    })
+    .where(and(heldDraftFilter(), inArray(leadTouchpoints.id, touchpointIds)))
+    .returning({
+      id: leadTouchpoints.id,
+      leadId: leadTouchpoints.leadId,
+      templateId: leadTouchpoints.touchpointTemplateId,
+    });
+
+  return rejected.map((r) => ({ id: r.id, leadId: r.leadId, campaignStep: !!r.templateId }));
+}
+
+/**
+ * Members of the workspace who can be assigned drafts
+ */
+export async function listReviewers(workspaceId: string): Promise<Reviewer[]> {
+  const members = await db
+    .select({ id: users.id, name: users.name, email: users.email })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(workspaceMembers.userId, users.id))
+    .where(eq(workspaceMembers.workspaceId, workspaceId))
+    .orderBy(asc(users.name));
+
+  return members.map((m) => ({ ...m, name: m.name || m.email }));
+}
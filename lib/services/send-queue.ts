@@ -0,0 +1,815 @@
+/**
+ * Send Queue Service
+ *
+ * Postgres-backed queue over pending lead touchpoints.
+ * - Claims due touchpoints atomically (FOR UPDATE SKIP LOCKED), so concurrent
+ *   workers and /process calls never send the same touchpoint twice
+ * - Claims expire, so rows held by a crashed worker are picked up again after a restart
+ * - Spaces sends per domain using the rotation service's recommended delay
+ * - Retries transient failures with backoff
+ * - Cancels touchpoints for suppressed recipients (unsubscribed, do-not-contact, bounced)
+ * - Sends every email to a lead from the mailbox that sent its first one, and picks that
+ *   first mailbox with the campaign's sender rotation and preferred domains
+ * - Threads follow-up steps marked replyInThread into the earlier conversation
+ * - Renders subject and body with the shared template engine and fails touchpoints whose
+ *   variables can't be resolved instead of sending blanks
+ * - Sends the lead's personalised copy when it has some (see
+ *   lib/services/touchpoint-personalization.ts), otherwise the A/B variant assigned to the
+ *   lead, and checks for a winner after each send
+ * - Evaluates branching conditions against earlier steps' events and skips steps whose
+ *   condition isn't met
+ * - Holds a step while an earlier one is still pending (e.g. a manual LinkedIn or call
+ *   task - see lib/services/manual-tasks.ts)
+ * - Re-checks the campaign's sending window and pushes touchpoints that fall outside it
+ *   to the next open slot
+ * - Enforces the campaign's daily email limit on top of each domain's warmup limit, pushing
+ *   emails over the limit to the next day's window
+ * - Skips touchpoints frozen by a campaign or lead pause (see lib/services/pause-resume.ts),
+ *   and resumes leads paused until a date (out-of-office replies) once it has passed
+ * - Sends SMS and WhatsApp steps through the messaging provider when one is configured for
+ *   the channel (see lib/services/message-sender.ts)
+ *
+ * The worker loop is started from instrumentation.ts; set SEND_WORKER_ENABLED=false to disable it
+ * and drive the queue from a cron hitting POST /api/queue (with CRON_SECRET) instead.
+ */
+
+import os from "os";
+import { db } from "@/lib/db";
+import {
+  leads,
+  campaigns,
+  touchpointTemplates,
+  touchpointVariants,
+  leadTouchpoints,
+  inboxMessages,
+} from "@/lib/db/schema";
+import { eq, and, lte, gte, asc, sql, isNull, isNotNull, or, lt, inArray } from "drizzle-orm";
+import type { Lead } from "@/lib/db/schema";
+import { sendEmail, findDomainByFromAddress } from "@/lib/services/email-sender";
+import { sendMessage } from "@/lib/services/message-sender";
+import { getAutoSendChannels, type MessagingChannel } from "@/lib/services/messaging-provider";
+import {
+  selectSendingDomain,
+  getNextDomainReadyAt,
+  getCampaignRotation,
+  getPinnedDomain,
+} from "@/lib/services/sender-rotation";
+import {
+  isWithinSendWindow,
+  resolveSendWindow,
+  scheduleInSendWindow,
+  getLocalDayStart,
+  type SendWindowSettings,
+} from "@/lib/services/send-window";
+import { getTemplateContext } from "@/lib/services/template-context";
+import { resumeDueLeads } from "@/lib/services/pause-resume";
+import { skipUnmetTasks } from "@/lib/services/manual-tasks";
+import { releaseStaleDrafts } from "@/lib/services/touchpoint-personalization";
+import { maybePromoteWinner } from "@/lib/services/ab-testing";
+import { evaluateStepCondition, noEarlierStepPending } from "@/lib/services/sequence-branching";
+import { renderTemplate, getVariationSeed } from "@/lib/utils/template";
+
+const WORKER_ID = `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000; // Claims older than this are considered abandoned
+const MAX_ATTEMPTS = 3;
+const RETRY_BACKOFF_MS = 15 * 60 * 1000; // Multiplied by attempt number
+const LEAD_MAILBOX_RETRY_MS = 15 * 60 * 1000; // Wait for the lead's busy mailbox instead of switching sender
+const POLL_INTERVAL_MS = 30_000; // Idle poll when nothing is due
+const MIN_SLEEP_MS = 1_000;
+const DEFAULT_BATCH_SIZE = 20;
+
+export interface QueueTickOptions {
+  campaignId?: string; // Restrict to one campaign (used by /api/campaigns/[id]/process)
+  limit?: number;
+}
+
+export interface QueueTickResult {
+  claimed: number;
+  sent: number;
+  failed: number;
+  retried: number;
+  deferred: number; // Released because no domain was ready - picked up on a later tick
+  rescheduled: number; // Outside the sending window, over the campaign's daily limit, or waiting on the lead's mailbox
+  suppressed: number; // Recipient is on the suppression list - touchpoint cancelled
+  skipped: number; // Branching condition not met - touchpoint or manual task skipped
+  resumed: number; // Leads whose pause ran out this tick
+  released: number; // Launch drafts whose copy was never written - sent with the template copy
+  errors: string[];
+}
+
+export interface QueueStats {
+  depth: number; // Due now and waiting to be sent
+  scheduled: number; // Pending but scheduled in the future
+  inFlight: number; // Currently claimed by a worker
+  oldestDueAt: Date | null;
+  lagSeconds: number; // How far behind schedule the oldest due touchpoint is
+  nextDomainReadyAt: Date | null;
+  worker: {
+    id: string;
+    running: boolean;
+    lastTickAt: Date | null;
+  };
+}
+
+type TouchpointOutcome =
+  | "sent"
+  | "failed"
+  | "retried"
+  | "deferred"
+  | "rescheduled"
+  | "suppressed"
+  | "skipped";
+
+interface ThreadContext {
+  subject: string; // "Re: " + the first step's subject
+  inReplyTo: string;
+  references: string[];
+  threadId: string;
+  fromEmail: string; // Mailbox that sent the previous step
+}
+
+const workerState: {
+  running: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  lastTickAt: Date | null;
+} = { running: false, timer: null, lastTickAt: null };
+
+/**
+ * Earlier emails sent to this lead in the sequence, so a step can reply in the same thread
+ */
+async function getThreadContext(leadId: string, stepNumber: number): Promise<ThreadContext | null> {
+  const previous = await db
+    .select({ messageId: leadTouchpoints.messageId })
+    .from(leadTouchpoints)
+    .where(
+      and(
+        eq(leadTouchpoints.leadId, leadId),
+        eq(leadTouchpoints.channel, "email"),
+        lt(leadTouchpoints.stepNumber, stepNumber),
+        isNotNull(leadTouchpoints.messageId)
+      )
+    )
+    .orderBy(asc(leadTouchpoints.stepNumber));
+
+  const references = previous.map((p) => p.messageId!);
+  if (references.length === 0) return null;
+
+  const messages = await db
+    .select({
+      messageId: inboxMessages.messageId,
+      subject: inboxMessages.subject,
+      fromEmail: inboxMessages.fromEmail,
+    })
+    .from(inboxMessages)
+    .where(
+      and(
+        eq(inboxMessages.direction, "outbound"),
+        inArray(inboxMessages.messageId, [references[0], references[references.length - 1]])
+      )
+    );
+
+  const first = messages.find((m) => m.messageId === references[0]);
+  const last = messages.find((m) => m.messageId === references[references.length - 1]);
+  if (!first || !last) return null;
+
+  return {
+    subject: /^re:/i.test(first.subject) ? first.subject : `Re: ${first.subject}`,
+    inReplyTo: references[references.length - 1],
+    references,
+    threadId: references[0],
+    fromEmail: last.fromEmail,
+  };
+}
+
+/**
+ * Filter for touchpoints the queue sends (email, plus SMS/WhatsApp when a provider is set up)
+ * that are pending in an active campaign, not frozen by a pause, approved if their copy needs
+ * review, and not waiting on an earlier step, such as an open call task
+ */
+function pendingSendFilter(campaignId?: string) {
+  return and(
+    eq(leadTouchpoints.status, "pending"),
+    isNull(leadTouchpoints.pausedAt),
+    or(isNull(leadTouchpoints.reviewStatus), eq(leadTouchpoints.reviewStatus, "approved")),
+    inArray(leadTouchpoints.channel, ["email", ...getAutoSendChannels()]),
+    eq(campaigns.status, "active"),
+    campaignId ? eq(campaigns.id, campaignId) : undefined,
+    noEarlierStepPending()
+  );
+}
+
+/**
+ * Atomically claim due touchpoints for this worker
+ */
+async function claimDueTouchpoints(limit: number, campaignId?: string): Promise<string[]> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - CLAIM_TIMEOUT_MS);
+
+  const due = db
+    .select({ id: leadTouchpoints.id })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+    .where(
+      and(
+        pendingSendFilter(campaignId),
+        lte(leadTouchpoints.scheduledAt, now),
+        or(isNull(leadTouchpoints.lockedAt), lt(leadTouchpoints.lockedAt, staleBefore))
+      )
+    )
+    .orderBy(asc(leadTouchpoints.scheduledAt))
+    .limit(limit)
+    .for("update", { of: leadTouchpoints, skipLocked: true });
+
+  const claimed = await db
+    .update(leadTouchpoints)
+    .set({ lockedAt: now, lockedBy: WORKER_ID })
+    .where(inArray(leadTouchpoints.id, due))
+    .returning({ id: leadTouchpoints.id, scheduledAt: leadTouchpoints.scheduledAt });
+
+  return claimed
+    .sort((a, b) => (a.scheduledAt?.getTime() || 0) - (b.scheduledAt?.getTime() || 0))
+    .map((c) => c.id);
+}
+
+/**
+ * Release a claim held by this worker, optionally updating the row
+ */
+async function releaseClaim(
+  touchpointId: string,
+  patch: Partial<typeof leadTouchpoints.$inferInsert> = {}
+): Promise<void> {
+  await db
+    .update(leadTouchpoints)
+    .set({ ...patch, lockedAt: null, lockedBy: null, updatedAt: new Date() })
+    .where(
+      and(eq(leadTouchpoints.id, touchpointId), eq(leadTouchpoints.lockedBy, WORKER_ID))
+    );
+}
+
+/**
+ * Emails the campaign can still send today under its daily limit (null when it has none).
+ * The day runs midnight to midnight in the campaign timezone.
+ */
+export async function getRemainingDailySends(campaign: {
+  id: string;
+  dailyLimit: number | null;
+  schedulingSettings: SendWindowSettings | null;
+}): Promise<number | null> {
+  if (!campaign.dailyLimit) return null;
+
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .where(
+      and(
+        eq(leads.campaignId, campaign.id),
+        eq(leadTouchpoints.channel, "email"),
+        gte(leadTouchpoints.sentAt, getLocalDayStart(new Date(), campaign.schedulingSettings))
+      )
+    );
+
+  return Math.max(0, campaign.dailyLimit - (row?.count || 0));
+}
+
+/**
+ * Retry a failed send later if the error is transient and attempts remain, otherwise fail it
+ */
+async function retryOrFail(
+  touchpointId: string,
+  attempts: number,
+  result: { error?: string; retryable?: boolean },
+  recipient: string,
+  errors: string[]
+): Promise<TouchpointOutcome> {
+  const errMsg = `${recipient}: ${result.error || "Send failed"}`;
+  errors.push(errMsg);
+
+  if (result.retryable && attempts < MAX_ATTEMPTS) {
+    console.warn(`[Send Queue] Retrying later (attempt ${attempts}/${MAX_ATTEMPTS}): ${errMsg}`);
+    await releaseClaim(touchpointId, {
+      scheduledAt: new Date(Date.now() + RETRY_BACKOFF_MS * attempts),
+      errorMessage: result.error,
+    });
+    return "retried";
+  }
+
+  console.error(`[Send Queue] Failed: ${errMsg}`);
+  await releaseClaim(touchpointId, { status: "failed", errorMessage: result.error });
+  return "failed";
+}
+
+/**
+ * Send one claimed SMS or WhatsApp touchpoint through the messaging provider
+ * (window and branching checks have already passed)
+ */
+async function sendMessageTouchpoint(
+  tp: {
+    touchpointId: string;
+    leadId: string;
+    channel: MessagingChannel;
+    attempts: number | null;
+    lead: Lead;
+    templateId: string | null;
+    stepNumber: number;
+    templateBody: string | null;
+    variantId: string | null;
+  },
+  errors: string[]
+): Promise<TouchpointOutcome> {
+  const { touchpointId, lead } = tp;
+
+  if (!tp.templateBody) {
+    const errMsg = `${lead.firstName}: No message content (body missing)`;
+    console.error(`[Send Queue] ${errMsg}`);
+    errors.push(errMsg);
+    await releaseClaim(touchpointId, { status: "failed", errorMessage: errMsg });
+    return "failed";
+  }
+
+  const rendered = renderTemplate(tp.templateBody, await getTemplateContext(lead), {
+    seed: getVariationSeed(tp.leadId, tp.stepNumber, "body"),
+  });
+  if (rendered.missing.length > 0) {
+    const errMsg = `${lead.firstName}: Unresolved variables: ${rendered.missing.join(", ")}`;
+    console.error(`[Send Queue] ${errMsg}`);
+    errors.push(errMsg);
+    await releaseClaim(touchpointId, { status: "failed", errorMessage: errMsg });
+    return "failed";
+  }
+
+  const attempts = (tp.attempts || 0) + 1;
+  await db
+    .update(leadTouchpoints)
+    .set({ attempts })
+    .where(eq(leadTouchpoints.id, touchpointId));
+
+  console.log(`[Send Queue] Sending step ${tp.stepNumber} (${tp.channel}) to ${lead.firstName} ${lead.lastName}`);
+
+  const result = await sendMessage({
+    channel: tp.channel,
+    leadId: tp.leadId,
+    leadEmail: lead.email,
+    phone: lead.phone,
+    country: lead.schoolCountry,
+    body: rendered.output,
+    touchpointId,
+  });
+
+  if (result.suppressed) {
+    await releaseClaim(touchpointId, { status: "cancelled", errorMessage: result.error });
+    return "suppressed";
+  }
+
+  if (!result.success) {
+    return retryOrFail(touchpointId, attempts, result, lead.firstName, errors);
+  }
+
+  console.log(`[Send Queue] ✓ Sent ${tp.channel} to ${result.to} via ${result.provider}`);
+
+  // sendMessage already marked the touchpoint as sent with the provider's message ID
+  await releaseClaim(touchpointId, { errorMessage: null });
+
+  if (tp.variantId && tp.templateId) {
+    try {
+      await maybePromoteWinner(tp.templateId);
+    } catch (error) {
+      console.error("[Send Queue] A/B winner check failed:", error);
+    }
+  }
+
+  return "sent";
+}
+
+/**
+ * Send one claimed touchpoint
+ */
+async function sendTouchpoint(
+  touchpointId: string,
+  errors: string[]
+): Promise<TouchpointOutcome> {
+  const [tp] = await db
+    .select({
+      touchpointId: leadTouchpoints.id,
+      leadId: leadTouchpoints.leadId,
+      channel: leadTouchpoints.channel,
+      stepNumber: leadTouchpoints.stepNumber,
+      attempts: leadTouchpoints.attempts,
+      // Copy written for this lead (sequences without a step template, or personalised steps)
+      ownSubject: leadTouchpoints.subject,
+      ownBody: leadTouchpoints.body,
+      campaignId: campaigns.id,
+      schedulingSettings: campaigns.schedulingSettings,
+      dailyLimit: campaigns.dailyLimit,
+      senderRotation: campaigns.senderRotation,
+      preferredDomainIds: campaigns.preferredDomainIds,
+      // Lead data
+      leadFirstName: leads.firstName,
+      leadEmail: leads.email,
+      leadTimezone: leads.timezone,
+      lead: leads, // Full row for template variables
+      // Touchpoint template data (null for sequences written per lead)
+      templateSubject: touchpointTemplates.subject,
+      templateBody: touchpointTemplates.body,
+      templateReplyInThread: touchpointTemplates.replyInThread,
+      templatePreferredTimeOfDay: touchpointTemplates.preferredTimeOfDay,
+      templateId: touchpointTemplates.id,
+      templateCondition: touchpointTemplates.condition,
+      // A/B variant (null subject/body fall back to the step's)
+      variantId: leadTouchpoints.variantId,
+      variantSubject: touchpointVariants.subject,
+      variantBody: touchpointVariants.body,
+    })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+    .leftJoin(touchpointTemplates, eq(leadTouchpoints.touchpointTemplateId, touchpointTemplates.id))
+    .leftJoin(touchpointVariants, eq(leadTouchpoints.variantId, touchpointVariants.id))
+    .where(eq(leadTouchpoints.id, touchpointId))
+    .limit(1);
+
+  if (!tp) {
+    await releaseClaim(touchpointId, { status: "failed", errorMessage: "Touchpoint lead or campaign missing" });
+    return "failed";
+  }
+
+  // Validate recipient email
+  if (tp.channel === "email" && (!tp.leadEmail || tp.leadEmail.includes("@placeholder.local"))) {
+    const errMsg = `${tp.leadFirstName}: Invalid or missing email address`;
+    console.error(`[Send Queue] ${errMsg}`);
+    errors.push(errMsg);
+    await releaseClaim(touchpointId, { status: "failed", errorMessage: errMsg });
+    return "failed";
+  }
+
+  // The window may have closed since launch (or the settings changed) - move to the next open slot
+  const now = new Date();
+  const sendWindow = resolveSendWindow(tp.schedulingSettings, {
+    leadTimezone: tp.leadTimezone,
+    preferredTimeOfDay: tp.templatePreferredTimeOfDay,
+  });
+  if (!isWithinSendWindow(now, sendWindow)) {
+    const nextSlot = scheduleInSendWindow(now, sendWindow);
+    console.log(`[Send Queue] Outside sending window for ${tp.leadEmail}, rescheduled to ${nextSlot.toISOString()}`);
+    await releaseClaim(touchpointId, { scheduledAt: nextSlot });
+    return "rescheduled";
+  }
+
+  // The lead's own copy (written sequences, or a personalised campaign step) wins over the template.
+  // Threaded steps have a body of their own but no subject, so each falls back on its own.
+  let templateSubject = tp.ownBody
+    ? tp.ownSubject
+    : tp.templateId ? tp.variantSubject ?? tp.templateSubject : null;
+  let templateBody = tp.ownBody ?? (tp.templateId ? tp.variantBody ?? tp.templateBody : null);
+
+  // Branching: decided now, against what the lead has done with earlier steps
+  if (tp.templateCondition?.rules.length) {
+    const condition = await evaluateStepCondition(tp.leadId, tp.templateCondition);
+
+    if (!condition.met && tp.templateCondition.otherwise !== "send") {
+      console.log(`[Send Queue] Skipping step ${tp.stepNumber} for ${tp.leadEmail}: condition not met (${condition.reason})`);
+      await releaseClaim(touchpointId, {
+        status: "skipped",
+        errorMessage: `Condition not met: ${condition.reason}`,
+      });
+      return "skipped";
+    }
+
+    // Met - send the branch's variant instead of the assigned one, unless the lead has its own copy
+    if (
+      condition.met &&
+      !tp.ownBody &&
+      tp.templateCondition.variantId &&
+      tp.templateCondition.variantId !== tp.variantId
+    ) {
+      const [branchVariant] = await db
+        .select()
+        .from(touchpointVariants)
+        .where(eq(touchpointVariants.id, tp.templateCondition.variantId))
+        .limit(1);
+
+      if (branchVariant) {
+        templateSubject = branchVariant.subject ?? tp.templateSubject;
+        templateBody = branchVariant.body ?? tp.templateBody;
+        await db
+          .update(leadTouchpoints)
+          .set({ variantId: branchVariant.id, updatedAt: new Date() })
+          .where(eq(leadTouchpoints.id, touchpointId));
+      }
+    }
+  }
+
+  if (tp.channel === "sms" || tp.channel === "whatsapp") {
+    return sendMessageTouchpoint({ ...tp, channel: tp.channel, templateBody }, errors);
+  }
+
+  // Validate email content (threaded steps reuse the step-1 subject)
+  if (!templateBody || (!templateSubject && !tp.templateReplyInThread)) {
+    const errMsg = `${tp.leadFirstName}: No email content (subject or body missing)`;
+    console.error(`[Send Queue] ${errMsg}`);
+    errors.push(errMsg);
+    await releaseClaim(touchpointId, { status: "failed", errorMessage: errMsg });
+    return "failed";
+  }
+
+  // The campaign's daily limit is used up - wait for tomorrow's window
+  const remainingToday = await getRemainingDailySends({
+    id: tp.campaignId,
+    dailyLimit: tp.dailyLimit,
+    schedulingSettings: tp.schedulingSettings,
+  });
+  if (remainingToday === 0) {
+    const nextSlot = scheduleInSendWindow(getLocalDayStart(now, tp.schedulingSettings, 1), sendWindow);
+    console.log(`[Send Queue] Campaign ${tp.campaignId} reached its daily limit (${tp.dailyLimit}), ${tp.leadEmail} rescheduled to ${nextSlot.toISOString()}`);
+    await releaseClaim(touchpointId, { scheduledAt: nextSlot });
+    return "rescheduled";
+  }
+
+  // Replies in thread go out from the mailbox that sent the previous step
+  const thread = tp.templateReplyInThread && tp.stepNumber > 1
+    ? await getThreadContext(tp.leadId, tp.stepNumber)
+    : null;
+  let threadDomain = thread ? await findDomainByFromAddress(thread.fromEmail) : null;
+  if (thread && (!threadDomain?.isActive || threadDomain.isPaused)) {
+    console.warn(`[Send Queue] Mailbox ${thread.fromEmail} is inactive or paused, starting a new thread for ${tp.leadEmail}`);
+    threadDomain = null;
+  }
+
+  // Later steps stay on the lead's mailbox; the first one is picked by the campaign's rotation
+  const ownerDomain = threadDomain || (await getPinnedDomain(tp.leadId));
+
+  // Pick a domain that has capacity and is past its send delay
+  const selected = await selectSendingDomain({
+    respectDelay: true,
+    ...(ownerDomain ? { onlyDomainId: ownerDomain.id } : getCampaignRotation(tp)),
+  });
+  if (!selected) {
+    if (ownerDomain) {
+      // Only the lead's mailbox will do - try it again later without holding up the batch
+      await releaseClaim(touchpointId, {
+        scheduledAt: new Date(Date.now() + LEAD_MAILBOX_RETRY_MS),
+      });
+      return "rescheduled";
+    }
+    await releaseClaim(touchpointId);
+    return "deferred";
+  }
+
+  const templateContext = await getTemplateContext(tp.lead, selected.domain);
+  const renderedSubject = renderTemplate(templateSubject, templateContext, {
+    seed: getVariationSeed(tp.leadId, tp.stepNumber, "subject"),
+  });
+  const renderedBody = renderTemplate(templateBody, templateContext, {
+    seed: getVariationSeed(tp.leadId, tp.stepNumber, "body"),
+  });
+  const threaded = threadDomain ? thread : null;
+  const subject = threaded ? threaded.subject : renderedSubject.output;
+
+  if (!subject) {
+    const errMsg = `${tp.leadFirstName}: No subject line (step replies in thread but no earlier email was found)`;
+    console.error(`[Send Queue] ${errMsg}`);
+    errors.push(errMsg);
+    await releaseClaim(touchpointId, { status: "failed", errorMessage: errMsg });
+    return "failed";
+  }
+
+  // Never send a blank where a variable should be - fix the lead or add a default and retry
+  const missing = new Set([
+    ...(threaded ? [] : renderedSubject.missing),
+    ...renderedBody.missing,
+  ]);
+  if (missing.size > 0) {
+    const errMsg = `${tp.leadFirstName}: Unresolved variables: ${[...missing].join(", ")}`;
+    console.error(`[Send Queue] ${errMsg}`);
+    errors.push(errMsg);
+    await releaseClaim(touchpointId, { status: "failed", errorMessage: errMsg });
+    return "failed";
+  }
+  const body = renderedBody.output;
+  const attempts = (tp.attempts || 0) + 1;
+
+  await db
+    .update(leadTouchpoints)
+    .set({ attempts })
+    .where(eq(leadTouchpoints.id, touchpointId));
+
+  console.log(`[Send Queue] Sending step ${tp.stepNumber} to ${tp.leadEmail} via ${selected.domain.domain}`);
+
+  const result = await sendEmail({
+    to: tp.leadEmail,
+    subject,
+    body,
+    leadId: tp.leadId,
+    domainId: selected.domain.id,
+    touchpointId: tp.touchpointId,
+    inReplyTo: threaded?.inReplyTo,
+    references: threaded?.references,
+    threadId: threaded?.threadId,
+  });
+
+  if (result.suppressed) {
+    // Never retry - the recipient opted out or can't receive mail
+    await releaseClaim(touchpointId, { status: "cancelled", errorMessage: result.error });
+    return "suppressed";
+  }
+
+  if (!result.success) {
+    return retryOrFail(touchpointId, attempts, result, tp.leadFirstName, errors);
+  }
+
+  console.log(`[Send Queue] ✓ Sent to ${tp.leadEmail} via ${result.domain}`);
+
+  // sendEmail already marked the touchpoint as sent with its tracking ID
+  await releaseClaim(touchpointId, { errorMessage: null });
+
+  // Update lead status to emailing if this is their first email
+  if (tp.stepNumber === 1) {
+    await db
+      .update(leads)
+      .set({ status: "emailing", updatedAt: new Date() })
+      .where(eq(leads.id, tp.leadId));
+  }
+
+  await db
+    .update(campaigns)
+    .set({
+      emailsSent: sql`COALESCE(${campaigns.emailsSent}, 0) + 1`,
+      updatedAt: new Date(),
+    })
+    .where(eq(campaigns.id, tp.campaignId));
+
+  if (tp.variantId && tp.templateId) {
+    try {
+      await maybePromoteWinner(tp.templateId);
+    } catch (error) {
+      console.error("[Send Queue] A/B winner check failed:", error);
+    }
+  }
+
+  return "sent";
+}
+
+/**
+ * Claim and send one batch of due touchpoints
+ */
+export async function runQueueTick(options: QueueTickOptions = {}): Promise<QueueTickResult> {
+  const { campaignId, limit = DEFAULT_BATCH_SIZE } = options;
+  const result: QueueTickResult = {
+    claimed: 0,
+    sent: 0,
+    failed: 0,
+    retried: 0,
+    deferred: 0,
+    rescheduled: 0,
+    suppressed: 0,
+    skipped: 0,
+    resumed: 0,
+    released: 0,
+    errors: [],
+  };
+
+  // Leads back from out of office re-flow first, so their due steps are claimed below
+  result.resumed = await resumeDueLeads();
+
+  // Manual tasks whose condition isn't met are skipped here too, moving their leads on
+  result.skipped += await skipUnmetTasks(campaignId);
+
+  result.released = await releaseStaleDrafts();
+
+  const claimedIds = await claimDueTouchpoints(limit, campaignId);
+  result.claimed = claimedIds.length;
+
+  for (let i = 0; i < claimedIds.length; i++) {
+    const touchpointId = claimedIds[i];
+    let outcome: TouchpointOutcome;
+
+    try {
+      outcome = await sendTouchpoint(touchpointId, result.errors);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : "Send failed";
+      console.error(`[Send Queue] Exception sending touchpoint ${touchpointId}:`, error);
+      result.errors.push(errMsg);
+      await releaseClaim(touchpointId, { status: "failed", errorMessage: errMsg });
+      outcome = "failed";
+    }
+
+    result[outcome]++;
+
+    // No domain is ready - hand the rest of the batch back to the queue
+    if (outcome === "deferred") {
+      const remaining = claimedIds.slice(i + 1);
+      await Promise.all(remaining.map((id) => releaseClaim(id)));
+      result.deferred += remaining.length;
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Queue depth and lag across all active campaigns
+ */
+export async function getQueueStats(): Promise<QueueStats> {
+  const now = new Date();
+
+  const [row] = await db
+    .select({
+      depth: sql<number>`count(*) filter (where ${leadTouchpoints.scheduledAt} <= ${now} and ${leadTouchpoints.lockedAt} is null)::int`,
+      scheduled: sql<number>`count(*) filter (where ${leadTouchpoints.scheduledAt} > ${now})::int`,
+      inFlight: sql<number>`count(*) filter (where ${leadTouchpoints.lockedAt} is not null)::int`,
+      oldestDueAt: sql<Date | null>`min(${leadTouchpoints.scheduledAt}) filter (where ${leadTouchpoints.scheduledAt} <= ${now})`.mapWith(leadTouchpoints.scheduledAt),
+    })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .innerJoin(campaigns, eq(leads.campaignId, campaigns.id))
+    .where(pendingSendFilter());
+
+  const oldestDueAt = row?.oldestDueAt || null;
+
+  return {
+    depth: row?.depth || 0,
+    scheduled: row?.scheduled || 0,
+    inFlight: row?.inFlight || 0,
+    oldestDueAt,
+    lagSeconds: oldestDueAt ? Math.max(0, Math.round((now.getTime() - oldestDueAt.getTime()) / 1000)) : 0,
+    nextDomainReadyAt: await getNextDomainReadyAt(),
+    worker: {
+      id: WORKER_ID,
+      running: workerState.running,
+      lastTickAt: workerState.lastTickAt,
+    },
+  };
+}
+
+// ============================================
+// WORKER LOOP
+// ============================================
+
+/**
+ * How long to sleep before the next tick
+ */
+async function nextSleepMs(tick: QueueTickResult): Promise<number> {
+  // Still work to do and a domain was free - go again right away
+  if (tick.sent > 0 && tick.deferred === 0) {
+    return MIN_SLEEP_MS;
+  }
+
+  if (tick.deferred > 0) {
+    const readyAt = await getNextDomainReadyAt();
+    if (readyAt) {
+      return Math.min(POLL_INTERVAL_MS, Math.max(MIN_SLEEP_MS, readyAt.getTime() - Date.now()));
+    }
+  }
+
+  return POLL_INTERVAL_MS;
+}
+
+async function workerLoop(): Promise<void> {
+  if (!workerState.running) return;
+
+  let sleepMs = POLL_INTERVAL_MS;
+  try {
+    const tick = await runQueueTick();
+    workerState.lastTickAt = new Date();
+
+    if (tick.claimed > 0) {
+      console.log(
+        `[Send Queue] Tick: ${tick.sent} sent, ${tick.failed} failed, ${tick.retried} retried, ${tick.deferred} deferred, ${tick.rescheduled} rescheduled, ${tick.suppressed} suppressed, ${tick.skipped} skipped`
+      );
+    }
+
+    sleepMs = await nextSleepMs(tick);
+  } catch (error) {
+    console.error("[Send Queue] Tick failed:", error);
+  }
+
+  if (workerState.running) {
+    workerState.timer = setTimeout(workerLoop, sleepMs);
+  }
+}
+
+/**
+ * Start the background worker in this process (no-op if already running)
+ */
+export function startSendWorker(): void {
+  if (workerState.running) return;
+
+  workerState.running = true;
+  console.log(`[Send Queue] Worker ${WORKER_ID} started`);
+  workerState.timer = setTimeout(workerLoop, MIN_SLEEP_MS);
+}
+
+/**
+ * Stop the background worker after its current tick
+ */
+export function stopSendWorker(): void {
+  workerState.running = false;
+  if (workerState.timer) {
+    clearTimeout(workerState.timer);
+    workerState.timer = null;
+  }
+  console.log(`[Send Queue] Worker ${WORKER_ID} stopped`);
+}
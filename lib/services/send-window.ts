@@ -0,0 +1,325 @@
+/**
+ * Send Window Service
+ *
+ * Keeps touchpoints inside a campaign's sending window (allowed days and hours
+ * in the campaign's timezone).
+ * - Launch uses scheduleInSendWindow() to place each step inside the window with random jitter
+ * - The send queue uses isWithinSendWindow() to re-check right before sending
+ * - resolveSendWindow() narrows the window per lead and step: the lead's own timezone
+ *   (when the campaign targets recipient-local time) and the step's preferred time of day
+ * - getLocalDayStart() gives the campaign's local day boundaries for its daily limit
+ *
+ * Campaigns without scheduling settings have no window - any time is allowed. A window with
+ * no sending days allows no time at all (the routes reject one, see getSendWindowError()).
+ */
+
+import type { Campaign } from "@/lib/db/schema";
+import { isValidTimezone } from "@/lib/utils/timezone";
+
+export type SendWindowSettings = NonNullable<Campaign["schedulingSettings"]>;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const DEFAULT_TIMEZONE = "UTC";
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_LOOKAHEAD_DAYS = 8; // One full week plus today
+const NO_SLOT_RETRY_MS = 24 * 60 * 60 * 1000; // A window with no days is checked again a day later
+
+// Local-time windows for touchpointTemplates.preferredTimeOfDay
+const TIME_OF_DAY_WINDOWS: Record<string, { start: string; end: string }> = {
+  morning: { start: "09:00", end: "11:00" },
+  afternoon: { start: "13:00", end: "16:00" },
+  evening: { start: "17:00", end: "19:00" },
+};
+
+interface NormalizedWindow {
+  timezone: string;
+  days: Set<string>;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface ScheduleOptions {
+  jitter?: boolean; // Pick a random time inside the window instead of its earliest slot (default true)
+}
+
+export interface SendWindowTarget {
+  leadTimezone?: string | null; // IANA timezone stored on the lead
+  preferredTimeOfDay?: string | null; // "morning", "afternoon", "evening"
+}
+
+/**
+ * Parse "HH:mm" (00:00 - 24:00) into minutes since midnight, or null if it isn't a valid time
+ */
+function parseTime(value: string | undefined): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const mins = parseInt(match[2], 10);
+  if (mins >= 60) return null;
+
+  const minutes = hours * 60 + mins;
+  return minutes <= MINUTES_PER_DAY ? minutes : null;
+}
+
+/**
+ * Why sending window settings can't be saved, or null if they're valid
+ */
+export function getSendWindowError(settings: unknown): string | null {
+  if (settings === null) return null;
+  if (typeof settings !== "object" || Array.isArray(settings)) {
+    return "schedulingSettings must be an object";
+  }
+
+  const { timezone, sendingDays, sendingTimeStart, sendingTimeEnd } = settings as Partial<SendWindowSettings>;
+
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    return `Unknown timezone "${timezone}". Use an IANA name like "Asia/Dubai".`;
+  }
+  if (
+    !Array.isArray(sendingDays) ||
+    sendingDays.length === 0 ||
+    sendingDays.some((day) => typeof day !== "string" || !WEEKDAYS.includes(day.toLowerCase()))
+  ) {
+    return "sendingDays must list at least one day of the week";
+  }
+  if (sendingTimeStart !== undefined && parseTime(sendingTimeStart) === null) {
+    return "sendingTimeStart must be a time between 00:00 and 24:00";
+  }
+  if (sendingTimeEnd !== undefined && parseTime(sendingTimeEnd) === null) {
+    return "sendingTimeEnd must be a time between 00:00 and 24:00";
+  }
+
+  return null;
+}
+
+/**
+ * Fill in defaults and drop invalid values so scheduling never fails on bad settings
+ */
+function normalizeWindow(settings: SendWindowSettings): NormalizedWindow {
+  const days = (settings.sendingDays || [])
+    .map((d) => d.toLowerCase())
+    .filter((d) => WEEKDAYS.includes(d));
+
+  const startMinutes = parseTime(settings.sendingTimeStart) ?? 0;
+  let endMinutes = parseTime(settings.sendingTimeEnd) ?? MINUTES_PER_DAY;
+  // Overnight windows are not supported - treat as "until midnight"
+  if (endMinutes <= startMinutes) endMinutes = MINUTES_PER_DAY;
+
+  return {
+    timezone: isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE,
+    // No days listed means no sending; days left out altogether (older settings) means any day
+    days: new Set(settings.sendingDays ? days : WEEKDAYS),
+    startMinutes,
+    endMinutes,
+  };
+}
+
+/**
+ * Wall-clock parts of a date in a timezone
+ */
+function getZonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in ms
+ */
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ */
+function zonedTimeToUtc(local: LocalDate, minutes: number, timezone: string): Date {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, 0, minutes);
+  const offset = getTimezoneOffsetMs(new Date(guess), timezone);
+  let result = guess - offset;
+
+  // Second pass when the guess and the result fall on different sides of a DST change
+  const correctedOffset = getTimezoneOffsetMs(new Date(result), timezone);
+  if (correctedOffset !== offset) {
+    result = guess - correctedOffset;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Calendar date in the timezone, shifted by a number of days
+ */
+function addLocalDays(local: LocalDate, days: number): LocalDate & { weekday: string } {
+  const d = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    weekday: WEEKDAYS[d.getUTCDay()],
+  };
+}
+
+/**
+ * First open slot in the window at or after `earliest`
+ */
+function findWindowSlot(
+  earliest: Date,
+  window: NormalizedWindow
+): { start: Date; end: Date } | null {
+  const today = getZonedParts(earliest, window.timezone);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+    const local = addLocalDays(today, i);
+    if (!window.days.has(local.weekday)) continue;
+
+    const windowStart = zonedTimeToUtc(local, window.startMinutes, window.timezone);
+    const windowEnd = zonedTimeToUtc(local, window.endMinutes, window.timezone);
+    const start = windowStart > earliest ? windowStart : earliest;
+
+    if (start < windowEnd) {
+      return { start, end: windowEnd };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Effective window for one lead and step.
+ * - With useRecipientTimezone, the campaign's days/hours apply in the lead's timezone
+ *   (falling back to the campaign timezone when the lead has none)
+ * - A step's preferredTimeOfDay replaces the campaign hours with that part of the day
+ * Returns null when neither the campaign nor the step restrict send times.
+ */
+export function resolveSendWindow(
+  settings: SendWindowSettings | null | undefined,
+  target: SendWindowTarget = {}
+): SendWindowSettings | null {
+  const timeOfDay = target.preferredTimeOfDay
+    ? TIME_OF_DAY_WINDOWS[target.preferredTimeOfDay.toLowerCase()]
+    : undefined;
+  const leadTimezone = isValidTimezone(target.leadTimezone) ? target.leadTimezone : null;
+
+  if (!settings && !timeOfDay) return null;
+
+  const resolved: SendWindowSettings = settings
+    ? { ...settings }
+    : { timezone: leadTimezone || DEFAULT_TIMEZONE, sendingDays: [...WEEKDAYS], sendingTimeStart: "00:00", sendingTimeEnd: "24:00" };
+
+  if (settings?.useRecipientTimezone && leadTimezone) {
+    resolved.timezone = leadTimezone;
+  }
+
+  if (timeOfDay) {
+    resolved.sendingTimeStart = timeOfDay.start;
+    resolved.sendingTimeEnd = timeOfDay.end;
+  }
+
+  return resolved;
+}
+
+/**
+ * Check whether a moment falls inside the sending window
+ */
+export function isWithinSendWindow(
+  date: Date,
+  settings: SendWindowSettings | null | undefined
+): boolean {
+  if (!settings) return true;
+
+  const window = normalizeWindow(settings);
+  const slot = findWindowSlot(date, window);
+  return !!slot && slot.start.getTime() === date.getTime();
+}
+
+/**
+ * Pick a send time inside the first window slot at or after `earliest`.
+ * With jitter (default) the time is random within the rest of that day's window,
+ * so a batch of leads doesn't all go out at the same minute.
+ */
+export function scheduleInSendWindow(
+  earliest: Date,
+  settings: SendWindowSettings | null | undefined,
+  options: ScheduleOptions = {}
+): Date {
+  if (!settings) return earliest;
+
+  const { jitter = true } = options;
+  const slot = findWindowSlot(earliest, normalizeWindow(settings));
+  // Only a window without days has no slot in a week - hold the step and look again later
+  if (!slot) return new Date(earliest.getTime() + NO_SLOT_RETRY_MS);
+
+  if (!jitter) return slot.start;
+
+  const span = slot.end.getTime() - slot.start.getTime();
+  return new Date(slot.start.getTime() + Math.floor(Math.random() * span));
+}
+
+/**
+ * Schedule a step `delayDays` calendar days after the previous one, inside the window.
+ * Delays count whole days in the campaign timezone, so a step after a 3-day delay can land
+ * anywhere in the window on that day (or the next allowed day), never sooner.
+ */
+export function scheduleStepInSendWindow(
+  previous: Date,
+  delayDays: number,
+  settings: SendWindowSettings | null | undefined,
+  options: ScheduleOptions = {}
+): Date {
+  if (!settings) {
+    const scheduled = new Date(previous);
+    scheduled.setDate(scheduled.getDate() + delayDays);
+    return scheduled;
+  }
+
+  if (delayDays <= 0) {
+    return scheduleInSendWindow(previous, settings, options);
+  }
+
+  const timezone = normalizeWindow(settings).timezone;
+  const targetDay = addLocalDays(getZonedParts(previous, timezone), delayDays);
+  const startOfDay = zonedTimeToUtc(targetDay, 0, timezone);
+
+  return scheduleInSendWindow(startOfDay, settings, options);
+}
+
+/**
+ * Midnight in the window's timezone on the day of `date`, shifted by `days`.
+ * Used for per-day counts (e.g. a campaign's daily limit) that reset at local midnight.
+ */
+export function getLocalDayStart(
+  date: Date,
+  settings: SendWindowSettings | null | undefined,
+  days = 0
+): Date {
+  const timezone = settings ? normalizeWindow(settings).timezone : DEFAULT_TIMEZONE;
+  return zonedTimeToUtc(addLocalDays(getZonedParts(date, timezone), days), 0, timezone);
+}
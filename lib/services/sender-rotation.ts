@@ -8,10 +8,12 @@
  * - Throttle based on signals (bounces, complaints)
  * - Match signatures to domains when possible
  * - Auto-pause problematic domains
+ * - Apply each campaign's rotation setting and preferred domains
+ * - Keep a lead on the mailbox that sent its first email
  */
 
 import { db } from "@/lib/db";
-import { sendingDomains } from "@/lib/db/schema";
+import { sendingDomains, leads } from "@/lib/db/schema";
 import { eq, and, sql, gt } from "drizzle-orm";
 import {
   calculateDailyLimit,
@@ -42,10 +44,17 @@ export type RotationStrategy =
 export interface SelectDomainOptions {
   signatureName?: string;        // Name to match against domain (e.g., "Kanishk")
   preferredDomainId?: string;    // Force a specific domain if available
+  onlyDomainId?: string;         // Only consider this domain (null if it isn't available)
+  allowedDomainIds?: string[];   // Only consider these domains (empty or unset = all)
   strategy?: RotationStrategy;   // How to select among available domains
   skipPaused?: boolean;          // Skip paused domains (default: true)
+  respectDelay?: boolean;        // Skip domains still cooling down since their last send
 }
 
+// campaigns.senderRotation values
+export const SENDER_ROTATIONS = ["auto", "fixed", "round_robin"] as const;
+export type SenderRotation = (typeof SENDER_ROTATIONS)[number];
+
 export interface SelectedDomain {
   domain: typeof sendingDomains.$inferSelect;
   dailyLimit: number;
@@ -115,6 +124,17 @@ function calculateDelay(domain: typeof sendingDomains.$inferSelect): number {
   return Math.round(finalDelay);
 }
 
+/**
+ * Check if enough time has passed since the domain's last send
+ */
+function isPastDelay(
+  domain: typeof sendingDomains.$inferSelect,
+  delayMs: number
+): boolean {
+  if (!domain.lastSentAt) return true;
+  return Date.now() - domain.lastSentAt.getTime() >= delayMs;
+}
+
 /**
  * Check if domain name/email matches a signature
  */
@@ -139,11 +159,18 @@ export async function selectSendingDomain(
   const {
     signatureName,
     preferredDomainId,
+    onlyDomainId,
+    allowedDomainIds,
     strategy = "capacity-based",
     skipPaused = true,
+    respectDelay = false,
   } = options;
 
-  const domains = await getActiveDomains(skipPaused);
+  const domains = (await getActiveDomains(skipPaused)).filter(
+    (d) =>
+      (!onlyDomainId || d.id === onlyDomainId) &&
+      (!allowedDomainIds?.length || allowedDomainIds.includes(d.id))
+  );
 
   if (domains.length === 0) {
     console.log("[Rotation] No active domains available");
@@ -180,13 +207,20 @@ export async function selectSendingDomain(
     };
   });
 
-  // Filter out domains that should be paused or have no capacity
+  // Filter out domains that should be paused, have no capacity or are cooling down
   const availableDomains = domainsWithStats.filter(
-    (d) => d.remainingCapacity > 0 && !d.shouldPause
+    (d) =>
+      d.remainingCapacity > 0 &&
+      !d.shouldPause &&
+      (!respectDelay || isPastDelay(d.domain, d.recommendedDelayMs))
   );
 
   if (availableDomains.length === 0) {
-    console.log("[Rotation] All domains at capacity or paused");
+    console.log(
+      respectDelay
+        ? "[Rotation] All domains at capacity, paused or cooling down"
+        : "[Rotation] All domains at capacity or paused"
+    );
     return null;
   }
 
@@ -270,6 +304,69 @@ export async function selectSendingDomain(
   return null;
 }
 
+/**
+ * Domain selection for a campaign's sender rotation setting:
+ * - "auto": the domain with the most capacity left
+ * - "round_robin": spread sends evenly (fewest sent today first)
+ * - "fixed": always the campaign's first preferred domain
+ * Only the campaign's preferred domains are used when it has any.
+ */
+export function getCampaignRotation(campaign: {
+  senderRotation: string | null;
+  preferredDomainIds: string[] | null;
+}): Pick<SelectDomainOptions, "strategy" | "allowedDomainIds"> {
+  const preferred = campaign.preferredDomainIds || [];
+
+  switch (campaign.senderRotation) {
+    case "fixed":
+      return { strategy: "capacity-based", allowedDomainIds: preferred.slice(0, 1) };
+    case "round_robin":
+      return { strategy: "round-robin", allowedDomainIds: preferred };
+    default:
+      return { strategy: "capacity-based", allowedDomainIds: preferred };
+  }
+}
+
+/**
+ * The mailbox a lead is pinned to, if it still exists, is active and isn't paused. A paused
+ * mailbox may stay paused indefinitely, so its leads move on through the campaign's rotation
+ * (and are re-pinned to the mailbox that sends to them next).
+ */
+export async function getPinnedDomain(
+  leadId: string
+): Promise<typeof sendingDomains.$inferSelect | null> {
+  const [pinned] = await db
+    .select({ domain: sendingDomains })
+    .from(leads)
+    .innerJoin(sendingDomains, eq(leads.senderDomainId, sendingDomains.id))
+    .where(
+      and(
+        eq(leads.id, leadId),
+        eq(sendingDomains.isActive, true),
+        eq(sendingDomains.isPaused, false)
+      )
+    )
+    .limit(1);
+
+  return pinned?.domain || null;
+}
+
+/**
+ * Pin a lead to the mailbox that just emailed it. Only changes an existing pin when that
+ * mailbox could no longer be used.
+ */
+export async function pinLeadSender(leadId: string, domainId: string): Promise<void> {
+  await db
+    .update(leads)
+    .set({ senderDomainId: domainId, updatedAt: new Date() })
+    .where(
+      and(
+        eq(leads.id, leadId),
+        sql`${leads.senderDomainId} IS DISTINCT FROM ${domainId}`
+      )
+    );
+}
+
 /**
  * Record a send and update domain stats
  */
@@ -279,7 +376,8 @@ export async function recordSend(
   const result = await db
     .update(sendingDomains)
     .set({
-      sentToday: sql`${sendingDomains.sentToday} + 1`,
+      sentToday: sql`COALESCE(${sendingDomains.sentToday}, 0) + 1`,
+      lastSentAt: new Date(),
       updatedAt: new Date(),
     })
     .where(eq(sendingDomains.id, domainId))
@@ -294,6 +392,35 @@ export async function recordSend(
   };
 }
 
+/**
+ * When the next domain with capacity comes out of its send delay.
+ * Returns null if no domain has capacity left today.
+ */
+export async function getNextDomainReadyAt(): Promise<Date | null> {
+  const domains = await getActiveDomains();
+
+  let earliest: number | null = null;
+  for (const domain of domains) {
+    const schedule = (domain.warmupSchedule as WarmupScheduleType) || "standard";
+    const dailyLimit = calculateDailyLimit(
+      domain.warmupStartDate || new Date(),
+      schedule,
+      domain.dailyLimit,
+      domain.healthScore
+    );
+    if ((domain.sentToday || 0) >= dailyLimit) continue;
+
+    const readyAt = domain.lastSentAt
+      ? domain.lastSentAt.getTime() + calculateDelay(domain)
+      : Date.now();
+    if (earliest === null || readyAt < earliest) {
+      earliest = readyAt;
+    }
+  }
+
+  return earliest === null ? null : new Date(earliest);
+}
+
 /**
  * Increase throttle delay for a domain (after bounce/complaint)
  */
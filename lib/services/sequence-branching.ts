@@ -0,0 +1,78 @@
+/**
+ * Sequence Branching Service
+ *
+ * Evaluates a step's condition (see lib/utils/step-conditions.ts) for one lead
+ * against the emailEvents recorded on that lead's earlier touchpoints.
+ * Steps that were never sent have no events, so "not opened" holds for them.
+ *
+ * Leads also move through steps in order: a step isn't due while an earlier one
+ * (e.g. a manual call task) is still pending.
+ */
+
+import { db } from "@/lib/db";
+import { leadTouchpoints, emailEvents } from "@/lib/db/schema";
+import { eq, and, lt, inArray, notExists } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { describeCondition, type StepCondition } from "@/lib/utils/step-conditions";
+
+const earlierStep = alias(leadTouchpoints, "earlier_step");
+
+export interface ConditionResult {
+  met: boolean;
+  reason: string; // Summary of the condition, for logs and skipped touchpoints
+}
+
+/**
+ * Check a step condition for a lead
+ */
+export async function evaluateStepCondition(
+  leadId: string,
+  condition: StepCondition
+): Promise<ConditionResult> {
+  const reason = describeCondition(condition);
+  if (condition.rules.length === 0) return { met: true, reason };
+
+  const stepNumbers = [...new Set(condition.rules.map((r) => r.stepNumber))];
+
+  const events = await db
+    .select({
+      stepNumber: leadTouchpoints.stepNumber,
+      eventType: emailEvents.eventType,
+    })
+    .from(emailEvents)
+    .innerJoin(leadTouchpoints, eq(emailEvents.touchpointId, leadTouchpoints.id))
+    .where(
+      and(
+        eq(leadTouchpoints.leadId, leadId),
+        inArray(leadTouchpoints.stepNumber, stepNumbers),
+        inArray(emailEvents.eventType, ["opened", "clicked", "replied"])
+      )
+    );
+
+  const seen = new Set(events.map((e) => `${e.stepNumber}:${e.eventType}`));
+  const results = condition.rules.map(
+    (rule) => seen.has(`${rule.stepNumber}:${rule.event}`) === rule.happened
+  );
+
+  const met = condition.match === "any" ? results.some(Boolean) : results.every(Boolean);
+  return { met, reason };
+}
+
+/**
+ * Filter for touchpoints whose earlier steps are all done (sent, skipped, cancelled...).
+ * Use in queries over leadTouchpoints.
+ */
+export function noEarlierStepPending() {
+  return notExists(
+    db
+      .select({ id: earlierStep.id })
+      .from(earlierStep)
+      .where(
+        and(
+          eq(earlierStep.leadId, leadTouchpoints.leadId),
+          lt(earlierStep.stepNumber, leadTouchpoints.stepNumber),
+          eq(earlierStep.status, "pending")
+        )
+      )
+  );
+}
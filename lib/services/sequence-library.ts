@@ -0,0 +1,425 @@
+/**
+ * Sequence Library Service
+ *
+ * Workspace-level sequences that outlive the campaign they were built in:
+ * - Saving a campaign's sequence snapshots its steps, delays, channels, variants,
+ *   conditions and personalization notes as a new library version
+ * - Versions are immutable - editing a library sequence adds a version
+ * - Using a library sequence copies one version into a campaign's own touchpoint
+ *   templates, so later library edits never change a running campaign
+ * - The campaign's sequence remembers the version it came from (libraryVersionId)
+ */
+
+import { db } from "@/lib/db";
+import {
+  sequenceLibrary,
+  sequenceLibraryVersions,
+  sequenceTemplates,
+  touchpointTemplates,
+  touchpointVariants,
+  leadTouchpoints,
+  campaigns,
+  type SequenceLibraryTemplate,
+  type SequenceLibraryVersion,
+} from "@/lib/db/schema";
+import { eq, and, asc, desc, inArray, sql } from "drizzle-orm";
+import { validateCondition } from "@/lib/utils/step-conditions";
+
+export type LibraryStep = SequenceLibraryVersion["steps"][number];
+
+const STEP_CHANNELS: LibraryStep["channel"][] = [
+  "email",
+  "linkedin_message",
+  "linkedin_connection",
+  "sms",
+  "whatsapp",
+  "phone_call",
+];
+
+export interface LibraryTemplateSummary extends SequenceLibraryTemplate {
+  stepCount: number;
+  channels: LibraryStep["channel"][];
+  campaignsUsing: number;
+}
+
+export interface InstantiateResult {
+  success: boolean;
+  sequenceTemplateId?: string;
+  version?: number;
+  error?: string;
+}
+
+/**
+ * Snapshot a campaign sequence's steps (and their A/B variants) as library steps
+ */
+export async function snapshotSequence(sequenceTemplateId: string): Promise<LibraryStep[]> {
+  const steps = await db
+    .select()
+    .from(touchpointTemplates)
+    .where(eq(touchpointTemplates.sequenceTemplateId, sequenceTemplateId))
+    .orderBy(asc(touchpointTemplates.stepNumber));
+
+  const variants = steps.length > 0
+    ? await db
+        .select()
+        .from(touchpointVariants)
+        .where(inArray(touchpointVariants.touchpointTemplateId, steps.map((s) => s.id)))
+        .orderBy(asc(touchpointVariants.label))
+    : [];
+
+  return steps.map((step) => {
+    const stepVariants = variants.filter((v) => v.touchpointTemplateId === step.id);
+    const { variantId, ...condition } = step.condition || { rules: [] };
+
+    return {
+      channel: step.channel,
+      delayDays: step.delayDays || 0,
+      preferredTimeOfDay: step.preferredTimeOfDay,
+      replyInThread: !!step.replyInThread,
+      condition: condition.rules.length > 0
+        ? {
+            ...condition,
+            variantLabel: stepVariants.find((v) => v.id === variantId)?.label,
+          }
+        : null,
+      subject: step.subject,
+      body: step.body,
+      talkingPoints: step.talkingPoints || [],
+      personalizationNotes: step.personalizationNotes,
+      abTestMetric: step.abTestMetric,
+      abTestMinSends: step.abTestMinSends,
+      autoPromoteWinner: !!step.autoPromoteWinner,
+      variants: stepVariants.map((v) => ({
+        label: v.label,
+        subject: v.subject,
+        body: v.body,
+        weight: v.weight ?? 1,
+        isActive: v.isActive ?? true,
+      })),
+    };
+  });
+}
+
+/**
+ * Validate library steps sent by a client. Returns an error message, or null when valid.
+ */
+export function validateLibrarySteps(steps: unknown): string | null {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return "steps must be a non-empty array";
+  }
+
+  for (const [index, step] of steps.entries()) {
+    if (!STEP_CHANNELS.includes(step?.channel)) {
+      return `Step ${index + 1}: channel must be one of: ${STEP_CHANNELS.join(", ")}`;
+    }
+    if (step.delayDays !== undefined && (!Number.isInteger(step.delayDays) || step.delayDays < 0)) {
+      return `Step ${index + 1}: delayDays must be a whole number of days`;
+    }
+    if (step.variants !== undefined && !Array.isArray(step.variants)) {
+      return `Step ${index + 1}: variants must be an array`;
+    }
+
+    const { variantLabel, ...condition } = step.condition || {};
+    const conditionError = step.condition ? validateCondition(condition, index + 1) : null;
+    if (conditionError) {
+      return `Step ${index + 1}: ${conditionError}`;
+    }
+    if (variantLabel !== undefined && !step.variants?.some((v: { label?: string }) => v.label === variantLabel)) {
+      return `Step ${index + 1}: condition sends variant ${variantLabel}, which the step doesn't have`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fill in defaults so every stored step has the full shape
+ */
+function normalizeLibraryStep(step: Partial<LibraryStep> & Pick<LibraryStep, "channel">): LibraryStep {
+  return {
+    channel: step.channel,
+    delayDays: step.delayDays || 0,
+    preferredTimeOfDay: step.preferredTimeOfDay || null,
+    replyInThread: step.channel === "email" && !!step.replyInThread,
+    condition: step.condition?.rules.length ? step.condition : null,
+    subject: step.subject || null,
+    body: step.body || null,
+    talkingPoints: step.talkingPoints || [],
+    personalizationNotes: step.personalizationNotes || null,
+    abTestMetric: step.abTestMetric || "reply",
+    abTestMinSends: step.abTestMinSends ?? 100,
+    autoPromoteWinner: !!step.autoPromoteWinner,
+    variants: (step.variants || []).map((v) => ({
+      label: v.label,
+      subject: v.subject || null,
+      body: v.body || null,
+      weight: v.weight ?? 1,
+      isActive: v.isActive ?? true,
+    })),
+  };
+}
+
+/**
+ * Add a new version to a library sequence
+ */
+export async function addLibraryVersion(
+  libraryId: string,
+  steps: (Partial<LibraryStep> & Pick<LibraryStep, "channel">)[],
+  changeNote?: string | null
+): Promise<SequenceLibraryVersion | null> {
+  // Bump first - the increment is atomic, so concurrent saves get distinct numbers
+  const [library] = await db
+    .update(sequenceLibrary)
+    .set({
+      latestVersion: sql`${sequenceLibrary.latestVersion} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(eq(sequenceLibrary.id, libraryId))
+    .returning({ latestVersion: sequenceLibrary.latestVersion });
+
+  if (!library) return null;
+
+  const [version] = await db
+    .insert(sequenceLibraryVersions)
+    .values({
+      libraryId,
+      version: library.latestVersion,
+      steps: steps.map(normalizeLibraryStep),
+      changeNote: changeNote || null,
+    })
+    .returning();
+
+  return version;
+}
+
+/**
+ * Save a campaign's sequence to the library - as a new library sequence, or as the next
+ * version of an existing one when libraryId is given. Null if the campaign has no steps.
+ */
+export async function saveSequenceToLibrary(options: {
+  campaignId: string;
+  workspaceId?: string | null;
+  name?: string;
+  description?: string | null;
+  libraryId?: string;
+  changeNote?: string | null;
+}): Promise<{ library: SequenceLibraryTemplate; version: SequenceLibraryVersion } | null> {
+  const [campaign] = await db
+    .select({ name: campaigns.name, sequenceTemplateId: sequenceTemplates.id })
+    .from(campaigns)
+    .innerJoin(sequenceTemplates, eq(sequenceTemplates.campaignId, campaigns.id))
+    .where(eq(campaigns.id, options.campaignId))
+    .limit(1);
+
+  if (!campaign) return null;
+
+  const steps = await snapshotSequence(campaign.sequenceTemplateId);
+  if (steps.length === 0) return null;
+
+  if (options.libraryId) {
+    const version = await addLibraryVersion(options.libraryId, steps, options.changeNote);
+    if (!version) return null;
+
+    const [library] = await db
+      .select()
+      .from(sequenceLibrary)
+      .where(eq(sequenceLibrary.id, options.libraryId));
+    return { library, version };
+  }
+
+  const [library] = await db
+    .insert(sequenceLibrary)
+    .values({
+      workspaceId: options.workspaceId || null,
+      name: options.name || `${campaign.name} Sequence`,
+      description: options.description || null,
+      latestVersion: 1,
+      createdFromCampaignId: options.campaignId,
+    })
+    .returning();
+
+  const [version] = await db
+    .insert(sequenceLibraryVersions)
+    .values({
+      libraryId: library.id,
+      version: 1,
+      steps,
+      changeNote: options.changeNote || null,
+    })
+    .returning();
+
+  return { library, version };
+}
+
+/**
+ * Library sequences for a workspace, with a summary of their latest version
+ */
+export async function listLibrary(
+  workspaceId: string | null | undefined,
+  options: { includeArchived?: boolean } = {}
+): Promise<LibraryTemplateSummary[]> {
+  const templates = await db
+    .select({
+      library: sequenceLibrary,
+      steps: sequenceLibraryVersions.steps,
+      campaignsUsing: sql<number>`(
+        select count(*)::int from ${sequenceTemplates}
+        inner join ${sequenceLibraryVersions} v on v.id = ${sequenceTemplates.libraryVersionId}
+        where v.library_id = ${sequenceLibrary.id}
+      )`,
+    })
+    .from(sequenceLibrary)
+    .innerJoin(
+      sequenceLibraryVersions,
+      and(
+        eq(sequenceLibraryVersions.libraryId, sequenceLibrary.id),
+        eq(sequenceLibraryVersions.version, sequenceLibrary.latestVersion)
+      )
+    )
+    .where(
+      and(
+        workspaceId ? eq(sequenceLibrary.workspaceId, workspaceId) : undefined,
+        options.includeArchived ? undefined : eq(sequenceLibrary.isArchived, false)
+      )
+    )
+    .orderBy(desc(sequenceLibrary.updatedAt));
+
+  return templates.map(({ library, steps, campaignsUsing }) => ({
+    ...library,
+    stepCount: steps.length,
+    channels: [...new Set(steps.map((s) => s.channel))],
+    campaignsUsing,
+  }));
+}
+
+/**
+ * A library sequence with all its versions, newest first
+ */
+export async function getLibraryTemplate(
+  libraryId: string
+): Promise<(SequenceLibraryTemplate & { versions: SequenceLibraryVersion[] }) | null> {
+  const [library] = await db
+    .select()
+    .from(sequenceLibrary)
+    .where(eq(sequenceLibrary.id, libraryId));
+
+  if (!library) return null;
+
+  const versions = await db
+    .select()
+    .from(sequenceLibraryVersions)
+    .where(eq(sequenceLibraryVersions.libraryId, libraryId))
+    .orderBy(desc(sequenceLibraryVersions.version));
+
+  return { ...library, versions };
+}
+
+/**
+ * Copy a library version (latest by default) into a campaign as its sequence.
+ * Replaces the campaign's current sequence, which is only allowed before launch.
+ */
+export async function instantiateLibraryTemplate(options: {
+  libraryId: string;
+  campaignId: string;
+  version?: number;
+}): Promise<InstantiateResult> {
+  const { libraryId, campaignId } = options;
+
+  const [library] = await db
+    .select()
+    .from(sequenceLibrary)
+    .where(eq(sequenceLibrary.id, libraryId));
+  if (!library) {
+    return { success: false, error: "Library sequence not found" };
+  }
+
+  const [version] = await db
+    .select()
+    .from(sequenceLibraryVersions)
+    .where(
+      and(
+        eq(sequenceLibraryVersions.libraryId, libraryId),
+        eq(sequenceLibraryVersions.version, options.version ?? library.latestVersion)
+      )
+    );
+  if (!version) {
+    return { success: false, error: `Version ${options.version} not found` };
+  }
+
+  const existing = await db
+    .select({ id: sequenceTemplates.id })
+    .from(sequenceTemplates)
+    .where(eq(sequenceTemplates.campaignId, campaignId));
+
+  if (existing.length > 0) {
+    const [launched] = await db
+      .select({ id: leadTouchpoints.id })
+      .from(leadTouchpoints)
+      .innerJoin(touchpointTemplates, eq(leadTouchpoints.touchpointTemplateId, touchpointTemplates.id))
+      .where(inArray(touchpointTemplates.sequenceTemplateId, existing.map((e) => e.id)))
+      .limit(1);
+
+    if (launched) {
+      return { success: false, error: "Campaign has already been launched - its sequence can't be replaced" };
+    }
+
+    await db.delete(sequenceTemplates).where(eq(sequenceTemplates.campaignId, campaignId));
+  }
+
+  const [sequence] = await db
+    .insert(sequenceTemplates)
+    .values({
+      campaignId,
+      name: library.name,
+      description: library.description,
+      generationType: "manual",
+      libraryVersionId: version.id,
+    })
+    .returning();
+
+  for (const [index, step] of version.steps.entries()) {
+    const [touchpoint] = await db
+      .insert(touchpointTemplates)
+      .values({
+        sequenceTemplateId: sequence.id,
+        stepNumber: index + 1,
+        channel: step.channel,
+        delayDays: step.delayDays,
+        preferredTimeOfDay: step.preferredTimeOfDay,
+        replyInThread: step.replyInThread,
+        subject: step.subject,
+        body: step.body,
+        talkingPoints: step.talkingPoints,
+        personalizationNotes: step.personalizationNotes,
+        abTestMetric: step.abTestMetric,
+        abTestMinSends: step.abTestMinSends,
+        autoPromoteWinner: step.autoPromoteWinner,
+      })
+      .returning({ id: touchpointTemplates.id });
+
+    const variants = step.variants.length > 0
+      ? await db
+          .insert(touchpointVariants)
+          .values(step.variants.map((v) => ({ ...v, touchpointTemplateId: touchpoint.id })))
+          .returning({ id: touchpointVariants.id, label: touchpointVariants.label })
+      : [];
+
+    // Conditions point at variants by label in the library - map back to the new IDs
+    if (step.condition) {
+      const { variantLabel, ...condition } = step.condition;
+      await db
+        .update(touchpointTemplates)
+        .set({
+          condition: {
+            ...condition,
+            variantId: variants.find((v) => v.label === variantLabel)?.id,
+          },
+        })
+        .where(eq(touchpointTemplates.id, touchpoint.id));
+    }
+  }
+
+  console.log(`[Sequence Library] Copied "${library.name}" v${version.version} into campaign ${campaignId}`);
+
+  return { success: true, sequenceTemplateId: sequence.id, version: version.version };
+}
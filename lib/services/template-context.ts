@@ -0,0 +1,161 @@
+/**
+ * Template Context Service
+ *
+ * Loads everything a template can reference for a lead - lead fields, the sending
+ * mailbox, the active company context and CRM custom fields - and checks templates
+ * for variables that would render empty.
+ *
+ * Rendering itself lives in lib/utils/template.ts so client previews use the same code.
+ */
+
+import { db } from "@/lib/db";
+import { companyContext, crmContacts, sendingDomains } from "@/lib/db/schema";
+import type { Lead, SendingDomain, CompanyContext } from "@/lib/db/schema";
+import { eq, and, asc, inArray, isNotNull } from "drizzle-orm";
+import {
+  buildTemplateContext,
+  renderTemplate,
+  getVariationSeed,
+  type TemplateContext,
+} from "@/lib/utils/template";
+
+type CustomFields = Record<string, string | number | boolean>;
+
+export interface TemplateStep {
+  stepNumber: number;
+  subject?: string | null;
+  body?: string | null;
+}
+
+export interface UnresolvedVariables {
+  leadId: string;
+  leadName: string;
+  stepNumber: number;
+  variables: string[];
+}
+
+export async function getActiveCompanyContext(): Promise<CompanyContext | null> {
+  const [company] = await db
+    .select()
+    .from(companyContext)
+    .where(eq(companyContext.isActive, true))
+    .limit(1);
+
+  return company || null;
+}
+
+/**
+ * CRM custom field values keyed by lead ID
+ */
+async function getCustomFieldsByLead(leadIds: string[]): Promise<Map<string, CustomFields>> {
+  const result = new Map<string, CustomFields>();
+  if (leadIds.length === 0) return result;
+
+  const contacts = await db
+    .select({ leadId: crmContacts.leadId, customFields: crmContacts.customFields })
+    .from(crmContacts)
+    .where(and(inArray(crmContacts.leadId, leadIds), isNotNull(crmContacts.leadId)));
+
+  for (const contact of contacts) {
+    if (contact.leadId && contact.customFields) {
+      result.set(contact.leadId, contact.customFields);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sender fields come from the mailbox; title and signature from the company context.
+ * Without a mailbox (previews, pre-launch checks) the first active one stands in.
+ */
+async function resolveSender(domain: SendingDomain | null | undefined, company: CompanyContext | null) {
+  let mailbox: Pick<SendingDomain, "fromName" | "fromEmail"> | null | undefined = domain;
+  if (!mailbox) {
+    [mailbox] = await db
+      .select({ fromName: sendingDomains.fromName, fromEmail: sendingDomains.fromEmail })
+      .from(sendingDomains)
+      .where(eq(sendingDomains.isActive, true))
+      .orderBy(asc(sendingDomains.createdAt))
+      .limit(1);
+  }
+
+  return {
+    name: mailbox?.fromName || company?.senderName,
+    email: mailbox?.fromEmail,
+    title: company?.senderTitle,
+    signature: company?.signatureBlock,
+  };
+}
+
+/**
+ * Full template context for one lead
+ */
+export async function getTemplateContext(
+  lead: Lead,
+  domain?: SendingDomain | null
+): Promise<TemplateContext> {
+  const company = await getActiveCompanyContext();
+  const [sender, customFields] = await Promise.all([
+    resolveSender(domain, company),
+    getCustomFieldsByLead([lead.id]),
+  ]);
+
+  return buildTemplateContext({
+    lead,
+    sender,
+    company,
+    customFields: customFields.get(lead.id),
+  });
+}
+
+/**
+ * Render every step for every lead and list the variables that have no value and no default.
+ * Used before launch so nothing goes out with a blank where a name should be.
+ */
+export async function findUnresolvedVariables(
+  leadsToCheck: Lead[],
+  steps: TemplateStep[]
+): Promise<UnresolvedVariables[]> {
+  const company = await getActiveCompanyContext();
+  const [sender, customFields] = await Promise.all([
+    resolveSender(null, company),
+    getCustomFieldsByLead(leadsToCheck.map((l) => l.id)),
+  ]);
+
+  // Keyed by lead and step - a step with A/B variants is checked once per variant
+  const unresolved = new Map<string, UnresolvedVariables>();
+
+  for (const lead of leadsToCheck) {
+    const context = buildTemplateContext({
+      lead,
+      sender,
+      company,
+      customFields: customFields.get(lead.id),
+    });
+
+    for (const step of steps) {
+      const missing = [
+        ...renderTemplate(step.subject, context, {
+          seed: getVariationSeed(lead.id, step.stepNumber, "subject"),
+        }).missing,
+        ...renderTemplate(step.body, context, {
+          seed: getVariationSeed(lead.id, step.stepNumber, "body"),
+        }).missing,
+      ];
+      if (missing.length === 0) continue;
+
+      const key = `${lead.id}:${step.stepNumber}`;
+      const entry = unresolved.get(key) || {
+        leadId: lead.id,
+        leadName: `${lead.firstName} ${lead.lastName}`.trim(),
+        stepNumber: step.stepNumber,
+        variables: [],
+      };
+      entry.variables = [...new Set([...entry.variables, ...missing])];
+      unresolved.set(key, entry);
+    }
+  }
+
+  return [...unresolved.values()];
+}
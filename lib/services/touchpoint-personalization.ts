@@ -0,0 +1,240 @@
+/**
+ * Touchpoint Personalization Service
+ *
+ * Writes each lead's own copy for the campaign steps that are sent automatically (email,
+ * plus SMS/WhatsApp when a messaging provider is set up), from the step template (or the
+ * lead's A/B variant), the step's personalization notes and the lead's research.
+ * - The copy is stored on the lead touchpoint; the send queue prefers it over the template
+ * - Copy scored below the workspace's auto-approve threshold is held as pending_review until
+ *   someone approves it (see lib/services/review-queue.ts); held steps also hold the lead's
+ *   later steps. Rewrites of rejected copy are given the rejection reason and always held.
+ * - Launch (with personalize on) creates the touchpoints as drafts so nothing goes out before
+ *   its copy is written. If generation fails the drafts are released and the template copy is
+ *   sent instead; drafts still without copy after DRAFT_RELEASE_MS (e.g. the launch request
+ *   died mid-way) are released by the send queue's tick.
+ * - Manual task steps are personalised on demand instead (see lib/services/manual-tasks.ts)
+ */
+
+import { db } from "@/lib/db";
+import {
+  leads,
+  touchpointTemplates,
+  touchpointVariants,
+  leadTouchpoints,
+} from "@/lib/db/schema";
+import { eq, and, asc, inArray, isNull, isNotNull, lt, or } from "drizzle-orm";
+import { getAutoSendChannels } from "@/lib/services/messaging-provider";
+import { getReviewPolicy, pendingReviewFields } from "@/lib/services/review-queue";
+import { personalizeSteps, type PersonalizedChannel } from "@/lib/ai/personalize-steps";
+
+// How long a launch draft may wait for its copy before the template copy is sent instead
+const DRAFT_RELEASE_MS = 30 * 60 * 1000;
+
+export interface PersonalizationResult {
+  leads: number; // Leads whose copy was written
+  approved: number; // Steps approved automatically
+  held: number; // Steps held for review
+  failed: number; // Leads left on template copy
+  errors: string[];
+}
+
+/**
+ * Channels whose copy is personalised up front
+ */
+export function getPersonalizedChannels(): PersonalizedChannel[] {
+  return ["email", ...getAutoSendChannels()];
+}
+
+/**
+ * Pending, unsent campaign steps in the personalised channels. Without `regenerate` only steps
+ * with no copy of their own yet (drafts held at launch) or whose copy was rejected.
+ */
+function personalizableFilter(regenerate: boolean) {
+  return and(
+    isNotNull(leadTouchpoints.touchpointTemplateId),
+    eq(leadTouchpoints.status, "pending"),
+    isNull(leadTouchpoints.sentAt),
+    inArray(leadTouchpoints.channel, getPersonalizedChannels()),
+    regenerate
+      ? undefined
+      : or(isNull(leadTouchpoints.reviewStatus), eq(leadTouchpoints.reviewStatus, "draft"))
+  );
+}
+
+/**
+ * Release launch drafts that never got their own copy, so the template copy is sent
+ */
+async function releaseDrafts(touchpointIds: string[]): Promise<void> {
+  if (touchpointIds.length === 0) return;
+
+  await db
+    .update(leadTouchpoints)
+    .set({ reviewStatus: null, updatedAt: new Date() })
+    .where(
+      and(
+        inArray(leadTouchpoints.id, touchpointIds),
+        eq(leadTouchpoints.reviewStatus, "draft"),
+        isNull(leadTouchpoints.body)
+      )
+    );
+}
+
+/**
+ * Release launch drafts left without copy for over DRAFT_RELEASE_MS. Returns the number released.
+ */
+export async function releaseStaleDrafts(): Promise<number> {
+  const released = await db
+    .update(leadTouchpoints)
+    .set({ reviewStatus: null, updatedAt: new Date() })
+    .where(
+      and(
+        isNotNull(leadTouchpoints.touchpointTemplateId),
+        eq(leadTouchpoints.status, "pending"),
+        eq(leadTouchpoints.reviewStatus, "draft"),
+        isNull(leadTouchpoints.body),
+        isNull(leadTouchpoints.rejectionReason),
+        lt(leadTouchpoints.updatedAt, new Date(Date.now() - DRAFT_RELEASE_MS))
+      )
+    )
+    .returning({ id: leadTouchpoints.id });
+
+  if (released.length > 0) {
+    console.log(`[Personalization] Released ${released.length} drafts whose copy was never written`);
+  }
+
+  return released.length;
+}
+
+/**
+ * Write one lead's copy for its pending campaign steps (or just the given ones)
+ */
+export async function personalizeLeadTouchpoints(
+  leadId: string,
+  options: { regenerate?: boolean; touchpointIds?: string[] } = {}
+): Promise<PersonalizationResult> {
+  const result: PersonalizationResult = { leads: 0, approved: 0, held: 0, failed: 0, errors: [] };
+
+  const [lead] = await db.select().from(leads).where(eq(leads.id, leadId)).limit(1);
+  if (!lead) return result;
+
+  const steps = await db
+    .select({
+      id: leadTouchpoints.id,
+      stepNumber: leadTouchpoints.stepNumber,
+      channel: leadTouchpoints.channel,
+      templateSubject: touchpointTemplates.subject,
+      templateBody: touchpointTemplates.body,
+      replyInThread: touchpointTemplates.replyInThread,
+      personalizationNotes: touchpointTemplates.personalizationNotes,
+      rejectionReason: leadTouchpoints.rejectionReason,
+      reviewStatus: leadTouchpoints.reviewStatus,
+      variantSubject: touchpointVariants.subject,
+      variantBody: touchpointVariants.body,
+    })
+    .from(leadTouchpoints)
+    .innerJoin(touchpointTemplates, eq(leadTouchpoints.touchpointTemplateId, touchpointTemplates.id))
+    .leftJoin(touchpointVariants, eq(leadTouchpoints.variantId, touchpointVariants.id))
+    .where(
+      and(
+        eq(leadTouchpoints.leadId, leadId),
+        options.touchpointIds ? inArray(leadTouchpoints.id, options.touchpointIds) : undefined,
+        personalizableFilter(!!options.regenerate)
+      )
+    )
+    .orderBy(asc(leadTouchpoints.stepNumber));
+
+  if (steps.length === 0) return result;
+
+  const { autoApproveConfidence } = await getReviewPolicy(lead.workspaceId);
+
+  try {
+    const written = await personalizeSteps(
+      lead,
+      steps.map((step) => ({
+        stepNumber: step.stepNumber,
+        channel: step.channel as PersonalizedChannel,
+        subject: step.variantSubject ?? step.templateSubject,
+        body: step.variantBody ?? step.templateBody,
+        replyInThread: !!step.replyInThread && step.stepNumber > 1,
+        personalizationNotes: step.personalizationNotes,
+        rejectionReason: step.rejectionReason,
+      }))
+    );
+    const byStep = new Map(written.map((w) => [w.stepNumber, w]));
+
+    const missed: string[] = [];
+    for (const step of steps) {
+      const copy = byStep.get(step.stepNumber);
+      if (!copy?.body) {
+        missed.push(step.id);
+        continue;
+      }
+
+      // A rewrite of rejected copy goes back to whoever rejected it
+      const confidenceScore = Math.round(copy.confidenceScore);
+      const rewrite = step.reviewStatus === "draft" && !!step.rejectionReason;
+      const approved = !rewrite && confidenceScore >= autoApproveConfidence;
+      await db
+        .update(leadTouchpoints)
+        .set({
+          // Threaded steps keep the earlier subject; messages have none
+          subject: step.channel === "email" && !step.replyInThread ? copy.subject : null,
+          body: copy.body,
+          confidenceScore,
+          confidenceReason: copy.confidenceReason,
+          ...(approved ? { reviewStatus: "approved" as const } : pendingReviewFields()),
+          updatedAt: new Date(),
+        })
+        .where(eq(leadTouchpoints.id, step.id));
+
+      if (approved) result.approved++;
+      else result.held++;
+    }
+
+    await releaseDrafts(missed);
+    result.leads = 1;
+  } catch (error) {
+    await releaseDrafts(steps.map((s) => s.id));
+    result.failed = 1;
+    result.errors.push(`${lead.firstName} ${lead.lastName}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    console.error(`[Personalization] Failed for lead ${leadId}:`, error);
+  }
+
+  return result;
+}
+
+/**
+ * Write copy for a campaign's launched leads (or just the given ones), one lead at a time
+ */
+export async function personalizeCampaign(
+  campaignId: string,
+  options: { leadIds?: string[]; regenerate?: boolean } = {}
+): Promise<PersonalizationResult> {
+  const total: PersonalizationResult = { leads: 0, approved: 0, held: 0, failed: 0, errors: [] };
+  if (options.leadIds && options.leadIds.length === 0) return total;
+
+  const targets = await db
+    .selectDistinct({ leadId: leadTouchpoints.leadId })
+    .from(leadTouchpoints)
+    .innerJoin(leads, eq(leadTouchpoints.leadId, leads.id))
+    .where(
+      and(
+        eq(leads.campaignId, campaignId),
+        options.leadIds ? inArray(leads.id, options.leadIds) : undefined,
+        personalizableFilter(!!options.regenerate)
+      )
+    );
+
+  for (const { leadId } of targets) {
+    const result = await personalizeLeadTouchpoints(leadId, { regenerate: options.regenerate });
+    total.leads += result.leads;
+    total.approved += result.approved;
+    total.held += result.held;
+    total.failed += result.failed;
+    total.errors.push(...result.errors);
+  }
+
+  console.log(`[Personalization] Campaign ${campaignId}: ${total.leads} leads written (${total.approved} steps approved, ${total.held} held), ${total.failed} failed`);
+
+  return total;
+}
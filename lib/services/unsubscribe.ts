@@ -0,0 +1,214 @@
+/**
+ * Unsubscribe & Suppression Service
+ *
+ * - Signed per-recipient unsubscribe links (HMAC, no lookup table needed)
+ * - List-Unsubscribe / List-Unsubscribe-Post headers for one-click unsubscribe (RFC 8058)
+ * - Suppression list on top of emailHistory: unsubscribed, do_not_contact and bounced
+ *   addresses are never mailed by the campaign send path
+ *
+ * Tokens are signed with UNSUBSCRIBE_SECRET (falls back to AUTH_SECRET).
+ */
+
+import crypto from "crypto";
+import { db } from "@/lib/db";
+import { emailHistory, emailEvents, leads, leadTouchpoints } from "@/lib/db/schema";
+import { eq, and, inArray, sql } from "drizzle-orm";
+
+export const SUPPRESSED_STATUSES = ["unsubscribed", "do_not_contact", "bounced"] as const;
+export type SuppressionStatus = (typeof SUPPRESSED_STATUSES)[number];
+
+export interface UnsubscribeTokenPayload {
+  email: string;
+  leadId?: string;
+  touchpointId?: string;
+}
+
+const getAppBaseUrl = () => {
+  if (process.env.NEXT_PUBLIC_APP_URL) return process.env.NEXT_PUBLIC_APP_URL.replace(/\/$/, "");
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return "http://localhost:3000";
+};
+
+function getSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET || process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("UNSUBSCRIBE_SECRET (or AUTH_SECRET) must be set to sign unsubscribe links");
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+/**
+ * Create a signed unsubscribe token for a recipient
+ */
+export function createUnsubscribeToken(payload: UnsubscribeTokenPayload): string {
+  const data = Buffer.from(
+    JSON.stringify({
+      e: payload.email.toLowerCase(),
+      l: payload.leadId,
+      t: payload.touchpointId,
+    })
+  ).toString("base64url");
+
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verify a token and return its payload (null if tampered with or malformed)
+ */
+export function verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+    if (typeof parsed.e !== "string" || !parsed.e.includes("@")) return null;
+    return { email: parsed.e, leadId: parsed.l, touchpointId: parsed.t };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Public unsubscribe URL for a token
+ */
+export function getUnsubscribeUrl(token: string): string {
+  return `${getAppBaseUrl()}/api/unsubscribe/${token}`;
+}
+
+/**
+ * Headers that let mailbox providers show their own one-click "Unsubscribe" button
+ */
+export function getUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    "List-Unsubscribe": `<${unsubscribeUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+/**
+ * Append an unsubscribe line to the text and HTML bodies
+ */
+export function addUnsubscribeFooter(
+  text: string,
+  html: string,
+  unsubscribeUrl: string
+): { text: string; html: string } {
+  return {
+    text: `${text}\n\n--\nNot interested? Unsubscribe: ${unsubscribeUrl}`,
+    html: `${html}<br><br><p style="font-size:12px;color:#888888;">Not interested? <a href="${unsubscribeUrl}" style="color:#888888;">Unsubscribe</a></p>`,
+  };
+}
+
+/**
+ * Check an address against the suppression list
+ * Returns the suppression status, or null if the address can be mailed
+ */
+export async function getSuppressionStatus(email: string): Promise<SuppressionStatus | null> {
+  const [record] = await db
+    .select({ status: emailHistory.status })
+    .from(emailHistory)
+    .where(
+      and(
+        eq(emailHistory.email, email.toLowerCase()),
+        inArray(emailHistory.status, [...SUPPRESSED_STATUSES])
+      )
+    )
+    .limit(1);
+
+  return (record?.status as SuppressionStatus) || null;
+}
+
+/**
+ * Add an address to the suppression list and stop everything pending for it
+ */
+export async function suppressEmail(
+  email: string,
+  status: SuppressionStatus,
+  options: { leadId?: string; source?: string } = {}
+): Promise<void> {
+  const normalized = email.toLowerCase();
+  const now = new Date();
+
+  await db
+    .insert(emailHistory)
+    .values({
+      email: normalized,
+      source: options.source || "manual",
+      status,
+      leadId: options.leadId || null,
+    })
+    .onConflictDoUpdate({
+      target: emailHistory.email,
+      set: { status, updatedAt: now },
+    });
+
+  // Cancel remaining touchpoints for every lead with this address
+  const matchingLeads = await db
+    .select({ id: leads.id })
+    .from(leads)
+    .where(sql`lower(${leads.email}) = ${normalized}`);
+  const leadIds = matchingLeads.map((l) => l.id);
+
+  if (leadIds.length > 0) {
+    await db
+      .update(leadTouchpoints)
+      .set({
+        status: "cancelled",
+        errorMessage: `Recipient ${status.replace(/_/g, " ")}`,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          inArray(leadTouchpoints.leadId, leadIds),
+          eq(leadTouchpoints.status, "pending")
+        )
+      );
+  }
+}
+
+/**
+ * Handle an unsubscribe request from a verified token
+ */
+export async function unsubscribe(payload: UnsubscribeTokenPayload): Promise<void> {
+  await suppressEmail(payload.email, "unsubscribed", {
+    leadId: payload.leadId,
+    source: "unsubscribe",
+  });
+
+  if (payload.leadId) {
+    await db
+      .update(leads)
+      .set({ status: "lost", updatedAt: new Date() })
+      .where(eq(leads.id, payload.leadId));
+  }
+
+  // The email the link came from may have been deleted since (e.g. a rewritten sequence)
+  if (payload.touchpointId) {
+    const [touchpoint] = await db
+      .select({ id: leadTouchpoints.id })
+      .from(leadTouchpoints)
+      .where(eq(leadTouchpoints.id, payload.touchpointId))
+      .limit(1);
+
+    if (touchpoint) {
+      await db.insert(emailEvents).values({
+        id: crypto.randomUUID(),
+        touchpointId: touchpoint.id,
+        eventType: "unsubscribed",
+        occurredAt: new Date(),
+      });
+    }
+  }
+
+  console.log(`[Unsubscribe] ${payload.email} unsubscribed`);
+}
@@ -66,6 +66,9 @@ const COLUMN_MAPPINGS: Record<string, string[]> = {
     "region", "state", "province", "area", "school_region", "location_region",
     "city", "location"
   ],
+  timezone: [
+    "timezone", "time_zone", "time zone", "tz", "iana_timezone"
+  ],
   linkedinUrl: [
     "linkedin", "linkedin_url", "linkedinurl", "linkedin_profile",
     "person_linkedin", "contact_linkedin", "li_url"
@@ -193,6 +196,7 @@ export function getLeadFields(): { field: string; label: string; required: boole
     { field: "schoolWebsite", label: "School Website", required: false },
     { field: "schoolCountry", label: "Country", required: false },
     { field: "schoolRegion", label: "Region/State/City", required: false },
+    { field: "timezone", label: "Timezone (e.g. Asia/Dubai)", required: false },
     { field: "linkedinUrl", label: "LinkedIn URL", required: false },
     { field: "phone", label: "Phone", required: false },
     { field: "curriculum", label: "Curriculum", required: false },
@@ -0,0 +1,96 @@
+/**
+ * Phone number helpers
+ *
+ * Normalises the free-form numbers we get from lead imports to E.164 (+971501234567)
+ * so they can be sent to messaging providers and matched against inbound messages.
+ * Numbers without an international prefix get the calling code of the lead's country.
+ */
+
+// Calling codes by ISO 3166 alpha-2
+const CALLING_CODES: Record<string, string> = {
+  ae: "971", sa: "966", qa: "974", kw: "965", bh: "973", om: "968", jo: "962", lb: "961",
+  il: "972", tr: "90", eg: "20", iq: "964", ir: "98",
+  in: "91", pk: "92", bd: "880", lk: "94", np: "977", kz: "7", uz: "998",
+  sg: "65", my: "60", id: "62", th: "66", vn: "84", ph: "63", kh: "855", mm: "95",
+  cn: "86", hk: "852", mo: "853", tw: "886", jp: "81", kr: "82", mn: "976",
+  au: "61", nz: "64",
+  gb: "44", ie: "353", pt: "351", es: "34", fr: "33", be: "32", nl: "31", lu: "352",
+  de: "49", ch: "41", at: "43", it: "39", dk: "45", no: "47", se: "46", fi: "358",
+  pl: "48", cz: "420", gr: "30", cy: "357", ru: "7",
+  za: "27", ng: "234", gh: "233", ke: "254", tz: "255", ma: "212",
+  us: "1", ca: "1", mx: "52", br: "55", ar: "54", cl: "56", co: "57", pe: "51",
+};
+
+// Country names (normalised) to alpha-2
+const COUNTRY_NAMES: Record<string, string> = {
+  "united arab emirates": "ae", "uae": "ae", "saudi arabia": "sa", "ksa": "sa", "qatar": "qa",
+  "kuwait": "kw", "bahrain": "bh", "oman": "om", "jordan": "jo", "lebanon": "lb",
+  "israel": "il", "turkey": "tr", "turkiye": "tr", "egypt": "eg", "iraq": "iq", "iran": "ir",
+  "india": "in", "pakistan": "pk", "bangladesh": "bd", "sri lanka": "lk", "nepal": "np",
+  "kazakhstan": "kz", "uzbekistan": "uz",
+  "singapore": "sg", "malaysia": "my", "indonesia": "id", "thailand": "th", "vietnam": "vn",
+  "viet nam": "vn", "philippines": "ph", "cambodia": "kh", "myanmar": "mm", "china": "cn",
+  "hong kong": "hk", "macau": "mo", "taiwan": "tw", "japan": "jp", "south korea": "kr",
+  "korea": "kr", "mongolia": "mn",
+  "australia": "au", "new zealand": "nz",
+  "united kingdom": "gb", "uk": "gb", "england": "gb", "scotland": "gb", "wales": "gb",
+  "northern ireland": "gb", "ireland": "ie", "portugal": "pt", "spain": "es", "france": "fr",
+  "belgium": "be", "netherlands": "nl", "luxembourg": "lu", "germany": "de",
+  "switzerland": "ch", "austria": "at", "italy": "it", "denmark": "dk", "norway": "no",
+  "sweden": "se", "finland": "fi", "poland": "pl", "czech republic": "cz", "czechia": "cz",
+  "greece": "gr", "cyprus": "cy", "russia": "ru",
+  "south africa": "za", "nigeria": "ng", "ghana": "gh", "kenya": "ke", "tanzania": "tz",
+  "morocco": "ma",
+  "united states": "us", "usa": "us", "us": "us", "united states of america": "us",
+  "canada": "ca", "mexico": "mx", "brazil": "br", "argentina": "ar", "chile": "cl",
+  "colombia": "co", "peru": "pe",
+};
+
+// Countries that keep the leading 0 after the calling code
+const KEEPS_TRUNK_ZERO = new Set(["it"]);
+
+function resolveCountryCode(country: string | null | undefined): string | null {
+  if (!country) return null;
+  const key = country.toLowerCase().replace(/[.]/g, "").replace(/\s+/g, " ").trim();
+  if (key.length === 2 && CALLING_CODES[key]) return key;
+  return COUNTRY_NAMES[key] || null;
+}
+
+/**
+ * Normalise a phone number to E.164, or null if it can't be read as one.
+ * `country` (name or alpha-2) supplies the calling code for national-format numbers.
+ */
+export function normalizePhone(
+  raw: string | null | undefined,
+  country?: string | null
+): string | null {
+  if (!raw) return null;
+
+  // Drop extensions and WhatsApp-style prefixes ("whatsapp:+44...")
+  let value = raw.trim().replace(/^whatsapp:/i, "").split(/\s*(?:ext\.?|x|#)\s*\d+$/i)[0];
+  value = value.replace(/^00/, "+").replace(/\(0\)/, ""); // "+44 (0)20..." drops the trunk 0
+
+  let digits = value.replace(/\D/g, "");
+  if (!digits) return null;
+
+  if (!value.startsWith("+")) {
+    const countryCode = resolveCountryCode(country);
+    const callingCode = countryCode ? CALLING_CODES[countryCode] : null;
+
+    if (callingCode && !(digits.length > 10 && digits.startsWith(callingCode))) {
+      if (!KEEPS_TRUNK_ZERO.has(countryCode!)) {
+        digits = digits.replace(/^0+/, "");
+      }
+      digits = callingCode + digits;
+    } else if (!callingCode && digits.length <= 10) {
+      // National number and no country to place it in
+      return null;
+    }
+  }
+
+  if (digits.length < 8 || digits.length > 15 || digits.startsWith("0")) {
+    return null;
+  }
+
+  return `+${digits}`;
+}
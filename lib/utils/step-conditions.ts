@@ -0,0 +1,82 @@
+/**
+ * Sequence step conditions (branching)
+ *
+ * A step can carry a condition on earlier steps' engagement, e.g. "step 1 opened and
+ * step 1 not replied". The send queue evaluates it when the step comes due
+ * (lib/services/sequence-branching.ts). Pure module - safe to import from client components.
+ */
+
+import type { TouchpointTemplate } from "@/lib/db/schema";
+
+export type StepCondition = NonNullable<TouchpointTemplate["condition"]>;
+export type StepConditionRule = StepCondition["rules"][number];
+
+export const CONDITION_EVENTS = ["opened", "clicked", "replied"] as const;
+
+const EVENT_LABELS: Record<StepConditionRule["event"], { happened: string; notHappened: string }> = {
+  opened: { happened: "opened", notHappened: "not opened" },
+  clicked: { happened: "clicked a link", notHappened: "no link clicked" },
+  replied: { happened: "replied", notHappened: "no reply" },
+};
+
+/**
+ * Human-readable summary, e.g. "If step 1 opened and step 1 no reply"
+ */
+export function describeCondition(condition: StepCondition | null | undefined): string {
+  if (!condition?.rules.length) return "Always send";
+
+  const joiner = condition.match === "any" ? " or " : " and ";
+  const rules = condition.rules
+    .map((rule) => {
+      const label = EVENT_LABELS[rule.event];
+      return `step ${rule.stepNumber} ${rule.happened ? label.happened : label.notHappened}`;
+    })
+    .join(joiner);
+
+  return `If ${rules}`;
+}
+
+/**
+ * Validate a condition for a step. Returns an error message, or null when valid.
+ * Rules may only look at earlier steps.
+ */
+export function validateCondition(condition: unknown, stepNumber: number): string | null {
+  if (condition === null || condition === undefined) return null;
+  if (typeof condition !== "object" || !Array.isArray((condition as StepCondition).rules)) {
+    return "condition must be an object with a rules array";
+  }
+
+  const { rules, match, otherwise, variantId } = condition as StepCondition;
+
+  for (const rule of rules) {
+    if (!CONDITION_EVENTS.includes(rule?.event)) {
+      return `Condition event must be one of: ${CONDITION_EVENTS.join(", ")}`;
+    }
+    if (!Number.isInteger(rule.stepNumber) || rule.stepNumber < 1 || rule.stepNumber >= stepNumber) {
+      return `Step ${stepNumber} can only depend on earlier steps`;
+    }
+    if (typeof rule.happened !== "boolean") {
+      return "Condition rules need happened: true or false";
+    }
+  }
+
+  if (match !== undefined && match !== "all" && match !== "any") {
+    return 'match must be "all" or "any"';
+  }
+  if (otherwise !== undefined && otherwise !== "skip" && otherwise !== "send") {
+    return 'otherwise must be "skip" or "send"';
+  }
+  if (variantId !== undefined && typeof variantId !== "string") {
+    return "variantId must be a string";
+  }
+
+  return null;
+}
+
+/**
+ * Normalize an authored condition - no rules means no condition
+ */
+export function normalizeCondition(condition: StepCondition | null | undefined): StepCondition | null {
+  if (!condition?.rules.length) return null;
+  return condition;
+}
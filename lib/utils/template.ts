@@ -0,0 +1,365 @@
+/**
+ * Email template renderer
+ *
+ * Shared by previews, test sends and the send queue so what you see is what ships.
+ *
+ * Syntax:
+ * - {{firstName}}                      variable
+ * - {{firstName|there}}                variable with a default when it's empty
+ * - {{#if schoolCountry}}...{{/if}}    section shown only when the variable has a value
+ * - {{#if x}}...{{else}}...{{/if}}     with an alternative
+ * - {{#unless x}}...{{/unless}}        section shown only when the variable is empty
+ * - {Hi|Hello|Hey}                     spintax - one option is picked per lead
+ * - {{#variants}}A{{or}}B{{/variants}}  paragraph-level variant pool
+ *
+ * Variable names are matched case-insensitively. Conditionals, spintax and variant pools
+ * can be nested. Variation is seeded (by lead, step and part - see getVariationSeed), so the
+ * same lead always gets the same copy and previews match what actually sends.
+ * Pure module - safe to import from client components.
+ */
+
+export type TemplateValue = string | number | boolean | string[] | null | undefined;
+export type TemplateContext = Record<string, TemplateValue>;
+
+export interface RenderResult {
+  output: string;
+  missing: string[]; // Variables with no value and no default (rendered as empty)
+}
+
+export interface RenderOptions {
+  seed?: string; // Picks spintax/variant options; the same seed always renders the same copy
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string; fallback?: string }
+  | { type: "if"; name: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: "choice"; options: TemplateNode[][] };
+
+type IfNode = Extract<TemplateNode, { type: "if" }>;
+
+// Open blocks while parsing. Choices are attached to their parent when they close, so an
+// unclosed "{" can still be turned back into plain text.
+type Frame =
+  | { kind: "if"; node: IfNode; inElse: boolean }
+  | { kind: "variants"; options: TemplateNode[][] }
+  | { kind: "spin"; options: TemplateNode[][] };
+
+interface ContextSource {
+  lead?: Record<string, unknown> | null;
+  sender?: {
+    name?: string | null;
+    email?: string | null;
+    title?: string | null;
+    signature?: string | null;
+  } | null;
+  company?: {
+    companyName?: string | null;
+    companyWebsite?: string | null;
+    companyDescription?: string | null;
+    industry?: string | null;
+  } | null;
+  customFields?: Record<string, string | number | boolean> | null;
+}
+
+// A {{tag}}, or a single brace/pipe that may belong to spintax
+const TOKEN_REGEX = /\{\{\s*(#if|#unless|#variants|else|or|\/if|\/unless|\/variants)?\s*([^{}]*?)\s*\}\}|[{|}]/g;
+
+// Lead columns that aren't useful (or safe) as merge fields
+const EXCLUDED_LEAD_FIELDS = new Set([
+  "id", "campaignId", "workspaceId", "createdAt", "updatedAt",
+  "notionCompanyId", "notionContactId", "personInsights", "schoolInsights",
+]);
+
+/**
+ * Parse a template into nodes
+ */
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Frame[] = [];
+
+  const childrenOf = (frame: Frame | undefined): TemplateNode[] => {
+    if (!frame) return root;
+    if (frame.kind === "if") return frame.inElse ? frame.node.else : frame.node.then;
+    return frame.options[frame.options.length - 1];
+  };
+  const current = () => childrenOf(stack[stack.length - 1]);
+  const top = () => stack[stack.length - 1];
+
+  // "{text}" without a pipe (or never closed) isn't spintax - put the braces back
+  const spinAsText = (options: TemplateNode[][], closed: boolean): TemplateNode[] => {
+    const nodes: TemplateNode[] = [{ type: "text", value: "{" }];
+    options.forEach((option, i) => {
+      if (i > 0) nodes.push({ type: "text", value: "|" });
+      nodes.push(...option);
+    });
+    if (closed) nodes.push({ type: "text", value: "}" });
+    return nodes;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TOKEN_REGEX)) {
+    const [raw, keyword, expr] = match;
+    const index = match.index ?? 0;
+
+    if (index > lastIndex) {
+      current().push({ type: "text", value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + raw.length;
+
+    const frame = top();
+
+    if (raw === "{") {
+      stack.push({ kind: "spin", options: [[]] });
+    } else if (raw === "|" && frame?.kind === "spin") {
+      frame.options.push([]);
+    } else if (raw === "}" && frame?.kind === "spin") {
+      stack.pop();
+      current().push(
+        ...(frame.options.length > 1 ? [{ type: "choice" as const, options: frame.options }] : spinAsText(frame.options, true))
+      );
+    } else if (raw === "|" || raw === "}") {
+      current().push({ type: "text", value: raw });
+    } else if (keyword === "#if" || keyword === "#unless") {
+      const node: IfNode = {
+        type: "if",
+        name: expr.trim(),
+        negate: keyword === "#unless",
+        then: [],
+        else: [],
+      };
+      current().push(node);
+      stack.push({ kind: "if", node, inElse: false });
+    } else if (keyword === "#variants") {
+      stack.push({ kind: "variants", options: [[]] });
+    } else if (keyword === "else" && frame?.kind === "if") {
+      frame.inElse = true;
+    } else if (keyword === "or" && frame?.kind === "variants") {
+      frame.options.push([]);
+    } else if ((keyword === "/if" || keyword === "/unless") && frame?.kind === "if") {
+      stack.pop();
+    } else if (keyword === "/variants" && frame?.kind === "variants") {
+      stack.pop();
+      current().push({ type: "choice", options: frame.options.map(trimBlockNewlines) });
+    } else if (!keyword && expr) {
+      const pipe = expr.indexOf("|");
+      current().push(
+        pipe === -1
+          ? { type: "var", name: expr.trim() }
+          : { type: "var", name: expr.slice(0, pipe).trim(), fallback: expr.slice(pipe + 1).trim() }
+      );
+    } else {
+      // Stray {{else}} / {{/if}} or empty braces - keep as written
+      current().push({ type: "text", value: raw });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ type: "text", value: template.slice(lastIndex) });
+  }
+
+  // Close anything left open: unfinished spintax becomes text again
+  while (stack.length > 0) {
+    const frame = stack.pop()!;
+    if (frame.kind === "spin") {
+      current().push(...spinAsText(frame.options, false));
+    } else if (frame.kind === "variants") {
+      current().push({ type: "choice", options: frame.options.map(trimBlockNewlines) });
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Drop the line break right after {{#variants}}/{{or}} and right before {{or}}/{{/variants}},
+ * so tags can sit on their own lines without adding blank lines
+ */
+function trimBlockNewlines(option: TemplateNode[]): TemplateNode[] {
+  const nodes = [...option];
+  const first = nodes[0];
+  if (first?.type === "text") {
+    nodes[0] = { type: "text", value: first.value.replace(/^\r?\n/, "") };
+  }
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    nodes[nodes.length - 1] = { type: "text", value: last.value.replace(/\r?\n$/, "") };
+  }
+  return nodes;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) seeded from a string hash (FNV-1a)
+ */
+function createRandom(seed: string): () => number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function lookup(context: TemplateContext, name: string): string {
+  let value = context[name];
+  if (value === undefined) {
+    const lower = name.toLowerCase();
+    const key = Object.keys(context).find((k) => k.toLowerCase() === lower);
+    value = key ? context[key] : undefined;
+  }
+
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value).trim();
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  context: TemplateContext,
+  missing: Set<string>,
+  random: () => number
+): string {
+  let output = "";
+
+  for (const node of nodes) {
+    if (node.type === "text") {
+      output += node.value;
+    } else if (node.type === "choice") {
+      const option = node.options[Math.floor(random() * node.options.length)];
+      output += renderNodes(option, context, missing, random);
+    } else if (node.type === "var") {
+      const value = lookup(context, node.name);
+      if (value) {
+        output += value;
+      } else if (node.fallback !== undefined) {
+        output += node.fallback;
+      } else {
+        missing.add(node.name);
+      }
+    } else {
+      const hasValue = lookup(context, node.name) !== "";
+      const branch = hasValue !== node.negate ? node.then : node.else;
+      output += renderNodes(branch, context, missing, random);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a template against a context
+ */
+export function renderTemplate(
+  template: string | null | undefined,
+  context: TemplateContext,
+  options: RenderOptions = {}
+): RenderResult {
+  if (!template) return { output: "", missing: [] };
+
+  const missing = new Set<string>();
+  const output = renderNodes(parse(template), context, missing, createRandom(options.seed || ""));
+  return { output, missing: [...missing] };
+}
+
+/**
+ * Seed for a lead's copy of one step's subject or body. Subject and body vary independently.
+ */
+export function getVariationSeed(leadId: string, stepNumber: number, part: "subject" | "body"): string {
+  return `${leadId}:${stepNumber}:${part}`;
+}
+
+/**
+ * Number of distinct versions the spintax and variant pools in a template can produce
+ * (conditionals count their larger branch, since data picks the branch, not chance)
+ */
+export function countVariations(template: string | null | undefined): number {
+  if (!template) return 1;
+
+  const count = (nodes: TemplateNode[]): number =>
+    nodes.reduce((total, node) => {
+      if (node.type === "choice") {
+        return total * node.options.reduce((sum, option) => sum + count(option), 0);
+      }
+      if (node.type === "if") {
+        return total * Math.max(count(node.then), count(node.else));
+      }
+      return total;
+    }, 1);
+
+  return count(parse(template));
+}
+
+/**
+ * Variables a template references (including ones only used in conditionals)
+ */
+export function getTemplateVariables(template: string | null | undefined): string[] {
+  if (!template) return [];
+
+  const names = new Set<string>();
+  const walk = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === "var") names.add(node.name);
+      if (node.type === "if") {
+        names.add(node.name);
+        walk(node.then);
+        walk(node.else);
+      }
+      if (node.type === "choice") node.options.forEach(walk);
+    }
+  };
+  walk(parse(template));
+  return [...names];
+}
+
+/**
+ * Build the merge-field context from a lead, the sending mailbox, company context
+ * and CRM custom fields. Lead fields win over custom fields with the same name.
+ */
+export function buildTemplateContext(source: ContextSource): TemplateContext {
+  const context: TemplateContext = {};
+
+  // CRM custom fields (lowest precedence, also reachable as custom.<key>)
+  for (const [key, value] of Object.entries(source.customFields || {})) {
+    context[key] = value;
+    context[`custom.${key}`] = value;
+  }
+
+  // Company context
+  if (source.company) {
+    context.companyName = source.company.companyName;
+    context.senderCompany = source.company.companyName;
+    context.companyWebsite = source.company.companyWebsite;
+    context.companyDescription = source.company.companyDescription;
+    context.industry = source.company.industry;
+  }
+
+  // Sender
+  if (source.sender) {
+    context.senderName = source.sender.name;
+    context.senderFirstName = source.sender.name?.split(/\s+/)[0];
+    context.senderEmail = source.sender.email;
+    context.senderTitle = source.sender.title;
+    context.signature = source.sender.signature;
+  }
+
+  // Lead
+  if (source.lead) {
+    for (const [key, value] of Object.entries(source.lead)) {
+      if (EXCLUDED_LEAD_FIELDS.has(key)) continue;
+      if (value === null || value === undefined || typeof value !== "object" || Array.isArray(value)) {
+        context[key] = value as TemplateValue;
+      }
+    }
+    const fullName = `${source.lead.firstName || ""} ${source.lead.lastName || ""}`.trim();
+    context.fullName = fullName || null;
+  }
+
+  return context;
+}
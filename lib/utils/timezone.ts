@@ -0,0 +1,346 @@
+/**
+ * Lead timezone helpers
+ *
+ * Infers an IANA timezone from a lead's school country/region so sequences can be
+ * sent in the recipient's local time. Countries spanning several timezones are
+ * resolved from the region (state, province or city) when it's known, and fall
+ * back to the most populous zone otherwise.
+ */
+
+// Single-timezone countries, plus the default zone for multi-timezone ones
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  // Middle East
+  "united arab emirates": "Asia/Dubai",
+  "uae": "Asia/Dubai",
+  "u.a.e": "Asia/Dubai",
+  "saudi arabia": "Asia/Riyadh",
+  "ksa": "Asia/Riyadh",
+  "qatar": "Asia/Qatar",
+  "kuwait": "Asia/Kuwait",
+  "bahrain": "Asia/Bahrain",
+  "oman": "Asia/Muscat",
+  "jordan": "Asia/Amman",
+  "lebanon": "Asia/Beirut",
+  "israel": "Asia/Jerusalem",
+  "turkey": "Europe/Istanbul",
+  "turkiye": "Europe/Istanbul",
+  "egypt": "Africa/Cairo",
+  "iraq": "Asia/Baghdad",
+  "iran": "Asia/Tehran",
+
+  // South & Central Asia
+  "india": "Asia/Kolkata",
+  "pakistan": "Asia/Karachi",
+  "bangladesh": "Asia/Dhaka",
+  "sri lanka": "Asia/Colombo",
+  "nepal": "Asia/Kathmandu",
+  "kazakhstan": "Asia/Almaty",
+  "uzbekistan": "Asia/Tashkent",
+
+  // East & South-East Asia
+  "singapore": "Asia/Singapore",
+  "malaysia": "Asia/Kuala_Lumpur",
+  "indonesia": "Asia/Jakarta",
+  "thailand": "Asia/Bangkok",
+  "vietnam": "Asia/Ho_Chi_Minh",
+  "viet nam": "Asia/Ho_Chi_Minh",
+  "philippines": "Asia/Manila",
+  "cambodia": "Asia/Phnom_Penh",
+  "myanmar": "Asia/Yangon",
+  "china": "Asia/Shanghai",
+  "hong kong": "Asia/Hong_Kong",
+  "macau": "Asia/Macau",
+  "taiwan": "Asia/Taipei",
+  "japan": "Asia/Tokyo",
+  "south korea": "Asia/Seoul",
+  "korea": "Asia/Seoul",
+  "mongolia": "Asia/Ulaanbaatar",
+
+  // Oceania
+  "australia": "Australia/Sydney",
+  "new zealand": "Pacific/Auckland",
+
+  // Europe
+  "united kingdom": "Europe/London",
+  "uk": "Europe/London",
+  "england": "Europe/London",
+  "scotland": "Europe/London",
+  "wales": "Europe/London",
+  "northern ireland": "Europe/London",
+  "ireland": "Europe/Dublin",
+  "portugal": "Europe/Lisbon",
+  "spain": "Europe/Madrid",
+  "france": "Europe/Paris",
+  "belgium": "Europe/Brussels",
+  "netherlands": "Europe/Amsterdam",
+  "luxembourg": "Europe/Luxembourg",
+  "germany": "Europe/Berlin",
+  "switzerland": "Europe/Zurich",
+  "austria": "Europe/Vienna",
+  "italy": "Europe/Rome",
+  "malta": "Europe/Malta",
+  "denmark": "Europe/Copenhagen",
+  "norway": "Europe/Oslo",
+  "sweden": "Europe/Stockholm",
+  "finland": "Europe/Helsinki",
+  "poland": "Europe/Warsaw",
+  "czech republic": "Europe/Prague",
+  "czechia": "Europe/Prague",
+  "hungary": "Europe/Budapest",
+  "romania": "Europe/Bucharest",
+  "bulgaria": "Europe/Sofia",
+  "greece": "Europe/Athens",
+  "cyprus": "Asia/Nicosia",
+  "ukraine": "Europe/Kyiv",
+  "russia": "Europe/Moscow",
+
+  // Africa
+  "south africa": "Africa/Johannesburg",
+  "nigeria": "Africa/Lagos",
+  "ghana": "Africa/Accra",
+  "kenya": "Africa/Nairobi",
+  "tanzania": "Africa/Dar_es_Salaam",
+  "uganda": "Africa/Kampala",
+  "ethiopia": "Africa/Addis_Ababa",
+  "morocco": "Africa/Casablanca",
+  "mauritius": "Indian/Mauritius",
+
+  // Americas
+  "united states": "America/New_York",
+  "united states of america": "America/New_York",
+  "usa": "America/New_York",
+  "us": "America/New_York",
+  "canada": "America/Toronto",
+  "mexico": "America/Mexico_City",
+  "brazil": "America/Sao_Paulo",
+  "argentina": "America/Argentina/Buenos_Aires",
+  "chile": "America/Santiago",
+  "colombia": "America/Bogota",
+  "peru": "America/Lima",
+};
+
+// ISO 3166-1 alpha-2 codes for the countries above
+const COUNTRY_CODES: Record<string, string> = {
+  ae: "united arab emirates", sa: "saudi arabia", qa: "qatar", kw: "kuwait", bh: "bahrain",
+  om: "oman", jo: "jordan", lb: "lebanon", il: "israel", tr: "turkey", eg: "egypt",
+  in: "india", pk: "pakistan", bd: "bangladesh", lk: "sri lanka", np: "nepal", kz: "kazakhstan",
+  sg: "singapore", my: "malaysia", id: "indonesia", th: "thailand", vn: "vietnam",
+  ph: "philippines", kh: "cambodia", cn: "china", hk: "hong kong", tw: "taiwan", jp: "japan",
+  kr: "south korea", au: "australia", nz: "new zealand", gb: "united kingdom", ie: "ireland",
+  pt: "portugal", es: "spain", fr: "france", be: "belgium", nl: "netherlands", de: "germany",
+  ch: "switzerland", at: "austria", it: "italy", dk: "denmark", no: "norway", se: "sweden",
+  fi: "finland", pl: "poland", cz: "czech republic", gr: "greece", cy: "cyprus", ru: "russia",
+  za: "south africa", ng: "nigeria", gh: "ghana", ke: "kenya", tz: "tanzania", ma: "morocco",
+  ca: "canada", mx: "mexico", br: "brazil", ar: "argentina", cl: "chile", co: "colombia",
+};
+
+// Other names for countries with regions below
+const COUNTRY_ALIASES: Record<string, string> = {
+  "uae": "united arab emirates",
+  "ksa": "saudi arabia",
+  "usa": "united states",
+  "us": "united states",
+  "united states of america": "united states",
+};
+
+// States, provinces and cities that pin down a zone in multi-timezone countries (and the
+// main cities of a few single-zone ones, for leads that only give a city), by country.
+// Keyed by country so the same name elsewhere ("Victoria", Canada; "Georgia", the country)
+// doesn't pick another country's zone.
+const REGION_TIMEZONES: Record<string, Record<string, string>> = {
+  "united arab emirates": {
+    "dubai": "Asia/Dubai",
+    "abu dhabi": "Asia/Dubai",
+    "sharjah": "Asia/Dubai",
+    "ajman": "Asia/Dubai",
+    "ras al khaimah": "Asia/Dubai",
+  },
+  "qatar": {
+    "doha": "Asia/Qatar",
+  },
+  "saudi arabia": {
+    "riyadh": "Asia/Riyadh",
+    "jeddah": "Asia/Riyadh",
+  },
+  "oman": {
+    "muscat": "Asia/Muscat",
+  },
+  "bahrain": {
+    "manama": "Asia/Bahrain",
+  },
+  "indonesia": {
+    "bali": "Asia/Makassar",
+    "sulawesi": "Asia/Makassar",
+    "papua": "Asia/Jayapura",
+  },
+  "australia": {
+    "new south wales": "Australia/Sydney",
+    "nsw": "Australia/Sydney",
+    "sydney": "Australia/Sydney",
+    "victoria": "Australia/Melbourne",
+    "vic": "Australia/Melbourne",
+    "melbourne": "Australia/Melbourne",
+    "queensland": "Australia/Brisbane",
+    "qld": "Australia/Brisbane",
+    "brisbane": "Australia/Brisbane",
+    "south australia": "Australia/Adelaide",
+    "adelaide": "Australia/Adelaide",
+    "western australia": "Australia/Perth",
+    "perth": "Australia/Perth",
+    "tasmania": "Australia/Hobart",
+    "northern territory": "Australia/Darwin",
+    "australian capital territory": "Australia/Sydney",
+    "act": "Australia/Sydney",
+    "canberra": "Australia/Sydney",
+  },
+  "canada": {
+    "ontario": "America/Toronto",
+    "toronto": "America/Toronto",
+    "quebec": "America/Toronto",
+    "montreal": "America/Toronto",
+    "british columbia": "America/Vancouver",
+    "vancouver": "America/Vancouver",
+    "victoria": "America/Vancouver",
+    "alberta": "America/Edmonton",
+    "calgary": "America/Edmonton",
+    "edmonton": "America/Edmonton",
+    "manitoba": "America/Winnipeg",
+    "saskatchewan": "America/Regina",
+    "nova scotia": "America/Halifax",
+    "new brunswick": "America/Halifax",
+    "newfoundland": "America/St_Johns",
+  },
+  "united states": {
+    "new york": "America/New_York",
+    "ny": "America/New_York",
+    "massachusetts": "America/New_York",
+    "boston": "America/New_York",
+    "new jersey": "America/New_York",
+    "pennsylvania": "America/New_York",
+    "washington dc": "America/New_York",
+    "district of columbia": "America/New_York",
+    "virginia": "America/New_York",
+    "maryland": "America/New_York",
+    "connecticut": "America/New_York",
+    "georgia": "America/New_York",
+    "florida": "America/New_York",
+    "miami": "America/New_York",
+    "north carolina": "America/New_York",
+    "south carolina": "America/New_York",
+    "ohio": "America/New_York",
+    "michigan": "America/Detroit",
+    "illinois": "America/Chicago",
+    "chicago": "America/Chicago",
+    "texas": "America/Chicago",
+    "tx": "America/Chicago",
+    "houston": "America/Chicago",
+    "dallas": "America/Chicago",
+    "austin": "America/Chicago",
+    "minnesota": "America/Chicago",
+    "missouri": "America/Chicago",
+    "wisconsin": "America/Chicago",
+    "tennessee": "America/Chicago",
+    "louisiana": "America/Chicago",
+    "colorado": "America/Denver",
+    "denver": "America/Denver",
+    "utah": "America/Denver",
+    "new mexico": "America/Denver",
+    "arizona": "America/Phoenix",
+    "phoenix": "America/Phoenix",
+    "california": "America/Los_Angeles",
+    "ca": "America/Los_Angeles",
+    "los angeles": "America/Los_Angeles",
+    "san francisco": "America/Los_Angeles",
+    "san diego": "America/Los_Angeles",
+    "washington": "America/Los_Angeles",
+    "seattle": "America/Los_Angeles",
+    "oregon": "America/Los_Angeles",
+    "nevada": "America/Los_Angeles",
+    "alaska": "America/Anchorage",
+    "hawaii": "Pacific/Honolulu",
+  },
+  "brazil": {
+    "rio de janeiro": "America/Sao_Paulo",
+    "manaus": "America/Manaus",
+  },
+  "mexico": {
+    "tijuana": "America/Tijuana",
+    "baja california": "America/Tijuana",
+  },
+  "russia": {
+    "saint petersburg": "Europe/Moscow",
+    "novosibirsk": "Asia/Novosibirsk",
+    "vladivostok": "Asia/Vladivostok",
+  },
+};
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[.]/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Check that a timezone name is a valid IANA timezone
+ */
+export function isValidTimezone(timezone: string | null | undefined): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Infer an IANA timezone from a school's country and region.
+ * Returns null when neither is recognised.
+ */
+export function inferTimezone(
+  country: string | null | undefined,
+  region?: string | null
+): string | null {
+  let countryKey: string | null = null;
+  if (country) {
+    countryKey = normalizeKey(country);
+    if (countryKey.length === 2 && COUNTRY_CODES[countryKey]) {
+      countryKey = COUNTRY_CODES[countryKey];
+    }
+    countryKey = COUNTRY_ALIASES[countryKey] || countryKey;
+  }
+  const countryZone = countryKey ? COUNTRY_TIMEZONES[countryKey] || null : null;
+
+  // Region first - it disambiguates multi-timezone countries ("Perth", "California")
+  if (region) {
+    const parts = [region, ...region.split(/[,/-]/)].map(normalizeKey).filter(Boolean);
+
+    // Only the country's own regions count; without a country, a region name that means
+    // the same zone wherever it appears
+    const tables = countryKey
+      ? [REGION_TIMEZONES[countryKey] || {}]
+      : Object.values(REGION_TIMEZONES);
+
+    for (const part of parts) {
+      const zones = new Set(tables.map((table) => table[part]).filter(Boolean));
+      if (zones.size === 1) return [...zones][0];
+    }
+  }
+
+  return countryZone;
+}
+
+/**
+ * Pick a lead's timezone: an explicit valid value wins, otherwise infer from country/region
+ */
+export function resolveLeadTimezone(lead: {
+  timezone?: unknown;
+  schoolCountry?: unknown;
+  schoolRegion?: unknown;
+}): string | null {
+  const explicit = typeof lead.timezone === "string" ? lead.timezone.trim() : null;
+  if (isValidTimezone(explicit)) return explicit;
+
+  return inferTimezone(
+    lead.schoolCountry ? String(lead.schoolCountry) : null,
+    lead.schoolRegion ? String(lead.schoolRegion) : null
+  );
+}
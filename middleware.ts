@@ -3,7 +3,9 @@ import { NextResponse } from "next/server";
 
 // Routes that don't require authentication
 const publicRoutes = ["/login", "/signup", "/home", "/forgot-password"];
-const publicApiRoutes = ["/api/auth", "/api/webhooks"];
+const publicApiRoutes = ["/api/auth", "/api/webhooks", "/api/unsubscribe"];
+// POSTs from a cron, checked against CRON_SECRET by the route itself
+const cronApiRoutes = ["/api/queue"];
 
 export default auth((req) => {
   const { nextUrl } = req;
@@ -19,6 +21,8 @@ export default auth((req) => {
     nextUrl.pathname.startsWith(route)
   );
 
+  const isCronApiRoute = req.method === "POST" && cronApiRoutes.includes(nextUrl.pathname);
+
   // Check if it's an API route
   const isApiRoute = nextUrl.pathname.startsWith("/api");
 
@@ -32,7 +36,7 @@ export default auth((req) => {
   }
 
   // Allow public API routes
-  if (isPublicApiRoute) {
+  if (isPublicApiRoute || isCronApiRoute) {
     return NextResponse.next();
   }
 
@@ -0,0 +1,73 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding A/B testing tables and columns...\n");
+
+  // Create touchpoint_variants table
+  try {
+    await sql`
+      CREATE TABLE IF NOT EXISTS touchpoint_variants (
+        id text PRIMARY KEY,
+        touchpoint_template_id text NOT NULL REFERENCES touchpoint_templates(id) ON DELETE CASCADE,
+        label text NOT NULL,
+        subject text,
+        body text,
+        weight integer DEFAULT 1,
+        is_active boolean DEFAULT true,
+        created_at timestamp DEFAULT now(),
+        updated_at timestamp DEFAULT now()
+      )
+    `;
+    console.log("✓ Created: touchpoint_variants table");
+  } catch (e) { console.log("✗ touchpoint_variants:", (e as Error).message); }
+
+  try {
+    await sql`CREATE INDEX IF NOT EXISTS touchpoint_variants_template_id_idx ON touchpoint_variants(touchpoint_template_id)`;
+    console.log("✓ Added: index on touchpoint_variants.touchpoint_template_id");
+  } catch (e) { console.log("✗ touchpoint_variants index:", (e as Error).message); }
+
+  // Test settings on touchpoint_templates
+  try {
+    await sql`ALTER TABLE touchpoint_templates ADD COLUMN IF NOT EXISTS ab_test_metric text DEFAULT 'reply'`;
+    console.log("✓ Added: touchpoint_templates.ab_test_metric");
+  } catch (e) { console.log("✗ ab_test_metric:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE touchpoint_templates ADD COLUMN IF NOT EXISTS ab_test_min_sends integer DEFAULT 100`;
+    console.log("✓ Added: touchpoint_templates.ab_test_min_sends");
+  } catch (e) { console.log("✗ ab_test_min_sends:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE touchpoint_templates ADD COLUMN IF NOT EXISTS auto_promote_winner boolean DEFAULT false`;
+    console.log("✓ Added: touchpoint_templates.auto_promote_winner");
+  } catch (e) { console.log("✗ auto_promote_winner:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE touchpoint_templates ADD COLUMN IF NOT EXISTS winning_variant_id text`;
+    console.log("✓ Added: touchpoint_templates.winning_variant_id");
+  } catch (e) { console.log("✗ winning_variant_id:", (e as Error).message); }
+
+  // Variant assignment on lead_touchpoints
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS variant_id text REFERENCES touchpoint_variants(id) ON DELETE SET NULL`;
+    console.log("✓ Added: lead_touchpoints.variant_id");
+  } catch (e) { console.log("✗ variant_id:", (e as Error).message); }
+
+  try {
+    await sql`CREATE INDEX IF NOT EXISTS lead_touchpoints_variant_id_idx ON lead_touchpoints(variant_id)`;
+    console.log("✓ Added: index on lead_touchpoints.variant_id");
+  } catch (e) { console.log("✗ variant_id index:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,28 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding campaign settings columns...\n");
+
+  try {
+    await sql`ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS daily_limit integer`;
+    console.log("✓ Added: campaigns.daily_limit");
+  } catch (e) { console.log("✗ daily_limit:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS tags jsonb DEFAULT '[]'::jsonb`;
+    console.log("✓ Added: campaigns.tags");
+  } catch (e) { console.log("✗ tags:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,42 @@
+import postgres from "postgres";
+import { inferTimezone } from "../lib/utils/timezone";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding timezone column to leads table...\n");
+
+  try {
+    await sql`ALTER TABLE leads ADD COLUMN IF NOT EXISTS timezone text`;
+    console.log("✓ Added: timezone");
+  } catch (e) { console.log("✗ timezone:", (e as Error).message); }
+
+  // Backfill from school country/region
+  try {
+    const rows = await sql<{ id: string; school_country: string | null; school_region: string | null }[]>`
+      SELECT id, school_country, school_region FROM leads WHERE timezone IS NULL
+    `;
+
+    let updated = 0;
+    for (const row of rows) {
+      const timezone = inferTimezone(row.school_country, row.school_region);
+      if (!timezone) continue;
+
+      await sql`UPDATE leads SET timezone = ${timezone} WHERE id = ${row.id}`;
+      updated++;
+    }
+
+    console.log(`✓ Inferred timezone for ${updated}/${rows.length} leads`);
+  } catch (e) { console.log("✗ timezone backfill:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
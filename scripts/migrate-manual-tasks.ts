@@ -0,0 +1,35 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding manual task columns...\n");
+
+  // Personalised talking points for calls/LinkedIn
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS talking_points jsonb`;
+    console.log("✓ Added: lead_touchpoints.talking_points");
+  } catch (e) { console.log("✗ talking_points:", (e as Error).message); }
+
+  // Task outcome
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS completed_at timestamp`;
+    console.log("✓ Added: lead_touchpoints.completed_at");
+  } catch (e) { console.log("✗ completed_at:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS task_notes text`;
+    console.log("✓ Added: lead_touchpoints.task_notes");
+  } catch (e) { console.log("✗ task_notes:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,24 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding messaging columns...\n");
+
+  // SMS and WhatsApp messages share the inbox with email
+  try {
+    await sql`ALTER TABLE inbox_messages ADD COLUMN IF NOT EXISTS channel channel_type DEFAULT 'email'`;
+    console.log("✓ Added: inbox_messages.channel");
+  } catch (e) { console.log("✗ channel:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
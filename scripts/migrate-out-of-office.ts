@@ -0,0 +1,23 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding out-of-office pause column...\n");
+
+  try {
+    await sql`ALTER TABLE leads ADD COLUMN IF NOT EXISTS paused_until timestamp`;
+    console.log("✓ Added: leads.paused_until");
+  } catch (e) { console.log("✗ leads.paused_until:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,59 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding pause/resume columns...\n");
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS paused_at timestamp`;
+    console.log("✓ Added: lead_touchpoints.paused_at");
+  } catch (e) { console.log("✗ lead_touchpoints.paused_at:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE leads ADD COLUMN IF NOT EXISTS paused_at timestamp`;
+    console.log("✓ Added: leads.paused_at");
+  } catch (e) { console.log("✗ leads.paused_at:", (e as Error).message); }
+
+  try {
+    await sql`
+      CREATE TABLE IF NOT EXISTS pause_events (
+        id text PRIMARY KEY,
+        campaign_id text REFERENCES campaigns(id) ON DELETE CASCADE,
+        lead_id text REFERENCES leads(id) ON DELETE CASCADE,
+        action text NOT NULL,
+        reason text,
+        user_id text REFERENCES users(id) ON DELETE SET NULL,
+        touchpoints integer DEFAULT 0,
+        created_at timestamp DEFAULT now()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS pause_events_campaign_id_idx ON pause_events (campaign_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS pause_events_lead_id_idx ON pause_events (lead_id)`;
+    console.log("✓ Created: pause_events");
+  } catch (e) { console.log("✗ pause_events:", (e as Error).message); }
+
+  // Campaigns paused before this change never froze their touchpoints - freeze them from now,
+  // so resuming them keeps the delays from here on
+  try {
+    const frozen = await sql`
+      UPDATE lead_touchpoints SET paused_at = (now() AT TIME ZONE 'utc')
+      WHERE status = 'pending' AND sent_at IS NULL AND paused_at IS NULL
+        AND lead_id IN (
+          SELECT l.id FROM leads l JOIN campaigns c ON c.id = l.campaign_id WHERE c.status = 'paused'
+        )
+    `;
+    console.log(`✓ Froze ${frozen.count} touchpoints of paused campaigns`);
+  } catch (e) { console.log("✗ freeze paused campaigns:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,28 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding provider message ID column...\n");
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS provider_message_id text`;
+    console.log("✓ Added: lead_touchpoints.provider_message_id");
+  } catch (e) { console.log("✗ lead_touchpoints.provider_message_id:", (e as Error).message); }
+
+  try {
+    await sql`CREATE INDEX IF NOT EXISTS lead_touchpoints_provider_message_id_idx ON lead_touchpoints (provider_message_id)`;
+    console.log("✓ Added: index on lead_touchpoints.provider_message_id");
+  } catch (e) { console.log("✗ lead_touchpoints index:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,23 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding referral column...\n");
+
+  try {
+    await sql`ALTER TABLE leads ADD COLUMN IF NOT EXISTS referred_by_lead_id text REFERENCES leads(id) ON DELETE SET NULL`;
+    console.log("✓ Added: leads.referred_by_lead_id");
+  } catch (e) { console.log("✗ leads.referred_by_lead_id:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,33 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding reply intent columns...\n");
+
+  try {
+    await sql`ALTER TABLE inbox_messages ADD COLUMN IF NOT EXISTS reply_intent text`;
+    console.log("✓ Added: inbox_messages.reply_intent");
+  } catch (e) { console.log("✗ inbox_messages.reply_intent:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE inbox_messages ADD COLUMN IF NOT EXISTS reply_intent_confidence integer`;
+    console.log("✓ Added: inbox_messages.reply_intent_confidence");
+  } catch (e) { console.log("✗ inbox_messages.reply_intent_confidence:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE leads ADD COLUMN IF NOT EXISTS reply_sentiment text`;
+    console.log("✓ Added: leads.reply_sentiment");
+  } catch (e) { console.log("✗ leads.reply_sentiment:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
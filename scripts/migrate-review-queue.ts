@@ -0,0 +1,66 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding review queue columns...\n");
+
+  // Workspace review policy
+  try {
+    await sql`ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS auto_approve_confidence integer DEFAULT 8`;
+    console.log("✓ Added: workspaces.auto_approve_confidence");
+  } catch (e) { console.log("✗ auto_approve_confidence:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS review_sla_hours integer DEFAULT 24`;
+    console.log("✓ Added: workspaces.review_sla_hours");
+  } catch (e) { console.log("✗ review_sla_hours:", (e as Error).message); }
+
+  // Review of each draft
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS review_requested_at timestamp`;
+    // Drafts already waiting start their SLA from their last change
+    await sql`
+      UPDATE lead_touchpoints SET review_requested_at = updated_at
+      WHERE review_status = 'pending_review' AND review_requested_at IS NULL
+    `;
+    console.log("✓ Added: lead_touchpoints.review_requested_at");
+  } catch (e) { console.log("✗ review_requested_at:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS reviewer_id text REFERENCES users(id) ON DELETE SET NULL`;
+    await sql`CREATE INDEX IF NOT EXISTS lead_touchpoints_reviewer_id_idx ON lead_touchpoints (reviewer_id)`;
+    console.log("✓ Added: lead_touchpoints.reviewer_id");
+  } catch (e) { console.log("✗ reviewer_id:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS reviewed_by text REFERENCES users(id) ON DELETE SET NULL`;
+    console.log("✓ Added: lead_touchpoints.reviewed_by");
+  } catch (e) { console.log("✗ reviewed_by:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS reviewed_at timestamp`;
+    console.log("✓ Added: lead_touchpoints.reviewed_at");
+  } catch (e) { console.log("✗ reviewed_at:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS review_note text`;
+    console.log("✓ Added: lead_touchpoints.review_note");
+  } catch (e) { console.log("✗ review_note:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS rejection_reason text`;
+    console.log("✓ Added: lead_touchpoints.rejection_reason");
+  } catch (e) { console.log("✗ rejection_reason:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
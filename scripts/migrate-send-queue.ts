@@ -0,0 +1,38 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding send queue columns...\n");
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS attempts integer DEFAULT 0`;
+    console.log("✓ Added: lead_touchpoints.attempts");
+  } catch (e) { console.log("✗ lead_touchpoints.attempts:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS locked_at timestamp`;
+    console.log("✓ Added: lead_touchpoints.locked_at");
+  } catch (e) { console.log("✗ lead_touchpoints.locked_at:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS locked_by text`;
+    console.log("✓ Added: lead_touchpoints.locked_by");
+  } catch (e) { console.log("✗ lead_touchpoints.locked_by:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE sending_domains ADD COLUMN IF NOT EXISTS last_sent_at timestamp`;
+    console.log("✓ Added: sending_domains.last_sent_at");
+  } catch (e) { console.log("✗ sending_domains.last_sent_at:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
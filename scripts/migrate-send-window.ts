@@ -0,0 +1,23 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding sending window column...\n");
+
+  try {
+    await sql`ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS scheduling_settings jsonb`;
+    console.log("✓ Added: campaigns.scheduling_settings");
+  } catch (e) { console.log("✗ campaigns.scheduling_settings:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,39 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding lead sender pinning...\n");
+
+  try {
+    await sql`ALTER TABLE leads ADD COLUMN IF NOT EXISTS sender_domain_id text REFERENCES sending_domains(id) ON DELETE SET NULL`;
+    console.log("✓ Added: leads.sender_domain_id");
+  } catch (e) { console.log("✗ leads.sender_domain_id:", (e as Error).message); }
+
+  // Leads already emailed stay on the mailbox that sent their first email
+  try {
+    const pinned = await sql`
+      UPDATE leads l SET sender_domain_id = first_send.domain_id
+      FROM (
+        SELECT DISTINCT ON (m.lead_id) m.lead_id, d.id AS domain_id
+        FROM inbox_messages m
+        JOIN sending_domains d ON lower(d.from_email) = lower(m.from_email)
+        WHERE m.direction = 'outbound' AND m.lead_id IS NOT NULL
+        ORDER BY m.lead_id, m.created_at ASC
+      ) first_send
+      WHERE l.id = first_send.lead_id AND l.sender_domain_id IS NULL
+    `;
+    console.log(`✓ Pinned ${pinned.count} leads to their first sender`);
+  } catch (e) { console.log("✗ backfill sender_domain_id:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,57 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding sequence library tables...\n");
+
+  try {
+    await sql`
+      CREATE TABLE IF NOT EXISTS sequence_library (
+        id text PRIMARY KEY,
+        workspace_id text REFERENCES workspaces(id) ON DELETE CASCADE,
+        name text NOT NULL,
+        description text,
+        latest_version integer NOT NULL DEFAULT 1,
+        created_from_campaign_id text REFERENCES campaigns(id) ON DELETE SET NULL,
+        is_archived boolean DEFAULT false,
+        created_at timestamp DEFAULT now(),
+        updated_at timestamp DEFAULT now()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS sequence_library_workspace_id_idx ON sequence_library (workspace_id)`;
+    console.log("✓ Created: sequence_library");
+  } catch (e) { console.log("✗ sequence_library:", (e as Error).message); }
+
+  // Immutable snapshots - a campaign copies one of these
+  try {
+    await sql`
+      CREATE TABLE IF NOT EXISTS sequence_library_versions (
+        id text PRIMARY KEY,
+        library_id text NOT NULL REFERENCES sequence_library(id) ON DELETE CASCADE,
+        version integer NOT NULL,
+        steps jsonb NOT NULL,
+        change_note text,
+        created_at timestamp DEFAULT now()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS sequence_library_versions_library_id_idx ON sequence_library_versions (library_id, version)`;
+    console.log("✓ Created: sequence_library_versions");
+  } catch (e) { console.log("✗ sequence_library_versions:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE sequence_templates ADD COLUMN IF NOT EXISTS library_version_id text REFERENCES sequence_library_versions(id) ON DELETE SET NULL`;
+    console.log("✓ Added: sequence_templates.library_version_id");
+  } catch (e) { console.log("✗ library_version_id:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,24 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding sequence branching columns...\n");
+
+  // Step condition (opened/clicked/replied on earlier steps)
+  try {
+    await sql`ALTER TABLE touchpoint_templates ADD COLUMN IF NOT EXISTS condition jsonb`;
+    console.log("✓ Added: touchpoint_templates.condition");
+  } catch (e) { console.log("✗ condition:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
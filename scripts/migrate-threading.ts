@@ -0,0 +1,28 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+async function migrate() {
+  console.log("Adding threading columns...\n");
+
+  try {
+    await sql`ALTER TABLE touchpoint_templates ADD COLUMN IF NOT EXISTS reply_in_thread boolean DEFAULT false`;
+    console.log("✓ Added: touchpoint_templates.reply_in_thread");
+  } catch (e) { console.log("✗ touchpoint_templates.reply_in_thread:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS message_id text`;
+    console.log("✓ Added: lead_touchpoints.message_id");
+  } catch (e) { console.log("✗ lead_touchpoints.message_id:", (e as Error).message); }
+
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);
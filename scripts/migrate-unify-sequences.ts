@@ -0,0 +1,139 @@
+import postgres from "postgres";
+
+const DATABASE_URL = process.env.DATABASE_URL;
+if (!DATABASE_URL) {
+  console.error("DATABASE_URL not set");
+  process.exit(1);
+}
+
+const sql = postgres(DATABASE_URL);
+
+// Days before each step - same as EMAIL_CADENCE in lib/services/email-sender.ts
+const EMAIL_CADENCE: Record<number, number> = { 1: 0, 2: 3, 3: 4, 4: 5, 5: 7 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface LegacySequence {
+  id: string;
+  lead_id: string;
+  status: string | null;
+  primary_angle: string | null;
+  secondary_angle: string | null;
+  tertiary_angle: string | null;
+  next_send_at: Date | null;
+  confidence_score: number | null;
+  confidence_reason: string | null;
+  created_at: Date | null;
+  [column: string]: unknown;
+}
+
+async function migrate() {
+  console.log("Moving email sequences onto lead touchpoints...\n");
+
+  try {
+    await sql`CREATE TYPE review_status AS ENUM ('draft', 'pending_review', 'approved')`;
+    console.log("✓ Created: review_status enum");
+  } catch (e) {
+    if ((e as Error).message.includes("already exists")) {
+      console.log("• Skipped: review_status enum (already exists)");
+    } else {
+      console.log("✗ review_status enum:", (e as Error).message);
+    }
+  }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS angle text`;
+    console.log("✓ Added: angle");
+  } catch (e) { console.log("✗ angle:", (e as Error).message); }
+
+  try {
+    await sql`ALTER TABLE lead_touchpoints ADD COLUMN IF NOT EXISTS review_status review_status`;
+    await sql`CREATE INDEX IF NOT EXISTS lead_touchpoints_review_status_idx ON lead_touchpoints (review_status)`;
+    console.log("✓ Added: review_status");
+  } catch (e) { console.log("✗ review_status:", (e as Error).message); }
+
+  // Each email_1..email_5 column group becomes one email touchpoint
+  let converted = 0;
+  let skipped = 0;
+  let failed = 0;
+  try {
+    const sequences = await sql<LegacySequence[]>`SELECT * FROM email_sequences ORDER BY created_at`;
+
+    for (const seq of sequences) {
+      try {
+        const [existing] = await sql`SELECT id FROM lead_touchpoints WHERE lead_id = ${seq.lead_id} LIMIT 1`;
+        if (existing) {
+          console.log(`• Skipped: sequence ${seq.id} (lead ${seq.lead_id} already has touchpoints)`);
+          skipped++;
+          continue;
+        }
+
+        const reviewStatus = seq.status === "draft" || seq.status === "pending_review" ? seq.status : "approved";
+        const angles: Record<number, string | null> = {
+          2: seq.primary_angle,
+          3: seq.secondary_angle,
+          4: seq.tertiary_angle,
+        };
+
+        let sendAt: Date | null = null;
+        let firstUnsent = true;
+        for (let step = 1; step <= 5; step++) {
+          const subject = seq[`email_${step}_subject`] as string | null;
+          const body = seq[`email_${step}_body`] as string | null;
+          const sentAt = seq[`email_${step}_sent_at`] as Date | null;
+          if (!subject && !body) continue;
+
+          let status = "pending";
+          let scheduledAt: Date | null = null;
+          if (sentAt) {
+            status = "sent";
+            sendAt = sentAt;
+          } else if (seq.status === "stopped") {
+            status = "cancelled";
+          } else if (seq.status === "completed") {
+            status = "skipped";
+          } else if (seq.status === "active") {
+            // The next email keeps its slot, later ones follow on the cadence
+            sendAt = firstUnsent && seq.next_send_at
+              ? seq.next_send_at
+              : new Date((sendAt || new Date()).getTime() + (EMAIL_CADENCE[step] ?? 3) * DAY_MS);
+            scheduledAt = sendAt;
+            firstUnsent = false;
+          }
+
+          await sql`
+            INSERT INTO lead_touchpoints (
+              id, lead_id, step_number, channel, subject, body, angle, review_status, status,
+              scheduled_at, sent_at, confidence_score, confidence_reason, created_at, updated_at
+            ) VALUES (
+              ${crypto.randomUUID()}, ${seq.lead_id}, ${step}, 'email', ${subject}, ${body},
+              ${angles[step] || null}, ${reviewStatus}, ${status}, ${scheduledAt}, ${sentAt},
+              ${seq.confidence_score}, ${seq.confidence_reason}, ${seq.created_at || new Date()}, now()
+            )
+          `;
+        }
+        converted++;
+      } catch (e) {
+        console.log(`✗ sequence ${seq.id}:`, (e as Error).message);
+        failed++;
+      }
+    }
+
+    console.log(`✓ Converted ${converted}/${sequences.length} sequences (${skipped} skipped, ${failed} failed)`);
+  } catch (e) { console.log("✗ email_sequences:", (e as Error).message); }
+
+  // Inbox messages no longer point at a sequence - the lead's touchpoints are the sequence
+  if (failed === 0) {
+    try {
+      await sql`ALTER TABLE inbox_messages DROP COLUMN IF EXISTS sequence_id`;
+      console.log("✓ Dropped: inbox_messages.sequence_id");
+    } catch (e) { console.log("✗ sequence_id:", (e as Error).message); }
+  } else {
+    console.log("• Kept: inbox_messages.sequence_id (fix the failed sequences and run again)");
+  }
+
+  console.log("\nemail_sequences is left in place - drop it once the converted touchpoints look right.");
+  console.log("\n✅ Migration complete!");
+  await sql.end();
+}
+
+migrate().catch(console.error);